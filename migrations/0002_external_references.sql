@@ -0,0 +1,6 @@
+-- External references for feedback pulled in from integrations (GitHub, email, chat)
+-- external_id is unique per source so webhook redeliveries update instead of duplicating
+ALTER TABLE feedback ADD COLUMN external_id TEXT;
+ALTER TABLE feedback ADD COLUMN metadata TEXT; -- JSON: integration-specific details (labels, state, thread ids)
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_source_external_id ON feedback(source, external_id);
@@ -0,0 +1,4 @@
+-- Email threading: replies are stored against the feedback that started the thread
+ALTER TABLE feedback ADD COLUMN parent_id TEXT REFERENCES feedback(id);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_parent_id ON feedback(parent_id);
@@ -0,0 +1,13 @@
+-- Idempotency-Key replay store for POST /feedback
+-- response is NULL while the first request with a key is still in flight
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  idempotency_key TEXT PRIMARY KEY,
+  feedback_id TEXT,
+  response TEXT,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at ON idempotency_keys(created_at);
+-- Cross-post detection looks up recent feedback by user
+CREATE INDEX IF NOT EXISTS idx_feedback_user_timestamp ON feedback(user, timestamp);
@@ -0,0 +1,23 @@
+-- Asynchronous triage: each feedback row tracks where it is in the queue pipeline
+-- NULL = never enqueued (seed data, bulk imports and rows created before the pipeline existed)
+ALTER TABLE feedback ADD COLUMN pipeline_status TEXT;
+ALTER TABLE feedback ADD COLUMN pipeline_attempts INTEGER DEFAULT 0;
+ALTER TABLE feedback ADD COLUMN pipeline_error TEXT;
+ALTER TABLE feedback ADD COLUMN pipeline_updated_at INTEGER;
+-- Embedding computed by the pipeline (JSON array), reused by clustering
+ALTER TABLE feedback ADD COLUMN embedding TEXT;
+
+-- Messages that failed every retry
+CREATE TABLE IF NOT EXISTS dead_letters (
+  dead_letter_id TEXT PRIMARY KEY,
+  feedback_id TEXT NOT NULL,
+  queue TEXT NOT NULL,
+  message TEXT NOT NULL,
+  attempts INTEGER NOT NULL,
+  error TEXT,
+  failed_at INTEGER NOT NULL,
+  FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_pipeline_status ON feedback(pipeline_status);
+CREATE INDEX IF NOT EXISTS idx_dead_letters_feedback_id ON dead_letters(feedback_id);
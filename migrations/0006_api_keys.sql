@@ -0,0 +1,13 @@
+-- API keys: only the SHA-256 hash of each key is stored
+-- scopes is a JSON array of 'ingest' | 'read' | 'admin'
+CREATE TABLE IF NOT EXISTS api_keys (
+  key_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  key_prefix TEXT NOT NULL, -- first characters of the key, to recognise it in listings
+  scopes TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  created_by TEXT,
+  last_used_at INTEGER,
+  revoked_at INTEGER
+);
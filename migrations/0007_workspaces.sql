@@ -0,0 +1,27 @@
+-- Workspaces: one per product, each with its own feedback stream, clusters and digests
+-- settings is JSON overriding parts of the global config (telegram chat, keywords, weights, digest schedule)
+CREATE TABLE IF NOT EXISTS workspaces (
+  workspace_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  settings TEXT,
+  created_at INTEGER NOT NULL,
+  last_digest_at INTEGER
+);
+
+-- Existing data becomes the default workspace
+INSERT OR IGNORE INTO workspaces (workspace_id, name, created_at) VALUES ('default', 'Default', CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+
+ALTER TABLE feedback ADD COLUMN workspace_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE clusters ADD COLUMN workspace_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE digests ADD COLUMN workspace_id TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE instant_alerts ADD COLUMN workspace_id TEXT NOT NULL DEFAULT 'default';
+-- NULL = key works in every workspace
+ALTER TABLE api_keys ADD COLUMN workspace_id TEXT;
+
+-- External ids are unique within a workspace, not globally
+DROP INDEX IF EXISTS idx_feedback_source_external_id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feedback_workspace_source_external_id ON feedback(workspace_id, source, external_id);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_workspace_timestamp ON feedback(workspace_id, timestamp);
+CREATE INDEX IF NOT EXISTS idx_clusters_workspace_last_seen ON clusters(workspace_id, last_seen);
+CREATE INDEX IF NOT EXISTS idx_digests_workspace_generated_at ON digests(workspace_id, generated_at);
@@ -0,0 +1,34 @@
+-- Triage rules: the hard-rule layer run before AI classification (replaces config p0Keywords)
+-- match_type: 'phrase' | 'substring' | 'regex'; negations and sources are JSON arrays
+CREATE TABLE IF NOT EXISTS triage_rules (
+  rule_id TEXT PRIMARY KEY,
+  workspace_id TEXT, -- NULL = every workspace
+  name TEXT NOT NULL,
+  match_type TEXT NOT NULL DEFAULT 'phrase',
+  pattern TEXT NOT NULL,
+  negations TEXT NOT NULL DEFAULT '[]',
+  sources TEXT NOT NULL DEFAULT '[]',
+  severity TEXT NOT NULL DEFAULT 'P0',
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_triage_rules_workspace ON triage_rules(workspace_id);
+
+-- Which rule set the severity, and which rule an alert came from
+ALTER TABLE feedback ADD COLUMN triage_rule_id TEXT;
+ALTER TABLE instant_alerts ADD COLUMN rule_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_instant_alerts_rule ON instant_alerts(rule_id, sent_at);
+
+-- Starting rules, equivalent to the old keyword list minus its noisiest entries:
+-- "deleted" and "refund" on their own now only raise P1 when paired with data or billing words
+INSERT OR IGNORE INTO triage_rules (rule_id, workspace_id, name, match_type, pattern, negations, severity, created_at, updated_at) VALUES
+  ('default-crash', NULL, 'App crash / won''t open', 'regex', '\bcrash(es|ed|ing)?\b|won''t open|stuck on launch|app broken|completely broken', '["not a crash","no crash","no crashes","never crashed","doesn''t crash","didn''t crash"]', 'P0', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+  ('default-login', NULL, 'Locked out / can''t log in', 'regex', 'can''t log ?in|cannot log ?in|locked out|otp not working|account locked|cannot access|login failed', '[]', 'P0', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+  ('default-payment', NULL, 'Payment failure', 'regex', 'payment (failed|error|not working)|charged twice|billing error|subscription broken|can''t pay|transaction failed', '[]', 'P0', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+  ('default-data-loss', NULL, 'Data loss', 'regex', 'data loss|missing data|lost (all )?my (data|files|work)|(data|files|account) (was|were|got) deleted', '[]', 'P0', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+  ('default-security', NULL, 'Security / privacy incident', 'regex', 'security breach|hacked|pii leak|data breach|privacy issue|unauthori[sz]ed access', '[]', 'P0', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+  ('default-outage', NULL, 'Outage', 'regex', 'production down|all users affected|complete outage|(service|system) (is )?down', '[]', 'P0', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000),
+  ('default-refund', NULL, 'Refund request', 'phrase', 'refund', '["no refund needed","don''t need a refund"]', 'P1', CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000);
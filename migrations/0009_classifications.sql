@@ -0,0 +1,9 @@
+-- Full classification result per feedback, stored once and reused by alerts and clustering
+ALTER TABLE feedback ADD COLUMN classification_category TEXT;
+ALTER TABLE feedback ADD COLUMN classification_summary TEXT;
+ALTER TABLE feedback ADD COLUMN classification_reasoning TEXT;
+ALTER TABLE feedback ADD COLUMN classification_model TEXT;
+ALTER TABLE feedback ADD COLUMN classification_prompt_version TEXT;
+ALTER TABLE feedback ADD COLUMN classified_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_prompt_version ON feedback(classification_prompt_version);
@@ -0,0 +1,13 @@
+-- Alert grouping: similar reports update an open alert's Telegram message instead of posting a new one
+-- kind: 'alert' | 'overflow' (the summary for reports held back by the hourly limit)
+ALTER TABLE instant_alerts ADD COLUMN kind TEXT NOT NULL DEFAULT 'alert';
+ALTER TABLE instant_alerts ADD COLUMN telegram_message_id INTEGER;
+ALTER TABLE instant_alerts ADD COLUMN report_count INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE instant_alerts ADD COLUMN last_report_at INTEGER;
+ALTER TABLE instant_alerts ADD COLUMN embedding TEXT;
+
+-- The alert (or overflow summary) a feedback was counted in
+ALTER TABLE feedback ADD COLUMN instant_alert_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_instant_alerts_workspace_kind ON instant_alerts(workspace_id, kind, last_report_at);
+CREATE INDEX IF NOT EXISTS idx_feedback_instant_alert ON feedback(instant_alert_id);
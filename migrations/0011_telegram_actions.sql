@@ -0,0 +1,12 @@
+-- Telegram inline actions: Ack / Snooze 24h / Mark fixed / Won't fix on alerts and digest issues
+-- last_action: 'ack' | 'snooze' | 'fixed' | 'wontfix'; action_by is the Telegram user who pressed it
+ALTER TABLE instant_alerts ADD COLUMN last_action TEXT;
+ALTER TABLE instant_alerts ADD COLUMN action_by TEXT;
+ALTER TABLE instant_alerts ADD COLUMN action_at INTEGER;
+ALTER TABLE instant_alerts ADD COLUMN snoozed_until INTEGER;
+
+-- Won't fix sets clusters.fix_status = 'wont_fix'; snoozed clusters stay out of the digest until snoozed_until
+ALTER TABLE clusters ADD COLUMN last_action TEXT;
+ALTER TABLE clusters ADD COLUMN action_by TEXT;
+ALTER TABLE clusters ADD COLUMN action_at INTEGER;
+ALTER TABLE clusters ADD COLUMN snoozed_until INTEGER;
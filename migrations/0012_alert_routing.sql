@@ -0,0 +1,48 @@
+-- Alert routing: named destinations and the routes that pick them by category, severity, source or keyword
+-- "default" is implicit: the workspace's own telegram chat, used when no route matches
+CREATE TABLE IF NOT EXISTS alert_destinations (
+  workspace_id TEXT NOT NULL,
+  destination_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'telegram',
+  target TEXT NOT NULL, -- Telegram chat id
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (workspace_id, destination_id)
+);
+
+-- categories, severities, sources, keywords and destinations are JSON arrays
+CREATE TABLE IF NOT EXISTS alert_routes (
+  route_id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  categories TEXT NOT NULL DEFAULT '[]',
+  severities TEXT NOT NULL DEFAULT '[]',
+  sources TEXT NOT NULL DEFAULT '[]',
+  keywords TEXT NOT NULL DEFAULT '[]',
+  destinations TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_routes_workspace ON alert_routes(workspace_id);
+
+-- One instant_alerts row per destination a feedback was sent to
+ALTER TABLE instant_alerts ADD COLUMN destination TEXT NOT NULL DEFAULT 'default';
+
+CREATE INDEX IF NOT EXISTS idx_instant_alerts_destination ON instant_alerts(workspace_id, destination, kind, last_report_at);
+
+-- Every alert (or overflow summary) a feedback was counted in; feedback.instant_alert_id keeps the first
+CREATE TABLE IF NOT EXISTS alert_reports (
+  alert_id TEXT NOT NULL,
+  feedback_id TEXT NOT NULL,
+  destination TEXT NOT NULL,
+  reported_at INTEGER NOT NULL,
+  PRIMARY KEY (alert_id, feedback_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_reports_feedback ON alert_reports(feedback_id, destination);
+
+INSERT OR IGNORE INTO alert_reports (alert_id, feedback_id, destination, reported_at)
+  SELECT instant_alert_id, id, 'default', timestamp FROM feedback WHERE instant_alert_id IS NOT NULL;
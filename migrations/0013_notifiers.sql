@@ -0,0 +1,3 @@
+-- Notifiers: destinations can be Telegram chats, Slack incoming webhooks, email addresses or signed webhooks
+-- target holds the chat id, webhook URL or comma-separated addresses; secret signs webhook requests
+ALTER TABLE alert_destinations ADD COLUMN secret TEXT;
@@ -0,0 +1,41 @@
+-- Delivery outbox: digests waiting to reach a destination, retried with backoff by the cron
+-- payload is the channel-neutral DigestView, so a retry sends exactly what the first attempt did
+CREATE TABLE IF NOT EXISTS delivery_outbox (
+  outbox_id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  destination TEXT NOT NULL,
+  kind TEXT NOT NULL, -- digest
+  ref_id TEXT NOT NULL, -- digest_id
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, sent, failed
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at INTEGER,
+  last_error TEXT,
+  message_id TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_outbox_due ON delivery_outbox(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_delivery_outbox_ref ON delivery_outbox(ref_id);
+
+-- One row per attempt to reach a destination: alerts, alert updates, overflow summaries, digests and test messages
+CREATE TABLE IF NOT EXISTS delivery_log (
+  log_id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  destination TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  ref_id TEXT, -- alert_id or digest_id
+  feedback_id TEXT,
+  outbox_id TEXT,
+  attempt INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL, -- sent, failed
+  error_code TEXT,
+  error TEXT,
+  retry_after INTEGER,
+  message_id TEXT,
+  attempted_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_log_workspace ON delivery_log(workspace_id, attempted_at);
@@ -0,0 +1,3 @@
+-- Long digests go to Telegram in several messages: JSON array of every part's message id
+-- (telegram_message_id keeps the first part)
+ALTER TABLE digests ADD COLUMN telegram_message_ids TEXT;
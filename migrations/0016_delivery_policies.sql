@@ -0,0 +1,19 @@
+-- Delivery policies: quiet hours ("22:00-07:00" in the workspace's digest.timezone) and muted categories
+ALTER TABLE alert_destinations ADD COLUMN quiet_hours TEXT;
+ALTER TABLE alert_destinations ADD COLUMN muted_categories TEXT NOT NULL DEFAULT '[]';
+
+-- Non-P0 alerts held during a destination's quiet hours, sent as one summary when they end
+CREATE TABLE IF NOT EXISTS held_alerts (
+  workspace_id TEXT NOT NULL,
+  destination TEXT NOT NULL,
+  feedback_id TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  category TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  held_at INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'held', -- held, released, discarded (destination deleted)
+  released_at INTEGER,
+  PRIMARY KEY (feedback_id, destination)
+);
+
+CREATE INDEX IF NOT EXISTS idx_held_alerts_status ON held_alerts(status, workspace_id, destination);
@@ -0,0 +1,22 @@
+-- Review queue: classifications below review.confidenceThreshold, or where the rules and the AI disagree
+ALTER TABLE feedback ADD COLUMN review_status TEXT; -- pending, reviewed
+ALTER TABLE feedback ADD COLUMN review_reason TEXT; -- low_confidence, rule_disagreement
+ALTER TABLE feedback ADD COLUMN review_detail TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_review ON feedback(workspace_id, review_status, timestamp);
+
+-- Every label a reviewer gave; the latest per feedback is its classification and a few-shot example
+CREATE TABLE IF NOT EXISTS feedback_labels (
+  label_id TEXT PRIMARY KEY,
+  workspace_id TEXT NOT NULL,
+  feedback_id TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  category TEXT NOT NULL,
+  previous_severity TEXT,
+  previous_category TEXT,
+  reviewer TEXT NOT NULL,
+  labeled_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_labels_feedback ON feedback_labels(feedback_id, labeled_at);
+CREATE INDEX IF NOT EXISTS idx_feedback_labels_workspace ON feedback_labels(workspace_id, labeled_at);
@@ -0,0 +1,4 @@
+-- Sentiment score (0 = very negative, 1 = very positive) next to the label, and who scored it
+ALTER TABLE feedback_analysis ADD COLUMN sentiment_score REAL;
+ALTER TABLE feedback_analysis ADD COLUMN model TEXT; -- Workers AI model, or 'lexicon'
+ALTER TABLE feedback_analysis ADD COLUMN analyzed_at INTEGER;
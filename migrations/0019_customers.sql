@@ -0,0 +1,22 @@
+-- Customer accounts, matched to feedback.user case-insensitively (user_key is the lowercased user)
+CREATE TABLE IF NOT EXISTS customers (
+  workspace_id TEXT NOT NULL DEFAULT 'default',
+  user_key TEXT NOT NULL,
+  user TEXT NOT NULL,
+  name TEXT,
+  plan TEXT,
+  tier TEXT NOT NULL DEFAULT 'free', -- free, starter, pro, enterprise
+  mrr REAL NOT NULL DEFAULT 0,
+  arr REAL NOT NULL DEFAULT 0,
+  renewal_date INTEGER,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (workspace_id, user_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customers_arr ON customers(workspace_id, arr DESC);
+
+-- Accounts behind a cluster's reports, refreshed with its priority score
+ALTER TABLE clusters ADD COLUMN affected_accounts INTEGER DEFAULT 0;
+ALTER TABLE clusters ADD COLUMN affected_arr REAL DEFAULT 0;
+ALTER TABLE clusters ADD COLUMN top_tier TEXT;
@@ -0,0 +1,6 @@
+-- Why a feedback is in its cluster: how it matched, how closely, and the clusters that came next
+ALTER TABLE cluster_members ADD COLUMN match_method TEXT; -- embedding, phrase, keyword, new_cluster, individual
+ALTER TABLE cluster_members ADD COLUMN similarity REAL; -- cosine for embedding, phrase/keyword overlap for text
+ALTER TABLE cluster_members ADD COLUMN matched_phrases TEXT; -- JSON array
+ALTER TABLE cluster_members ADD COLUMN runner_ups TEXT; -- JSON array of { cluster_id, method, similarity, matched }
+ALTER TABLE cluster_members ADD COLUMN assigned_at INTEGER;
@@ -0,0 +1,3 @@
+-- Manual placements (merge, split, move) have match_method 'manual' and are pinned: relabeling leaves them put
+ALTER TABLE cluster_members ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE cluster_members ADD COLUMN placed_by TEXT;
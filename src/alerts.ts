@@ -0,0 +1,73 @@
+/**
+ * Instant alert grouping and storm control
+ * Similar reports count toward an open alert ("Reports: N") instead of posting a new one, on
+ * every channel; Telegram also edits the sent message. Past the hourly limit reports fold into
+ * a single overflow summary.
+ */
+
+import { cosineSimilarity } from './similarity';
+
+// instant_alerts.kind: a regular alert, or the overflow summary for an hour over the limit
+export type AlertKind = 'alert' | 'overflow';
+
+export interface AlertCandidate {
+	alert_id: string;
+	embedding: number[];
+	report_count: number;
+}
+
+/**
+ * Most similar open alert at or above the threshold. Grouping goes by the alert row, not the sent
+ * message: Slack, email and webhook alerts have no message to edit but still take new reports.
+ */
+export function pickAlertGroup(
+	embedding: number[],
+	candidates: readonly AlertCandidate[],
+	threshold: number
+): { alert: AlertCandidate; similarity: number } | null {
+	if (!embedding.some(val => val !== 0)) return null;
+
+	let best: { alert: AlertCandidate; similarity: number } | null = null;
+	for (const alert of candidates) {
+		const similarity = cosineSimilarity(embedding, alert.embedding);
+		if (similarity >= threshold && (!best || similarity > best.similarity)) {
+			best = { alert, similarity };
+		}
+	}
+	return best;
+}
+
+export function getTimeAgo(timestamp: number, now: number = Date.now()): string {
+	const seconds = Math.floor((now - timestamp) / 1000);
+	if (seconds < 60) return 'just now';
+	if (seconds < 3600) return `${Math.floor(seconds / 60)} minutes ago`;
+	if (seconds < 86400) return `${Math.floor(seconds / 3600)} hours ago`;
+	return `${Math.floor(seconds / 86400)} days ago`;
+}
+
+/**
+ * Value of the "Reports:" line, e.g. "4 (first 25 minutes ago, latest just now)"
+ */
+export function formatReportCount(count: number, firstAt: number, lastAt: number, now: number = Date.now()): string {
+	if (count <= 1) return `1 time ${getTimeAgo(firstAt, now)}`;
+	return `${count} (first ${getTimeAgo(firstAt, now)}, latest ${getTimeAgo(lastAt, now)})`;
+}
+
+/**
+ * Overflow summary posted once the hourly limit is hit, then edited as more reports are held back
+ */
+export function formatOverflowSummary(
+	heldBack: number,
+	maxPerHour: number,
+	byCategory: ReadonlyArray<{ category: string; count: number }>
+): string {
+	const categories = byCategory
+		.map(c => `${c.category.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')} ${c.count}`)
+		.join(', ');
+
+	return `⚠️ <b>ALERT LIMIT REACHED</b>
+
+<b>${heldBack}</b> more urgent report${heldBack === 1 ? '' : 's'} held back this hour (limit: ${maxPerHour} alerts/hour)${categories ? `\n<b>By category:</b> ${categories}` : ''}
+
+They will be included in the morning digest. Check the dashboard if this looks like an outage.`;
+}
@@ -0,0 +1,73 @@
+/**
+ * API key authentication and CORS
+ * Keys are random tokens shown once at creation; D1 only stores their SHA-256 hash
+ */
+
+import { toHex } from './crypto';
+import type { ApiScope } from './types';
+
+export const API_KEY_PREFIX = 'fbk_';
+
+export interface ApiKeyRecord {
+	key_id: string;
+	name: string;
+	scopes: ApiScope[];
+	// Workspace the key is bound to; null = every workspace
+	workspace_id: string | null;
+}
+
+export function generateApiKey(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(24));
+	const encoded = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+	return `${API_KEY_PREFIX}${encoded}`;
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+	return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key)));
+}
+
+/**
+ * Key from "Authorization: Bearer <key>" or "X-API-Key: <key>".
+ * GET requests may also pass ?api_key= so /view can be opened in a browser.
+ */
+export function extractApiKey(request: Request): string | null {
+	const authorization = request.headers.get('Authorization');
+	if (authorization && /^Bearer\s+/i.test(authorization)) {
+		return authorization.replace(/^Bearer\s+/i, '').trim() || null;
+	}
+
+	const header = request.headers.get('X-API-Key');
+	if (header) return header.trim() || null;
+
+	if (request.method === 'GET') {
+		return new URL(request.url).searchParams.get('api_key') || null;
+	}
+	return null;
+}
+
+// admin keys can do everything; ingest and read are independent of each other
+export function hasScope(granted: readonly ApiScope[], required: ApiScope): boolean {
+	return granted.includes('admin') || granted.includes(required);
+}
+
+/**
+ * Scope a route needs, or null for routes that are public or authenticate themselves
+ * (GitHub/Discord signatures, mapped webhooks with their own secret, Telegram's secret token)
+ */
+export function routeScope(path: string, method: string): ApiScope | null {
+	if (path === '/' || path.startsWith('/integrations/') || path === '/telegram/webhook') return null;
+	if ((path === '/feedback' || path === '/feedback/batch') && method === 'POST') return 'ingest';
+	if (method === 'GET' && !path.startsWith('/admin/')) return 'read';
+	return 'admin';
+}
+
+/**
+ * Value for Access-Control-Allow-Origin, or null when the origin isn't allowed.
+ * '*' in the allowlist allows any origin.
+ */
+export function resolveCorsOrigin(origin: string | null, allowlist: readonly string[]): string | null {
+	if (allowlist.includes('*')) return '*';
+	if (!origin) return null;
+	const normalized = origin.replace(/\/+$/, '').toLowerCase();
+	return allowlist.some(allowed => allowed.replace(/\/+$/, '').toLowerCase() === normalized) ? origin : null;
+}
@@ -0,0 +1,214 @@
+/**
+ * Bulk / backfill ingestion
+ * Parses JSON arrays, NDJSON and CSV exports into validated feedback rows
+ */
+
+import { validate, feedbackSchema } from './validation';
+import type { FeedbackInput, FieldError } from './validation';
+
+export const BATCH_LIMITS = {
+	maxBodyBytes: 5_000_000,
+	maxRows: 1000,
+	// Small clock skew allowance for records stamped "now" by the sender
+	maxFutureSkewMs: 5 * 60_000,
+	// Anything before this is almost certainly a unit mistake (e.g. seconds parsed as ms)
+	minTimestamp: Date.UTC(2000, 0, 1),
+};
+
+export type BatchFormat = 'json' | 'ndjson' | 'csv';
+
+export interface BatchRecord extends FeedbackInput {
+	timestamp: number;
+}
+
+export type BatchRow =
+	| { row: number; ok: true; record: BatchRecord }
+	| { row: number; ok: false; errors: FieldError[] };
+
+export function detectBatchFormat(contentType: string | null, text: string): BatchFormat {
+	const type = (contentType || '').toLowerCase();
+	if (type.includes('ndjson') || type.includes('jsonl') || type.includes('jsonlines')) return 'ndjson';
+	if (type.includes('csv')) return 'csv';
+	if (type.includes('json')) return 'json';
+
+	// No useful content type - sniff the body
+	const trimmed = text.trimStart();
+	if (trimmed.startsWith('[')) return 'json';
+	if (trimmed.startsWith('{')) return 'ndjson';
+	return 'csv';
+}
+
+/**
+ * RFC 4180 style CSV parser: quoted fields, escaped quotes ("") and newlines inside quotes
+ */
+export function parseCsv(text: string): string[][] {
+	return parseCsvRecords(text).map(record => record.cells);
+}
+
+/**
+ * parseCsv with the 1-based line each record starts on, so errors can point at the
+ * uploaded file (blank lines and quoted newlines included)
+ */
+export function parseCsvRecords(text: string): Array<{ line: number; cells: string[] }> {
+	const rows: Array<{ line: number; cells: string[] }> = [];
+	let row: string[] = [];
+	let field = '';
+	let inQuotes = false;
+	let line = 1;
+	let rowLine = 1;
+	const input = text.replace(/^\uFEFF/, '');
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+		if (inQuotes) {
+			if (char === '"') {
+				if (input[i + 1] === '"') {
+					field += '"';
+					i++;
+				} else {
+					inQuotes = false;
+				}
+			} else {
+				field += char;
+				if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+			}
+			continue;
+		}
+
+		if (char === '"') {
+			inQuotes = true;
+		} else if (char === ',') {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && input[i + 1] === '\n') i++;
+			row.push(field);
+			rows.push({ line: rowLine, cells: row });
+			row = [];
+			field = '';
+			line++;
+			rowLine = line;
+		} else {
+			field += char;
+		}
+	}
+
+	if (field !== '' || row.length > 0) {
+		row.push(field);
+		rows.push({ line: rowLine, cells: row });
+	}
+
+	// Drop blank lines (a single empty field)
+	return rows.filter(r => !(r.cells.length === 1 && r.cells[0].trim() === ''));
+}
+
+/**
+ * Accepts epoch milliseconds, epoch seconds, numeric strings and ISO 8601 dates
+ */
+export function parseTimestamp(raw: unknown): number | null {
+	let value: number;
+	if (typeof raw === 'number') {
+		value = raw;
+	} else if (typeof raw === 'string' && raw.trim() !== '') {
+		const trimmed = raw.trim();
+		value = /^\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : Date.parse(trimmed);
+	} else {
+		return null;
+	}
+
+	if (!Number.isFinite(value)) return null;
+	// 10-digit values are epoch seconds
+	if (value < 1e11) value *= 1000;
+	return Math.round(value);
+}
+
+function validateRecord(raw: unknown, defaults: { source?: string }, now: number): { record?: BatchRecord; errors: FieldError[] } {
+	let input = raw;
+	if (typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+		const record = raw as Record<string, unknown>;
+		// Exports without a source column fall back to ?source=
+		input = { ...record, source: record.source || defaults.source };
+	}
+	const result = validate<FeedbackInput>(feedbackSchema, input);
+	const errors: FieldError[] = result.ok ? [] : [...result.errors];
+
+	let timestamp = now;
+	const rawTimestamp = typeof input === 'object' && input !== null ? (input as Record<string, unknown>).timestamp : undefined;
+	if (rawTimestamp !== undefined && rawTimestamp !== null && rawTimestamp !== '') {
+		const parsed = parseTimestamp(rawTimestamp);
+		if (parsed === null) {
+			errors.push({ field: 'timestamp', code: 'invalid_format', message: 'timestamp must be epoch ms/seconds or an ISO 8601 date' });
+		} else if (parsed < BATCH_LIMITS.minTimestamp || parsed > now + BATCH_LIMITS.maxFutureSkewMs) {
+			errors.push({ field: 'timestamp', code: 'out_of_range', message: 'timestamp must be after 2000-01-01 and not in the future' });
+		} else {
+			timestamp = parsed;
+		}
+	}
+
+	if (!result.ok || errors.length > 0) {
+		return { errors };
+	}
+	return { record: { ...result.value, timestamp }, errors };
+}
+
+/**
+ * Parse a batch body into per-row results.
+ * Throws only when the body as a whole is unusable (bad JSON array, missing CSV header, too many rows).
+ */
+export function parseBatch(
+	text: string,
+	format: BatchFormat,
+	defaults: { source?: string } = {},
+	now: number = Date.now()
+): BatchRow[] {
+	const rawRows: Array<{ row: number; value?: unknown; errors?: FieldError[] }> = [];
+
+	if (format === 'json') {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(text);
+		} catch (error) {
+			throw new Error(`Malformed JSON: ${error instanceof Error ? error.message : String(error)}`);
+		}
+		if (!Array.isArray(parsed)) {
+			throw new Error('JSON batch must be an array of feedback objects');
+		}
+		parsed.forEach((value, index) => rawRows.push({ row: index + 1, value }));
+	} else if (format === 'ndjson') {
+		text.split(/\r?\n/).forEach((line, index) => {
+			if (line.trim() === '') return;
+			try {
+				rawRows.push({ row: index + 1, value: JSON.parse(line) });
+			} catch {
+				rawRows.push({ row: index + 1, errors: [{ field: '$', code: 'invalid_format', message: 'Line is not valid JSON' }] });
+			}
+		});
+	} else {
+		const [header, ...records] = parseCsvRecords(text);
+		if (!header) {
+			throw new Error('CSV batch is empty');
+		}
+		const columns = header.cells.map(h => h.trim().toLowerCase());
+		if (!columns.includes('content')) {
+			throw new Error('CSV header must include a "content" column');
+		}
+		// Row 1 is the line after the header; blank lines still count
+		records.forEach(({ line, cells }) => {
+			const value: Record<string, string> = {};
+			columns.forEach((column, i) => {
+				if (cells[i] !== undefined) value[column] = cells[i];
+			});
+			rawRows.push({ row: line - header.line, value });
+		});
+	}
+
+	if (rawRows.length > BATCH_LIMITS.maxRows) {
+		throw new Error(`Batch has ${rawRows.length} rows; the limit is ${BATCH_LIMITS.maxRows}`);
+	}
+
+	return rawRows.map(({ row, value, errors }) => {
+		if (errors) return { row, ok: false, errors };
+		const checked = validateRecord(value, defaults, now);
+		return checked.record ? { row, ok: true, record: checked.record } : { row, ok: false, errors: checked.errors };
+	});
+}
@@ -0,0 +1,76 @@
+/**
+ * Stored classifications
+ * Each feedback is classified once (triage rules + AI) and the full result is kept on its row,
+ * so instant alerts, clustering and digests all work from the same answer
+ */
+
+import type { ClassificationResult } from './types';
+
+// Bump when the classification prompt changes; older results can then be found and reclassified
+// v2: reviewed labels as few-shot examples
+export const CLASSIFICATION_PROMPT_VERSION = 'v2';
+
+export const CLASSIFICATION_CATEGORIES = ['crash', 'login', 'payment', 'performance', 'ui', 'feature_request', 'bug', 'other'] as const;
+
+// Model name recorded when the AI call failed and the keyword fallback answered
+export const RULE_BASED_MODEL = 'rule-based';
+
+export interface ClassificationColumns {
+	classification_severity: string | null;
+	classification_confidence: number | null;
+	classification_category: string | null;
+	classification_summary: string | null;
+	classification_reasoning: string | null;
+	classification_model: string | null;
+	classification_prompt_version: string | null;
+	classified_at: number | null;
+}
+
+/**
+ * The stored result, or null for feedback not (fully) classified yet - including rows
+ * from before full results were stored, which only have severity and confidence
+ */
+export function classificationFromRow(row: Partial<ClassificationColumns>): ClassificationResult | null {
+	if (!row.classified_at || !row.classification_severity || !row.classification_category) {
+		return null;
+	}
+	return {
+		severity: row.classification_severity as ClassificationResult['severity'],
+		category: row.classification_category,
+		confidence: row.classification_confidence ?? 0,
+		one_line_summary: row.classification_summary || '',
+		reasoning: row.classification_reasoning || '',
+		model: row.classification_model || RULE_BASED_MODEL,
+		prompt_version: row.classification_prompt_version || CLASSIFICATION_PROMPT_VERSION,
+		classified_at: row.classified_at
+	};
+}
+
+/**
+ * Keyword pre-classification: seeds the AI prompt, answers when the AI call fails, and is the
+ * "rules" side when review.ts compares rules with the AI. Null when no keyword matched.
+ */
+export function keywordClassification(content: string): Pick<ClassificationResult, 'category' | 'severity'> | null {
+	const lowerContent = content.toLowerCase();
+
+	if (lowerContent.includes('crash') || lowerContent.includes('won\'t open') || lowerContent.includes('stuck')) {
+		return { category: 'crash', severity: 'P0' };
+	} else if (lowerContent.includes('login') || lowerContent.includes('sign in') || lowerContent.includes('otp')) {
+		return { category: 'login', severity: lowerContent.includes('critical') || lowerContent.includes('urgent') ? 'P0' : 'P1' };
+	} else if (lowerContent.includes('payment') || lowerContent.includes('billing') || lowerContent.includes('charged') || lowerContent.includes('subscription')) {
+		return { category: 'payment', severity: 'P1' };
+	} else if (lowerContent.includes('slow') || lowerContent.includes('lag') || lowerContent.includes('performance')) {
+		return { category: 'performance', severity: 'P2' };
+	} else if (lowerContent.includes('dark mode') || lowerContent.includes('ui') || lowerContent.includes('ux') || lowerContent.includes('navigation')) {
+		return { category: 'ui', severity: 'P3' };
+	} else if (lowerContent.includes('feature request') || lowerContent.includes('would love') || lowerContent.includes('add')) {
+		return { category: 'feature_request', severity: 'P3' };
+	} else if (lowerContent.includes('error') || lowerContent.includes('bug') || lowerContent.includes('broken')) {
+		return { category: 'bug', severity: 'P2' };
+	} else if (lowerContent.includes('rate limit') || lowerContent.includes('429')) {
+		return { category: 'performance', severity: 'P2' };
+	} else if (lowerContent.includes('docs') || lowerContent.includes('documentation')) {
+		return { category: 'other', severity: 'P3' };
+	}
+	return null;
+}
@@ -0,0 +1,151 @@
+/**
+ * Telegram bot commands: /top, /cluster, /search, /digest, /fix
+ * Parsing and reply formatting; the webhook handler in index.ts runs the queries
+ */
+
+import { getTimeAgo } from './alerts';
+
+export const BOT_COMMANDS = ['top', 'cluster', 'search', 'digest', 'fix', 'help'] as const;
+
+export type BotCommand = (typeof BOT_COMMANDS)[number];
+
+export interface ParsedCommand {
+	command: BotCommand | null; // null = an unknown /command
+	name: string;
+	args: string;
+}
+
+export interface ClusterListItem {
+	cluster_id: string;
+	priority_level: string;
+	summary: string;
+	count: number;
+	fix_status: string | null;
+}
+
+export interface ClusterDetail extends ClusterListItem {
+	category: string | null;
+	suggested_action: string | null;
+	first_seen: number;
+	last_seen: number;
+	fix_deployed_version: string | null;
+	last_action: string | null;
+	action_by: string | null;
+}
+
+export interface ReportLine {
+	content: string;
+	user: string | null;
+	source: string;
+	timestamp: number;
+	cluster_id?: string | null;
+}
+
+const PRIORITY_EMOJIS: Record<string, string> = { P0: '🔴', P1: '🟠', P2: '🟡', P3: '🟢' };
+
+const FIX_STATUS_LABELS: Record<string, string> = {
+	open: 'Open',
+	fix_deployed: 'Fix deployed - monitoring',
+	resolved: 'Resolved',
+	failed: 'Fix failed',
+	wont_fix: 'Won\'t fix',
+};
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+// Cluster ids are UUIDs; chat shows (and /cluster, /fix accept) the first 8 characters
+export function shortId(id: string): string {
+	return id.substring(0, 8);
+}
+
+/**
+ * "/fix@FeedbackBot 3f2b9c1e v3.2.2" → { command: 'fix', args: '3f2b9c1e v3.2.2' }.
+ * Returns null for plain messages.
+ */
+export function parseBotCommand(text: string | undefined): ParsedCommand | null {
+	const match = (text || '').trim().match(/^\/([a-zA-Z_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/);
+	if (!match) return null;
+
+	const name = match[1].toLowerCase();
+	const alias = name === 'start' ? 'help' : name;
+	const command = (BOT_COMMANDS as readonly string[]).includes(alias) ? alias as BotCommand : null;
+	return { command, name, args: (match[2] || '').trim() };
+}
+
+export function formatHelp(): string {
+	return `<b>🤖 Commands</b>
+
+/top [n] - current top issues (default 5)
+/cluster &lt;id&gt; - reports and fix status for one issue
+/search &lt;text&gt; - recent feedback mentioning the text
+/digest - preview the next digest (nothing is sent or marked processed)
+/fix &lt;id&gt; [version] - mark an issue fixed, e.g. <code>/fix 3f2b9c1e v3.2.2</code>
+
+Ids are the 8-character codes shown by /top.`;
+}
+
+function clusterLine(item: ClusterListItem): string {
+	const emoji = PRIORITY_EMOJIS[item.priority_level] || '⚪';
+	return `${emoji} <b>${item.priority_level}</b> - ${escapeHtml(item.summary)} (${item.count} reports)`;
+}
+
+export function formatTopClusters(items: readonly ClusterListItem[]): string {
+	if (items.length === 0) {
+		return 'No open issues right now. 🎉';
+	}
+
+	let message = `<b>📋 Top ${items.length} issue${items.length === 1 ? '' : 's'}</b>\n\n`;
+	items.forEach((item, index) => {
+		message += `${index + 1}. ${clusterLine(item)}\n`;
+		const status = item.fix_status && item.fix_status !== 'open' ? ` · ${FIX_STATUS_LABELS[item.fix_status] || item.fix_status}` : '';
+		message += `   <code>${shortId(item.cluster_id)}</code>${status}\n\n`;
+	});
+	return message.trimEnd();
+}
+
+export function formatClusterDetail(cluster: ClusterDetail, reports: readonly ReportLine[], now: number = Date.now()): string {
+	const status = FIX_STATUS_LABELS[cluster.fix_status || 'open'] || cluster.fix_status;
+
+	let message = `<b>🧩 Issue <code>${shortId(cluster.cluster_id)}</code></b>\n\n`;
+	message += `${clusterLine(cluster)}\n`;
+	message += `<b>Category:</b> ${escapeHtml(cluster.category || 'unknown')}\n`;
+	message += `<b>Status:</b> ${escapeHtml(status || 'Open')}`;
+	if (cluster.fix_deployed_version) {
+		message += ` (${escapeHtml(cluster.fix_deployed_version)})`;
+	}
+	message += '\n';
+	if (cluster.last_action && cluster.action_by) {
+		message += `<b>Last action:</b> ${escapeHtml(cluster.last_action)} by ${escapeHtml(cluster.action_by)}\n`;
+	}
+	message += `<b>Seen:</b> first ${getTimeAgo(cluster.first_seen, now)}, latest ${getTimeAgo(cluster.last_seen, now)}\n`;
+	if (cluster.suggested_action) {
+		message += `→ ${escapeHtml(cluster.suggested_action)}\n`;
+	}
+
+	if (reports.length > 0) {
+		message += `\n<b>Latest reports</b>\n\n`;
+		message += reports.map(formatReportLine).join('\n');
+	}
+	return message.trimEnd();
+}
+
+function formatReportLine(report: ReportLine): string {
+	const content = escapeHtml(report.content.substring(0, 150));
+	const ellipsis = report.content.length > 150 ? '...' : '';
+	const cluster = report.cluster_id ? ` · <code>${shortId(report.cluster_id)}</code>` : '';
+	return `• "${content}${ellipsis}"\n  ${escapeHtml(report.user || 'Unknown')} via ${escapeHtml(report.source)}${cluster}\n`;
+}
+
+export function formatSearchResults(query: string, reports: readonly ReportLine[]): string {
+	if (reports.length === 0) {
+		return `No feedback mentions "${escapeHtml(query)}".`;
+	}
+	return `<b>🔎 ${reports.length} latest match${reports.length === 1 ? '' : 'es'} for "${escapeHtml(query)}"</b>\n\n${reports.map(formatReportLine).join('\n')}`.trimEnd();
+}
@@ -1,3 +1,5 @@
+import type { WebhookMapping } from './mapping';
+
 /**
  * Example configuration file
  * 
@@ -10,6 +12,11 @@ export const config = {
 	telegram: {
 		botToken: 'YOUR_TELEGRAM_BOT_TOKEN_HERE',
 		chatId: 'YOUR_TELEGRAM_CHAT_ID_HERE',
+		// secret_token passed to setWebhook; Telegram echoes it as X-Telegram-Bot-Api-Secret-Token
+		// (prefer the TELEGRAM_WEBHOOK_SECRET secret)
+		webhookSecret: '',
+		// Bot API base URL - point it at a local fake Bot API when developing (TELEGRAM_API_URL)
+		apiUrl: 'https://api.telegram.org',
 	},
 
 	// AI Model Configuration
@@ -19,11 +26,22 @@ export const config = {
 		maxTokens: 300,
 	},
 
+	// Review queue (GET /review): classifications a human should check
+	review: {
+		// AI confidence below this queues the feedback; so does the AI disagreeing with the rules
+		confidenceThreshold: 0.6,
+		// Most recent reviewed labels shown to the classifier as examples (0 = none)
+		fewShotExamples: 5,
+	},
+
 	// Clustering Configuration
 	clustering: {
 		similarityThreshold: 0.86,
 		embeddingDimension: 1024,
 		clusterLookbackDays: 7,
+		// Nearest clusters fetched from the vector index per feedback; the best one above
+		// similarityThreshold is joined
+		topK: 10,
 	},
 
 	// Priority Scoring Weights
@@ -32,6 +50,18 @@ export const config = {
 		frequencyWeight: 0.25,
 		recencyWeight: 0.10,
 		sentimentWeight: 0.10,
+		// Added on top of the weights above; an issue no known customer reported gets nothing
+		revenueWeight: 0.15,
+	},
+
+	// Customer accounts (POST /customers) behind an issue's reports
+	customers: {
+		// Combined ARR that earns the full revenue score; less counts on a square-root curve
+		fullScoreArr: 1_000_000,
+		// Floor for the revenue score by the best affected tier
+		tierScores: { free: 0, starter: 20, pro: 50, enterprise: 100 },
+		// Support cases from enterprise accounts, or accounts with at least this ARR, go first
+		highValueArr: 50_000,
 	},
 
 	// Priority Score Thresholds
@@ -41,36 +71,146 @@ export const config = {
 		p2: 30,
 	},
 
-	// P0 Keywords for Instant Alert Detection
-	p0Keywords: [
-		'crash', 'won\'t open', 'stuck on launch', 'app broken', 'not working', 'completely broken',
-		'can\'t login', 'locked out', 'otp not working', 'account locked', 'cannot access', 'login failed',
-		'payment failed', 'charged twice', 'refund', 'subscription broken', 'billing error', 'payment error',
-		'can\'t pay', 'payment not working', 'transaction failed',
-		'data loss', 'deleted', 'missing data', 'security breach', 'hacked', 'pii leak', 'data breach',
-		'privacy issue', 'unauthorized access',
-		'production down', 'all users affected', 'complete outage', 'service down', 'system down'
-	],
-
 	// Digest Configuration
 	digest: {
 		maxIssues: 15,
 		timezone: 'America/Los_Angeles',
+		// Local hour (in timezone) the digest goes out; workspaces can override all three
+		hour: 9,
 	},
 
-	// Cron Schedule
+	// Cron Schedule - every 5 minutes: each workspace's digest goes out at its own local hour,
+	// and pending deliveries in the outbox are retried
 	cron: {
-		schedule: '0 17 * * *',
+		schedule: '*/5 * * * *',
+	},
+
+	// Instant alert grouping and storm control
+	alerts: {
+		// A similar report within this many minutes of an alert's latest report updates that alert
+		groupingWindowMinutes: 60,
+		groupingSimilarity: 0.85,
+		// New alert messages per workspace per hour; the rest go into one overflow summary
+		maxPerHour: 10,
+	},
+
+	// Who gets what. Entries are destination ids (POST /destinations): Telegram chats, Slack
+	// incoming webhooks, email addresses or signed webhooks; 'default' is the telegram.chatId above
+	notifications: {
+		digest: ['default'] as string[],
+		// Alerts follow routes (POST /routes); these get the ones no route matches
+		alerts: ['default'] as string[],
+	},
+
+	// Ingestion / Deduplication
+	ingestion: {
+		// How long an Idempotency-Key replays the original response
+		idempotencyTtlHours: 24,
+		// Same user posting near-identical content within this window counts as a cross-post
+		crossPostWindowMinutes: 60,
+		crossPostSimilarity: 0.9,
+	},
+
+	// Queue consumer that classifies, alerts and embeds new feedback
+	pipeline: {
+		// Deliveries before a message is moved to the dead_letters table
+		maxAttempts: 5,
+		// Exponential backoff between retries: 10s, 20s, 40s... capped
+		retryBaseSeconds: 10,
+		retryMaxSeconds: 300,
+	},
+
+	// Delivery outbox: digests that didn't reach a destination are retried by the cron
+	delivery: {
+		// Attempts before an outbox entry is marked failed
+		maxAttempts: 8,
+		// Exponential backoff between retries: 5 min, 10 min, 20 min... capped at 6 hours
+		retryBaseSeconds: 300,
+		retryMaxSeconds: 21600,
 	},
+
+	// API access
+	security: {
+		// Browser origins allowed to call the API, e.g. 'https://dashboard.example.com' ('*' = any origin)
+		corsOrigins: [] as string[],
+		// Bootstrap admin key used to create the first real keys (prefer the ADMIN_API_KEY secret)
+		adminApiKey: '',
+	},
+
+	// Integrations
+	email: {
+		// Inbound messages larger than this are rejected back to the sender
+		maxMessageBytes: 5_000_000,
+		// Sender for email destinations (SEND_EMAIL binding); must be on a zone with Email Routing
+		fromAddress: 'digest@example.com',
+	},
+	github: {
+		// Secret set on the GitHub webhook (prefer the GITHUB_WEBHOOK_SECRET secret)
+		webhookSecret: '',
+	},
+	discord: {
+		// Shared secret your forwarding bot sends as X-Webhook-Secret (prefer the DISCORD_WEBHOOK_SECRET secret)
+		webhookSecret: '',
+	},
+
+	// Generic webhooks: POST /integrations/webhook/<name>
+	// Field specs are dot paths, lists of paths (first non-empty wins) or {{path}} templates
+	webhookMappings: {
+		zendesk: {
+			source: 'support',
+			secret: '',
+			fields: {
+				content: '{{ticket.subject}}\n\n{{ticket.description}}',
+				user: 'ticket.requester.email',
+				link: 'ticket.url',
+				external_id: 'ticket.id',
+				timestamp: 'ticket.created_at',
+			},
+		},
+		intercom: {
+			source: 'support',
+			secret: '',
+			html: true,
+			fields: {
+				content: ['data.item.source.body', 'data.item.conversation_parts.conversation_parts.0.body'],
+				user: ['data.item.source.author.email', 'data.item.user.email'],
+				link: 'data.item.links.conversation_web',
+				external_id: 'data.item.id',
+				timestamp: 'data.item.created_at',
+			},
+		},
+		typeform: {
+			source: 'support',
+			secret: '',
+			fields: {
+				content: 'form_response.answers.0.text',
+				user: 'form_response.hidden.email',
+				external_id: 'form_response.token',
+				timestamp: 'form_response.submitted_at',
+			},
+		},
+	} as Record<string, WebhookMapping>,
 };
 
-export function getConfig() {
+export function getConfig(env?: Partial<Env>) {
 	return {
+		...config,
 		telegram: {
-			botToken: (globalThis as any).TELEGRAM_BOT_TOKEN || config.telegram.botToken,
-			chatId: (globalThis as any).TELEGRAM_CHAT_ID || config.telegram.chatId,
+			botToken: env?.TELEGRAM_BOT_TOKEN || (globalThis as any).TELEGRAM_BOT_TOKEN || config.telegram.botToken,
+			chatId: env?.TELEGRAM_CHAT_ID || (globalThis as any).TELEGRAM_CHAT_ID || config.telegram.chatId,
+			webhookSecret: env?.TELEGRAM_WEBHOOK_SECRET || config.telegram.webhookSecret,
+			apiUrl: env?.TELEGRAM_API_URL || config.telegram.apiUrl,
+		},
+		github: {
+			webhookSecret: env?.GITHUB_WEBHOOK_SECRET || config.github.webhookSecret,
+		},
+		discord: {
+			webhookSecret: env?.DISCORD_WEBHOOK_SECRET || config.discord.webhookSecret,
+		},
+		security: {
+			...config.security,
+			adminApiKey: env?.ADMIN_API_KEY || config.security.adminApiKey,
 		},
-		...config,
 	};
 }
 
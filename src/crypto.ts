@@ -0,0 +1,22 @@
+/**
+ * Small Web Crypto helpers shared by webhook verification and signing
+ */
+
+export function toHex(buffer: ArrayBuffer): string {
+	return [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hmacSha256Hex(secret: string, body: string): Promise<string> {
+	const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body)));
+}
+
+// Compare secrets without leaking where the first mismatch is
+export function timingSafeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) return false;
+	let diff = 0;
+	for (let i = 0; i < a.length; i++) {
+		diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+	}
+	return diff === 0;
+}
@@ -0,0 +1,86 @@
+/**
+ * Manual cluster edits
+ * When clustering gets it wrong, an admin merges clusters, splits members out into a new one, or
+ * moves a single feedback. Every edit recomputes the clusters it touched from their members, and
+ * the placements are pinned (cluster_members.pinned): relabeling a pinned feedback keeps it where
+ * it was put, and clustering never revisits it.
+ */
+
+import { SEVERITIES } from './rules';
+import type { Severity } from './rules';
+
+export interface ClusterMember {
+	feedback_id: string;
+	content: string;
+	source: string;
+	timestamp: number;
+	// null when the feedback has no (valid) embedding
+	embedding: number[] | null;
+}
+
+export interface MemberStats {
+	count: number;
+	first_seen: number;
+	last_seen: number;
+	// Most reported first
+	top_sources: string[];
+	representative_feedback_id: string;
+	representative_feedback: string;
+	// Mean of the members' embeddings; null when none has one
+	centroid: number[] | null;
+	// Reports before/after fix_deployed_date; null without a deployed fix
+	reports_before_fix: number | null;
+	reports_after_fix: number | null;
+}
+
+/**
+ * A cluster's stored fields as its members imply them, or null for a cluster left empty.
+ * The representative stays unless it left the cluster; then the earliest report takes over.
+ */
+export function memberStats(
+	members: ClusterMember[],
+	options: { representativeId: string | null; fixDeployedDate: number | null }
+): MemberStats | null {
+	if (members.length === 0) return null;
+
+	const byTime = [...members].sort((a, b) => a.timestamp - b.timestamp);
+	const representative = byTime.find(member => member.feedback_id === options.representativeId) ?? byTime[0];
+
+	const sourceCounts = new Map<string, number>();
+	byTime.forEach(member => sourceCounts.set(member.source, (sourceCounts.get(member.source) || 0) + 1));
+
+	const fixDate = options.fixDeployedDate;
+	const before = fixDate ? members.filter(member => member.timestamp < fixDate).length : null;
+
+	return {
+		count: members.length,
+		first_seen: byTime[0].timestamp,
+		last_seen: byTime[byTime.length - 1].timestamp,
+		top_sources: [...sourceCounts].sort((a, b) => b[1] - a[1]).map(([source]) => source),
+		representative_feedback_id: representative.feedback_id,
+		representative_feedback: representative.content,
+		centroid: meanEmbedding(members),
+		reports_before_fix: before,
+		reports_after_fix: before === null ? null : members.length - before
+	};
+}
+
+// Members whose embedding has another length than the first one's are left out
+function meanEmbedding(members: ClusterMember[]): number[] | null {
+	const embeddings = members
+		.map(member => member.embedding)
+		.filter((embedding): embedding is number[] => !!embedding && embedding.some(val => val !== 0));
+	if (embeddings.length === 0) return null;
+
+	const length = embeddings[0].length;
+	const usable = embeddings.filter(embedding => embedding.length === length);
+	const sum = new Array<number>(length).fill(0);
+	usable.forEach(embedding => embedding.forEach((val, i) => { sum[i] += val; }));
+	return sum.map(val => val / usable.length);
+}
+
+// The most severe of the merged clusters' severities (P0 first)
+export function mostSevere(severities: string[]): string {
+	const known = severities.filter((severity): severity is Severity => SEVERITIES.includes(severity as Severity));
+	return known.sort((a, b) => SEVERITIES.indexOf(a) - SEVERITIES.indexOf(b))[0] ?? severities[0];
+}
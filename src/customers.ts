@@ -0,0 +1,187 @@
+/**
+ * Customer context
+ * Accounts loaded by API or CSV (POST /customers) and matched to feedback.user, case-insensitively.
+ * An issue's revenue score comes from the accounts it affects: their combined ARR and their
+ * best tier. It adds to the priority score, and digests show "affects N accounts, $X ARR".
+ */
+
+import { parseCsvRecords, parseTimestamp, BATCH_LIMITS } from './batch';
+import { validate, customerSchema } from './validation';
+import type { CustomerInput, FieldError } from './validation';
+import { ACCOUNT_TIERS } from './types';
+import type { AccountTier } from './types';
+
+export interface Customer {
+	workspace_id: string;
+	// feedback.user as sent (email, handle...); matched lowercased
+	user: string;
+	name: string | null;
+	plan: string | null;
+	tier: AccountTier;
+	mrr: number;
+	arr: number;
+	renewal_date: number | null;
+	created_at: number;
+	updated_at: number;
+}
+
+export type CustomerRecord = Omit<Customer, 'workspace_id' | 'created_at' | 'updated_at'>;
+
+export type CustomerRow =
+	| { row: number; ok: true; customer: CustomerRecord }
+	| { row: number; ok: false; errors: FieldError[] };
+
+export interface CustomerImpact {
+	accounts: number;
+	arr: number;
+	topTier: AccountTier | null;
+}
+
+export interface RevenueConfig {
+	fullScoreArr: number;
+	tierScores: Record<AccountTier, number>;
+	highValueArr: number;
+}
+
+export function customerKey(user: string): string {
+	return user.trim().toLowerCase();
+}
+
+// "$1,200" and "1200.50" in CSV exports are numbers; anything else is left for validation to reject
+function coerceAmount(value: unknown): unknown {
+	if (typeof value !== 'string') return value;
+	const cleaned = value.trim().replace(/^\$/, '').replace(/,/g, '');
+	return /^\d+(\.\d+)?$/.test(cleaned) ? Number(cleaned) : value;
+}
+
+function validateCustomer(raw: unknown): { customer?: CustomerRecord; errors: FieldError[] } {
+	let input = raw;
+	if (typeof raw === 'object' && raw !== null && !Array.isArray(raw)) {
+		// Empty CSV cells are missing values, not empty strings
+		const record = Object.fromEntries(Object.entries(raw).filter(([, value]) => value !== ''));
+		input = {
+			...record,
+			mrr: coerceAmount(record.mrr),
+			arr: coerceAmount(record.arr),
+			tier: typeof record.tier === 'string' ? record.tier.trim().toLowerCase() : record.tier,
+			renewal_date: typeof record.renewal_date === 'number' ? String(record.renewal_date) : record.renewal_date
+		};
+	}
+	const result = validate<CustomerInput>(customerSchema, input);
+	if (!result.ok) {
+		return { errors: result.errors };
+	}
+
+	const value = result.value;
+	let renewalDate: number | null = null;
+	if (value.renewal_date) {
+		renewalDate = parseTimestamp(value.renewal_date);
+		if (renewalDate === null) {
+			return { errors: [{ field: 'renewal_date', code: 'invalid_format', message: 'renewal_date must be an ISO 8601 date or epoch ms/seconds' }] };
+		}
+	}
+
+	// Either amount implies the other
+	const arr = value.arr ?? (value.mrr !== undefined ? value.mrr * 12 : 0);
+	const mrr = value.mrr ?? arr / 12;
+	return {
+		customer: {
+			user: value.user,
+			name: value.name || null,
+			plan: value.plan || null,
+			tier: value.tier || 'free',
+			mrr: Math.round(mrr * 100) / 100,
+			arr: Math.round(arr * 100) / 100,
+			renewal_date: renewalDate
+		},
+		errors: []
+	};
+}
+
+/**
+ * Parse a POST /customers body: one JSON object, a JSON array, or CSV with a header row.
+ * Throws only when the body as a whole is unusable.
+ */
+export function parseCustomers(text: string, format: 'json' | 'csv'): CustomerRow[] {
+	// Each record with its row in the body: array position for JSON, the line after the header for CSV
+	let records: Array<{ row: number; record: unknown }>;
+	if (format === 'json') {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(text);
+		} catch (error) {
+			throw new Error(`Malformed JSON: ${error instanceof Error ? error.message : String(error)}`);
+		}
+		records = (Array.isArray(parsed) ? parsed : [parsed]).map((record, index) => ({ row: index + 1, record }));
+	} else {
+		const [header, ...lines] = parseCsvRecords(text);
+		if (!header) {
+			throw new Error('CSV is empty');
+		}
+		const columns = header.cells.map(h => h.trim().toLowerCase());
+		if (!columns.includes('user')) {
+			throw new Error('CSV header must include a "user" column');
+		}
+		records = lines.map(({ line, cells }) => ({
+			row: line - header.line,
+			record: Object.fromEntries(columns.flatMap((column, i) => cells[i] !== undefined ? [[column, cells[i]]] : []))
+		}));
+	}
+
+	if (records.length > BATCH_LIMITS.maxRows) {
+		throw new Error(`Body has ${records.length} customers; the limit is ${BATCH_LIMITS.maxRows}`);
+	}
+	return records.map(({ row, record }) => {
+		const checked = validateCustomer(record);
+		return checked.customer
+			? { row, ok: true, customer: checked.customer }
+			: { row, ok: false, errors: checked.errors };
+	});
+}
+
+// Accounts behind an issue's reports, one entry per matched customer
+export function customerImpact(accounts: Array<{ tier: AccountTier; arr: number }>): CustomerImpact {
+	const ranked = [...accounts].sort((a, b) => ACCOUNT_TIERS.indexOf(b.tier) - ACCOUNT_TIERS.indexOf(a.tier));
+	return {
+		accounts: accounts.length,
+		arr: accounts.reduce((sum, account) => sum + account.arr, 0),
+		topTier: ranked[0]?.tier ?? null
+	};
+}
+
+/**
+ * Revenue score (0-100): ARR on a square-root curve up to fullScoreArr, but never less than
+ * the best affected tier's score. 0 when no known account is affected.
+ */
+export function revenueScore(impact: CustomerImpact, config: RevenueConfig): number {
+	if (impact.accounts === 0) return 0;
+	const arrScore = Math.min(100, Math.sqrt(Math.max(0, impact.arr) / config.fullScoreArr) * 100);
+	const tierScore = impact.topTier ? config.tierScores[impact.topTier] ?? 0 : 0;
+	return Math.max(arrScore, tierScore);
+}
+
+export function isHighValue(impact: CustomerImpact, config: RevenueConfig): boolean {
+	return impact.topTier === 'enterprise' || (impact.accounts > 0 && impact.arr >= config.highValueArr);
+}
+
+// $950, $12k, $1.2M
+export function formatArr(arr: number): string {
+	if (arr >= 1_000_000) return `$${trimZero(arr / 1_000_000)}M`;
+	if (arr >= 1000) return `$${trimZero(arr / 1000)}k`;
+	return `$${Math.round(arr)}`;
+}
+
+function trimZero(value: number): string {
+	return (value >= 100 ? value.toFixed(0) : value.toFixed(1)).replace(/\.0$/, '');
+}
+
+// "enterprise, $120k ARR" next to a support case's user
+export function formatAccount(account: { tier: AccountTier; arr: number }): string {
+	return `${account.tier}, ${formatArr(account.arr)} ARR`;
+}
+
+// "affects 3 accounts, $120k ARR", or '' when no known account is affected
+export function formatAccountImpact(accounts: number | undefined, arr: number | undefined): string {
+	if (!accounts) return '';
+	return `affects ${accounts} account${accounts === 1 ? '' : 's'}, ${formatArr(arr || 0)} ARR`;
+}
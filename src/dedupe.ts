@@ -0,0 +1,34 @@
+/**
+ * Duplicate detection for ingestion
+ * Catches the same report cross-posted by one user to several channels (support + Discord + email)
+ */
+
+// Normalize away formatting differences between channels: case, URLs, punctuation, whitespace
+export function normalizeForDedupe(text: string): string {
+	return text
+		.toLowerCase()
+		.replace(/https?:\/\/\S+/g, ' ')
+		.replace(/[^\p{L}\p{N}\s]/gu, ' ')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Near-exact match: identical after normalization, or word sets overlapping by at least `threshold` (Jaccard)
+ */
+export function isNearDuplicate(a: string, b: string, threshold: number = 0.9): boolean {
+	const normalizedA = normalizeForDedupe(a);
+	const normalizedB = normalizeForDedupe(b);
+	if (!normalizedA || !normalizedB) return false;
+	if (normalizedA === normalizedB) return true;
+
+	const tokensA = new Set(normalizedA.split(' '));
+	const tokensB = new Set(normalizedB.split(' '));
+
+	let intersection = 0;
+	for (const token of tokensA) {
+		if (tokensB.has(token)) intersection++;
+	}
+	const union = tokensA.size + tokensB.size - intersection;
+	return intersection / union >= threshold;
+}
@@ -0,0 +1,152 @@
+/**
+ * Discord adapter
+ * Normalizes Discord message payloads (raw message objects or gateway MESSAGE_CREATE/UPDATE
+ * dispatches forwarded by a bot) into feedback
+ */
+
+import { LIMITS } from './validation';
+
+interface DiscordUser {
+	id: string;
+	username: string;
+	global_name?: string | null;
+	bot?: boolean;
+}
+
+export interface DiscordMessage {
+	id: string;
+	channel_id: string;
+	guild_id?: string;
+	type?: number;
+	content: string;
+	author: DiscordUser;
+	timestamp?: string;
+	webhook_id?: string;
+	mentions?: DiscordUser[];
+	mention_roles?: string[];
+	attachments?: Array<{ filename: string; url: string }>;
+	message_reference?: { message_id?: string; channel_id?: string; guild_id?: string };
+	// Present when the forwarding bot knows the message lives in a thread
+	thread?: { id: string; name?: string; parent_id?: string };
+	// Optional lookups a bot can pass along so role/channel mentions read naturally
+	role_names?: Record<string, string>;
+	channel_names?: Record<string, string>;
+}
+
+export interface DiscordGatewayDispatch {
+	t: string;
+	d: DiscordMessage;
+}
+
+export interface DiscordFeedbackRecord {
+	external_id: string;
+	content: string;
+	user: string;
+	link: string;
+	timestamp: number;
+	// external_ids of messages this one replies to or whose thread it belongs to, nearest first
+	parent_external_ids: string[];
+	metadata: {
+		guild_id?: string;
+		channel_id: string;
+		thread_id?: string;
+		thread_name?: string;
+		attachments?: string[];
+	};
+}
+
+export type DiscordEventAction =
+	| { kind: 'create' | 'update'; record: DiscordFeedbackRecord }
+	| { kind: 'ignore'; reason: string };
+
+// DEFAULT, REPLY and THREAD_STARTER_MESSAGE carry user text; everything else is a system message
+const USER_MESSAGE_TYPES = new Set([0, 19, 21]);
+
+export function discordExternalId(messageId: string): string {
+	return `message:${messageId}`;
+}
+
+export function discordMessageLink(message: Pick<DiscordMessage, 'guild_id' | 'channel_id' | 'id'>): string {
+	return `https://discord.com/channels/${message.guild_id || '@me'}/${message.channel_id}/${message.id}`;
+}
+
+/**
+ * Replace Discord markup with readable text: mentions, custom emoji, timestamps, spoilers
+ */
+export function cleanDiscordContent(message: DiscordMessage): string {
+	const users = new Map((message.mentions || []).map(u => [u.id, u.global_name || u.username]));
+
+	return message.content
+		.replace(/<@!?(\d+)>/g, (_, id: string) => `@${users.get(id) || 'user'}`)
+		.replace(/<@&(\d+)>/g, (_, id: string) => `@${message.role_names?.[id] || 'role'}`)
+		.replace(/<#(\d+)>/g, (_, id: string) => `#${message.channel_names?.[id] || 'channel'}`)
+		.replace(/<a?:(\w+):\d+>/g, ':$1:')
+		.replace(/<t:(\d+)(?::[tTdDfFR])?>/g, (_, seconds: string) => new Date(Number(seconds) * 1000).toISOString())
+		.replace(/\|\|(.+?)\|\|/g, '$1')
+		.replace(/[ \t]+/g, ' ')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+export function mapDiscordPayload(payload: DiscordMessage | DiscordGatewayDispatch): DiscordEventAction {
+	let kind: 'create' | 'update' = 'create';
+	let message: DiscordMessage;
+
+	if ('t' in payload && 'd' in payload) {
+		if (payload.t !== 'MESSAGE_CREATE' && payload.t !== 'MESSAGE_UPDATE') {
+			return { kind: 'ignore', reason: `Unsupported dispatch: ${payload.t}` };
+		}
+		kind = payload.t === 'MESSAGE_UPDATE' ? 'update' : 'create';
+		message = payload.d;
+	} else {
+		message = payload as DiscordMessage;
+	}
+
+	if (!message || !message.id || !message.channel_id || !message.author) {
+		return { kind: 'ignore', reason: 'Payload is not a Discord message' };
+	}
+	if (message.author.bot || message.webhook_id) {
+		return { kind: 'ignore', reason: 'Message posted by a bot or webhook' };
+	}
+	if (message.type !== undefined && !USER_MESSAGE_TYPES.has(message.type)) {
+		return { kind: 'ignore', reason: `System message type ${message.type}` };
+	}
+
+	let content = cleanDiscordContent(message);
+	const attachments = (message.attachments || []).map(a => a.url);
+	if (!content && attachments.length === 0) {
+		return { kind: 'ignore', reason: 'Message has no text' };
+	}
+	if (message.thread?.name) {
+		content = `[Thread: ${message.thread.name}] ${content}`.trim();
+	}
+	if (content.length > LIMITS.contentMaxLength) {
+		content = content.substring(0, LIMITS.contentMaxLength - 3) + '...';
+	}
+
+	// A thread's id is the id of the message that started it, so a thread message
+	// attaches to that starter message if we stored it
+	const parentIds = [message.message_reference?.message_id, message.thread?.id, message.channel_id]
+		.filter((id): id is string => !!id && id !== message.id)
+		.filter((id, index, all) => all.indexOf(id) === index)
+		.map(discordExternalId);
+
+	return {
+		kind,
+		record: {
+			external_id: discordExternalId(message.id),
+			content: content || `(attachment) ${message.attachments?.map(a => a.filename).join(', ')}`,
+			user: message.author.username,
+			link: discordMessageLink(message),
+			timestamp: (message.timestamp && Date.parse(message.timestamp)) || Date.now(),
+			parent_external_ids: parentIds,
+			metadata: {
+				guild_id: message.guild_id,
+				channel_id: message.channel_id,
+				thread_id: message.thread?.id,
+				thread_name: message.thread?.name,
+				attachments: attachments.length > 0 ? attachments : undefined
+			}
+		}
+	};
+}
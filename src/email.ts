@@ -0,0 +1,179 @@
+/**
+ * Inbound email parsing
+ * Turns a raw support email into clean feedback text: MIME decoding, HTML → text,
+ * quoted-reply stripping and signature removal
+ */
+
+import PostalMime from 'postal-mime';
+import { LIMITS } from './validation';
+
+export interface InboundEmail {
+	from: string;
+	fromName?: string;
+	subject: string;
+	messageId?: string;
+	// Message-IDs this email replies to, nearest first (In-Reply-To, then References newest → oldest)
+	threadIds: string[];
+	content: string;
+	date?: number;
+	autoGenerated: boolean;
+}
+
+// Lines that start the quoted part of a reply - everything from here down is history
+const QUOTE_HEADER_PATTERNS = [
+	/^On\s.+wrote:\s*$/i,
+	/^-{2,}\s*(Original Message|Forwarded message)/i,
+	/^_{10,}\s*$/, // Outlook separator
+	/^Le\s.+a écrit\s*:\s*$/i,
+	/^Am\s.+schrieb.+:\s*$/i,
+];
+
+// Signature openers - everything from here down is the sender's footer
+const SIGNATURE_PATTERNS = [
+	/^--\s*$/,
+	/^Sent from my (iPhone|iPad|Android|Galaxy|mobile device)/i,
+	/^Sent from (Outlook|Mail|Yahoo Mail|Gmail)/i,
+	/^Get Outlook for (iOS|Android)/i,
+];
+
+// Sign-offs only count as a signature when they're near the end of the message
+const VALEDICTION_PATTERN = /^(thanks|thank you|cheers|best|best regards|kind regards|regards|sincerely|many thanks)[,!.]?\s*$/i;
+
+export function normalizeMessageId(id: string | undefined | null): string | undefined {
+	if (!id) return undefined;
+	const trimmed = id.trim().replace(/^<|>$/g, '').trim();
+	return trimmed || undefined;
+}
+
+function parseReferences(header: string | undefined): string[] {
+	if (!header) return [];
+	return (header.match(/<[^>]+>/g) || []).map(id => normalizeMessageId(id)).filter((id): id is string => !!id);
+}
+
+/**
+ * Workspace named by plus-addressing on the recipient: "support+mobile@example.com" → "mobile"
+ */
+export function workspaceFromAddress(address: string | undefined | null): string | null {
+	const match = (address || '').match(/^[^@+]+\+([^@]+)@/);
+	return match ? match[1].toLowerCase() : null;
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function htmlToText(html: string): string {
+	return html
+		.replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+		// Quoted history in HTML mail lives in blockquotes / gmail_quote containers
+		.replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+		.replace(/<div[^>]+class="[^"]*gmail_quote[^"]*"[\s\S]*$/i, '')
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+		.replace(/<li[^>]*>/gi, '- ')
+		.replace(/<[^>]+>/g, '')
+		.replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+			const lower = entity.toLowerCase();
+			if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+			if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+			return HTML_ENTITIES[lower] ?? match;
+		});
+}
+
+function isQuoteHeader(line: string, nextLine: string): boolean {
+	if (QUOTE_HEADER_PATTERNS.some(pattern => pattern.test(line))) return true;
+	// Gmail wraps long attributions: "On Mon, 2 Mar 2026 at 10:15, Support" / "<help@example.com> wrote:"
+	if (/^On\s/i.test(line) && /wrote:\s*$/i.test(nextLine)) return true;
+	// Outlook header block: "From: ..." followed by "Sent: ..."
+	if (/^From:\s/i.test(line) && /^(Sent|Date|To|Subject):/i.test(nextLine)) return true;
+	return false;
+}
+
+export function stripQuotedReply(text: string): string {
+	const lines = text.split(/\r?\n/);
+	const kept: string[] = [];
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim();
+		if (line.startsWith('>') || isQuoteHeader(line, lines[i + 1]?.trim() || '')) break;
+		kept.push(lines[i]);
+	}
+
+	return kept.join('\n');
+}
+
+export function stripSignature(text: string): string {
+	const lines = text.split('\n');
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim();
+		if (SIGNATURE_PATTERNS.some(pattern => pattern.test(line))) {
+			return lines.slice(0, i).join('\n');
+		}
+		// "Thanks,\nJane Doe\nAcme Inc" - a sign-off followed by at most a few short lines
+		if (VALEDICTION_PATTERN.test(line)) {
+			const rest = lines.slice(i + 1).filter(l => l.trim() !== '');
+			if (rest.length <= 4 && rest.every(l => l.trim().length <= 60)) {
+				return lines.slice(0, i).join('\n');
+			}
+		}
+	}
+
+	return text;
+}
+
+export function cleanEmailBody(text: string): string {
+	const withoutQuote = stripQuotedReply(text);
+	const withoutSignature = stripSignature(withoutQuote);
+	return withoutSignature
+		.split('\n')
+		.map(line => line.replace(/\s+$/, ''))
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+function stripReplyPrefix(subject: string): string {
+	return subject.replace(/^\s*((re|fwd?|aw|sv)\s*:\s*)+/i, '').trim();
+}
+
+/**
+ * Parse a raw RFC 822 message into feedback-ready fields
+ */
+export async function parseInboundEmail(raw: ReadableStream<Uint8Array> | string | ArrayBuffer, envelopeFrom?: string): Promise<InboundEmail> {
+	const parsed = await PostalMime.parse(raw);
+
+	const fromMailbox = parsed.from && !parsed.from.group ? parsed.from : undefined;
+	const from = (fromMailbox?.address || envelopeFrom || '').toLowerCase();
+
+	// Prefer the plain text part; fall back to the HTML part converted to text
+	const bodyText = parsed.text && parsed.text.trim() ? parsed.text : htmlToText(parsed.html || '');
+	const body = cleanEmailBody(bodyText);
+
+	const subject = stripReplyPrefix(parsed.subject || '');
+	const threadIds = [
+		...parseReferences(parsed.inReplyTo),
+		...parseReferences(parsed.references).reverse()
+	].filter((id, index, all) => all.indexOf(id) === index);
+
+	let content = subject && body && !body.toLowerCase().startsWith(subject.toLowerCase())
+		? `${subject}\n\n${body}`
+		: body || subject;
+	if (content.length > LIMITS.contentMaxLength) {
+		content = content.substring(0, LIMITS.contentMaxLength - 3) + '...';
+	}
+
+	// Out-of-office and other robot mail (RFC 3834)
+	const autoSubmitted = parsed.headers.find(h => h.key === 'auto-submitted')?.value.toLowerCase();
+	const autoGenerated = (!!autoSubmitted && autoSubmitted !== 'no') ||
+		parsed.headers.some(h => h.key === 'x-autoreply' || h.key === 'x-autorespond');
+
+	return {
+		from,
+		fromName: fromMailbox?.name || undefined,
+		subject,
+		messageId: normalizeMessageId(parsed.messageId),
+		threadIds,
+		content,
+		date: parsed.date ? Date.parse(parsed.date) || undefined : undefined,
+		autoGenerated
+	};
+}
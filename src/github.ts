@@ -0,0 +1,153 @@
+/**
+ * GitHub webhook adapter
+ * Verifies X-Hub-Signature-256 and maps issues / issue_comment events onto feedback rows
+ */
+
+import { LIMITS } from './validation';
+import { hmacSha256Hex, timingSafeEqual } from './crypto';
+
+export interface GithubFeedbackRecord {
+	external_id: string;
+	content: string;
+	user?: string;
+	link?: string;
+	timestamp: number;
+	metadata: {
+		repo?: string;
+		number?: number;
+		state: string;
+		labels: string[];
+		event: string;
+		comment_url?: string;
+	};
+}
+
+// create: insert if new, otherwise update in place
+// update: only touch an existing row (e.g. closing an issue we never ingested isn't new feedback)
+export type GithubEventAction =
+	| { kind: 'create'; record: GithubFeedbackRecord }
+	| { kind: 'update'; record: GithubFeedbackRecord }
+	| { kind: 'ignore'; reason: string };
+
+interface GithubUser {
+	login: string;
+	type?: string;
+}
+
+interface GithubIssue {
+	id: number;
+	number: number;
+	title: string;
+	body: string | null;
+	html_url: string;
+	state: string;
+	user: GithubUser;
+	labels?: Array<{ name: string }>;
+	created_at: string;
+	pull_request?: unknown;
+}
+
+interface GithubComment {
+	id: number;
+	body: string;
+	html_url: string;
+	user: GithubUser;
+	created_at: string;
+}
+
+export interface GithubPayload {
+	action?: string;
+	issue?: GithubIssue;
+	comment?: GithubComment;
+	repository?: { full_name: string };
+	sender?: GithubUser;
+}
+
+const ISSUE_CREATE_ACTIONS = new Set(['opened', 'reopened', 'edited', 'labeled', 'unlabeled', 'transferred']);
+const ISSUE_UPDATE_ACTIONS = new Set(['closed', 'deleted']);
+
+/**
+ * Constant-time check of the X-Hub-Signature-256 header ("sha256=<hex hmac of raw body>")
+ */
+export async function verifyGithubSignature(secret: string, body: string, signatureHeader: string | null): Promise<boolean> {
+	if (!secret || !signatureHeader || !signatureHeader.startsWith('sha256=')) {
+		return false;
+	}
+
+	const expected = await hmacSha256Hex(secret, body);
+	return timingSafeEqual(expected, signatureHeader.slice('sha256='.length).toLowerCase());
+}
+
+function truncate(text: string): string {
+	return text.length > LIMITS.contentMaxLength ? text.substring(0, LIMITS.contentMaxLength - 3) + '...' : text;
+}
+
+/**
+ * Map a webhook delivery (X-GitHub-Event + JSON payload) to a feedback action
+ */
+export function mapGithubEvent(event: string, payload: GithubPayload): GithubEventAction {
+	const action = payload.action || '';
+	const issue = payload.issue;
+
+	if (event !== 'issues' && event !== 'issue_comment') {
+		return { kind: 'ignore', reason: `Unsupported event: ${event}` };
+	}
+	if (!issue) {
+		return { kind: 'ignore', reason: 'Payload has no issue' };
+	}
+	// PR conversation is code review, not product feedback
+	if (issue.pull_request) {
+		return { kind: 'ignore', reason: 'Pull request comments are not feedback' };
+	}
+
+	const labels = (issue.labels || []).map(l => l.name);
+	const repo = payload.repository?.full_name;
+
+	if (event === 'issues') {
+		if (!ISSUE_CREATE_ACTIONS.has(action) && !ISSUE_UPDATE_ACTIONS.has(action)) {
+			return { kind: 'ignore', reason: `Unsupported issues action: ${action}` };
+		}
+		if (issue.user.type === 'Bot') {
+			return { kind: 'ignore', reason: 'Issue opened by a bot' };
+		}
+
+		const record: GithubFeedbackRecord = {
+			external_id: `issue:${issue.id}`,
+			content: truncate(issue.body ? `${issue.title}\n\n${issue.body}` : issue.title),
+			user: issue.user.login,
+			link: issue.html_url,
+			timestamp: Date.parse(issue.created_at) || Date.now(),
+			metadata: { repo, number: issue.number, state: action === 'deleted' ? 'deleted' : issue.state, labels, event: `issues.${action}` }
+		};
+		return { kind: ISSUE_CREATE_ACTIONS.has(action) ? 'create' : 'update', record };
+	}
+
+	const comment = payload.comment;
+	if (!comment) {
+		return { kind: 'ignore', reason: 'Payload has no comment' };
+	}
+	if (!['created', 'edited', 'deleted'].includes(action)) {
+		return { kind: 'ignore', reason: `Unsupported issue_comment action: ${action}` };
+	}
+	if (comment.user.type === 'Bot') {
+		return { kind: 'ignore', reason: 'Comment posted by a bot' };
+	}
+
+	const record: GithubFeedbackRecord = {
+		external_id: `comment:${comment.id}`,
+		content: truncate(comment.body),
+		user: comment.user.login,
+		// Link to the issue so comments line up with the thread they belong to
+		link: issue.html_url,
+		timestamp: Date.parse(comment.created_at) || Date.now(),
+		metadata: {
+			repo,
+			number: issue.number,
+			state: action === 'deleted' ? 'deleted' : issue.state,
+			labels,
+			event: `issue_comment.${action}`,
+			comment_url: comment.html_url
+		}
+	};
+	return { kind: action === 'created' ? 'create' : 'update', record };
+}
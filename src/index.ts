@@ -4,130 +4,377 @@
  */
 
 import { getConfig } from './config';
-
-interface Feedback {
-	id: string;
-	content: string;
-	source: 'support' | 'discord' | 'github' | 'email' | 'twitter';
-	timestamp: number;
-	user?: string;
-	link?: string;
-}
-
-interface ClassificationResult {
-	severity: 'P0' | 'P1' | 'P2' | 'P3';
-	category: string;
-	confidence: number;
-	one_line_summary: string;
-	reasoning: string;
-}
-
-interface Cluster {
-	cluster_id: string;
-	category: string;
-	severity: string;
-	centroid: number[]; // embedding vector
-	count: number;
-	first_seen: number;
-	last_seen: number;
-	representative_feedback_id: string;
-	representative_feedback: string;
-	summary: string;
-	suggested_action: string;
-	user_impact: string;
-	priority_score: number;
-	sentiment_score: number;
-	top_sources: string[];
-	// Fix tracking fields
-	fix_status?: 'open' | 'fix_deployed' | 'resolved' | 'failed' | 'wont_fix';
-	fix_deployed_date?: number;
-	fix_deployed_version?: string;
-	rollout_period_days?: number;
-	original_severity?: string;
-	current_severity?: string;
-	reports_before_fix?: number;
-	reports_after_fix?: number;
-	fix_notes?: string;
-}
-
-interface PriorityIssue {
-	priority_score: number;
-	priority_level: string;
-	cluster: Cluster;
-}
-
-interface Digest {
-	digest_id: string;
-	generated_at: number;
-	top_issues: PriorityIssue[];
-	individual_support?: PriorityIssue[]; // Single-user issues
-	positive_feedback?: PriorityIssue[]; // Positive feedback
-	summary: string;
-}
+import type { Feedback, ClassificationResult, Cluster, PriorityIssue, Digest, AccountTier } from './types';
+import {
+	parseJsonBody,
+	validate,
+	validationErrorResponse,
+	feedbackSchema,
+	markFixedSchema,
+	apiKeySchema,
+	workspaceSchema,
+	triageRuleSchema,
+	triageRuleUpdateSchema,
+	destinationSchema,
+	destinationUpdateSchema,
+	alertRouteSchema,
+	alertRouteUpdateSchema,
+	deliveryLogQuerySchema,
+	outboxQuerySchema,
+	heldAlertQuerySchema,
+	heldAlertReleaseSchema,
+	reviewQueueQuerySchema,
+	feedbackLabelSchema,
+	customerQuerySchema,
+	mergeClustersSchema,
+	splitClusterSchema,
+	moveFeedbackSchema,
+	LIMITS
+} from './validation';
+import type {
+	FeedbackInput,
+	FeedbackLabelInput,
+	MarkFixedInput,
+	ApiKeyInput,
+	WorkspaceInput,
+	TriageRuleInput,
+	DestinationInput,
+	AlertRouteInput,
+	MergeClustersInput,
+	SplitClusterInput,
+	MoveFeedbackInput
+} from './validation';
+import { evaluateRules, matchRule, patternError } from './rules';
+import { routeAlert, isValidDestinationId, DEFAULT_DESTINATION } from './routing';
+import type { AlertRoute, AlertDestination } from './routing';
+import { pickAlertGroup } from './alerts';
+import type { AlertCandidate } from './alerts';
+import { MemoryVectorIndex, vectorizeIndex, withOwnWrites, clusterVectorId, clusterIdFromVector, feedbackVectorId, MAX_TOP_K } from './vectors';
+import type { VectorIndex, VectorRecord } from './vectors';
+import { chooseAssignment, explainAssignment, sharedPhrases, textCandidates } from './matching';
+import type { Assignment, MatchCandidate, MatchMethod } from './matching';
+import { classificationFromRow, keywordClassification, CLASSIFICATION_CATEGORIES, CLASSIFICATION_PROMPT_VERSION, RULE_BASED_MODEL } from './classification';
+import type { ClassificationColumns } from './classification';
+import { formatLabelExamples, reviewReason } from './review';
+import { lexiconSentiment, parseSentimentResponse, sentimentLabel } from './sentiment';
+import type { SentimentAnalysis } from './sentiment';
+import type { FeedbackLabel, LabelExample, ReviewReason, ReviewStatus } from './review';
+import { customerImpact, customerKey, isHighValue, parseCustomers, revenueScore } from './customers';
+import type { Customer, CustomerImpact, CustomerRow } from './customers';
+import { memberStats, mostSevere } from './curation';
+import {
+	alertKeyboard,
+	parseCallbackData,
+	markKeyboardRow,
+	actorName,
+	formatActionStatus,
+	resolvesIssue,
+	actionToast,
+	renderTelegramAlert,
+	renderTelegramOverflow,
+	renderTelegramHeldSummary,
+	renderTelegramDigest,
+	paginateTelegramDigest,
+	splitTelegramMessage,
+	splitHtml,
+	TELEGRAM_MAX_LENGTH,
+	SNOOZE_MS
+} from './telegram';
+import type { InlineKeyboardMarkup, TelegramAction, TelegramMessage, TelegramPart, TelegramUpdate } from './telegram';
+import { DeliveryError, delivered, failed, maskTarget, parseEmailRecipients, validateTarget } from './notifier';
+import type { AlertView, Delivery, DeliveryKind, DigestView, HeldAlertView, Notifier, ReportView, SupportCaseView } from './notifier';
+import { decideDelivery, isQuietTime, quietHoursError } from './policy';
+import type { HeldAlertStatus } from './policy';
+import { nextAttemptAt } from './outbox';
+import type { DeliveryLogEntry, OutboxEntry, OutboxStatus } from './outbox';
+import { slackNotifier } from './slack';
+import { emailNotifier } from './mailer';
+import { webhookNotifier } from './outbound';
+import { parseBotCommand, formatHelp, formatTopClusters, formatClusterDetail, formatSearchResults, shortId } from './commands';
+import type { BotCommand, ClusterDetail, ReportLine } from './commands';
+import type { TriageRule } from './rules';
+import { parseBatch, detectBatchFormat, BATCH_LIMITS } from './batch';
+import type { BatchRow } from './batch';
+import { verifyGithubSignature, mapGithubEvent } from './github';
+import type { GithubPayload } from './github';
+import { parseInboundEmail, workspaceFromAddress } from './email';
+import { mapDiscordPayload } from './discord';
+import type { DiscordMessage, DiscordGatewayDispatch } from './discord';
+import { applyMapping } from './mapping';
+import { timingSafeEqual } from './crypto';
+import { isNearDuplicate } from './dedupe';
+import { LocalQueue, retryDelaySeconds } from './queue';
+import type { TriageMessage, PipelineStatus } from './queue';
+import { generateApiKey, hashApiKey, extractApiKey, hasScope, routeScope, resolveCorsOrigin, API_KEY_PREFIX } from './auth';
+import type { ApiKeyRecord } from './auth';
+import type { ApiScope } from './types';
+import { parseWorkspacePath, applyWorkspaceSettings, validateWorkspaceSettings, isValidWorkspaceId, isDigestDue, DEFAULT_WORKSPACE_ID } from './workspaces';
+import type { AppConfig, Workspace, WorkspaceSettings } from './workspaces';
 
 // Config will be loaded per-request to get latest values
 
 export default {
 	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 		const url = new URL(request.url);
-		const path = url.pathname;
+		// "/w/<workspace>/..." selects a workspace explicitly; routes below see the path without it
+		const { workspaceId: pathWorkspaceId, path } = parseWorkspacePath(url.pathname);
 		const method = request.method;
 
-		const corsHeaders = {
-			'Access-Control-Allow-Origin': '*',
-			'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-			'Access-Control-Allow-Headers': 'Content-Type',
-		};
+		// Only allowlisted browser origins get CORS headers
+		const allowedOrigin = resolveCorsOrigin(request.headers.get('Origin'), getConfig(env).security.corsOrigins);
+		const corsHeaders: Record<string, string> = allowedOrigin
+			? {
+				'Access-Control-Allow-Origin': allowedOrigin,
+				'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+				'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key, Authorization, X-API-Key',
+				'Vary': 'Origin',
+			}
+			: { 'Vary': 'Origin' };
 
 		if (method === 'OPTIONS') {
-			return new Response(null, { headers: corsHeaders });
+			return new Response(null, { status: allowedOrigin ? 204 : 403, headers: corsHeaders });
 		}
 
 		try {
+			const scope = routeScope(path, method);
+			let apiKey: ApiKeyRecord | null = null;
+			if (scope) {
+				const auth = await authenticate(request, env, ctx, scope, pathWorkspaceId);
+				if (!auth.ok) {
+					return authErrorResponse(auth, corsHeaders);
+				}
+				apiKey = auth.key;
+			}
+
+			// Workspace: explicit path prefix, else the key's own workspace, else default
+			const ws = await loadWorkspace(env, pathWorkspaceId || apiKey?.workspace_id || DEFAULT_WORKSPACE_ID);
+			if (!ws) {
+				return new Response(JSON.stringify({ error: 'workspace_not_found', message: `No workspace "${pathWorkspaceId}"` }), {
+					status: 404,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+				});
+			}
+
 			if (path === '/feedback' && method === 'POST') {
-				return handlePostFeedback(request, env, corsHeaders);
+				return handlePostFeedback(request, env, corsHeaders, ctx, ws);
+			}
+			if (path === '/feedback/batch' && method === 'POST') {
+				return handleBatchFeedback(request, env, corsHeaders, ws);
+			}
+			if (path.startsWith('/feedback/') && path.endsWith('/reclassify') && method === 'POST') {
+				const feedbackId = path.split('/')[2];
+				return handleReclassify(env, corsHeaders, ws, feedbackId);
+			}
+			if (path.startsWith('/feedback/') && path.endsWith('/label') && method === 'POST') {
+				const feedbackId = path.split('/')[2];
+				return handleLabelFeedback(request, env, corsHeaders, ws, apiKey, feedbackId);
+			}
+			if (path.startsWith('/feedback/') && path.endsWith('/move') && method === 'POST') {
+				const feedbackId = path.split('/')[2];
+				return handleMoveFeedback(request, env, corsHeaders, ws, apiKey, feedbackId);
+			}
+			if (path === '/review' && method === 'GET') {
+				return handleListReviewQueue(request, env, corsHeaders, ws);
+			}
+			if (path === '/customers' && method === 'GET') {
+				return handleListCustomers(request, env, corsHeaders, ws);
+			}
+			if (path === '/customers' && method === 'POST') {
+				return handleImportCustomers(request, env, corsHeaders, ws);
+			}
+			if (path.startsWith('/customers/') && path.endsWith('/delete') && method === 'POST') {
+				const user = decodeURIComponent(path.split('/')[2]);
+				return handleDeleteCustomer(env, corsHeaders, ws, user);
+			}
+			if (path.startsWith('/feedback/') && path.endsWith('/status') && method === 'GET') {
+				const feedbackId = path.split('/')[2];
+				return handleFeedbackStatus(env, corsHeaders, ws, feedbackId);
+			}
+			if (path.startsWith('/feedback/') && path.endsWith('/assignment') && method === 'GET') {
+				const feedbackId = path.split('/')[2];
+				return handleFeedbackAssignment(env, corsHeaders, ws, feedbackId);
+			}
+			if (path === '/integrations/github/webhook' && method === 'POST') {
+				return handleGithubWebhook(request, env, corsHeaders, ctx, ws);
+			}
+			if (path === '/integrations/discord/webhook' && method === 'POST') {
+				return handleDiscordWebhook(request, env, corsHeaders, ctx, ws);
+			}
+			if (path.startsWith('/integrations/webhook/') && method === 'POST') {
+				const name = path.split('/')[3];
+				return handleMappedWebhook(request, env, corsHeaders, ctx, ws, name);
+			}
+			if (path === '/admin/keys' && method === 'GET') {
+				return handleListApiKeys(env, corsHeaders, apiKey);
+			}
+			if (path === '/admin/keys' && method === 'POST') {
+				return handleCreateApiKey(request, env, corsHeaders, apiKey);
+			}
+			if (path.startsWith('/admin/keys/') && path.endsWith('/revoke') && method === 'POST') {
+				const keyId = path.split('/')[3];
+				return handleRevokeApiKey(env, corsHeaders, apiKey, keyId);
+			}
+			if (path === '/admin/workspaces' && method === 'GET') {
+				return handleListWorkspaces(env, corsHeaders, apiKey);
+			}
+			if (path === '/admin/workspaces' && method === 'POST') {
+				return handleSaveWorkspace(request, env, corsHeaders, apiKey, null);
+			}
+			if (path.startsWith('/admin/workspaces/') && method === 'POST') {
+				const workspaceId = path.split('/')[3];
+				return handleSaveWorkspace(request, env, corsHeaders, apiKey, workspaceId);
 			}
 			if (path === '/seed' && method === 'POST') {
-				return handleSeed(request, env, corsHeaders);
+				return handleSeed(request, env, corsHeaders, ws);
 			}
 			if (path === '/run' && method === 'POST') {
-				return handleRun(request, env, corsHeaders);
+				return handleRun(request, env, corsHeaders, ws);
 			}
 			if (path === '/digest' && method === 'GET') {
-				return handleGetDigest(request, env, corsHeaders);
+				return handleGetDigest(request, env, corsHeaders, ws);
 			}
 			if (path === '/telegram/test' && method === 'POST') {
-				return handleTestTelegram(request, env, corsHeaders);
+				return handleTestTelegram(request, env, corsHeaders, ws);
 			}
-			if (path === '/telegram/debug' && method === 'GET') {
-				return new Response(JSON.stringify({
-					lastError: lastTelegramError || 'No errors recorded',
-					note: 'This shows the last Telegram error. Run /run to see current error.'
-				}), {
-					headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-				});
+			if (path === '/telegram/webhook' && method === 'POST') {
+				return handleTelegramWebhook(request, env, corsHeaders, ws);
+			}
+			if (path === '/held-alerts' && method === 'GET') {
+				return handleListHeldAlerts(request, env, corsHeaders, ws);
+			}
+			if (path === '/held-alerts/release' && method === 'POST') {
+				return handleReleaseHeldAlerts(request, env, corsHeaders, ws);
+			}
+			if (path === '/deliveries' && method === 'GET') {
+				return handleListDeliveries(request, env, corsHeaders, ws);
+			}
+			if (path === '/deliveries/outbox' && method === 'GET') {
+				return handleListOutbox(request, env, corsHeaders, ws);
+			}
+			if (path.startsWith('/deliveries/outbox/') && path.endsWith('/retry') && method === 'POST') {
+				const outboxId = path.split('/')[3];
+				return handleRetryOutbox(env, corsHeaders, ws, outboxId);
+			}
+			if (path === '/rules' && method === 'GET') {
+				return handleListRules(env, corsHeaders, ws);
+			}
+			if (path === '/rules' && method === 'POST') {
+				return handleSaveRule(request, env, corsHeaders, ws, apiKey, null);
+			}
+			if (path === '/rules/dry-run' && method === 'POST') {
+				return handleRuleDryRun(request, env, corsHeaders, ws, null);
+			}
+			if (path.startsWith('/rules/') && path.endsWith('/dry-run') && method === 'GET') {
+				const ruleId = path.split('/')[2];
+				return handleRuleDryRun(request, env, corsHeaders, ws, ruleId);
+			}
+			if (path.startsWith('/rules/') && path.endsWith('/delete') && method === 'POST') {
+				const ruleId = path.split('/')[2];
+				return handleDeleteRule(env, corsHeaders, ws, apiKey, ruleId);
+			}
+			if (path.startsWith('/rules/') && path.split('/').length === 3 && method === 'POST') {
+				const ruleId = path.split('/')[2];
+				return handleSaveRule(request, env, corsHeaders, ws, apiKey, ruleId);
+			}
+			if (path === '/destinations' && method === 'GET') {
+				return handleListDestinations(env, corsHeaders, ws);
+			}
+			if (path === '/destinations' && method === 'POST') {
+				return handleSaveDestination(request, env, corsHeaders, ws, null);
+			}
+			if (path.startsWith('/destinations/') && path.endsWith('/delete') && method === 'POST') {
+				const destinationId = path.split('/')[2];
+				return handleDeleteDestination(env, corsHeaders, ws, destinationId);
+			}
+			if (path.startsWith('/destinations/') && path.split('/').length === 3 && method === 'POST') {
+				const destinationId = path.split('/')[2];
+				return handleSaveDestination(request, env, corsHeaders, ws, destinationId);
+			}
+			if (path === '/routes' && method === 'GET') {
+				return handleListRoutes(env, corsHeaders, ws);
+			}
+			if (path === '/routes' && method === 'POST') {
+				return handleSaveRoute(request, env, corsHeaders, ws, null);
+			}
+			if (path.startsWith('/routes/') && path.endsWith('/delete') && method === 'POST') {
+				const routeId = path.split('/')[2];
+				return handleDeleteRoute(env, corsHeaders, ws, routeId);
+			}
+			if (path.startsWith('/routes/') && path.split('/').length === 3 && method === 'POST') {
+				const routeId = path.split('/')[2];
+				return handleSaveRoute(request, env, corsHeaders, ws, routeId);
+			}
+			if (path.startsWith('/clusters/') && path.endsWith('/merge') && method === 'POST') {
+				const clusterId = path.split('/')[2];
+				return handleMergeClusters(request, env, corsHeaders, ws, apiKey, clusterId);
+			}
+			if (path.startsWith('/clusters/') && path.endsWith('/split') && method === 'POST') {
+				const clusterId = path.split('/')[2];
+				return handleSplitCluster(request, env, corsHeaders, ws, apiKey, clusterId);
 			}
 			if (path.startsWith('/clusters/') && path.endsWith('/mark-fixed') && method === 'POST') {
 				const clusterId = path.split('/')[2];
-				return handleMarkFixed(request, env, corsHeaders, clusterId);
+				return handleMarkFixed(request, env, corsHeaders, ws, clusterId);
 			}
 			if (path === '/reset' && method === 'POST') {
-				return handleReset(request, env, corsHeaders);
+				return handleReset(request, env, corsHeaders, ws);
 			}
 			if (path === '/view' && method === 'GET') {
-				return handleViewDigest(request, env, corsHeaders);
+				return handleViewDigest(request, env, corsHeaders, ws);
 			}
 			if (path === '/' && method === 'GET') {
 				return new Response(JSON.stringify({
 					endpoints: {
-						'POST /feedback': 'Submit a single feedback (triggers instant alert if P0)',
+						'POST /feedback': 'Submit a single feedback (202 - triaged asynchronously, instant alert if P0)',
+						'GET /feedback/:id/status': 'Where a feedback is in the triage pipeline',
+						'GET /feedback/:id/assignment': 'Why a feedback is in its cluster: match method, similarity, shared phrases and runner-up clusters',
+						'POST /feedback/:id/move': 'Move a feedback to another cluster, pinned there (admin)',
+						'POST /clusters/:id/merge': 'Merge other clusters into this one (cluster_ids); their reports are pinned here (admin)',
+						'POST /clusters/:id/split': 'Move some reports (feedback_ids) out into a new cluster, pinned there (admin)',
+						'POST /feedback/:id/reclassify': 'Re-run rules and AI classification after a model/prompt change (admin)',
+						'GET /review': 'Review queue: low-confidence classifications and rule/AI disagreements (?status=pending|reviewed&reason=)',
+						'POST /feedback/:id/label': 'Correct (or confirm) a feedback\'s severity and category; labels become classifier examples (admin)',
+						'POST /feedback/batch': 'Bulk/backfill import (JSON array, NDJSON or CSV) - keeps original timestamps, no instant alerts',
+						'GET /customers': 'Customer accounts by ARR, matched to feedback.user (?tier=&limit=)',
+						'POST /customers': 'Create or update customer accounts from JSON or CSV (user, name, plan, tier, mrr/arr, renewal_date) (admin)',
+						'POST /customers/:user/delete': 'Delete a customer account (admin)',
+						'POST /integrations/github/webhook': 'GitHub issues / issue_comment webhook (X-Hub-Signature-256 verified)',
+						'POST /integrations/discord/webhook': 'Discord message / MESSAGE_CREATE payloads forwarded by a bot',
+						'POST /integrations/webhook/:name': 'Generic JSON webhook mapped via config (Intercom, Zendesk, Typeform...)',
+						'GET /admin/keys': 'List API keys (admin)',
+						'POST /admin/keys': 'Create an API key with ingest/read/admin scopes (admin)',
+						'POST /admin/keys/:id/revoke': 'Revoke an API key (admin)',
+						'GET /admin/workspaces': 'List workspaces (global admin)',
+						'POST /admin/workspaces': 'Create a workspace with its own settings (global admin)',
+						'POST /admin/workspaces/:id': 'Update a workspace name or settings (global admin)',
+						'GET /rules': 'List triage rules with their recent alert counts',
+						'POST /rules': 'Create a triage rule (admin)',
+						'POST /rules/:id': 'Update a triage rule (admin)',
+						'POST /rules/:id/delete': 'Delete a triage rule (admin)',
+						'GET /rules/:id/dry-run': 'Historical feedback a rule would have matched (?days=30&limit=50)',
+						'POST /rules/dry-run': 'Dry-run an unsaved rule definition (admin)',
+						'GET /destinations': 'List destinations (Telegram chats, Slack, email, signed webhooks) with their recent alert counts',
+						'POST /destinations': 'Create a destination (admin)',
+						'POST /destinations/:id': 'Update a destination (admin)',
+						'POST /destinations/:id/delete': 'Delete a destination no route or notifications setting uses (admin)',
+						'GET /routes': 'List alert routes',
+						'POST /routes': 'Create an alert route by category, severity, source or keyword (admin)',
+						'POST /routes/:id': 'Update an alert route (admin)',
+						'POST /routes/:id/delete': 'Delete an alert route (admin)',
+						'GET /held-alerts': 'Alerts held during destinations\' quiet hours (?status=held|released|discarded&destination=)',
+						'POST /held-alerts/release': 'Send held alerts now as a "while you were away" summary (admin)',
+						'GET /deliveries': 'Delivery history: every alert, digest and test message attempt (?status=&kind=&destination=&ref_id=&limit=)',
+						'GET /deliveries/outbox': 'Digest deliveries waiting for a retry or given up on (?status=pending|sent|failed)',
+						'POST /deliveries/outbox/:id/retry': 'Retry an outbox delivery now (admin)',
 						'POST /seed': 'Load mock feedback data',
 						'POST /run': 'Trigger morning digest generation',
 						'GET /digest': 'Get latest digest (JSON)',
 						'GET /view': 'View latest digest (same as Telegram, web browser)',
 						'POST /telegram/test': 'Test Telegram connection',
-						'POST /reset': 'Reset processed flags (for testing)'
-					}
+						'POST /telegram/webhook': 'Telegram bot webhook for alert/digest buttons (X-Telegram-Bot-Api-Secret-Token verified)',
+						'POST /reset': 'Delete all data in the workspace (for testing)'
+					},
+					workspaces: 'Prefix any path with /w/<workspace> (e.g. /w/mobile/feedback); without it the API key\'s workspace or "default" is used'
 				}), {
 					headers: { ...corsHeaders, 'Content-Type': 'application/json' }
 				});
@@ -144,156 +391,927 @@ export default {
 	},
 
 	scheduled(controller, env, ctx) {
-		// Cron trigger - runs daily at 9am PT (17:00 UTC)
-		console.log('Morning digest cron triggered at:', new Date().toISOString());
-		generateMorningDigest(env).catch((err) => {
-			console.error('Error in scheduled morning digest:', err);
+		// Cron trigger - every 5 minutes; each workspace gets its digest at its own local hour (default 9am PT),
+		// outbox deliveries whose backoff has run out are retried, and alerts held for quiet hours that have ended go out
+		console.log('Digest cron triggered at:', new Date(controller.scheduledTime).toISOString());
+		ctx.waitUntil(runScheduledDigests(env, new Date(controller.scheduledTime)));
+		ctx.waitUntil(processOutbox(env, controller.scheduledTime));
+		ctx.waitUntil(releaseHeldAlerts(env, controller.scheduledTime));
+		ctx.waitUntil(requeueStalledFeedback(env, ctx));
+	},
+
+	async queue(batch, env, ctx) {
+		// Triage pipeline consumer - classification, instant alerts and embeddings
+		await processTriageBatch(env, batch);
+	},
+
+	async email(message, env, ctx) {
+		// Email Routing - inbound support mail becomes feedback
+		try {
+			await handleInboundEmail(message, env, ctx);
+		} catch (error) {
+			console.error('Error handling inbound email:', error);
+		}
+	}
+} satisfies ExportedHandler<Env, TriageMessage>;
+
+async function handlePostFeedback(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ctx: ExecutionContext,
+	ws: Workspace
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const idempotencyKey = request.headers.get('Idempotency-Key')?.trim() || null;
+	if (idempotencyKey && idempotencyKey.length > 200) {
+		return validationErrorResponse({
+			ok: false,
+			status: 400,
+			error: 'validation_failed',
+			message: '1 field error',
+			errors: [{ field: 'Idempotency-Key', code: 'too_long', message: 'Idempotency-Key must be at most 200 characters' }]
+		}, corsHeaders);
+	}
+
+	const parsed = await parseJsonBody<FeedbackInput>(request, feedbackSchema);
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+
+	// Keys are only unique per client, so two workspaces may use the same one
+	const storedKey = idempotencyKey ? `${ws.id}:${idempotencyKey}` : null;
+	if (storedKey) {
+		const claim = await claimIdempotencyKey(env, storedKey);
+		if (claim.status === 'replay') {
+			return new Response(claim.response, { headers: { ...jsonHeaders, 'Idempotent-Replayed': 'true' } });
+		}
+		if (claim.status === 'in_flight') {
+			return new Response(JSON.stringify({
+				error: 'idempotency_conflict',
+				message: 'A request with this Idempotency-Key is still being processed'
+			}), { status: 409, headers: jsonHeaders });
+		}
+	}
+
+	let responseBody: string;
+	let status: number;
+	try {
+		const { id, status: pipelineStatus, duplicate } = await ingestFeedback(env, ctx, ws, parsed.value);
+		status = duplicate ? 200 : 202;
+		responseBody = JSON.stringify({ 
+			id, 
+			message: duplicate ? 'Duplicate feedback - returning the original' : 'Feedback received - triage queued',
+			status: pipelineStatus || 'not_queued',
+			status_url: `/feedback/${id}/status`,
+			...(duplicate ? { duplicate } : {})
 		});
+		if (storedKey) {
+			await env.DB.prepare(
+				'UPDATE idempotency_keys SET feedback_id = ?, response = ? WHERE idempotency_key = ?'
+			).bind(id, responseBody, storedKey).run();
+		}
+	} catch (error) {
+		// Release the key so the client can retry
+		if (storedKey) {
+			await env.DB.prepare('DELETE FROM idempotency_keys WHERE idempotency_key = ?').bind(storedKey).run();
+		}
+		throw error;
 	}
-} satisfies ExportedHandler<Env>;
 
-async function handlePostFeedback(request: Request, env: Env, corsHeaders: Record<string, string>): Promise<Response> {
-	const body = await request.json() as Feedback;
-	
+	return new Response(responseBody, { status, headers: jsonHeaders });
+}
+
+async function claimIdempotencyKey(
+	env: Env,
+	key: string
+): Promise<{ status: 'claimed' } | { status: 'in_flight' } | { status: 'replay'; response: string }> {
+	const config = getConfig(env);
+	const now = Date.now();
+
+	// Expired keys behave as if they were never used
+	await env.DB.prepare(
+		'DELETE FROM idempotency_keys WHERE created_at < ?'
+	).bind(now - config.ingestion.idempotencyTtlHours * 3600000).run();
+
+	const inserted = await env.DB.prepare(
+		'INSERT OR IGNORE INTO idempotency_keys (idempotency_key, created_at) VALUES (?, ?)'
+	).bind(key, now).run();
+	if (inserted.meta.changes === 1) {
+		return { status: 'claimed' };
+	}
+
+	const existing = await env.DB.prepare(
+		'SELECT response FROM idempotency_keys WHERE idempotency_key = ?'
+	).bind(key).first<{ response: string | null }>();
+	return existing?.response ? { status: 'replay', response: existing.response } : { status: 'in_flight' };
+}
+
+interface IngestInput extends FeedbackInput {
+	timestamp?: number;
+	metadata?: unknown;
+	parent_id?: string;
+}
+
+interface IngestResult {
+	id: string;
+	// Pipeline status of `id` (null for rows that were never enqueued)
+	status: PipelineStatus | null;
+	// Set when nothing new was queued and `id` is the original feedback
+	duplicate?: 'external_id' | 'cross_post';
+}
+
+// Shared ingestion path for the API and every integration: dedupe, store, enqueue for triage.
+// Classification, alerting and embedding happen in the queue consumer (processTriageBatch).
+async function ingestFeedback(env: Env, ctx: ExecutionContext, ws: Workspace, input: IngestInput): Promise<IngestResult> {
 	const id = crypto.randomUUID();
-	const timestamp = Date.now();
+	const timestamp = input.timestamp ?? Date.now();
+
+	// Retried webhook / repeated import of an item we already have
+	if (input.external_id) {
+		const existing = await env.DB.prepare(
+			'SELECT id, pipeline_status FROM feedback WHERE workspace_id = ? AND source = ? AND external_id = ?'
+		).bind(ws.id, input.source, input.external_id).first<{ id: string; pipeline_status: PipelineStatus | null }>();
+		if (existing) {
+			console.log(`♻️ Duplicate external_id ${input.source}/${input.external_id} → ${existing.id.substring(0, 8)}`);
+			return { id: existing.id, status: existing.pipeline_status, duplicate: 'external_id' };
+		}
+	}
+
+	// Replies and thread messages (email, Discord) belong to the conversation's first message:
+	// stored with it, but never triaged, alerted or counted on their own
+	if (input.parent_id) {
+		await insertChildFeedback(env, ws, id, input, timestamp, input.parent_id, input.metadata);
+		return { id, status: null };
+	}
+
+	// Same user posting the same report to several channels: keep the copy, but as a
+	// child of the original so it isn't triaged, alerted or counted twice
+	if (input.user) {
+		const original = await findCrossPost(env, ws, input, timestamp);
+		if (original) {
+			await insertChildFeedback(env, ws, id, input, timestamp, original.id, { ...(input.metadata as object | undefined), cross_post_of: original.id });
+			console.log(`♻️ Cross-post from ${input.user} via ${input.source} → ${original.id.substring(0, 8)}`);
+			return { id: original.id, status: original.pipeline_status, duplicate: 'cross_post' };
+		}
+	}
 	
 	// Store feedback
 	await env.DB.prepare(
-		'INSERT INTO feedback (id, content, source, timestamp, user, link, processed, instant_alert_sent) VALUES (?, ?, ?, ?, ?, ?, 0, 0)'
-	).bind(id, body.content, body.source, timestamp, body.user || null, body.link || null).run();
+		"INSERT INTO feedback (id, workspace_id, content, source, timestamp, user, link, external_id, metadata, parent_id, processed, instant_alert_sent, pipeline_status, pipeline_updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 'queued', ?)"
+	).bind(
+		id,
+		ws.id,
+		input.content,
+		input.source,
+		timestamp,
+		input.user || null,
+		input.link || null,
+		input.external_id || null,
+		input.metadata ? JSON.stringify(input.metadata) : null,
+		input.parent_id || null,
+		Date.now()
+	).run();
+
+	await enqueueTriage(env, ctx, [id]);
+
+	return { id, status: 'queued' };
+}
+
+// Child rows skip the pipeline: processed, and no pipeline_status
+async function insertChildFeedback(
+	env: Env,
+	ws: Workspace,
+	id: string,
+	input: IngestInput,
+	timestamp: number,
+	parentId: string,
+	metadata: unknown
+): Promise<void> {
+	await env.DB.prepare(
+		'INSERT INTO feedback (id, workspace_id, content, source, timestamp, user, link, external_id, metadata, parent_id, processed, instant_alert_sent) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, 0)'
+	).bind(
+		id,
+		ws.id,
+		input.content,
+		input.source,
+		timestamp,
+		input.user || null,
+		input.link || null,
+		input.external_id || null,
+		metadata ? JSON.stringify(metadata) : null,
+		parentId
+	).run();
+}
+
+async function findCrossPost(
+	env: Env,
+	ws: Workspace,
+	input: IngestInput,
+	timestamp: number
+): Promise<{ id: string; pipeline_status: PipelineStatus | null } | null> {
+	const config = ws.config;
+	const windowMs = config.ingestion.crossPostWindowMinutes * 60000;
+	const recent = await env.DB.prepare(
+		'SELECT id, content, pipeline_status FROM feedback WHERE workspace_id = ? AND user = ? AND parent_id IS NULL AND timestamp BETWEEN ? AND ? ORDER BY timestamp ASC LIMIT 20'
+	).bind(ws.id, input.user, timestamp - windowMs, timestamp + windowMs).all<{ id: string; content: string; pipeline_status: PipelineStatus | null }>();
+
+	return recent.results?.find(row => isNearDuplicate(row.content, input.content, config.ingestion.crossPostSimilarity)) || null;
+}
 
-	// Process feedback through triage system
-	const shouldAlert = await triageFeedback(env, { ...body, id, timestamp });
+// Hand feedback to the triage consumer. Without a Queue binding (local dev without Queues)
+// an in-memory queue runs the same consumer once the response has been sent.
+async function enqueueTriage(env: Env, ctx: ExecutionContext, feedbackIds: string[]): Promise<void> {
+	const messages = feedbackIds.map(id => ({ body: { feedback_id: id, enqueued_at: Date.now() } as TriageMessage }));
 
-	if (shouldAlert) {
-		await sendInstantAlert(env, { ...body, id, timestamp });
+	if (env.TRIAGE_QUEUE) {
+		try {
+			await env.TRIAGE_QUEUE.sendBatch(messages);
+		} catch (error) {
+			// The rows stay 'queued' and the cron picks them up again (requeueStalledFeedback)
+			console.error('❌ Failed to enqueue triage:', error);
+		}
+		return;
 	}
 
-	return new Response(JSON.stringify({ 
-		id, 
-		message: 'Feedback received',
-		instant_alert: shouldAlert ? 'sent' : 'queued for morning digest'
-	}), {
-		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+	const config = getConfig(env);
+	const queue = new LocalQueue<TriageMessage>(batch => processTriageBatch(env, batch), {
+		name: 'feedback-triage',
+		maxRetries: config.pipeline.maxAttempts
 	});
+	await queue.sendBatch(messages);
+	ctx.waitUntil(queue.drain());
 }
 
-async function handleSeed(request: Request, env: Env, corsHeaders: Record<string, string>): Promise<Response> {
-	const mockFeedbacks: Omit<Feedback, "id" | "timestamp">[] = [
-  // ======================
-  // CUMULATIVE BUGS
-  // ======================
+// Feedback whose pipeline hasn't moved in an hour: still 'queued' (the enqueue failed), or
+// 'processing'/'retrying' when the consumer died mid-message. Claimed rows go back to 'queued'
+// with a fresh pipeline_updated_at in the same statement, so the next cron run leaves them be
+async function requeueStalledFeedback(env: Env, ctx: ExecutionContext): Promise<void> {
+	const now = Date.now();
+	const stalled = await env.DB.prepare(
+		`UPDATE feedback SET pipeline_status = 'queued', pipeline_updated_at = ?
+		WHERE id IN (
+			SELECT id FROM feedback WHERE pipeline_status IN ('queued', 'processing', 'retrying') AND pipeline_updated_at < ? LIMIT 100
+		) RETURNING id`
+	).bind(now, now - 3600000).all<{ id: string }>();
+
+	const ids = (stalled.results || []).map(row => row.id);
+	if (ids.length > 0) {
+		console.log(`🔁 Re-enqueueing ${ids.length} stalled feedbacks`);
+		await enqueueTriage(env, ctx, ids);
+	}
+}
 
-  // P0: Crash on resume (Android) - keep all reports consistent
-  {
-    content:
-      "P0 Crash on resume (Android, 100% repro). Steps: open app → navigate anywhere → press Home → open from Recents → splash appears for <1s → app force closes to home screen. Pixel 6, Android 14, app v3.2.1.",
-    source: "support",
-    user: "mobile_user1",
-  },
-  {
-    content:
-      "Crash when returning from background. Repro: open app → switch to Chrome for 5–10s → return via Recents → app closes instantly (no error dialog). Started after updating to v3.2.1. Samsung S23, Android 14.",
-    source: "github",
-    user: "mobile_dev",
-  },
-  {
-    content:
-      "Resume crash: if I lock/unlock and come back to the app, it crashes right after rendering the UI. Repro: open → power button (lock) → unlock → app shows UI briefly → force close.",
-    source: "discord",
-    user: "mobile_tester",
-  },
-  {
-    content:
-      "Multitasking triggers crash every time. Steps: open app → tap Home → open another app (WhatsApp) → return to app → crash to launcher. Can’t multitask at all on v3.2.1.",
-    source: "support",
-    user: "user_mobile",
-  },
-  {
-    content:
-      "CRITICAL: Android crash on resume affecting many users. App force closes when resumed from background/recents after v3.2.1 rollout. Users lose progress and restart from scratch.",
-    source: "email",
-    user: "admin@company.com",
-  },
-  {
-    content:
-      "Force close on resume: leave app for any reason → return → instant crash. I have to reopen app from scratch each time. Happens ~10/10 times.",
-    source: "support",
-    user: "frustrated_user",
-  },
-  {
-    content:
-      "App crashes on resume only (foreground usage is fine). Repro: open app → go to Settings app → return via Recents → crash. No crash dialog, just closes.",
-    source: "github",
-    user: "bug_reporter",
-  },
-  {
-    content:
-      "P0: resume crash. Users cannot switch apps without losing session. Repro: open → Home → Recents → crash immediately. Seen on multiple Android devices.",
-    source: "support",
-    user: "support_agent",
-  },
-  {
-    content:
-      "Crash signature: background → foreground transition triggers force close. Happens even when switching to camera/phone call and returning.",
-    source: "discord",
-    user: "community_mod",
-  },
+async function handleFeedbackStatus(env: Env, corsHeaders: Record<string, string>, ws: Workspace, feedbackId: string): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const row = await env.DB.prepare(
+		`SELECT id, parent_id, processed, instant_alert_sent, classification_severity, classification_confidence,
+			classification_category, classification_summary, classification_reasoning, classification_model,
+			classification_prompt_version, classified_at, triage_rule_id, review_status, review_reason, review_detail,
+			pipeline_status, pipeline_attempts, pipeline_error, pipeline_updated_at, embedding IS NOT NULL AS embedded
+		FROM feedback WHERE id = ? AND workspace_id = ?`
+	).bind(feedbackId, ws.id).first<ClassificationColumns & {
+		id: string;
+		parent_id: string | null;
+		processed: number;
+		instant_alert_sent: number;
+		triage_rule_id: string | null;
+		review_status: ReviewStatus | null;
+		review_reason: ReviewReason | null;
+		review_detail: string | null;
+		pipeline_status: PipelineStatus | null;
+		pipeline_attempts: number | null;
+		pipeline_error: string | null;
+		pipeline_updated_at: number | null;
+		embedded: number;
+	}>();
+
+	if (!row) {
+		return new Response(JSON.stringify({ error: 'Feedback not found' }), { status: 404, headers: jsonHeaders });
+	}
 
-  // OPTIONAL: keep iOS but isolate it so it doesn’t pollute Android cluster
-  // Uncomment if you want a separate iOS cluster
-  /*
-  {
-    content:
-      "[iOS? Possibly separate] Crash on resume: switch apps → return via app switcher → app closes. iPhone 14, iOS 17, app v3.2.1.",
-    source: "github",
-    user: "ios_user",
-  },
-  */
+	const deadLetter = row.pipeline_status === 'dead_letter'
+		? await env.DB.prepare(
+			'SELECT attempts, error, failed_at FROM dead_letters WHERE feedback_id = ? ORDER BY failed_at DESC LIMIT 1'
+		).bind(feedbackId).first<{ attempts: number; error: string | null; failed_at: number }>()
+		: null;
+
+	const analysis = await env.DB.prepare(
+		'SELECT sentiment, sentiment_score, urgency_score, model, analyzed_at FROM feedback_analysis WHERE feedback_id = ? AND analyzed_at IS NOT NULL'
+	).bind(feedbackId).first<SentimentAnalysis & { analyzed_at: number }>();
+
+	// Where the alert went: one entry per destination the routes picked
+	const alerts = await env.DB.prepare(
+		`SELECT r.alert_id, r.destination, a.kind, r.reported_at FROM alert_reports r JOIN instant_alerts a ON a.alert_id = r.alert_id
+		WHERE r.feedback_id = ? ORDER BY r.reported_at ASC`
+	).bind(feedbackId).all<{ alert_id: string; destination: string; kind: string; reported_at: number }>();
+
+	// Feedback embedded before the vector index has its embedding in D1
+	const embedded = row.embedded === 1 || (await vectorIndex(env).getByIds([feedbackVectorId(feedbackId)])).length > 0;
+
+	return new Response(JSON.stringify({
+		id: row.id,
+		// Child rows (email and Discord replies, thread messages, cross-posts) and bulk imports never enter the pipeline
+		status: row.pipeline_status || 'not_queued',
+		attempts: row.pipeline_attempts || 0,
+		last_error: row.pipeline_error,
+		updated_at: row.pipeline_updated_at,
+		steps: {
+			classified: row.classification_severity !== null,
+			instant_alert_sent: row.instant_alert_sent === 1,
+			embedded,
+			analyzed: analysis !== null,
+			in_digest: row.processed === 1
+		},
+		classification: classificationFromRow(row) ?? (row.classification_severity
+			? { severity: row.classification_severity, confidence: row.classification_confidence }
+			: null),
+		...(row.triage_rule_id ? { rule_id: row.triage_rule_id } : {}),
+		...(analysis ? { analysis } : {}),
+		...(row.review_status ? { review: { status: row.review_status, reason: row.review_reason, detail: row.review_detail } } : {}),
+		...(alerts.results?.length ? { alerts: alerts.results } : {}),
+		...(row.parent_id ? { parent_id: row.parent_id } : {}),
+		...(deadLetter ? { dead_letter: deadLetter } : {})
+	}), { headers: jsonHeaders });
+}
 
-  // P2: Theme toggle broken (keep all reports as the SAME bug: toggle state changes but UI doesn’t apply)
-  {
-    content:
-      "Theme toggle broken: Settings → Appearance → Dark Mode ON → toggle switches, but app stays light (no UI change). Persists after restart.",
-    source: "support",
-    user: "theme_user1",
-  },
-  {
-    content:
-      "Dark mode doesn’t apply. Steps: Settings → Display → enable Dark Mode → settings shows ON, but UI remains light. Reopening app doesn’t fix.",
-    source: "github",
-    user: "ui_reporter",
-  },
-  {
-    content:
-      "Theme switch fails: toggle animates but theme never changes. When I reopen Settings, it still shows Dark ON but app is light.",
-    source: "discord",
-    user: "theme_tester",
-  },
+async function handleFeedbackAssignment(env: Env, corsHeaders: Record<string, string>, ws: Workspace, feedbackId: string): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const feedback = await env.DB.prepare('SELECT id FROM feedback WHERE id = ? AND workspace_id = ?').bind(feedbackId, ws.id).first();
+	if (!feedback) {
+		return new Response(JSON.stringify({ error: 'Feedback not found' }), { status: 404, headers: jsonHeaders });
+	}
 
-  // P1: Double login required (keep the same signature, add “dashboard flash” consistently)
-  {
-    content:
-      "Login requires 2 attempts. First login succeeds → dashboard flashes for ~0.5s → returns to login screen with no error. Second login works and stays logged in.",
-    source: "support",
-    user: "double_login_user1",
-  },
-  {
-    content:
-      "Double login bug: enter creds → Sign In → welcome toast appears → immediately redirected back to login. Second attempt succeeds. Started in v3.2.1.",
-    source: "github",
-    user: "double_login_dev",
-  },
-  {
-    content:
-      "Auth succeeds but session not retained on first attempt. Dashboard flashes then back to login. Second attempt keeps session. Very reproducible.",
-    source: "discord",
-    user: "double_login_tester",
-  },
-  {
-    content:
-      "First login attempt always kicks me out (back to login). Second attempt works. Looks like token/session write fails initially.",
+	const member = await env.DB.prepare(
+		`SELECT cm.cluster_id, cm.match_method, cm.similarity, cm.matched_phrases, cm.runner_ups, cm.assigned_at, cm.pinned, cm.placed_by,
+			c.title, c.category, c.severity, c.count, c.representative_feedback
+		FROM cluster_members cm JOIN clusters c ON c.cluster_id = cm.cluster_id WHERE cm.feedback_id = ? LIMIT 1`
+	).bind(feedbackId).first<{
+		cluster_id: string;
+		match_method: MatchMethod | null;
+		similarity: number | null;
+		matched_phrases: string | null;
+		runner_ups: string | null;
+		assigned_at: number | null;
+		pinned: number;
+		placed_by: string | null;
+		title: string | null;
+		category: string;
+		severity: string;
+		count: number;
+		representative_feedback: string;
+	}>();
+	if (!member) {
+		return new Response(JSON.stringify({
+			feedback_id: feedbackId,
+			assigned: false,
+			explanation: 'Not clustered yet; feedback joins a cluster when the next digest runs'
+		}), { headers: jsonHeaders });
+	}
+
+	const threshold = ws.config.clustering.similarityThreshold;
+	const matched = member.matched_phrases ? JSON.parse(member.matched_phrases) as string[] : [];
+	const runnerUps = member.runner_ups ? JSON.parse(member.runner_ups) as MatchCandidate[] : [];
+	// Runner-ups as they scored at assignment time, with their current title (null once deleted)
+	const titles = new Map<string, string | null>();
+	if (runnerUps.length > 0) {
+		const rows = await env.DB.prepare(
+			`SELECT cluster_id, title FROM clusters WHERE cluster_id IN (${runnerUps.map(() => '?').join(', ')})`
+		).bind(...runnerUps.map(candidate => candidate.cluster_id)).all<{ cluster_id: string; title: string | null }>();
+		rows.results?.forEach(row => titles.set(row.cluster_id, row.title));
+	}
+
+	return new Response(JSON.stringify({
+		feedback_id: feedbackId,
+		assigned: true,
+		cluster: {
+			cluster_id: member.cluster_id,
+			title: member.title,
+			category: member.category,
+			severity: member.severity,
+			count: member.count,
+			representative_feedback: member.representative_feedback
+		},
+		method: member.match_method,
+		similarity: member.similarity,
+		matched_phrases: matched,
+		threshold,
+		assigned_at: member.assigned_at,
+		pinned: member.pinned === 1,
+		...(member.placed_by ? { placed_by: member.placed_by } : {}),
+		// Members from before assignments were recorded have no method
+		explanation: member.match_method
+			? explainAssignment({ method: member.match_method, similarity: member.similarity, matched, runner_ups: runnerUps }, threshold)
+			: 'Assigned before match details were recorded',
+		runner_ups: runnerUps.map(candidate => ({
+			cluster_id: candidate.cluster_id,
+			title: titles.get(candidate.cluster_id) ?? null,
+			method: candidate.method,
+			similarity: candidate.similarity,
+			matched_phrases: candidate.matched
+		}))
+	}), { headers: jsonHeaders });
+}
+
+async function handleBatchFeedback(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const text = await request.text();
+	if (new TextEncoder().encode(text).length > BATCH_LIMITS.maxBodyBytes) {
+		return new Response(JSON.stringify({
+			error: 'payload_too_large',
+			message: `Batch body must be at most ${BATCH_LIMITS.maxBodyBytes} bytes`
+		}), {
+			status: 413,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+		});
+	}
+
+	const url = new URL(request.url);
+	const format = detectBatchFormat(request.headers.get('Content-Type'), text);
+	const defaultSource = url.searchParams.get('source') || undefined;
+
+	let rows: BatchRow[];
+	try {
+		rows = parseBatch(text, format, { source: defaultSource });
+	} catch (error) {
+		return new Response(JSON.stringify({
+			error: 'invalid_batch',
+			message: error instanceof Error ? error.message : String(error),
+			format
+		}), {
+			status: 400,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+		});
+	}
+
+	// Backfilled rows skip triage entirely - they feed clustering and the digest,
+	// but a historical import must never page anyone
+	const stmt = env.DB.prepare('INSERT INTO feedback (id, workspace_id, content, source, timestamp, user, link, external_id, processed, instant_alert_sent) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, 0)');
+	const report: Array<{ row: number; status: 'accepted' | 'duplicate' | 'rejected'; id?: string; errors?: unknown[] }> = [];
+	const inserts: D1PreparedStatement[] = [];
+	// Re-running the same import must not create duplicates: external_id → feedback id
+	const seenExternalIds = new Map<string, string>();
+
+	for (const row of rows) {
+		if (!row.ok) {
+			report.push({ row: row.row, status: 'rejected', errors: row.errors });
+			continue;
+		}
+		const record = row.record;
+
+		if (record.external_id) {
+			const key = `${record.source}/${record.external_id}`;
+			let existingId = seenExternalIds.get(key);
+			if (!existingId) {
+				const existing = await env.DB.prepare(
+					'SELECT id FROM feedback WHERE workspace_id = ? AND source = ? AND external_id = ?'
+				).bind(ws.id, record.source, record.external_id).first<{ id: string }>();
+				existingId = existing?.id;
+			}
+			if (existingId) {
+				report.push({ row: row.row, status: 'duplicate', id: existingId });
+				continue;
+			}
+		}
+
+		const id = crypto.randomUUID();
+		if (record.external_id) {
+			seenExternalIds.set(`${record.source}/${record.external_id}`, id);
+		}
+		inserts.push(stmt.bind(id, ws.id, record.content, record.source, record.timestamp, record.user || null, record.link || null, record.external_id || null));
+		report.push({ row: row.row, status: 'accepted', id });
+	}
+
+	// D1 batches run as a single transaction; keep them reasonably small
+	for (let i = 0; i < inserts.length; i += 100) {
+		await env.DB.batch(inserts.slice(i, i + 100));
+	}
+
+	const accepted = inserts.length;
+	const duplicates = report.filter(r => r.status === 'duplicate').length;
+	const rejected = report.length - accepted - duplicates;
+	console.log(`📦 Batch import into ${ws.id} (${format}): ${accepted} accepted, ${duplicates} duplicates, ${rejected} rejected`);
+
+	return new Response(JSON.stringify({
+		message: `Imported ${accepted} of ${report.length} rows`,
+		format,
+		accepted,
+		duplicates,
+		rejected,
+		rows: report
+	}), {
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+	});
+}
+
+async function handleGithubWebhook(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ctx: ExecutionContext,
+	ws: Workspace
+): Promise<Response> {
+	const config = getConfig(env);
+	const body = await request.text();
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+	if (!config.github.webhookSecret) {
+		return new Response(JSON.stringify({ error: 'GitHub webhook secret not configured' }), { status: 503, headers: jsonHeaders });
+	}
+	const signatureValid = await verifyGithubSignature(config.github.webhookSecret, body, request.headers.get('X-Hub-Signature-256'));
+	if (!signatureValid) {
+		return new Response(JSON.stringify({ error: 'Invalid signature' }), { status: 401, headers: jsonHeaders });
+	}
+
+	const event = request.headers.get('X-GitHub-Event') || '';
+	if (event === 'ping') {
+		return new Response(JSON.stringify({ message: 'pong' }), { headers: jsonHeaders });
+	}
+
+	let payload: unknown;
+	try {
+		payload = JSON.parse(body);
+	} catch {
+		return new Response(JSON.stringify({ error: 'invalid_json', message: 'Webhook body is not valid JSON' }), { status: 400, headers: jsonHeaders });
+	}
+
+	const action = mapGithubEvent(event, payload as GithubPayload);
+	if (action.kind === 'ignore') {
+		console.log(`🐙 GitHub ${event} ignored: ${action.reason}`);
+		return new Response(JSON.stringify({ result: 'ignored', reason: action.reason }), { headers: jsonHeaders });
+	}
+
+	const record = action.record;
+	const outcome = await upsertExternalFeedback(env, ctx, ws, {
+		content: record.content,
+		source: 'github',
+		user: record.user,
+		link: record.link,
+		timestamp: record.timestamp,
+		external_id: record.external_id,
+		metadata: record.metadata
+	}, action.kind === 'create');
+	console.log(`🐙 GitHub ${record.metadata.event}: ${outcome.result}${outcome.id ? ` ${outcome.id.substring(0, 8)}` : ''}`);
+
+	return new Response(JSON.stringify(outcome), { headers: jsonHeaders });
+}
+
+interface UpsertOutcome {
+	result: 'created' | 'updated' | 'duplicate' | 'ignored';
+	id?: string;
+	status?: PipelineStatus | 'not_queued';
+	reason?: string;
+}
+
+// Integrations re-send the same item on edits and retries: update the row keyed on
+// (source, external_id) if we have it, otherwise ingest it as new feedback
+async function upsertExternalFeedback(
+	env: Env,
+	ctx: ExecutionContext,
+	ws: Workspace,
+	input: IngestInput & { external_id: string },
+	createIfMissing: boolean = true
+): Promise<UpsertOutcome> {
+	const existing = await env.DB.prepare(
+		'SELECT id FROM feedback WHERE workspace_id = ? AND source = ? AND external_id = ?'
+	).bind(ws.id, input.source, input.external_id).first<{ id: string }>();
+
+	if (existing) {
+		await env.DB.prepare(
+			'UPDATE feedback SET content = ?, user = ?, link = ?, metadata = ? WHERE id = ?'
+		).bind(
+			input.content,
+			input.user || null,
+			input.link || null,
+			input.metadata ? JSON.stringify(input.metadata) : null,
+			existing.id
+		).run();
+		return { result: 'updated', id: existing.id };
+	}
+
+	if (!createIfMissing) {
+		return { result: 'ignored', reason: 'No existing feedback for this item' };
+	}
+
+	const { id, status, duplicate } = await ingestFeedback(env, ctx, ws, input);
+	return {
+		result: duplicate ? 'duplicate' : 'created',
+		id,
+		status: status || 'not_queued',
+		...(duplicate ? { reason: duplicate } : {})
+	};
+}
+
+async function handleDiscordWebhook(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ctx: ExecutionContext,
+	ws: Workspace
+): Promise<Response> {
+	const config = getConfig(env);
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+	if (!config.discord.webhookSecret) {
+		return new Response(JSON.stringify({ error: 'Discord webhook secret not configured' }), { status: 503, headers: jsonHeaders });
+	}
+	if (!timingSafeEqual(request.headers.get('X-Webhook-Secret') || '', config.discord.webhookSecret)) {
+		return new Response(JSON.stringify({ error: 'Invalid webhook secret' }), { status: 401, headers: jsonHeaders });
+	}
+
+	let payload: unknown;
+	try {
+		payload = await request.json();
+	} catch {
+		return new Response(JSON.stringify({ error: 'invalid_json', message: 'Webhook body is not valid JSON' }), { status: 400, headers: jsonHeaders });
+	}
+
+	const action = mapDiscordPayload(payload as DiscordMessage | DiscordGatewayDispatch);
+	if (action.kind === 'ignore') {
+		console.log(`💬 Discord message ignored: ${action.reason}`);
+		return new Response(JSON.stringify({ result: 'ignored', reason: action.reason }), { headers: jsonHeaders });
+	}
+
+	const record = action.record;
+
+	// Replies and thread messages link back to the message that started the conversation
+	let parentId: string | undefined;
+	if (record.parent_external_ids.length > 0) {
+		const placeholders = record.parent_external_ids.map(() => '?').join(', ');
+		const parent = await env.DB.prepare(
+			`SELECT id, parent_id FROM feedback WHERE workspace_id = ? AND source = 'discord' AND external_id IN (${placeholders}) LIMIT 1`
+		).bind(ws.id, ...record.parent_external_ids).first<{ id: string; parent_id: string | null }>();
+		parentId = parent ? parent.parent_id || parent.id : undefined;
+	}
+
+	const outcome = await upsertExternalFeedback(env, ctx, ws, {
+		content: record.content,
+		source: 'discord',
+		user: record.user,
+		link: record.link,
+		timestamp: record.timestamp,
+		external_id: record.external_id,
+		metadata: record.metadata,
+		parent_id: parentId
+	}, action.kind === 'create');
+	console.log(`💬 Discord message ${record.external_id}: ${outcome.result}`);
+
+	return new Response(JSON.stringify(outcome), { headers: jsonHeaders });
+}
+
+async function handleMappedWebhook(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ctx: ExecutionContext,
+	ws: Workspace,
+	name: string
+): Promise<Response> {
+	const config = getConfig(env);
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const mapping = config.webhookMappings[name];
+
+	if (!mapping) {
+		return new Response(JSON.stringify({ error: `No webhook mapping named "${name}"` }), { status: 404, headers: jsonHeaders });
+	}
+	if (mapping.secret) {
+		if (!timingSafeEqual(request.headers.get('X-Webhook-Secret') || '', mapping.secret)) {
+			return new Response(JSON.stringify({ error: 'Invalid webhook secret' }), { status: 401, headers: jsonHeaders });
+		}
+	} else {
+		// No per-mapping secret: the sender needs an ingest key like any other client
+		const auth = await authenticate(request, env, ctx, 'ingest', ws.id);
+		if (!auth.ok) {
+			return authErrorResponse(auth, corsHeaders);
+		}
+	}
+
+	let payload: unknown;
+	try {
+		payload = await request.json();
+	} catch {
+		return new Response(JSON.stringify({ error: 'invalid_json', message: 'Webhook body is not valid JSON' }), { status: 400, headers: jsonHeaders });
+	}
+
+	const rows = applyMapping(mapping, payload);
+	const results: Array<UpsertOutcome | { result: 'rejected'; errors: unknown[] }> = [];
+
+	for (const row of rows) {
+		if (!row.ok) {
+			results.push({ result: 'rejected', errors: row.errors });
+			continue;
+		}
+		const { external_id, ...input } = row.record;
+		if (external_id) {
+			results.push(await upsertExternalFeedback(env, ctx, ws, { ...input, external_id, metadata: { integration: name } }));
+		} else {
+			const { id, status, duplicate } = await ingestFeedback(env, ctx, ws, { ...input, metadata: { integration: name } });
+			results.push({
+				result: duplicate ? 'duplicate' : 'created',
+				id,
+				status: status || 'not_queued',
+				...(duplicate ? { reason: duplicate } : {})
+			});
+		}
+	}
+
+	const accepted = results.filter(r => r.result !== 'rejected').length;
+	console.log(`🔌 Webhook "${name}": ${accepted} of ${results.length} items accepted`);
+
+	return new Response(JSON.stringify({ integration: name, results }), {
+		status: accepted === 0 && results.length > 0 ? 400 : 200,
+		headers: jsonHeaders
+	});
+}
+
+async function handleInboundEmail(message: ForwardableEmailMessage, env: Env, ctx: ExecutionContext): Promise<void> {
+	const config = getConfig(env);
+	if (message.rawSize > config.email.maxMessageBytes) {
+		message.setReject('Message too large');
+		return;
+	}
+
+	// support+<workspace>@... routes to that workspace; unknown or missing → default
+	const requestedWorkspace = workspaceFromAddress(message.to);
+	const ws = (requestedWorkspace && await loadWorkspace(env, requestedWorkspace)) || await loadWorkspace(env, DEFAULT_WORKSPACE_ID);
+	if (!ws) {
+		throw new Error('Default workspace is missing - run the migrations');
+	}
+	if (requestedWorkspace && ws.id !== requestedWorkspace) {
+		console.warn(`📧 Unknown workspace "${requestedWorkspace}" in ${message.to}, using ${ws.id}`);
+	}
+
+	const email = await parseInboundEmail(message.raw, message.from);
+	console.log(`📧 Inbound email for ${ws.id} from ${email.from}: ${email.subject.substring(0, 60)}`);
+
+	if (email.autoGenerated) {
+		console.log('📧 Skipping auto-generated email (out of office / auto-reply)');
+		return;
+	}
+	if (!email.content) {
+		console.log('📧 Skipping email with no content after cleanup');
+		return;
+	}
+
+	// Redelivery of a message we already have
+	if (email.messageId) {
+		const existing = await env.DB.prepare(
+			"SELECT id FROM feedback WHERE workspace_id = ? AND source = 'email' AND external_id = ?"
+		).bind(ws.id, email.messageId).first<{ id: string }>();
+		if (existing) {
+			console.log(`📧 Duplicate Message-ID ${email.messageId}, already stored as ${existing.id.substring(0, 8)}`);
+			return;
+		}
+	}
+
+	const metadata = { subject: email.subject, from_name: email.fromName, message_id: email.messageId };
+
+	// Replies attach to the feedback that started the thread rather than being triaged again
+	if (email.threadIds.length > 0) {
+		const placeholders = email.threadIds.map(() => '?').join(', ');
+		const parent = await env.DB.prepare(
+			`SELECT id, parent_id FROM feedback WHERE workspace_id = ? AND source = 'email' AND external_id IN (${placeholders}) LIMIT 1`
+		).bind(ws.id, ...email.threadIds).first<{ id: string; parent_id: string | null }>();
+
+		if (parent) {
+			const rootId = parent.parent_id || parent.id;
+			await ingestFeedback(env, ctx, ws, {
+				content: email.content,
+				source: 'email',
+				user: email.from || undefined,
+				external_id: email.messageId,
+				metadata,
+				parent_id: rootId
+			});
+			console.log(`📧 Reply attached to feedback ${rootId.substring(0, 8)}`);
+			return;
+		}
+	}
+
+	const { id } = await ingestFeedback(env, ctx, ws, {
+		content: email.content,
+		source: 'email',
+		user: email.from || undefined,
+		external_id: email.messageId,
+		metadata
+	});
+	console.log(`📧 Email stored as feedback ${id.substring(0, 8)}, triage queued`);
+}
+
+async function handleSeed(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const mockFeedbacks: Omit<Feedback, "id" | "timestamp">[] = [
+  // ======================
+  // CUMULATIVE BUGS
+  // ======================
+
+  // P0: Crash on resume (Android) - keep all reports consistent
+  {
+    content:
+      "P0 Crash on resume (Android, 100% repro). Steps: open app → navigate anywhere → press Home → open from Recents → splash appears for <1s → app force closes to home screen. Pixel 6, Android 14, app v3.2.1.",
+    source: "support",
+    user: "mobile_user1",
+  },
+  {
+    content:
+      "Crash when returning from background. Repro: open app → switch to Chrome for 5–10s → return via Recents → app closes instantly (no error dialog). Started after updating to v3.2.1. Samsung S23, Android 14.",
+    source: "github",
+    user: "mobile_dev",
+  },
+  {
+    content:
+      "Resume crash: if I lock/unlock and come back to the app, it crashes right after rendering the UI. Repro: open → power button (lock) → unlock → app shows UI briefly → force close.",
+    source: "discord",
+    user: "mobile_tester",
+  },
+  {
+    content:
+      "Multitasking triggers crash every time. Steps: open app → tap Home → open another app (WhatsApp) → return to app → crash to launcher. Can’t multitask at all on v3.2.1.",
+    source: "support",
+    user: "user_mobile",
+  },
+  {
+    content:
+      "CRITICAL: Android crash on resume affecting many users. App force closes when resumed from background/recents after v3.2.1 rollout. Users lose progress and restart from scratch.",
+    source: "email",
+    user: "admin@company.com",
+  },
+  {
+    content:
+      "Force close on resume: leave app for any reason → return → instant crash. I have to reopen app from scratch each time. Happens ~10/10 times.",
+    source: "support",
+    user: "frustrated_user",
+  },
+  {
+    content:
+      "App crashes on resume only (foreground usage is fine). Repro: open app → go to Settings app → return via Recents → crash. No crash dialog, just closes.",
+    source: "github",
+    user: "bug_reporter",
+  },
+  {
+    content:
+      "P0: resume crash. Users cannot switch apps without losing session. Repro: open → Home → Recents → crash immediately. Seen on multiple Android devices.",
+    source: "support",
+    user: "support_agent",
+  },
+  {
+    content:
+      "Crash signature: background → foreground transition triggers force close. Happens even when switching to camera/phone call and returning.",
+    source: "discord",
+    user: "community_mod",
+  },
+
+  // OPTIONAL: keep iOS but isolate it so it doesn’t pollute Android cluster
+  // Uncomment if you want a separate iOS cluster
+  /*
+  {
+    content:
+      "[iOS? Possibly separate] Crash on resume: switch apps → return via app switcher → app closes. iPhone 14, iOS 17, app v3.2.1.",
+    source: "github",
+    user: "ios_user",
+  },
+  */
+
+  // P2: Theme toggle broken (keep all reports as the SAME bug: toggle state changes but UI doesn’t apply)
+  {
+    content:
+      "Theme toggle broken: Settings → Appearance → Dark Mode ON → toggle switches, but app stays light (no UI change). Persists after restart.",
+    source: "support",
+    user: "theme_user1",
+  },
+  {
+    content:
+      "Dark mode doesn’t apply. Steps: Settings → Display → enable Dark Mode → settings shows ON, but UI remains light. Reopening app doesn’t fix.",
+    source: "github",
+    user: "ui_reporter",
+  },
+  {
+    content:
+      "Theme switch fails: toggle animates but theme never changes. When I reopen Settings, it still shows Dark ON but app is light.",
+    source: "discord",
+    user: "theme_tester",
+  },
+
+  // P1: Double login required (keep the same signature, add “dashboard flash” consistently)
+  {
+    content:
+      "Login requires 2 attempts. First login succeeds → dashboard flashes for ~0.5s → returns to login screen with no error. Second login works and stays logged in.",
+    source: "support",
+    user: "double_login_user1",
+  },
+  {
+    content:
+      "Double login bug: enter creds → Sign In → welcome toast appears → immediately redirected back to login. Second attempt succeeds. Started in v3.2.1.",
+    source: "github",
+    user: "double_login_dev",
+  },
+  {
+    content:
+      "Auth succeeds but session not retained on first attempt. Dashboard flashes then back to login. Second attempt keeps session. Very reproducible.",
+    source: "discord",
+    user: "double_login_tester",
+  },
+  {
+    content:
+      "First login attempt always kicks me out (back to login). Second attempt works. Looks like token/session write fails initially.",
     source: "email",
     user: "double_login_reporter",
   },
@@ -424,7 +1442,7 @@ async function handleSeed(request: Request, env: Env, corsHeaders: Record<string
 ];
 
 	const timestamp = Date.now();
-	const stmt = env.DB.prepare('INSERT INTO feedback (id, content, source, timestamp, user, link, processed, instant_alert_sent) VALUES (?, ?, ?, ?, ?, ?, 0, 0)');
+	const stmt = env.DB.prepare('INSERT INTO feedback (id, workspace_id, content, source, timestamp, user, link, processed, instant_alert_sent) VALUES (?, ?, ?, ?, ?, ?, ?, 0, 0)');
 	
 	const seededItems: Array<{ id: string; user?: string; content: string }> = [];
 	
@@ -432,7 +1450,7 @@ async function handleSeed(request: Request, env: Env, corsHeaders: Record<string
 		const id = crypto.randomUUID();
 		const feedbackTimestamp = timestamp - Math.random() * 86400000; // Random time in last 24h
 		// Use the link provided in mockFeedbacks (or null if not provided)
-		await stmt.bind(id, feedback.content, feedback.source, feedbackTimestamp, feedback.user || null, feedback.link || null).run();
+		await stmt.bind(id, ws.id, feedback.content, feedback.source, feedbackTimestamp, feedback.user || null, feedback.link || null).run();
 		
 		seededItems.push({
 			id: id.substring(0, 8),
@@ -449,9 +1467,9 @@ async function handleSeed(request: Request, env: Env, corsHeaders: Record<string
 	});
 }
 
-async function handleRun(request: Request, env: Env, corsHeaders: Record<string, string>): Promise<Response> {
+async function handleRun(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
 	try {
-		const result = await generateMorningDigest(env);
+		const result = await generateMorningDigest(env, ws);
 		return new Response(JSON.stringify({ 
 			message: 'Morning digest generation triggered',
 			details: result
@@ -470,10 +1488,10 @@ async function handleRun(request: Request, env: Env, corsHeaders: Record<string,
 	}
 }
 
-async function handleGetDigest(request: Request, env: Env, corsHeaders: Record<string, string>): Promise<Response> {
+async function handleGetDigest(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
 	const result = await env.DB.prepare(
-		'SELECT * FROM digests ORDER BY generated_at DESC LIMIT 1'
-	).first<{ digest_id: string; generated_at: number; top_issues: string; summary: string }>();
+		'SELECT * FROM digests WHERE workspace_id = ? ORDER BY generated_at DESC LIMIT 1'
+	).bind(ws.id).first<{ digest_id: string; generated_at: number; top_issues: string; summary: string }>();
 
 	if (!result) {
 		return new Response(JSON.stringify({ message: 'No digest found. Run /run to generate one.' }), {
@@ -527,11 +1545,11 @@ async function handleGetDigest(request: Request, env: Env, corsHeaders: Record<s
 	});
 }
 
-async function handleViewDigest(request: Request, env: Env, corsHeaders: Record<string, string>): Promise<Response> {
+async function handleViewDigest(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
 	// Get latest digest from DB
 	const result = await env.DB.prepare(
-		'SELECT * FROM digests ORDER BY generated_at DESC LIMIT 1'
-	).first<{ digest_id: string; generated_at: number; top_issues: string; summary: string }>();
+		'SELECT * FROM digests WHERE workspace_id = ? ORDER BY generated_at DESC LIMIT 1'
+	).bind(ws.id).first<{ digest_id: string; generated_at: number; top_issues: string; summary: string }>();
 
 	if (!result) {
 		const html = `<!DOCTYPE html>
@@ -570,7 +1588,10 @@ async function handleViewDigest(request: Request, env: Env, corsHeaders: Record<
 	};
 
 	// Get the exact same formatted message as Telegram
-	const telegramMessage = await formatMorningDigest(env, digest);
+	const telegramMessage = await formatMorningDigest(env, ws, digest);
+	// Keep the workspace prefix and ?api_key= so the link works from the browser
+	const url = new URL(request.url);
+	const digestJsonLink = `${url.pathname.replace(/\/view$/, '/digest')}${url.search}`.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
 
 	// Wrap in simple HTML page
 	const html = `<!DOCTYPE html>
@@ -614,219 +1635,2238 @@ async function handleViewDigest(request: Request, env: Env, corsHeaders: Record<
 			font-size: 0.9em;
 			color: #888;
 		}
-		.footer a { color: #e94560; margin-right: 15px; }
-	</style>
-</head>
-<body>
-	<a href="/view" class="refresh">🔄 Refresh</a>
-	<div class="container">${telegramMessage}</div>
-	<div class="footer">
-		<a href="/digest">View as JSON</a>
-		<a href="/">API Endpoints</a>
-	</div>
-</body>
-</html>`;
+		.footer a { color: #e94560; margin-right: 15px; }
+	</style>
+</head>
+<body>
+	<a href="" class="refresh">🔄 Refresh</a>
+	<div class="container">${telegramMessage}</div>
+	<div class="footer">
+		<a href="${digestJsonLink}">View as JSON</a>
+		<a href="/">API Endpoints</a>
+	</div>
+</body>
+</html>`;
+
+	return new Response(html, { headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+async function handleTestTelegram(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const message = `🧪 Test message from PM Daily Digest Agent (${ws.name})`;
+	const sent = await trackDelivery(env, ws, defaultDestination(ws), 'test', {}, postTelegramMessage(env, ws, message));
+	
+	return new Response(JSON.stringify({ 
+		success: sent.ok, 
+		message: sent.ok ? 'Telegram message sent successfully' : 'Failed to send Telegram message',
+		...(sent.ok ? {} : { error: sent.error, error_code: sent.errorCode })
+	}), {
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+	});
+}
+
+async function handleMarkFixed(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ws: Workspace,
+	clusterId: string
+): Promise<Response> {
+	try {
+		const parsed = await parseJsonBody<MarkFixedInput>(request, markFixedSchema, { allowEmpty: true });
+		if (!parsed.ok) {
+			return validationErrorResponse(parsed, corsHeaders);
+		}
+		const body = parsed.value;
+		
+		const fixed = await markClusterFixed(env, ws, clusterId, body);
+		if (!fixed) {
+			return new Response(JSON.stringify({ error: 'Cluster not found' }), {
+				status: 404,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+			});
+		}
+		
+		return new Response(JSON.stringify({
+			message: 'Cluster marked as fixed',
+			cluster_id: clusterId,
+			original_severity: fixed.original_severity,
+			current_severity: fixed.current_severity,
+			note: `Priority downgraded from ${fixed.original_severity} to ${fixed.current_severity}. Monitoring for ${body.rollout_days || 7} days.`
+		}), {
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+		});
+	} catch (error) {
+		return new Response(JSON.stringify({ error: String(error) }), {
+			status: 500,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+		});
+	}
+}
+
+// Start the fix rollout for a cluster (mark-fixed endpoint and the Telegram "Mark fixed" button)
+async function markClusterFixed(
+	env: Env,
+	ws: Workspace,
+	clusterId: string,
+	input: MarkFixedInput
+): Promise<{ original_severity: string; current_severity: string } | null> {
+	// Get current cluster to save original severity
+	const cluster = await env.DB.prepare(
+		'SELECT severity, count FROM clusters WHERE cluster_id = ? AND workspace_id = ?'
+	).bind(clusterId, ws.id).first<{ severity: string; count: number }>();
+	if (!cluster) {
+		return null;
+	}
+
+	// Downgrade priority: P0→P2, P1→P3, P2→P3, P3→P3
+	const downgradeMap: Record<string, string> = {
+		'P0': 'P2',
+		'P1': 'P3',
+		'P2': 'P3',
+		'P3': 'P3'
+	};
+	const currentSeverity = downgradeMap[cluster.severity] || 'P2';
+
+	// Update cluster with fix tracking
+	await env.DB.prepare(
+		`UPDATE clusters SET 
+			fix_status = 'fix_deployed',
+			fix_deployed_date = ?,
+			fix_deployed_version = ?,
+			rollout_period_days = ?,
+			original_severity = ?,
+			current_severity = ?,
+			reports_before_fix = ?,
+			reports_after_fix = 0,
+			fix_notes = ?
+		WHERE cluster_id = ?`
+	).bind(
+		Date.now(),
+		input.deployed_version || null,
+		input.rollout_days || 7,
+		cluster.severity,
+		currentSeverity,
+		cluster.count,
+		input.notes || null,
+		clusterId
+	).run();
+
+	return { original_severity: cluster.severity, current_severity: currentSeverity };
+}
+
+/**
+ * Updates for the bot: callback_query from the inline buttons on alerts and digests, and
+ * messages carrying slash commands. Telegram proves itself with the secret_token given to
+ * setWebhook; a pressed message must be in the chat of the workspace that owns the alert or
+ * cluster, and commands are only answered in a workspace's chat. Updates we don't act on
+ * still get a 200 so Telegram doesn't redeliver them.
+ */
+async function handleTelegramWebhook(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ws: Workspace
+): Promise<Response> {
+	const config = getConfig(env);
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+	if (!config.telegram.webhookSecret) {
+		return new Response(JSON.stringify({ error: 'Telegram webhook secret not configured' }), { status: 503, headers: jsonHeaders });
+	}
+	if (!timingSafeEqual(request.headers.get('X-Telegram-Bot-Api-Secret-Token') || '', config.telegram.webhookSecret)) {
+		return new Response(JSON.stringify({ error: 'Invalid webhook secret' }), { status: 401, headers: jsonHeaders });
+	}
+
+	let update: TelegramUpdate;
+	try {
+		update = await request.json() as TelegramUpdate;
+	} catch {
+		return new Response(JSON.stringify({ error: 'invalid_json', message: 'Webhook body is not valid JSON' }), { status: 400, headers: jsonHeaders });
+	}
+
+	const ignore = (reason: string) => {
+		console.log(`🤖 Telegram update ignored: ${reason}`);
+		return new Response(JSON.stringify({ result: 'ignored', reason }), { headers: jsonHeaders });
+	};
+
+	if (update.message) {
+		const outcome = await handleBotCommand(env, ws, update.message);
+		if ('ignored' in outcome) {
+			return ignore(outcome.ignored);
+		}
+		return new Response(JSON.stringify({ result: 'replied', command: outcome.command }), { headers: jsonHeaders });
+	}
+
+	const query = update.callback_query;
+	if (!query) {
+		return ignore('not a callback query or message');
+	}
+	const pressed = parseCallbackData(query.data);
+	if (!pressed) {
+		// Status buttons left behind by markKeyboardRow
+		await answerCallbackQuery(env, ws, query.id);
+		return ignore('no action on this button');
+	}
+
+	// Digest buttons are in the chats the digest goes to; alert buttons in the chat of the alert's destination
+	const owner = pressed.target === 'alert'
+		? await env.DB.prepare('SELECT workspace_id, destination FROM instant_alerts WHERE alert_id = ?').bind(pressed.id).first<{ workspace_id: string; destination: string }>()
+		: await env.DB.prepare('SELECT workspace_id FROM clusters WHERE cluster_id = ?').bind(pressed.id).first<{ workspace_id: string; destination?: string }>();
+	const targetWs = owner && await loadWorkspace(env, owner.workspace_id);
+	const destination = targetWs && query.message && await findChatDestination(
+		env,
+		targetWs,
+		owner.destination ? [owner.destination] : targetWs.config.notifications.digest,
+		String(query.message.chat.id)
+	);
+	if (!targetWs || !destination || !query.message) {
+		await answerCallbackQuery(env, ws, query.id, 'This button is no longer valid');
+		return ignore(`unknown ${pressed.target} or wrong chat`);
+	}
+
+	const actor = actorName(query.from);
+	const now = Date.now();
+	if (pressed.target === 'alert') {
+		await applyAlertAction(env, targetWs, pressed.id, pressed.action, actor, now);
+		// Re-render with the status line; resolved alerts lose their buttons
+		await refreshGroupedAlert(env, targetWs, pressed.id);
+	} else {
+		await applyClusterAction(env, targetWs, pressed.id, pressed.action, actor, now);
+		if (query.message.reply_markup) {
+			const status = formatActionStatus(pressed.action, actor, now, targetWs.config.digest.timezone);
+			await editTelegramReplyMarkup(
+				env,
+				destinationWorkspace(targetWs, destination),
+				query.message.message_id,
+				markKeyboardRow(query.message.reply_markup, pressed.id, status)
+			);
+		}
+	}
+	await answerCallbackQuery(env, targetWs, query.id, actionToast(pressed.action));
+	console.log(`🤖 ${actor}: ${pressed.action} on ${pressed.target} ${pressed.id.substring(0, 8)}`);
+
+	return new Response(JSON.stringify({ result: 'applied', action: pressed.action, target: pressed.target, id: pressed.id }), {
+		headers: jsonHeaders
+	});
+}
+
+// Workspace whose messages go to this chat; the workspace in the webhook path wins when several share it
+async function findChatWorkspace(env: Env, chatId: string, preferred: Workspace): Promise<Workspace | null> {
+	if (preferred.config.telegram.chatId === chatId) {
+		return preferred;
+	}
+	const rows = await env.DB.prepare('SELECT workspace_id FROM workspaces ORDER BY created_at ASC').all<{ workspace_id: string }>();
+	for (const row of rows.results || []) {
+		const ws = await loadWorkspace(env, row.workspace_id);
+		if (ws && ws.config.telegram.chatId === chatId) {
+			return ws;
+		}
+	}
+	return null;
+}
+
+/**
+ * Slash commands typed in a workspace chat. Messages from any other chat are ignored, so
+ * adding the bot to a new group doesn't expose the workspace's feedback.
+ */
+async function handleBotCommand(
+	env: Env,
+	routeWs: Workspace,
+	message: TelegramMessage
+): Promise<{ command: string } | { ignored: string }> {
+	const parsed = parseBotCommand(message.text);
+	if (!parsed) {
+		return { ignored: 'not a command' };
+	}
+	const ws = await findChatWorkspace(env, String(message.chat.id), routeWs);
+	if (!ws) {
+		console.warn(`🤖 /${parsed.name} from unauthorized chat ${message.chat.id}`);
+		return { ignored: 'chat not authorized' };
+	}
+
+	const actor = message.from ? actorName(message.from) : 'unknown';
+	const reply = await runBotCommand(env, ws, parsed.command, parsed.name, parsed.args, actor);
+	await postTelegramMessage(env, ws, reply);
+	console.log(`🤖 ${actor}: /${parsed.name} in ${ws.id}`);
+	return { command: parsed.name };
+}
+
+async function runBotCommand(
+	env: Env,
+	ws: Workspace,
+	command: BotCommand | null,
+	name: string,
+	args: string,
+	actor: string
+): Promise<string> {
+	switch (command) {
+		case 'top': {
+			const limit = Math.min(15, Math.max(1, parseInt(args, 10) || 5));
+			const lookbackMs = ws.config.clustering.clusterLookbackDays * 24 * 3600000;
+			const now = Date.now();
+			const rows = await env.DB.prepare(
+				`SELECT cluster_id, summary, representative_feedback, count, priority_score, fix_status FROM clusters
+				WHERE workspace_id = ? AND count > 1 AND last_seen > ? AND COALESCE(fix_status, 'open') IN ('open', 'failed')
+				AND (snoozed_until IS NULL OR snoozed_until <= ?)
+				ORDER BY priority_score DESC LIMIT ?`
+			).bind(ws.id, now - lookbackMs, now, limit).all<{
+				cluster_id: string;
+				summary: string | null;
+				representative_feedback: string;
+				count: number;
+				priority_score: number | null;
+				fix_status: string | null;
+			}>();
+			return formatTopClusters((rows.results || []).map(row => ({
+				cluster_id: row.cluster_id,
+				priority_level: getPriorityLevel(row.priority_score || 0, ws.config),
+				summary: row.summary || row.representative_feedback.substring(0, 50),
+				count: row.count,
+				fix_status: row.fix_status
+			})));
+		}
+		case 'cluster': {
+			const found = await findClusterByShortId(env, ws, args);
+			if (typeof found === 'string') return found;
+			const reports = await env.DB.prepare(
+				`SELECT f.content, f.user, f.source, f.timestamp FROM cluster_members cm JOIN feedback f ON f.id = cm.feedback_id
+				WHERE cm.cluster_id = ? ORDER BY f.timestamp DESC LIMIT 5`
+			).bind(found.cluster_id).all<ReportLine>();
+			return formatClusterDetail(found, reports.results || []);
+		}
+		case 'search': {
+			if (args.length < 2) {
+				return 'Usage: /search &lt;text&gt; (at least 2 characters)';
+			}
+			const pattern = `%${args.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+			const rows = await env.DB.prepare(
+				`SELECT f.content, f.user, f.source, f.timestamp,
+				(SELECT cluster_id FROM cluster_members WHERE feedback_id = f.id LIMIT 1) AS cluster_id
+				FROM feedback f WHERE f.workspace_id = ? AND f.content LIKE ? ESCAPE '\\'
+				ORDER BY f.timestamp DESC LIMIT 10`
+			).bind(ws.id, pattern).all<ReportLine>();
+			return formatSearchResults(args, rows.results || []);
+		}
+		case 'digest': {
+			const digest = await buildDigestPreview(env, ws);
+			if (!digest) return 'Nothing to preview yet - no issues tracked in the clustering window.';
+			return `<i>Preview - nothing was sent to the digest or marked as processed</i>\n\n${await formatMorningDigest(env, ws, digest)}`;
+		}
+		case 'fix': {
+			const [id, version] = args.split(/\s+/);
+			const found = await findClusterByShortId(env, ws, id || '');
+			if (typeof found === 'string') return found;
+			if (version && version.length > LIMITS.versionMaxLength) {
+				return `Version must be at most ${LIMITS.versionMaxLength} characters.`;
+			}
+			// Same as POST /clusters/:id/mark-fixed
+			const fixed = await markClusterFixed(env, ws, found.cluster_id, {
+				deployed_version: version,
+				notes: `Marked fixed from Telegram by ${actor}`
+			});
+			if (!fixed) return 'Issue not found.';
+			return `🛠 <b>Marked fixed</b> <code>${shortId(found.cluster_id)}</code>${version ? ` in ${escapeBotHtml(version)}` : ''}
+
+Priority downgraded from ${fixed.original_severity} to ${fixed.current_severity}. Monitoring for 7 days.`;
+		}
+		case 'help':
+			return formatHelp();
+		default:
+			return `Unknown command /${escapeBotHtml(name)}\n\n${formatHelp()}`;
+	}
+}
+
+function escapeBotHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// /cluster and /fix take the 8-character id from /top (or any longer prefix); returns the reply on failure
+async function findClusterByShortId(env: Env, ws: Workspace, id: string): Promise<ClusterDetail | string> {
+	if (!/^[0-9a-f-]{6,36}$/i.test(id)) {
+		return 'Give the issue id shown by /top, e.g. <code>/cluster 3f2b9c1e</code>';
+	}
+	const rows = await env.DB.prepare(
+		`SELECT cluster_id, summary, representative_feedback, count, priority_score, fix_status, category, suggested_action,
+		first_seen, last_seen, fix_deployed_version, last_action, action_by FROM clusters
+		WHERE workspace_id = ? AND cluster_id LIKE ? LIMIT 2`
+	).bind(ws.id, `${id.toLowerCase()}%`).all<Omit<ClusterDetail, 'priority_level'> & { representative_feedback: string; priority_score: number | null }>();
+	const matches = rows.results || [];
+	if (matches.length === 0) return `No issue <code>${escapeBotHtml(id)}</code> in this workspace.`;
+	if (matches.length > 1) return `More than one issue starts with <code>${escapeBotHtml(id)}</code> - use more characters.`;
+
+	const row = matches[0];
+	return {
+		...row,
+		summary: row.summary || row.representative_feedback.substring(0, 50),
+		priority_level: getPriorityLevel(row.priority_score || 0, ws.config)
+	};
+}
+
+/**
+ * Digest built from the clusters as they stand: no clustering, AI calls or writes, so the
+ * scheduled digest still picks up the same unprocessed feedback.
+ */
+async function buildDigestPreview(env: Env, ws: Workspace): Promise<Digest | null> {
+	const lookbackMs = ws.config.clustering.clusterLookbackDays * 24 * 3600000;
+	const now = Date.now();
+	const rows = await env.DB.prepare(
+		'SELECT * FROM clusters WHERE workspace_id = ? AND count > 1 AND last_seen > ? ORDER BY priority_score DESC'
+	).bind(ws.id, now - lookbackMs).all<any>();
+	const clusters = (rows.results || []).map(clusterFromRow);
+	if (clusters.length === 0) return null;
+
+	const toIssue = (cluster: Cluster): PriorityIssue => ({
+		priority_score: cluster.priority_score,
+		priority_level: getPriorityLevel(cluster.priority_score, ws.config),
+		cluster
+	});
+	const open = clusters
+		.filter(c => (!c.fix_status || c.fix_status === 'open') && !(c.snoozed_until && c.snoozed_until > now))
+		.slice(0, ws.config.digest.maxIssues);
+	const reports = clusters.reduce((sum, c) => sum + c.count, 0);
+
+	return {
+		digest_id: 'preview',
+		generated_at: now,
+		top_issues: [
+			...open.map(toIssue),
+			...clusters.filter(c => c.fix_status === 'fix_deployed' || c.fix_status === 'failed').map(toIssue)
+		],
+		individual_support: [],
+		positive_feedback: [],
+		summary: `${clusters.length} tracked issues from ${reports} feedback reports (preview).`
+	};
+}
+
+// Record a button press on an alert; fixing an alert also fixes the cluster its feedback landed in
+async function applyAlertAction(env: Env, ws: Workspace, alertId: string, action: TelegramAction, actor: string, now: number): Promise<void> {
+	await env.DB.prepare(
+		'UPDATE instant_alerts SET last_action = ?, action_by = ?, action_at = ?, snoozed_until = COALESCE(?, snoozed_until) WHERE alert_id = ?'
+	).bind(action, actor, now, action === 'snooze' ? now + SNOOZE_MS : null, alertId).run();
+
+	if (resolvesIssue(action)) {
+		const member = await env.DB.prepare(
+			'SELECT cm.cluster_id FROM instant_alerts a JOIN cluster_members cm ON cm.feedback_id = a.feedback_id WHERE a.alert_id = ? LIMIT 1'
+		).bind(alertId).first<{ cluster_id: string }>();
+		if (member) {
+			await applyClusterAction(env, ws, member.cluster_id, action, actor, now);
+		}
+	}
+}
+
+async function applyClusterAction(env: Env, ws: Workspace, clusterId: string, action: TelegramAction, actor: string, now: number): Promise<void> {
+	await env.DB.prepare(
+		'UPDATE clusters SET last_action = ?, action_by = ?, action_at = ?, snoozed_until = COALESCE(?, snoozed_until) WHERE cluster_id = ? AND workspace_id = ?'
+	).bind(action, actor, now, action === 'snooze' ? now + SNOOZE_MS : null, clusterId, ws.id).run();
+
+	if (action === 'fixed') {
+		await markClusterFixed(env, ws, clusterId, { notes: `Marked fixed from Telegram by ${actor}` });
+	} else if (action === 'wontfix') {
+		await env.DB.prepare("UPDATE clusters SET fix_status = 'wont_fix' WHERE cluster_id = ? AND workspace_id = ?").bind(clusterId, ws.id).run();
+	}
+}
+
+async function handleReset(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	// Complete reset of this workspace - other workspaces are untouched
+	const workspaceFeedback = 'SELECT id FROM feedback WHERE workspace_id = ?';
+	const clusterIds = await env.DB.prepare('SELECT cluster_id AS id FROM clusters WHERE workspace_id = ?').bind(ws.id).all<{ id: string }>();
+	const feedbackIds = await env.DB.prepare(workspaceFeedback).bind(ws.id).all<{ id: string }>();
+	await vectorIndex(env).deleteByIds([
+		...(clusterIds.results || []).map(row => clusterVectorId(row.id)),
+		...(feedbackIds.results || []).map(row => feedbackVectorId(row.id))
+	]);
+	await env.DB.batch([
+		env.DB.prepare('DELETE FROM cluster_members WHERE cluster_id IN (SELECT cluster_id FROM clusters WHERE workspace_id = ?)').bind(ws.id),
+		env.DB.prepare('DELETE FROM clusters WHERE workspace_id = ?').bind(ws.id),
+		env.DB.prepare('DELETE FROM alert_reports WHERE alert_id IN (SELECT alert_id FROM instant_alerts WHERE workspace_id = ?)').bind(ws.id),
+		env.DB.prepare('DELETE FROM instant_alerts WHERE workspace_id = ?').bind(ws.id),
+		env.DB.prepare('DELETE FROM digests WHERE workspace_id = ?').bind(ws.id),
+		env.DB.prepare('DELETE FROM delivery_outbox WHERE workspace_id = ?').bind(ws.id),
+		env.DB.prepare('DELETE FROM delivery_log WHERE workspace_id = ?').bind(ws.id),
+		env.DB.prepare('DELETE FROM held_alerts WHERE workspace_id = ?').bind(ws.id),
+		env.DB.prepare('DELETE FROM feedback_labels WHERE workspace_id = ?').bind(ws.id),
+		env.DB.prepare('DELETE FROM customers WHERE workspace_id = ?').bind(ws.id),
+		env.DB.prepare(`DELETE FROM dead_letters WHERE feedback_id IN (${workspaceFeedback})`).bind(ws.id),
+		env.DB.prepare(`DELETE FROM idempotency_keys WHERE feedback_id IN (${workspaceFeedback}) OR idempotency_key LIKE ?`).bind(ws.id, `${ws.id}:%`),
+		env.DB.prepare(`DELETE FROM feedback_analysis WHERE feedback_id IN (${workspaceFeedback})`).bind(ws.id),
+		env.DB.prepare('DELETE FROM feedback WHERE workspace_id = ?').bind(ws.id)
+	]);
+	
+	return new Response(JSON.stringify({ 
+		message: `Complete reset - all data in workspace "${ws.id}" cleared. Ready for fresh /seed`,
+		note: 'All feedbacks, clusters, alerts, and digests in this workspace have been deleted'
+	}), {
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+	});
+}
+
+// ==================== AUTH ====================
+
+type AuthResult =
+	| { ok: true; key: ApiKeyRecord }
+	| { ok: false; status: 401 | 403; error: 'unauthorized' | 'forbidden'; message: string };
+
+// workspaceId: the workspace the request explicitly targets (path prefix), if any
+async function authenticate(
+	request: Request,
+	env: Env,
+	ctx: ExecutionContext,
+	scope: ApiScope,
+	workspaceId?: string | null
+): Promise<AuthResult> {
+	const presented = extractApiKey(request);
+	if (!presented) {
+		return { ok: false, status: 401, error: 'unauthorized', message: 'API key required (Authorization: Bearer <key> or X-API-Key)' };
+	}
+
+	// Bootstrap key from the ADMIN_API_KEY secret - used to create the first real keys
+	const config = getConfig(env);
+	if (config.security.adminApiKey && timingSafeEqual(presented, config.security.adminApiKey)) {
+		return { ok: true, key: { key_id: 'bootstrap', name: 'ADMIN_API_KEY', scopes: ['admin'], workspace_id: null } };
+	}
+
+	const row = await env.DB.prepare(
+		'SELECT key_id, name, scopes, workspace_id FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL'
+	).bind(await hashApiKey(presented)).first<{ key_id: string; name: string; scopes: string; workspace_id: string | null }>();
+	if (!row) {
+		return { ok: false, status: 401, error: 'unauthorized', message: 'Invalid or revoked API key' };
+	}
+
+	const key: ApiKeyRecord = { key_id: row.key_id, name: row.name, scopes: JSON.parse(row.scopes) as ApiScope[], workspace_id: row.workspace_id };
+	if (!hasScope(key.scopes, scope)) {
+		return { ok: false, status: 403, error: 'forbidden', message: `This key lacks the "${scope}" scope` };
+	}
+	if (workspaceId && key.workspace_id && key.workspace_id !== workspaceId) {
+		return { ok: false, status: 403, error: 'forbidden', message: `This key belongs to workspace "${key.workspace_id}"` };
+	}
+
+	ctx.waitUntil(
+		env.DB.prepare('UPDATE api_keys SET last_used_at = ? WHERE key_id = ?').bind(Date.now(), key.key_id).run()
+	);
+	return { ok: true, key };
+}
+
+function authErrorResponse(result: Extract<AuthResult, { ok: false }>, corsHeaders: Record<string, string>): Response {
+	return new Response(JSON.stringify({ error: result.error, message: result.message }), {
+		status: result.status,
+		headers: {
+			...corsHeaders,
+			'Content-Type': 'application/json',
+			...(result.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {})
+		}
+	});
+}
+
+async function handleCreateApiKey(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	creator: ApiKeyRecord | null
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const parsed = await parseJsonBody<ApiKeyInput>(request, apiKeySchema);
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+
+	// Workspace-bound admins can only mint keys for their own workspace
+	const workspaceId = creator?.workspace_id || parsed.value.workspace_id || null;
+	if (creator?.workspace_id && parsed.value.workspace_id && parsed.value.workspace_id !== creator.workspace_id) {
+		return new Response(JSON.stringify({
+			error: 'forbidden',
+			message: `This key can only create keys for workspace "${creator.workspace_id}"`
+		}), { status: 403, headers: jsonHeaders });
+	}
+	if (workspaceId && !(await loadWorkspace(env, workspaceId))) {
+		return new Response(JSON.stringify({ error: 'workspace_not_found', message: `No workspace "${workspaceId}"` }), { status: 404, headers: jsonHeaders });
+	}
+
+	const key = generateApiKey();
+	const keyId = crypto.randomUUID();
+	const createdAt = Date.now();
+
+	await env.DB.prepare(
+		'INSERT INTO api_keys (key_id, name, key_hash, key_prefix, scopes, workspace_id, created_at, created_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+	).bind(
+		keyId,
+		parsed.value.name,
+		await hashApiKey(key),
+		key.substring(0, API_KEY_PREFIX.length + 6),
+		JSON.stringify(parsed.value.scopes),
+		workspaceId,
+		createdAt,
+		creator?.name || null
+	).run();
+	console.log(`🔑 API key "${parsed.value.name}" created with scopes ${parsed.value.scopes.join(', ')} (${workspaceId || 'all workspaces'})`);
+
+	return new Response(JSON.stringify({
+		key_id: keyId,
+		name: parsed.value.name,
+		scopes: parsed.value.scopes,
+		workspace_id: workspaceId,
+		created_at: createdAt,
+		key,
+		note: 'Store this key now - it cannot be shown again'
+	}), { status: 201, headers: jsonHeaders });
+}
+
+async function handleListApiKeys(env: Env, corsHeaders: Record<string, string>, caller: ApiKeyRecord | null): Promise<Response> {
+	// Workspace-bound admins only see their own workspace's keys
+	const keys = await env.DB.prepare(
+		`SELECT key_id, name, key_prefix, scopes, workspace_id, created_at, created_by, last_used_at, revoked_at FROM api_keys
+		WHERE ? IS NULL OR workspace_id = ? ORDER BY created_at DESC`
+	).bind(caller?.workspace_id ?? null, caller?.workspace_id ?? null).all<{ scopes: string } & Record<string, unknown>>();
+
+	return new Response(JSON.stringify({
+		keys: (keys.results || []).map(row => ({ ...row, scopes: JSON.parse(row.scopes) }))
+	}), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+async function handleRevokeApiKey(
+	env: Env,
+	corsHeaders: Record<string, string>,
+	caller: ApiKeyRecord | null,
+	keyId: string
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const scope = caller?.workspace_id ?? null;
+	const result = await env.DB.prepare(
+		'UPDATE api_keys SET revoked_at = ? WHERE key_id = ? AND revoked_at IS NULL AND (? IS NULL OR workspace_id = ?)'
+	).bind(Date.now(), keyId, scope, scope).run();
+
+	if (result.meta.changes === 0) {
+		const exists = await env.DB.prepare(
+			'SELECT key_id FROM api_keys WHERE key_id = ? AND (? IS NULL OR workspace_id = ?)'
+		).bind(keyId, scope, scope).first();
+		return exists
+			? new Response(JSON.stringify({ message: 'Key was already revoked', key_id: keyId }), { headers: jsonHeaders })
+			: new Response(JSON.stringify({ error: 'API key not found' }), { status: 404, headers: jsonHeaders });
+	}
+
+	console.log(`🔑 API key ${keyId} revoked`);
+	return new Response(JSON.stringify({ message: 'Key revoked', key_id: keyId }), { headers: jsonHeaders });
+}
+
+// ==================== WORKSPACES ====================
+
+async function loadWorkspace(env: Env, workspaceId: string): Promise<Workspace | null> {
+	const row = await env.DB.prepare(
+		'SELECT workspace_id, name, settings FROM workspaces WHERE workspace_id = ?'
+	).bind(workspaceId).first<{ workspace_id: string; name: string; settings: string | null }>();
+	if (!row) return null;
+
+	const settings = row.settings ? JSON.parse(row.settings) as WorkspaceSettings : null;
+	return { id: row.workspace_id, name: row.name, config: applyWorkspaceSettings(getConfig(env), settings) };
+}
+
+function forbidWorkspaceBoundKey(caller: ApiKeyRecord | null, corsHeaders: Record<string, string>): Response | null {
+	if (!caller?.workspace_id) return null;
+	return new Response(JSON.stringify({
+		error: 'forbidden',
+		message: 'Managing workspaces needs an admin key that is not bound to a workspace'
+	}), { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+async function handleListWorkspaces(env: Env, corsHeaders: Record<string, string>, caller: ApiKeyRecord | null): Promise<Response> {
+	const forbidden = forbidWorkspaceBoundKey(caller, corsHeaders);
+	if (forbidden) return forbidden;
+
+	const rows = await env.DB.prepare(
+		'SELECT workspace_id, name, settings, created_at, last_digest_at FROM workspaces ORDER BY created_at ASC'
+	).all<{ workspace_id: string; name: string; settings: string | null; created_at: number; last_digest_at: number | null }>();
+
+	return new Response(JSON.stringify({
+		workspaces: (rows.results || []).map(row => ({ ...row, settings: row.settings ? JSON.parse(row.settings) : {} }))
+	}), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// Create (workspaceId null) or update a workspace. settings replaces the stored overrides as a whole.
+async function handleSaveWorkspace(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	caller: ApiKeyRecord | null,
+	workspaceId: string | null
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const forbidden = forbidWorkspaceBoundKey(caller, corsHeaders);
+	if (forbidden) return forbidden;
+
+	const body = await request.clone().json().catch(() => null) as { settings?: unknown } | null;
+	const parsed = await parseJsonBody<WorkspaceInput>(request, workspaceSchema);
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+
+	const errors = [];
+	const id = (workspaceId || parsed.value.workspace_id || '').toLowerCase();
+	if (!workspaceId && !id) {
+		errors.push({ field: 'workspace_id', code: 'required' as const, message: 'workspace_id is required' });
+	} else if (!isValidWorkspaceId(id)) {
+		errors.push({ field: 'workspace_id', code: 'invalid_format' as const, message: 'workspace_id must be lowercase letters, digits and dashes' });
+	}
+	let settings: WorkspaceSettings | undefined;
+	if (body?.settings !== undefined && body.settings !== null) {
+		const checked = validateWorkspaceSettings(body.settings);
+		if (checked.ok) {
+			settings = checked.settings;
+		} else {
+			errors.push(...checked.errors);
+		}
+	}
+	if (errors.length > 0) {
+		return validationErrorResponse({
+			ok: false,
+			status: 400,
+			error: 'validation_failed',
+			message: `${errors.length} field error${errors.length === 1 ? '' : 's'}`,
+			errors
+		}, corsHeaders);
+	}
+
+	const existing = await env.DB.prepare('SELECT workspace_id FROM workspaces WHERE workspace_id = ?').bind(id).first();
+	if (workspaceId && !existing) {
+		return new Response(JSON.stringify({ error: 'workspace_not_found', message: `No workspace "${id}"` }), { status: 404, headers: jsonHeaders });
+	}
+	if (!workspaceId && existing) {
+		return new Response(JSON.stringify({ error: 'workspace_exists', message: `Workspace "${id}" already exists` }), { status: 409, headers: jsonHeaders });
+	}
+
+	if (existing) {
+		await env.DB.prepare(
+			'UPDATE workspaces SET name = COALESCE(?, name), settings = COALESCE(?, settings) WHERE workspace_id = ?'
+		).bind(parsed.value.name || null, settings ? JSON.stringify(settings) : null, id).run();
+	} else {
+		await env.DB.prepare(
+			'INSERT INTO workspaces (workspace_id, name, settings, created_at) VALUES (?, ?, ?, ?)'
+		).bind(id, parsed.value.name || id, settings ? JSON.stringify(settings) : null, Date.now()).run();
+	}
+	console.log(`🗂️ Workspace "${id}" ${existing ? 'updated' : 'created'}`);
+
+	const ws = await loadWorkspace(env, id);
+	return new Response(JSON.stringify({
+		workspace_id: id,
+		name: ws?.name,
+		settings: settings ?? null,
+		message: existing ? 'Workspace updated' : 'Workspace created'
+	}), { status: existing ? 200 : 201, headers: jsonHeaders });
+}
+
+// Cron: send each workspace's digest when its local digest hour comes round
+async function runScheduledDigests(env: Env, now: Date): Promise<void> {
+	const rows = await env.DB.prepare(
+		'SELECT workspace_id, last_digest_at FROM workspaces'
+	).all<{ workspace_id: string; last_digest_at: number | null }>();
+
+	for (const row of rows.results || []) {
+		const ws = await loadWorkspace(env, row.workspace_id);
+		if (!ws || !isDigestDue(now, ws.config.digest.timezone, ws.config.digest.hour, row.last_digest_at)) {
+			continue;
+		}
+
+		await env.DB.prepare(
+			'UPDATE workspaces SET last_digest_at = ? WHERE workspace_id = ?'
+		).bind(now.getTime(), ws.id).run();
+		try {
+			const result = await generateMorningDigest(env, ws);
+			console.log(`🗞️ Digest for ${ws.id}: ${result.message}`);
+		} catch (error) {
+			console.error(`Error in scheduled morning digest for ${ws.id}:`, error);
+		}
+	}
+}
+
+// ==================== TRIAGE SYSTEM ====================
+
+// Queue consumer: every message is one feedback id. Failures are retried with backoff
+// until pipeline.maxAttempts, then parked in dead_letters.
+async function processTriageBatch(env: Env, batch: MessageBatch<TriageMessage>): Promise<void> {
+	const config = getConfig(env);
+	// Messages in a batch usually share a workspace; load each one once
+	const workspaces = new Map<string, Promise<Workspace | null>>();
+
+	for (const message of batch.messages) {
+		const feedbackId = message.body.feedback_id;
+		try {
+			await runTriagePipeline(env, workspaces, feedbackId, message.attempts);
+			message.ack();
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			console.error(`❌ Triage failed for ${feedbackId.substring(0, 8)} (attempt ${message.attempts}):`, errorMessage);
+
+			if (message.attempts >= config.pipeline.maxAttempts) {
+				await env.DB.batch([
+					env.DB.prepare(
+						'INSERT INTO dead_letters (dead_letter_id, feedback_id, queue, message, attempts, error, failed_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+					).bind(crypto.randomUUID(), feedbackId, batch.queue, JSON.stringify(message.body), message.attempts, errorMessage, Date.now()),
+					env.DB.prepare(
+						"UPDATE feedback SET pipeline_status = 'dead_letter', pipeline_error = ?, pipeline_updated_at = ? WHERE id = ?"
+					).bind(errorMessage, Date.now(), feedbackId)
+				]);
+				message.ack();
+				continue;
+			}
+
+			await env.DB.prepare(
+				"UPDATE feedback SET pipeline_status = 'retrying', pipeline_error = ?, pipeline_updated_at = ? WHERE id = ?"
+			).bind(errorMessage, Date.now(), feedbackId).run();
+			// Never sooner than the channel's retry_after; Queues caps delays at 12 hours
+			const backoff = retryDelaySeconds(message.attempts, config.pipeline.retryBaseSeconds, config.pipeline.retryMaxSeconds);
+			const retryAfter = error instanceof DeliveryError ? error.retryAfter ?? 0 : 0;
+			message.retry({ delaySeconds: Math.min(43200, Math.max(backoff, retryAfter)) });
+		}
+	}
+}
+
+// Classify → instant alert → embed → sentiment. Each step is skipped if a previous attempt already
+// completed it, so a retry after a Telegram outage doesn't re-classify or double-alert.
+async function runTriagePipeline(
+	env: Env,
+	workspaces: Map<string, Promise<Workspace | null>>,
+	feedbackId: string,
+	attempt: number
+): Promise<void> {
+	const row = await env.DB.prepare(
+		'SELECT * FROM feedback WHERE id = ?'
+	).bind(feedbackId).first<Feedback & {
+		id: string;
+		workspace_id: string;
+		timestamp: number;
+		instant_alert_sent: number;
+		instant_alert_id: string | null;
+		triage_rule_id: string | null;
+		pipeline_status: PipelineStatus | null;
+		embedding: string | null;
+	} & ClassificationColumns>();
+
+	if (!row) {
+		// Deleted since it was enqueued (e.g. /reset) - nothing to do
+		console.warn(`⚠️ Triage skipped, feedback ${feedbackId.substring(0, 8)} no longer exists`);
+		return;
+	}
+	if (row.pipeline_status === 'done') {
+		return;
+	}
+
+	if (!workspaces.has(row.workspace_id)) {
+		workspaces.set(row.workspace_id, loadWorkspace(env, row.workspace_id));
+	}
+	const ws = await workspaces.get(row.workspace_id);
+	if (!ws) {
+		throw new Error(`Workspace ${row.workspace_id} not found`);
+	}
+
+	await env.DB.prepare(
+		"UPDATE feedback SET pipeline_status = 'processing', pipeline_attempts = ?, pipeline_updated_at = ? WHERE id = ?"
+	).bind(attempt, Date.now(), feedbackId).run();
+
+	const feedback: Feedback & { id: string; timestamp: number } = {
+		id: row.id,
+		timestamp: row.timestamp,
+		content: row.content,
+		source: row.source,
+		user: row.user || undefined,
+		link: row.link || undefined
+	};
+
+	// A retry reuses the classification an earlier attempt stored
+	let classification = classificationFromRow(row);
+	let ruleId = row.triage_rule_id;
+	if (!classification) {
+		({ classification, ruleId } = await triageFeedback(env, ws, feedback));
+	}
+
+	// The embedding lives in the vector index; feedback embedded before it has it in D1
+	const vectors = vectorIndex(env);
+	const [stored] = await vectors.getByIds([feedbackVectorId(feedbackId)]);
+	let embedding: number[] | null = stored?.values ?? (row.embedding ? JSON.parse(row.embedding) : null);
+
+	// Alert grouping compares embeddings, so an alert computes it early; a failed
+	// embedding only disables grouping for this alert rather than delaying it.
+	// sendInstantAlert skips destinations that already have this report, so a retry resumes where it failed
+	if (needsInstantAlert(classification.severity, classification.confidence)) {
+		embedding ??= await generateEmbedding(env, feedback.content);
+		await sendInstantAlert(env, ws, feedback, classification, ruleId, embedding);
+	}
+
+	if (!stored) {
+		if (!embedding?.some(val => val !== 0)) {
+			embedding = await generateEmbedding(env, feedback.content);
+		}
+		if (!embedding.some(val => val !== 0)) {
+			throw new Error('Embedding generation failed');
+		}
+		await vectors.upsert([{ id: feedbackVectorId(feedbackId), values: embedding, namespace: ws.id, metadata: { kind: 'feedback' } }]);
+	}
+	if (row.embedding) {
+		await env.DB.prepare('UPDATE feedback SET embedding = NULL WHERE id = ?').bind(feedbackId).run();
+	}
+
+	// Stored once; a retry finds it and moves on
+	await getFeedbackAnalysis(env, ws, feedback, classification);
+
+	await env.DB.prepare(
+		"UPDATE feedback SET pipeline_status = 'done', pipeline_error = NULL, pipeline_updated_at = ? WHERE id = ?"
+	).bind(Date.now(), feedbackId).run();
+}
+
+// Classify once and store the full result; alerts, clustering and digests reuse it.
+// Everything not alerted goes to morning digest; unsure results also go to the review queue.
+async function triageFeedback(
+	env: Env,
+	ws: Workspace,
+	feedback: Feedback & { id: string; timestamp: number }
+): Promise<{ classification: ClassificationResult; ruleId: string | null }> {
+	// Layer 1: Hard Rule Triggers
+	const hit = evaluateRules(await loadTriageRules(env, ws), feedback.content, feedback.source);
+
+	// Layer 2: AI Classification - rule hits still need a category and summary
+	const ai = await classifyFeedback(env, feedback.content, await loadLabelExamples(env, ws));
+	let classification = ai;
+	if (hit) {
+		console.log(`🚨 Rule "${hit.rule.name}" matched "${hit.matched}" → ${hit.rule.severity}`);
+		classification = {
+			...classification,
+			severity: hit.rule.severity,
+			confidence: 1.0,
+			reasoning: `Rule "${hit.rule.name}" matched "${hit.matched}"`
+		};
+	}
+
+	const review = reviewReason(ai, hit ? { severity: hit.rule.severity } : keywordClassification(feedback.content), ws.config.review.confidenceThreshold);
+	if (review) {
+		console.log(`🧐 Queued ${feedback.id.substring(0, 8)} for review: ${review.detail}`);
+	}
+
+	const ruleId = hit?.rule.rule_id ?? null;
+	await env.DB.prepare(
+		`UPDATE feedback SET classification_severity = ?, classification_confidence = ?, classification_category = ?,
+		classification_summary = ?, classification_reasoning = ?, classification_model = ?, classification_prompt_version = ?,
+		classified_at = ?, triage_rule_id = ?, review_status = ?, review_reason = ?, review_detail = ? WHERE id = ?`
+	).bind(
+		classification.severity,
+		classification.confidence,
+		classification.category,
+		classification.one_line_summary,
+		classification.reasoning,
+		classification.model,
+		classification.prompt_version,
+		classification.classified_at,
+		ruleId,
+		review ? 'pending' : null,
+		review?.reason ?? null,
+		review?.detail ?? null,
+		feedback.id
+	).run();
+
+	return { classification, ruleId };
+}
+
+// Stored classification, or triage it now (e.g. backfilled feedback that skipped the pipeline)
+async function getFeedbackClassification(
+	env: Env,
+	ws: Workspace,
+	feedback: Feedback & { id: string; timestamp: number } & Partial<ClassificationColumns>
+): Promise<ClassificationResult> {
+	return classificationFromRow(feedback) ?? (await triageFeedback(env, ws, feedback)).classification;
+}
+
+/**
+ * Re-run rules and AI classification for one feedback, e.g. after a model or prompt change.
+ * The new result replaces the stored one; alerts already sent are not re-sent.
+ */
+async function handleReclassify(env: Env, corsHeaders: Record<string, string>, ws: Workspace, feedbackId: string): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const row = await env.DB.prepare(
+		'SELECT * FROM feedback WHERE id = ? AND workspace_id = ?'
+	).bind(feedbackId, ws.id).first<Feedback & {
+		id: string;
+		timestamp: number;
+		triage_rule_id: string | null;
+		review_status: ReviewStatus | null;
+	} & ClassificationColumns>();
+	if (!row) {
+		return new Response(JSON.stringify({ error: 'Feedback not found' }), { status: 404, headers: jsonHeaders });
+	}
+	// A reviewer's label is the answer; re-running the AI would overwrite it
+	if (row.review_status === 'reviewed') {
+		return new Response(JSON.stringify({
+			error: 'already_reviewed',
+			message: 'This feedback has a reviewer\'s label; change it with POST /feedback/:id/label'
+		}), { status: 409, headers: jsonHeaders });
+	}
+
+	const previous = classificationFromRow(row);
+	const { classification, ruleId } = await triageFeedback(env, ws, row);
+	console.log(`🔁 Reclassified ${feedbackId.substring(0, 8)}: ${previous?.severity ?? row.classification_severity ?? '-'} → ${classification.severity}`);
+
+	return new Response(JSON.stringify({
+		feedback_id: feedbackId,
+		previous: previous ?? (row.classification_severity
+			? { severity: row.classification_severity, confidence: row.classification_confidence }
+			: null),
+		classification,
+		rule_id: ruleId,
+		changed: !previous || previous.severity !== classification.severity || previous.category !== classification.category
+	}), { headers: jsonHeaders });
+}
+
+// Route decision: P0 or high-confidence P1 → instant alert
+function needsInstantAlert(severity: string, confidence: number): boolean {
+	return severity === 'P0' || (severity === 'P1' && confidence >= 0.7);
+}
+
+// ==================== REVIEW QUEUE ====================
+
+// Latest label per feedback, newest first, as few-shot examples for the classifier
+async function loadLabelExamples(env: Env, ws: Workspace): Promise<LabelExample[]> {
+	const limit = ws.config.review.fewShotExamples;
+	if (limit <= 0) return [];
+	const rows = await env.DB.prepare(
+		`SELECT f.content, l.severity, l.category FROM feedback_labels l JOIN feedback f ON f.id = l.feedback_id
+		WHERE l.workspace_id = ? AND l.labeled_at = (SELECT MAX(labeled_at) FROM feedback_labels WHERE feedback_id = l.feedback_id)
+		ORDER BY l.labeled_at DESC LIMIT ?`
+	).bind(ws.id, limit).all<LabelExample>();
+	return rows.results || [];
+}
+
+async function handleListReviewQueue(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const url = new URL(request.url);
+	const query = validate<{ status?: ReviewStatus; reason?: ReviewReason }>(reviewQueueQuerySchema, Object.fromEntries(url.searchParams));
+	if (!query.ok) {
+		return validationErrorResponse(query, corsHeaders);
+	}
+	const limit = Math.min(500, Math.max(1, Number(url.searchParams.get('limit')) || 50));
+
+	const conditions = ['f.workspace_id = ?', 'f.review_status = ?'];
+	const params: unknown[] = [ws.id, query.value.status || 'pending'];
+	if (query.value.reason) {
+		conditions.push('f.review_reason = ?');
+		params.push(query.value.reason);
+	}
+
+	const rows = await env.DB.prepare(
+		`SELECT f.id, f.content, f.source, f.timestamp, f.classification_severity, f.classification_category,
+			f.classification_confidence, f.classification_summary, f.classification_model, f.triage_rule_id,
+			f.review_status, f.review_reason, f.review_detail, l.severity AS label_severity, l.category AS label_category,
+			l.reviewer, l.labeled_at
+		FROM feedback f
+		LEFT JOIN feedback_labels l ON l.label_id = (SELECT label_id FROM feedback_labels WHERE feedback_id = f.id ORDER BY labeled_at DESC LIMIT 1)
+		WHERE ${conditions.join(' AND ')} ORDER BY f.timestamp DESC LIMIT ?`
+	).bind(...params, limit).all<{
+		id: string;
+		content: string;
+		source: string;
+		timestamp: number;
+		classification_severity: string | null;
+		classification_category: string | null;
+		classification_confidence: number | null;
+		classification_summary: string | null;
+		classification_model: string | null;
+		triage_rule_id: string | null;
+		review_status: ReviewStatus;
+		review_reason: ReviewReason | null;
+		review_detail: string | null;
+		label_severity: string | null;
+		label_category: string | null;
+		reviewer: string | null;
+		labeled_at: number | null;
+	}>();
+
+	return new Response(JSON.stringify({
+		queue: (rows.results || []).map(row => ({
+			feedback_id: row.id,
+			content: row.content,
+			source: row.source,
+			timestamp: row.timestamp,
+			classification: {
+				severity: row.classification_severity,
+				category: row.classification_category,
+				confidence: row.classification_confidence,
+				one_line_summary: row.classification_summary,
+				model: row.classification_model
+			},
+			rule_id: row.triage_rule_id,
+			review_status: row.review_status,
+			review_reason: row.review_reason,
+			review_detail: row.review_detail,
+			label: row.labeled_at
+				? { severity: row.label_severity, category: row.label_category, reviewer: row.reviewer, labeled_at: row.labeled_at }
+				: null
+		}))
+	}), { headers: jsonHeaders });
+}
+
+/**
+ * Store a reviewer's severity and category for one feedback. The label replaces the stored
+ * classification; a changed label takes the feedback out of its cluster so the next digest
+ * clusters it again. Alerts already sent are not re-sent or withdrawn.
+ */
+async function handleLabelFeedback(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ws: Workspace,
+	apiKey: ApiKeyRecord | null,
+	feedbackId: string
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const parsed = await parseJsonBody<FeedbackLabelInput>(request, feedbackLabelSchema, { allowEmpty: true });
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+
+	const row = await env.DB.prepare(
+		'SELECT * FROM feedback WHERE id = ? AND workspace_id = ?'
+	).bind(feedbackId, ws.id).first<{ id: string } & ClassificationColumns>();
+	if (!row) {
+		return new Response(JSON.stringify({ error: 'Feedback not found' }), { status: 404, headers: jsonHeaders });
+	}
+
+	const previous = classificationFromRow(row);
+	const severity = parsed.value.severity ?? previous?.severity;
+	const category = parsed.value.category ?? previous?.category;
+	if (!severity || !category) {
+		const missing = [...(severity ? [] : ['severity']), ...(category ? [] : ['category'])];
+		return validationErrorResponse({
+			ok: false,
+			status: 400,
+			error: 'validation_failed',
+			message: `${missing.length} field error${missing.length === 1 ? '' : 's'}`,
+			errors: missing.map(field => ({ field, code: 'required', message: `${field} is required - this feedback has not been classified yet` }))
+		}, corsHeaders);
+	}
+
+	const now = Date.now();
+	const label: FeedbackLabel = {
+		label_id: crypto.randomUUID(),
+		workspace_id: ws.id,
+		feedback_id: feedbackId,
+		severity,
+		category,
+		previous_severity: previous?.severity ?? null,
+		previous_category: previous?.category ?? null,
+		reviewer: parsed.value.reviewer || apiKey?.name || 'unknown',
+		labeled_at: now
+	};
+	const changed = label.severity !== label.previous_severity || label.category !== label.previous_category;
+
+	const statements = [
+		env.DB.prepare(
+			`INSERT INTO feedback_labels (label_id, workspace_id, feedback_id, severity, category, previous_severity, previous_category, reviewer, labeled_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+		).bind(label.label_id, label.workspace_id, label.feedback_id, label.severity, label.category,
+			label.previous_severity, label.previous_category, label.reviewer, label.labeled_at),
+		env.DB.prepare(
+			`UPDATE feedback SET classification_severity = ?, classification_category = ?, classification_confidence = 1.0,
+			classification_reasoning = ?, classified_at = COALESCE(classified_at, ?), review_status = 'reviewed' WHERE id = ?`
+		).bind(label.severity, label.category, `Labeled by ${label.reviewer}`, now, feedbackId),
+		env.DB.prepare('UPDATE feedback_analysis SET theme = ?, severity = ? WHERE feedback_id = ?').bind(label.category, label.severity, feedbackId)
+	];
+	const membership = changed
+		? await env.DB.prepare('SELECT cluster_id, pinned FROM cluster_members WHERE feedback_id = ?').bind(feedbackId).first<{ cluster_id: string; pinned: number }>()
+		: null;
+	const pinned = membership?.pinned === 1;
+	if (changed && !pinned) {
+		// Back into the next digest's clustering under the new label, unless it was placed by hand
+		statements.push(
+			env.DB.prepare('DELETE FROM cluster_members WHERE feedback_id = ? AND pinned = 0').bind(feedbackId),
+			env.DB.prepare('UPDATE feedback SET processed = 0 WHERE id = ?').bind(feedbackId)
+		);
+	}
+	await env.DB.batch(statements);
+	// The cluster it left gets its count, representative and centroid from the members still in it
+	if (membership && !pinned) {
+		await recomputeCluster(env, ws, membership.cluster_id);
+	}
+	console.log(`🏷️ ${label.reviewer} labeled ${feedbackId.substring(0, 8)} ${label.category} / ${label.severity}${changed ? ` (was ${label.previous_category ?? '-'} / ${label.previous_severity ?? '-'})` : ''}`);
+
+	return new Response(JSON.stringify({
+		label,
+		changed,
+		message: !changed
+			? 'Classification confirmed'
+			: pinned
+				? 'Label saved; the feedback stays in the cluster it was placed in'
+				: 'Label saved; the feedback will be clustered again in the next digest'
+	}), { headers: jsonHeaders });
+}
+
+// ==================== CUSTOMERS ====================
+
+// The customer behind a feedback's user, if the workspace has one on file
+async function findCustomer(env: Env, ws: Workspace, user: string | null | undefined): Promise<Customer | null> {
+	if (!user?.trim()) return null;
+	return env.DB.prepare('SELECT * FROM customers WHERE workspace_id = ? AND user_key = ?')
+		.bind(ws.id, customerKey(user)).first<Customer>();
+}
+
+// Known accounts behind a cluster's reports, each counted once however often it reported
+async function loadClusterImpact(env: Env, ws: Workspace, clusterId: string): Promise<CustomerImpact> {
+	const rows = await env.DB.prepare(
+		`SELECT c.tier, c.arr FROM customers c WHERE c.workspace_id = ? AND c.user_key IN (
+			SELECT LOWER(TRIM(f.user)) FROM cluster_members cm JOIN feedback f ON f.id = cm.feedback_id
+			WHERE cm.cluster_id = ? AND f.user IS NOT NULL
+		)`
+	).bind(ws.id, clusterId).all<{ tier: AccountTier; arr: number }>();
+	return customerImpact(rows.results || []);
+}
+
+function clusterImpact(cluster: Cluster): CustomerImpact {
+	return { accounts: cluster.affected_accounts || 0, arr: cluster.affected_arr || 0, topTier: cluster.top_tier ?? null };
+}
+
+// revenue_risk on the user's analyzed feedback follows the account's current ARR
+function revenueRiskUpdate(env: Env, ws: Workspace, userKey: string, arr: number): D1PreparedStatement {
+	return env.DB.prepare(
+		'UPDATE feedback_analysis SET revenue_risk = ? WHERE feedback_id IN (SELECT id FROM feedback WHERE workspace_id = ? AND LOWER(TRIM(user)) = ?)'
+	).bind(Math.round(arr), ws.id, userKey);
+}
+
+async function handleListCustomers(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const url = new URL(request.url);
+	const query = validate<{ tier?: AccountTier }>(customerQuerySchema, Object.fromEntries(url.searchParams));
+	if (!query.ok) {
+		return validationErrorResponse(query, corsHeaders);
+	}
+	const limit = Math.min(500, Math.max(1, Number(url.searchParams.get('limit')) || 50));
+
+	const conditions = ['workspace_id = ?'];
+	const params: unknown[] = [ws.id];
+	if (query.value.tier) {
+		conditions.push('tier = ?');
+		params.push(query.value.tier);
+	}
+	const rows = await env.DB.prepare(
+		`SELECT user, name, plan, tier, mrr, arr, renewal_date, created_at, updated_at FROM customers
+		WHERE ${conditions.join(' AND ')} ORDER BY arr DESC, user_key ASC LIMIT ?`
+	).bind(...params, limit).all<Omit<Customer, 'workspace_id'>>();
+
+	return new Response(JSON.stringify({ customers: rows.results || [] }), {
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+	});
+}
+
+/**
+ * Create or update accounts from a JSON object, a JSON array or CSV (a "user" column is
+ * required). Accounts are keyed by the lowercased user, so re-importing an export updates
+ * them in place; accounts missing from the body are kept.
+ */
+async function handleImportCustomers(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const text = await request.text();
+	if (new TextEncoder().encode(text).length > BATCH_LIMITS.maxBodyBytes) {
+		return new Response(JSON.stringify({
+			error: 'payload_too_large',
+			message: `Customer import body must be at most ${BATCH_LIMITS.maxBodyBytes} bytes`
+		}), { status: 413, headers: jsonHeaders });
+	}
+
+	// A single JSON object is one account here, not NDJSON
+	const format = detectBatchFormat(request.headers.get('Content-Type'), text) === 'csv' ? 'csv' : 'json';
+	let rows: CustomerRow[];
+	try {
+		rows = parseCustomers(text, format);
+	} catch (error) {
+		return new Response(JSON.stringify({
+			error: 'invalid_customers',
+			message: error instanceof Error ? error.message : String(error),
+			format
+		}), { status: 400, headers: jsonHeaders });
+	}
+
+	const now = Date.now();
+	const upsert = env.DB.prepare(
+		`INSERT INTO customers (workspace_id, user_key, user, name, plan, tier, mrr, arr, renewal_date, created_at, updated_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+		ON CONFLICT(workspace_id, user_key) DO UPDATE SET user = excluded.user, name = excluded.name, plan = excluded.plan,
+			tier = excluded.tier, mrr = excluded.mrr, arr = excluded.arr, renewal_date = excluded.renewal_date, updated_at = excluded.updated_at`
+	);
+	const report: Array<{ row: number; status: 'imported' | 'rejected'; user?: string; errors?: unknown[] }> = [];
+	const statements: D1PreparedStatement[] = [];
+	for (const row of rows) {
+		if (!row.ok) {
+			report.push({ row: row.row, status: 'rejected', errors: row.errors });
+			continue;
+		}
+		const customer = row.customer;
+		const key = customerKey(customer.user);
+		statements.push(
+			upsert.bind(ws.id, key, customer.user.trim(), customer.name, customer.plan, customer.tier, customer.mrr, customer.arr, customer.renewal_date, now, now),
+			revenueRiskUpdate(env, ws, key, customer.arr)
+		);
+		report.push({ row: row.row, status: 'imported', user: customer.user.trim() });
+	}
+
+	// D1 batches run as a single transaction; keep them reasonably small
+	for (let i = 0; i < statements.length; i += 100) {
+		await env.DB.batch(statements.slice(i, i + 100));
+	}
+
+	const imported = report.filter(r => r.status === 'imported').length;
+	const rejected = report.length - imported;
+	console.log(`💰 Customer import into ${ws.id} (${format}): ${imported} imported, ${rejected} rejected`);
+
+	return new Response(JSON.stringify({
+		message: `Imported ${imported} of ${report.length} customers`,
+		format,
+		imported,
+		rejected,
+		rows: report
+	}), { headers: jsonHeaders });
+}
+
+async function handleDeleteCustomer(env: Env, corsHeaders: Record<string, string>, ws: Workspace, user: string): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const customer = await findCustomer(env, ws, user);
+	if (!customer) {
+		return new Response(JSON.stringify({ error: 'customer_not_found', message: `No customer ${user}` }), { status: 404, headers: jsonHeaders });
+	}
+
+	const key = customerKey(user);
+	await env.DB.batch([
+		env.DB.prepare('DELETE FROM customers WHERE workspace_id = ? AND user_key = ?').bind(ws.id, key),
+		revenueRiskUpdate(env, ws, key, 0)
+	]);
+	return new Response(JSON.stringify({ user: customer.user, message: 'Customer deleted' }), { headers: jsonHeaders });
+}
+
+// ==================== CLUSTER EDITS ====================
+
+type ClusterRow = {
+	cluster_id: string;
+	title: string | null;
+	category: string;
+	severity: string;
+};
+
+async function loadClusterRows(env: Env, ws: Workspace, clusterIds: string[]): Promise<Map<string, ClusterRow>> {
+	if (clusterIds.length === 0) return new Map();
+	const rows = await env.DB.prepare(
+		`SELECT cluster_id, title, category, severity FROM clusters
+		WHERE workspace_id = ? AND cluster_id IN (${clusterIds.map(() => '?').join(', ')})`
+	).bind(ws.id, ...clusterIds).all<ClusterRow>();
+	return new Map((rows.results || []).map(row => [row.cluster_id, row]));
+}
+
+function clusterNotFound(clusterIds: string[], jsonHeaders: Record<string, string>): Response {
+	return new Response(JSON.stringify({
+		error: 'cluster_not_found',
+		message: `No cluster ${clusterIds.join(', ')}`,
+		cluster_ids: clusterIds
+	}), { status: 404, headers: jsonHeaders });
+}
+
+// Put feedbacks in a cluster by hand, pinned there (see curation.ts)
+async function placeMembers(env: Env, clusterId: string, feedbackIds: string[], placedBy: string): Promise<void> {
+	const now = Date.now();
+	const statements = feedbackIds.flatMap(feedbackId => [
+		env.DB.prepare('DELETE FROM cluster_members WHERE feedback_id = ?').bind(feedbackId),
+		env.DB.prepare(
+			`INSERT INTO cluster_members (cluster_id, feedback_id, match_method, similarity, matched_phrases, runner_ups, assigned_at, pinned, placed_by)
+			VALUES (?, ?, 'manual', NULL, '[]', '[]', ?, 1, ?)`
+		).bind(clusterId, feedbackId, now, placedBy)
+	]);
+	for (let i = 0; i < statements.length; i += 100) {
+		await env.DB.batch(statements.slice(i, i + 100));
+	}
+}
+
+/**
+ * Bring a cluster's count, first/last seen, top_sources, representative, centroid, fix-tracking
+ * report counts, sentiment, affected accounts and priority score back in line with its members.
+ * A cluster left without members is deleted, with its centroid. Returns the updated cluster.
+ */
+async function recomputeCluster(env: Env, ws: Workspace, clusterId: string): Promise<(Cluster & { title: string | null }) | null> {
+	const row = await env.DB.prepare('SELECT * FROM clusters WHERE cluster_id = ? AND workspace_id = ?').bind(clusterId, ws.id).first<any>();
+	if (!row) return null;
+
+	const members = await env.DB.prepare(
+		`SELECT f.id AS feedback_id, f.content, f.source, f.timestamp, f.embedding FROM cluster_members cm
+		JOIN feedback f ON f.id = cm.feedback_id WHERE cm.cluster_id = ?`
+	).bind(clusterId).all<{ feedback_id: string; content: string; source: string; timestamp: number; embedding: string | null }>();
+	const index = vectorIndex(env);
+	const vectors = new Map((await index.getByIds((members.results || []).map(member => feedbackVectorId(member.feedback_id))))
+		.map(record => [record.id, record.values]));
+	const stats = memberStats(
+		(members.results || []).map(member => {
+			// Members embedded before the vector index still have theirs in D1
+			let embedding = vectors.get(feedbackVectorId(member.feedback_id)) ?? null;
+			try {
+				embedding ??= member.embedding ? JSON.parse(member.embedding) as number[] : null;
+			} catch {
+				console.warn(`Stored embedding of ${member.feedback_id} is not valid JSON`);
+			}
+			return { ...member, embedding };
+		}),
+		{ representativeId: row.representative_feedback_id, fixDeployedDate: row.fix_deployed_date }
+	);
+
+	if (!stats) {
+		await env.DB.prepare('DELETE FROM clusters WHERE cluster_id = ?').bind(clusterId).run();
+		await index.deleteByIds([clusterVectorId(clusterId)]);
+		console.log(`🗑️ Cluster ${clusterId.substring(0, 8)} is empty, deleted`);
+		return null;
+	}
+
+	if (stats.centroid) {
+		await index.upsert([{ id: clusterVectorId(clusterId), values: stats.centroid, namespace: ws.id, metadata: { kind: 'cluster' } }]);
+	} else {
+		await index.deleteByIds([clusterVectorId(clusterId)]);
+	}
+
+	const sentiment = await env.DB.prepare(
+		'SELECT AVG(a.sentiment_score) AS score FROM cluster_members cm JOIN feedback_analysis a ON a.feedback_id = cm.feedback_id WHERE cm.cluster_id = ?'
+	).bind(clusterId).first<number | null>('score');
+	const impact = await loadClusterImpact(env, ws, clusterId);
+	const cluster: Cluster = {
+		...clusterFromRow(row),
+		count: stats.count,
+		first_seen: stats.first_seen,
+		last_seen: stats.last_seen,
+		top_sources: stats.top_sources,
+		representative_feedback_id: stats.representative_feedback_id,
+		representative_feedback: stats.representative_feedback,
+		reports_before_fix: stats.reports_before_fix ?? undefined,
+		reports_after_fix: stats.reports_after_fix ?? undefined,
+		sentiment_score: sentiment ?? 0.5,
+		affected_accounts: impact.accounts,
+		affected_arr: impact.arr,
+		top_tier: impact.topTier
+	};
+	cluster.priority_score = calculatePriorityScore(cluster, ws.config);
+
+	await env.DB.prepare(
+		`UPDATE clusters SET count = ?, first_seen = ?, last_seen = ?, top_sources = ?, representative_feedback_id = ?, representative_feedback = ?,
+			reports_before_fix = ?, reports_after_fix = ?, sentiment_score = ?, affected_accounts = ?, affected_arr = ?, top_tier = ?, priority_score = ?
+		WHERE cluster_id = ?`
+	).bind(
+		stats.count,
+		stats.first_seen,
+		stats.last_seen,
+		JSON.stringify(stats.top_sources),
+		stats.representative_feedback_id,
+		stats.representative_feedback,
+		stats.reports_before_fix,
+		stats.reports_after_fix,
+		cluster.sentiment_score,
+		impact.accounts,
+		impact.arr,
+		impact.topTier,
+		cluster.priority_score,
+		clusterId
+	).run();
+
+	return { ...cluster, title: row.title };
+}
+
+function clusterResult(cluster: Cluster & { title: string | null }) {
+	return {
+		cluster_id: cluster.cluster_id,
+		title: cluster.title,
+		category: cluster.category,
+		severity: cluster.severity,
+		count: cluster.count,
+		first_seen: cluster.first_seen,
+		last_seen: cluster.last_seen,
+		top_sources: cluster.top_sources,
+		representative_feedback: cluster.representative_feedback,
+		fix_status: cluster.fix_status,
+		reports_before_fix: cluster.reports_before_fix ?? null,
+		reports_after_fix: cluster.reports_after_fix ?? null,
+		priority_score: cluster.priority_score
+	};
+}
+
+/**
+ * Fold clusters into the one in the path: their members move over (pinned), the target keeps
+ * its title, summary and fix status and takes the most severe severity, and the emptied clusters
+ * are deleted.
+ */
+async function handleMergeClusters(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ws: Workspace,
+	apiKey: ApiKeyRecord | null,
+	targetId: string
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const parsed = await parseJsonBody<MergeClustersInput>(request, mergeClustersSchema);
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+	const sourceIds = [...new Set(parsed.value.cluster_ids)];
+	if (sourceIds.includes(targetId)) {
+		return new Response(JSON.stringify({ error: 'invalid_merge', message: 'A cluster cannot be merged into itself' }), { status: 400, headers: jsonHeaders });
+	}
+
+	const rows = await loadClusterRows(env, ws, [targetId, ...sourceIds]);
+	const missing = [targetId, ...sourceIds].filter(id => !rows.has(id));
+	if (missing.length > 0) {
+		return clusterNotFound(missing, jsonHeaders);
+	}
+
+	const members = await env.DB.prepare(
+		`SELECT feedback_id FROM cluster_members WHERE cluster_id IN (${sourceIds.map(() => '?').join(', ')})`
+	).bind(...sourceIds).all<{ feedback_id: string }>();
+	const feedbackIds = (members.results || []).map(member => member.feedback_id);
+	await placeMembers(env, targetId, feedbackIds, parsed.value.placed_by || apiKey?.name || 'unknown');
+
+	const severity = mostSevere([targetId, ...sourceIds].map(id => rows.get(id)!.severity));
+	await env.DB.prepare('UPDATE clusters SET severity = ? WHERE cluster_id = ?').bind(severity, targetId).run();
+	for (const sourceId of sourceIds) {
+		await recomputeCluster(env, ws, sourceId);
+	}
+	const cluster = await recomputeCluster(env, ws, targetId);
+	console.log(`🔗 Merged ${sourceIds.length} cluster(s) into ${targetId.substring(0, 8)} (${feedbackIds.length} reports moved)`);
+
+	return new Response(JSON.stringify({
+		message: `Merged ${sourceIds.length} cluster${sourceIds.length === 1 ? '' : 's'} into ${targetId}`,
+		cluster: cluster ? clusterResult(cluster) : null,
+		merged: sourceIds,
+		moved: feedbackIds.length
+	}), { headers: jsonHeaders });
+}
+
+/**
+ * Move some of a cluster's members into a new cluster (pinned). The new cluster takes the
+ * category and severity of its earliest report's classification; at least one member must stay.
+ */
+async function handleSplitCluster(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ws: Workspace,
+	apiKey: ApiKeyRecord | null,
+	clusterId: string
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const parsed = await parseJsonBody<SplitClusterInput>(request, splitClusterSchema);
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+
+	const source = (await loadClusterRows(env, ws, [clusterId])).get(clusterId);
+	if (!source) {
+		return clusterNotFound([clusterId], jsonHeaders);
+	}
+
+	const members = await env.DB.prepare(
+		`SELECT f.id, f.timestamp, f.classification_category, f.classification_severity FROM cluster_members cm
+		JOIN feedback f ON f.id = cm.feedback_id WHERE cm.cluster_id = ? ORDER BY f.timestamp ASC`
+	).bind(clusterId).all<{ id: string; timestamp: number; classification_category: string | null; classification_severity: string | null }>();
+	const memberIds = new Set((members.results || []).map(member => member.id));
+	// Each report once, so the size check below compares like with like
+	const feedbackIds = [...new Set(parsed.value.feedback_ids)];
+	const strangers = feedbackIds.filter(id => !memberIds.has(id));
+	if (strangers.length > 0) {
+		return new Response(JSON.stringify({
+			error: 'not_a_member',
+			message: `Not in cluster ${clusterId}: ${strangers.join(', ')}`,
+			feedback_ids: strangers
+		}), { status: 400, headers: jsonHeaders });
+	}
+	if (feedbackIds.length === memberIds.size) {
+		return new Response(JSON.stringify({
+			error: 'invalid_split',
+			message: 'A split must leave at least one report in the cluster'
+		}), { status: 400, headers: jsonHeaders });
+	}
+
+	const first = (members.results || []).find(member => feedbackIds.includes(member.id))!;
+	const category = first.classification_category || source.category;
+	const severity = first.classification_severity || source.severity;
+	const newId = crypto.randomUUID();
+	const title = parsed.value.title || category.charAt(0).toUpperCase() + category.slice(1) + ' Issue';
+	await env.DB.prepare(
+		`INSERT INTO clusters (cluster_id, workspace_id, title, category, severity, count, first_seen, last_seen, representative_feedback_id, top_sources, created_at)
+		VALUES (?, ?, ?, ?, ?, 0, ?, ?, ?, '[]', ?)`
+	).bind(newId, ws.id, title, category, severity, first.timestamp, first.timestamp, first.id, Date.now()).run();
+
+	await placeMembers(env, newId, feedbackIds, parsed.value.placed_by || apiKey?.name || 'unknown');
+	const remaining = await recomputeCluster(env, ws, clusterId);
+	const split = await recomputeCluster(env, ws, newId);
+	console.log(`✂️ Split ${feedbackIds.length} report(s) out of ${clusterId.substring(0, 8)} into ${newId.substring(0, 8)}`);
+
+	return new Response(JSON.stringify({
+		message: `Moved ${feedbackIds.length} report${feedbackIds.length === 1 ? '' : 's'} into a new cluster`,
+		cluster: split ? clusterResult(split) : null,
+		source: remaining ? clusterResult(remaining) : null
+	}), { status: 201, headers: jsonHeaders });
+}
+
+/**
+ * Move one feedback into a cluster (pinned), or pin it where it is. Its previous cluster is
+ * recomputed, and deleted if this was its last report.
+ */
+async function handleMoveFeedback(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ws: Workspace,
+	apiKey: ApiKeyRecord | null,
+	feedbackId: string
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const parsed = await parseJsonBody<MoveFeedbackInput>(request, moveFeedbackSchema);
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+
+	const feedback = await env.DB.prepare('SELECT id FROM feedback WHERE id = ? AND workspace_id = ?').bind(feedbackId, ws.id).first();
+	if (!feedback) {
+		return new Response(JSON.stringify({ error: 'Feedback not found' }), { status: 404, headers: jsonHeaders });
+	}
+	const targetId = parsed.value.cluster_id;
+	if (!(await loadClusterRows(env, ws, [targetId])).has(targetId)) {
+		return clusterNotFound([targetId], jsonHeaders);
+	}
+
+	const previous = await env.DB.prepare('SELECT cluster_id FROM cluster_members WHERE feedback_id = ? LIMIT 1').bind(feedbackId).first<string>('cluster_id');
+	await placeMembers(env, targetId, [feedbackId], parsed.value.placed_by || apiKey?.name || 'unknown');
+
+	const from = previous && previous !== targetId ? await recomputeCluster(env, ws, previous) : null;
+	const cluster = await recomputeCluster(env, ws, targetId);
+
+	return new Response(JSON.stringify({
+		message: previous === targetId ? `Pinned ${feedbackId} in cluster ${targetId}` : `Moved ${feedbackId} to cluster ${targetId}`,
+		feedback_id: feedbackId,
+		cluster: cluster ? clusterResult(cluster) : null,
+		from: previous && previous !== targetId
+			? { cluster_id: previous, deleted: from === null, ...(from ? { count: from.count } : {}) }
+			: null
+	}), { headers: jsonHeaders });
+}
+
+// ==================== TRIAGE RULES ====================
+
+type TriageRuleRow = Omit<TriageRule, 'negations' | 'sources' | 'enabled'> & {
+	negations: string;
+	sources: string;
+	enabled: number;
+	created_at: number;
+	updated_at: number;
+};
+
+function parseTriageRule(row: TriageRuleRow): TriageRule & { created_at: number; updated_at: number } {
+	return {
+		...row,
+		negations: JSON.parse(row.negations || '[]'),
+		sources: JSON.parse(row.sources || '[]'),
+		enabled: row.enabled === 1
+	};
+}
+
+// The workspace's own rules plus global ones (workspace_id NULL), oldest first
+async function loadTriageRules(env: Env, ws: Workspace, options: { includeDisabled?: boolean } = {}): Promise<Array<TriageRule & { created_at: number; updated_at: number }>> {
+	const rows = await env.DB.prepare(
+		`SELECT * FROM triage_rules WHERE (workspace_id IS NULL OR workspace_id = ?) ${options.includeDisabled ? '' : 'AND enabled = 1'}
+		ORDER BY created_at ASC`
+	).bind(ws.id).all<TriageRuleRow>();
+	return (rows.results || []).map(parseTriageRule);
+}
+
+async function findTriageRule(env: Env, ws: Workspace, ruleId: string): Promise<(TriageRule & { created_at: number; updated_at: number }) | null> {
+	const row = await env.DB.prepare(
+		'SELECT * FROM triage_rules WHERE rule_id = ? AND (workspace_id IS NULL OR workspace_id = ?)'
+	).bind(ruleId, ws.id).first<TriageRuleRow>();
+	return row ? parseTriageRule(row) : null;
+}
+
+async function handleListRules(env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const rules = await loadTriageRules(env, ws, { includeDisabled: true });
+	// Alert volume per rule, to spot noisy ones
+	const counts = await env.DB.prepare(
+		'SELECT rule_id, COUNT(*) AS alerts FROM instant_alerts WHERE workspace_id = ? AND rule_id IS NOT NULL AND sent_at > ? GROUP BY rule_id'
+	).bind(ws.id, Date.now() - 30 * 86400000).all<{ rule_id: string; alerts: number }>();
+	const alerts = new Map((counts.results || []).map(c => [c.rule_id, c.alerts]));
+
+	return new Response(JSON.stringify({
+		rules: rules.map(rule => ({ ...rule, alerts_30d: alerts.get(rule.rule_id) || 0 }))
+	}), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// Create (ruleId null) or update a rule. Updates may send any subset of fields.
+async function handleSaveRule(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ws: Workspace,
+	caller: ApiKeyRecord | null,
+	ruleId: string | null
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+	let existing: TriageRule | null = null;
+	if (ruleId) {
+		existing = await findTriageRule(env, ws, ruleId);
+		if (!existing) {
+			return new Response(JSON.stringify({ error: 'rule_not_found', message: `No rule ${ruleId}` }), { status: 404, headers: jsonHeaders });
+		}
+		// Global rules are shared by every workspace, so only global admins change them
+		if (existing.workspace_id === null && caller?.workspace_id) {
+			return new Response(JSON.stringify({
+				error: 'forbidden',
+				message: 'This rule applies to every workspace; it can only be changed with a key that is not bound to a workspace'
+			}), { status: 403, headers: jsonHeaders });
+		}
+	}
+
+	const parsed = await parseJsonBody<Partial<TriageRuleInput>>(request, existing ? triageRuleUpdateSchema : triageRuleSchema);
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+
+	const rule: TriageRule = {
+		rule_id: existing?.rule_id || crypto.randomUUID(),
+		workspace_id: existing ? existing.workspace_id : ws.id,
+		name: parsed.value.name ?? existing?.name ?? '',
+		match_type: parsed.value.match_type ?? existing?.match_type ?? 'phrase',
+		pattern: parsed.value.pattern ?? existing?.pattern ?? '',
+		negations: parsed.value.negations ?? existing?.negations ?? [],
+		sources: parsed.value.sources ?? existing?.sources ?? [],
+		severity: parsed.value.severity ?? existing?.severity ?? 'P0',
+		enabled: parsed.value.enabled ?? existing?.enabled ?? true
+	};
+
+	const invalidPattern = patternError(rule.match_type, rule.pattern);
+	if (invalidPattern) {
+		return validationErrorResponse({
+			ok: false,
+			status: 400,
+			error: 'validation_failed',
+			message: '1 field error',
+			errors: [{ field: 'pattern', code: 'invalid_format', message: invalidPattern }]
+		}, corsHeaders);
+	}
+
+	const now = Date.now();
+	if (existing) {
+		await env.DB.prepare(
+			'UPDATE triage_rules SET name = ?, match_type = ?, pattern = ?, negations = ?, sources = ?, severity = ?, enabled = ?, updated_at = ? WHERE rule_id = ?'
+		).bind(
+			rule.name, rule.match_type, rule.pattern, JSON.stringify(rule.negations), JSON.stringify(rule.sources),
+			rule.severity, rule.enabled ? 1 : 0, now, rule.rule_id
+		).run();
+	} else {
+		await env.DB.prepare(
+			'INSERT INTO triage_rules (rule_id, workspace_id, name, match_type, pattern, negations, sources, severity, enabled, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+		).bind(
+			rule.rule_id, rule.workspace_id, rule.name, rule.match_type, rule.pattern, JSON.stringify(rule.negations),
+			JSON.stringify(rule.sources), rule.severity, rule.enabled ? 1 : 0, now, now
+		).run();
+	}
+	console.log(`📏 Rule "${rule.name}" ${existing ? 'updated' : 'created'} (${rule.match_type}: ${rule.pattern} → ${rule.severity})`);
+
+	return new Response(JSON.stringify({ rule, message: existing ? 'Rule updated' : 'Rule created' }), {
+		status: existing ? 200 : 201,
+		headers: jsonHeaders
+	});
+}
+
+async function handleDeleteRule(
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ws: Workspace,
+	caller: ApiKeyRecord | null,
+	ruleId: string
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const rule = await findTriageRule(env, ws, ruleId);
+	if (!rule) {
+		return new Response(JSON.stringify({ error: 'rule_not_found', message: `No rule ${ruleId}` }), { status: 404, headers: jsonHeaders });
+	}
+	if (rule.workspace_id === null && caller?.workspace_id) {
+		return new Response(JSON.stringify({
+			error: 'forbidden',
+			message: 'This rule applies to every workspace; it can only be deleted with a key that is not bound to a workspace'
+		}), { status: 403, headers: jsonHeaders });
+	}
+
+	// instant_alerts keep the rule_id so past alerts still say which rule fired
+	await env.DB.prepare('DELETE FROM triage_rules WHERE rule_id = ?').bind(ruleId).run();
+	return new Response(JSON.stringify({ rule_id: ruleId, message: 'Rule deleted' }), { headers: jsonHeaders });
+}
+
+/**
+ * Which stored feedback a rule would have matched - a saved rule (GET /rules/:id/dry-run)
+ * or a draft definition (POST /rules/dry-run). Nothing is written.
+ */
+async function handleRuleDryRun(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ws: Workspace,
+	ruleId: string | null
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const url = new URL(request.url);
+	const days = Math.min(365, Math.max(1, Number(url.searchParams.get('days')) || 30));
+	const limit = Math.min(500, Math.max(1, Number(url.searchParams.get('limit')) || 50));
+
+	let rule: TriageRule;
+	if (ruleId) {
+		const saved = await findTriageRule(env, ws, ruleId);
+		if (!saved) {
+			return new Response(JSON.stringify({ error: 'rule_not_found', message: `No rule ${ruleId}` }), { status: 404, headers: jsonHeaders });
+		}
+		rule = saved;
+	} else {
+		const parsed = await parseJsonBody<TriageRuleInput>(request, triageRuleSchema);
+		if (!parsed.ok) {
+			return validationErrorResponse(parsed, corsHeaders);
+		}
+		rule = {
+			rule_id: 'draft',
+			workspace_id: ws.id,
+			name: parsed.value.name,
+			match_type: parsed.value.match_type || 'phrase',
+			pattern: parsed.value.pattern,
+			negations: parsed.value.negations || [],
+			sources: parsed.value.sources || [],
+			severity: parsed.value.severity || 'P0',
+			enabled: true
+		};
+		const invalidPattern = patternError(rule.match_type, rule.pattern);
+		if (invalidPattern) {
+			return validationErrorResponse({
+				ok: false,
+				status: 400,
+				error: 'validation_failed',
+				message: '1 field error',
+				errors: [{ field: 'pattern', code: 'invalid_format', message: invalidPattern }]
+			}, corsHeaders);
+		}
+	}
+
+	// Disabled rules can still be dry-run - that's how they get tuned before switching back on
+	const candidate = { ...rule, enabled: true };
+	const feedback = await env.DB.prepare(
+		`SELECT id, content, source, timestamp, classification_severity, triage_rule_id, instant_alert_sent FROM feedback
+		WHERE workspace_id = ? AND timestamp > ? ORDER BY timestamp DESC LIMIT 5000`
+	).bind(ws.id, Date.now() - days * 86400000).all<{
+		id: string;
+		content: string;
+		source: Feedback['source'];
+		timestamp: number;
+		classification_severity: string | null;
+		triage_rule_id: string | null;
+		instant_alert_sent: number;
+	}>();
+
+	const matches = [];
+	for (const row of feedback.results || []) {
+		const matched = matchRule(candidate, row.content, row.source);
+		if (matched === null) continue;
+		matches.push({
+			feedback_id: row.id,
+			source: row.source,
+			timestamp: row.timestamp,
+			matched,
+			content: row.content.substring(0, 200),
+			current_severity: row.classification_severity,
+			current_rule_id: row.triage_rule_id,
+			alerted: row.instant_alert_sent === 1
+		});
+	}
+
+	return new Response(JSON.stringify({
+		rule,
+		days,
+		scanned: feedback.results?.length || 0,
+		matched: matches.length,
+		// Matches that weren't alerted before but would page now at P0/P1
+		would_newly_alert: matches.filter(m => !m.alerted && needsInstantAlert(rule.severity, 1.0)).length,
+		matches: matches.slice(0, limit)
+	}), { headers: jsonHeaders });
+}
+
+// ==================== ALERT ROUTING ====================
+
+interface AlertRouteRow {
+	route_id: string;
+	workspace_id: string;
+	name: string;
+	categories: string;
+	severities: string;
+	sources: string;
+	keywords: string;
+	destinations: string;
+	enabled: number;
+	created_at: number;
+	updated_at: number;
+}
+
+function parseAlertRoute(row: AlertRouteRow): AlertRoute & { created_at: number; updated_at: number } {
+	return {
+		...row,
+		categories: JSON.parse(row.categories || '[]'),
+		severities: JSON.parse(row.severities || '[]'),
+		sources: JSON.parse(row.sources || '[]'),
+		keywords: JSON.parse(row.keywords || '[]'),
+		destinations: JSON.parse(row.destinations || '[]'),
+		enabled: row.enabled === 1
+	};
+}
+
+async function loadAlertRoutes(env: Env, ws: Workspace): Promise<Array<AlertRoute & { created_at: number; updated_at: number }>> {
+	const rows = await env.DB.prepare(
+		'SELECT * FROM alert_routes WHERE workspace_id = ? ORDER BY created_at ASC'
+	).bind(ws.id).all<AlertRouteRow>();
+	return (rows.results || []).map(parseAlertRoute);
+}
+
+// The workspace's own chat, for alerts no route claims
+function defaultDestination(ws: Workspace): AlertDestination {
+	return { destination_id: DEFAULT_DESTINATION, name: 'Default', channel: 'telegram', target: ws.config.telegram.chatId };
+}
+
+type AlertDestinationRow = Omit<AlertDestination, 'muted_categories'> & { muted_categories: string | null };
+
+function parseDestination<T extends AlertDestinationRow>(row: T): Omit<T, 'muted_categories'> & { muted_categories: string[] } {
+	return { ...row, muted_categories: JSON.parse(row.muted_categories || '[]') };
+}
+
+async function findDestination(env: Env, ws: Workspace, destinationId: string): Promise<AlertDestination | null> {
+	if (destinationId === DEFAULT_DESTINATION) {
+		return defaultDestination(ws);
+	}
+	const row = await env.DB.prepare(
+		`SELECT destination_id, name, channel, target, secret, quiet_hours, muted_categories FROM alert_destinations
+		WHERE workspace_id = ? AND destination_id = ?`
+	).bind(ws.id, destinationId).first<AlertDestinationRow>();
+	return row ? parseDestination(row) : null;
+}
+
+// The Telegram destination among destinationIds whose chat this is (where a button was pressed)
+async function findChatDestination(env: Env, ws: Workspace, destinationIds: readonly string[], chatId: string): Promise<AlertDestination | null> {
+	for (const destinationId of destinationIds) {
+		const destination = await findDestination(env, ws, destinationId);
+		if (destination?.channel === 'telegram' && destination.target === chatId) {
+			return destination;
+		}
+	}
+	return null;
+}
 
-	return new Response(html, { headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' } });
+// The Telegram helpers send to ws.config.telegram.chatId; point that at the destination's chat
+function destinationWorkspace(ws: Workspace, destination: AlertDestination): Workspace {
+	if (destination.target === ws.config.telegram.chatId) return ws;
+	return { ...ws, config: { ...ws.config, telegram: { ...ws.config.telegram, chatId: destination.target } } };
 }
 
-async function handleTestTelegram(request: Request, env: Env, corsHeaders: Record<string, string>): Promise<Response> {
-	const message = '🧪 Test message from PM Daily Digest Agent';
-	const success = await sendTelegramMessage(env, message);
-	
-	return new Response(JSON.stringify({ 
-		success, 
-		message: success ? 'Telegram message sent successfully' : 'Failed to send Telegram message'
-	}), {
-		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-	});
+function createNotifier(env: Env, ws: Workspace, destination: AlertDestination): Notifier {
+	switch (destination.channel) {
+		case 'slack':
+			return slackNotifier(destination.target);
+		case 'email':
+			return emailNotifier(env.SEND_EMAIL, ws.config.email.fromAddress, parseEmailRecipients(destination.target));
+		case 'webhook':
+			return webhookNotifier(destination.target, destination.secret || null);
+		default:
+			return telegramNotifier(env, destinationWorkspace(ws, destination));
+	}
 }
 
-async function handleMarkFixed(
+// API view of a destination: secrets never leave, and webhook URLs only show their host
+function publicDestination<T extends AlertDestination>(destination: T): Omit<T, 'secret'> & { has_secret: boolean } {
+	const { secret, ...rest } = destination;
+	return { ...rest, target: maskTarget(destination.channel, destination.target), has_secret: Boolean(secret) };
+}
+
+async function handleListDestinations(env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const rows = await env.DB.prepare(
+		`SELECT destination_id, name, channel, target, secret, quiet_hours, muted_categories, created_at, updated_at FROM alert_destinations
+		WHERE workspace_id = ? ORDER BY created_at ASC`
+	).bind(ws.id).all<AlertDestinationRow & { created_at: number; updated_at: number }>();
+	// Alert volume per destination, to see where routing actually sends things
+	const counts = await env.DB.prepare(
+		"SELECT destination, COUNT(*) AS alerts FROM instant_alerts WHERE workspace_id = ? AND kind = 'alert' AND sent_at > ? GROUP BY destination"
+	).bind(ws.id, Date.now() - 30 * 86400000).all<{ destination: string; alerts: number }>();
+	const alerts = new Map((counts.results || []).map(c => [c.destination, c.alerts]));
+
+	return new Response(JSON.stringify({
+		destinations: [defaultDestination(ws), ...(rows.results || []).map(parseDestination)].map(destination => ({
+			...publicDestination(destination),
+			alerts_30d: alerts.get(destination.destination_id) || 0,
+			receives_digest: ws.config.notifications.digest.includes(destination.destination_id)
+		}))
+	}), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+}
+
+// Create (destinationId null) or update a destination
+async function handleSaveDestination(
 	request: Request,
 	env: Env,
 	corsHeaders: Record<string, string>,
-	clusterId: string
+	ws: Workspace,
+	destinationId: string | null
 ): Promise<Response> {
-	try {
-		const body = await request.json() as {
-			deployed_version?: string;
-			rollout_days?: number;
-			notes?: string;
-		};
-		
-		// Get current cluster to save original severity
-		const cluster = await env.DB.prepare(
-			'SELECT severity, count FROM clusters WHERE cluster_id = ?'
-		).bind(clusterId).first<{ severity: string; count: number }>();
-		
-		if (!cluster) {
-			return new Response(JSON.stringify({ error: 'Cluster not found' }), {
-				status: 404,
-				headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-			});
-		}
-		
-		// Downgrade priority: P0→P2, P1→P3, P2→P3, P3→P3
-		const downgradeMap: Record<string, string> = {
-			'P0': 'P2',
-			'P1': 'P3',
-			'P2': 'P3',
-			'P3': 'P3'
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+	if (destinationId === DEFAULT_DESTINATION) {
+		return new Response(JSON.stringify({
+			error: 'forbidden',
+			message: 'The default destination is the workspace\'s telegram.chatId setting; change it with POST /admin/workspaces/:id'
+		}), { status: 403, headers: jsonHeaders });
+	}
+	const existing = destinationId ? await findDestination(env, ws, destinationId) : null;
+	if (destinationId && !existing) {
+		return new Response(JSON.stringify({ error: 'destination_not_found', message: `No destination ${destinationId}` }), { status: 404, headers: jsonHeaders });
+	}
+
+	const parsed = await parseJsonBody<Partial<DestinationInput>>(request, existing ? destinationUpdateSchema : destinationSchema);
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+
+	const channel = existing?.channel || parsed.value.channel || 'telegram';
+	const targetError = parsed.value.target !== undefined ? validateTarget(channel, parsed.value.target.trim()) : null;
+	const quietHours = parsed.value.quiet_hours?.toLowerCase();
+	const quietHoursInvalid = quietHours !== undefined && quietHours !== 'off' ? quietHoursError(quietHours) : null;
+	const invalid = targetError
+		? { field: 'target', message: targetError }
+		: parsed.value.secret !== undefined && channel !== 'webhook'
+			? { field: 'secret', message: 'secret only applies to webhook destinations' }
+			: quietHoursInvalid
+				? { field: 'quiet_hours', message: quietHoursInvalid }
+				: null;
+	if (invalid) {
+		return validationErrorResponse({
+			ok: false,
+			status: 400,
+			error: 'validation_failed',
+			message: '1 field error',
+			errors: [{ ...invalid, code: 'invalid_format' }]
+		}, corsHeaders);
+	}
+
+	const now = Date.now();
+	if (existing) {
+		// quiet_hours "off" clears them; an empty muted_categories list unmutes everything
+		const destination: AlertDestination = {
+			...existing,
+			name: parsed.value.name ?? existing.name,
+			target: parsed.value.target?.trim() ?? existing.target,
+			secret: parsed.value.secret ?? existing.secret ?? null,
+			quiet_hours: quietHours === 'off' ? null : quietHours ?? existing.quiet_hours ?? null,
+			muted_categories: parsed.value.muted_categories ?? existing.muted_categories ?? []
 		};
-		const currentSeverity = downgradeMap[cluster.severity] || 'P2';
-		
-		// Update cluster with fix tracking
 		await env.DB.prepare(
-			`UPDATE clusters SET 
-				fix_status = 'fix_deployed',
-				fix_deployed_date = ?,
-				fix_deployed_version = ?,
-				rollout_period_days = ?,
-				original_severity = ?,
-				current_severity = ?,
-				reports_before_fix = ?,
-				reports_after_fix = 0,
-				fix_notes = ?
-			WHERE cluster_id = ?`
+			`UPDATE alert_destinations SET name = ?, target = ?, secret = ?, quiet_hours = ?, muted_categories = ?, updated_at = ?
+			WHERE workspace_id = ? AND destination_id = ?`
 		).bind(
-			Date.now(),
-			body.deployed_version || null,
-			body.rollout_days || 7,
-			cluster.severity,
-			currentSeverity,
-			cluster.count,
-			body.notes || null,
-			clusterId
+			destination.name,
+			destination.target,
+			destination.secret,
+			destination.quiet_hours,
+			JSON.stringify(destination.muted_categories),
+			now,
+			ws.id,
+			destination.destination_id
 		).run();
-		
+		return new Response(JSON.stringify({ destination: publicDestination(destination), message: 'Destination updated' }), { headers: jsonHeaders });
+	}
+
+	const id = (parsed.value.destination_id || '').toLowerCase();
+	if (!isValidDestinationId(id) || id === DEFAULT_DESTINATION) {
+		return validationErrorResponse({
+			ok: false,
+			status: 400,
+			error: 'validation_failed',
+			message: '1 field error',
+			errors: [{
+				field: 'destination_id',
+				code: 'invalid_format',
+				message: 'destination_id must be lowercase letters, digits and dashes, and not "default"'
+			}]
+		}, corsHeaders);
+	}
+	const destination: AlertDestination = {
+		destination_id: id,
+		name: parsed.value.name || id,
+		channel,
+		target: (parsed.value.target || '').trim(),
+		secret: parsed.value.secret || null,
+		quiet_hours: quietHours === 'off' ? null : quietHours ?? null,
+		muted_categories: parsed.value.muted_categories || []
+	};
+	const result = await env.DB.prepare(
+		`INSERT OR IGNORE INTO alert_destinations (workspace_id, destination_id, name, channel, target, secret, quiet_hours, muted_categories,
+			created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+	).bind(
+		ws.id,
+		destination.destination_id,
+		destination.name,
+		destination.channel,
+		destination.target,
+		destination.secret,
+		destination.quiet_hours,
+		JSON.stringify(destination.muted_categories),
+		now,
+		now
+	).run();
+	if (!result.meta.changes) {
+		return new Response(JSON.stringify({ error: 'destination_exists', message: `Destination ${id} already exists` }), { status: 409, headers: jsonHeaders });
+	}
+	console.log(`📬 Destination "${id}" created (${destination.channel} ${maskTarget(destination.channel, destination.target)})`);
+
+	return new Response(JSON.stringify({ destination: publicDestination(destination), message: 'Destination created' }), { status: 201, headers: jsonHeaders });
+}
+
+async function handleDeleteDestination(
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ws: Workspace,
+	destinationId: string
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const destination = destinationId === DEFAULT_DESTINATION ? null : await findDestination(env, ws, destinationId);
+	if (!destination) {
+		return new Response(JSON.stringify({ error: 'destination_not_found', message: `No destination ${destinationId}` }), { status: 404, headers: jsonHeaders });
+	}
+
+	// Routes would silently fall back to the default chat, so make the caller update them first
+	const usedBy = (await loadAlertRoutes(env, ws)).filter(route => route.destinations.includes(destinationId));
+	if (usedBy.length > 0) {
 		return new Response(JSON.stringify({
-			message: 'Cluster marked as fixed',
-			cluster_id: clusterId,
-			original_severity: cluster.severity,
-			current_severity: currentSeverity,
-			note: `Priority downgraded from ${cluster.severity} to ${currentSeverity}. Monitoring for ${body.rollout_days || 7} days.`
-		}), {
-			headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-		});
-	} catch (error) {
-		return new Response(JSON.stringify({ error: String(error) }), {
-			status: 500,
-			headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-		});
+			error: 'destination_in_use',
+			message: `Destination is used by ${usedBy.length} route(s)`,
+			routes: usedBy.map(route => ({ route_id: route.route_id, name: route.name }))
+		}), { status: 409, headers: jsonHeaders });
+	}
+	const settings = (['digest', 'alerts'] as const).filter(key => ws.config.notifications[key].includes(destinationId));
+	if (settings.length > 0) {
+		return new Response(JSON.stringify({
+			error: 'destination_in_use',
+			message: `Destination is set in notifications.${settings.join(' and notifications.')}`
+		}), { status: 409, headers: jsonHeaders });
 	}
+
+	const now = Date.now();
+	await env.DB.batch([
+		env.DB.prepare('DELETE FROM alert_destinations WHERE workspace_id = ? AND destination_id = ?').bind(ws.id, destinationId),
+		env.DB.prepare(
+			"UPDATE held_alerts SET status = 'discarded', released_at = ? WHERE workspace_id = ? AND destination = ? AND status = 'held'"
+		).bind(now, ws.id, destinationId),
+		returnDiscardedToDigest(env, ws, destinationId, now)
+	]);
+	return new Response(JSON.stringify({ destination_id: destinationId, message: 'Destination deleted' }), { headers: jsonHeaders });
 }
 
-async function handleReset(request: Request, env: Env, corsHeaders: Record<string, string>): Promise<Response> {
-	// Complete reset - delete everything for a fresh start
-	await env.DB.prepare('DELETE FROM cluster_members').run();
-	await env.DB.prepare('DELETE FROM clusters').run();
-	await env.DB.prepare('DELETE FROM instant_alerts').run();
-	await env.DB.prepare('DELETE FROM digests').run();
-	await env.DB.prepare('DELETE FROM feedback').run();
-	
-	return new Response(JSON.stringify({ 
-		message: 'Complete reset - all data cleared. Ready for fresh /seed',
-		note: 'All feedbacks, clusters, alerts, and digests have been deleted'
-	}), {
+async function handleListRoutes(env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	return new Response(JSON.stringify({ routes: await loadAlertRoutes(env, ws) }), {
 		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
 	});
 }
 
-// ==================== TRIAGE SYSTEM ====================
+// Create (routeId null) or update a route. Updates may send any subset of fields.
+async function handleSaveRoute(
+	request: Request,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	ws: Workspace,
+	routeId: string | null
+): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+
+	let existing: AlertRoute | null = null;
+	if (routeId) {
+		const row = await env.DB.prepare(
+			'SELECT * FROM alert_routes WHERE route_id = ? AND workspace_id = ?'
+		).bind(routeId, ws.id).first<AlertRouteRow>();
+		if (!row) {
+			return new Response(JSON.stringify({ error: 'route_not_found', message: `No route ${routeId}` }), { status: 404, headers: jsonHeaders });
+		}
+		existing = parseAlertRoute(row);
+	}
 
-async function triageFeedback(env: Env, feedback: Feedback & { id: string; timestamp: number }): Promise<boolean> {
-	// Layer 1: Hard Rule Triggers
-	const hasP0Keyword = checkP0Keywords(feedback.content);
-	
-	if (hasP0Keyword) {
-		await env.DB.prepare(
-			'UPDATE feedback SET classification_severity = ?, classification_confidence = 1.0 WHERE id = ?'
-		).bind('P0', feedback.id).run();
-		return true; // Instant alert
+	const parsed = await parseJsonBody<Partial<AlertRouteInput>>(request, existing ? alertRouteUpdateSchema : alertRouteSchema);
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
 	}
 
-	// Layer 2: AI Classification
-	const classification = await classifyFeedback(env, feedback.content);
-	
-	await env.DB.prepare(
-		'UPDATE feedback SET classification_severity = ?, classification_confidence = ? WHERE id = ?'
-	).bind(classification.severity, classification.confidence, feedback.id).run();
+	const route: AlertRoute = {
+		route_id: existing?.route_id || crypto.randomUUID(),
+		workspace_id: ws.id,
+		name: parsed.value.name ?? existing?.name ?? '',
+		categories: (parsed.value.categories ?? existing?.categories ?? []).map(c => c.toLowerCase()),
+		severities: parsed.value.severities ?? existing?.severities ?? [],
+		sources: parsed.value.sources ?? existing?.sources ?? [],
+		keywords: parsed.value.keywords ?? existing?.keywords ?? [],
+		destinations: parsed.value.destinations ?? existing?.destinations ?? [],
+		enabled: parsed.value.enabled ?? existing?.enabled ?? true
+	};
 
-	// Route decision: P0 or high-confidence P1 → instant alert
-	if (classification.severity === 'P0' || 
-		(classification.severity === 'P1' && classification.confidence >= 0.7)) {
-		return true; // Instant alert
+	const unknown: string[] = [];
+	for (const destinationId of route.destinations) {
+		if (!await findDestination(env, ws, destinationId)) unknown.push(destinationId);
+	}
+	if (unknown.length > 0) {
+		return validationErrorResponse({
+			ok: false,
+			status: 400,
+			error: 'validation_failed',
+			message: '1 field error',
+			errors: [{ field: 'destinations', code: 'invalid_enum', message: `Unknown destination(s): ${unknown.join(', ')}` }]
+		}, corsHeaders);
 	}
 
-	// Everything else goes to morning digest
-	return false;
+	const now = Date.now();
+	const values = [
+		route.name, JSON.stringify(route.categories), JSON.stringify(route.severities), JSON.stringify(route.sources),
+		JSON.stringify(route.keywords), JSON.stringify(route.destinations), route.enabled ? 1 : 0
+	];
+	if (existing) {
+		await env.DB.prepare(
+			`UPDATE alert_routes SET name = ?, categories = ?, severities = ?, sources = ?, keywords = ?, destinations = ?, enabled = ?,
+			updated_at = ? WHERE route_id = ?`
+		).bind(...values, now, route.route_id).run();
+	} else {
+		await env.DB.prepare(
+			`INSERT INTO alert_routes (name, categories, severities, sources, keywords, destinations, enabled, route_id, workspace_id,
+			created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+		).bind(...values, route.route_id, ws.id, now, now).run();
+	}
+	console.log(`🧭 Route "${route.name}" ${existing ? 'updated' : 'created'} → ${route.destinations.join(', ')}`);
+
+	return new Response(JSON.stringify({ route, message: existing ? 'Route updated' : 'Route created' }), {
+		status: existing ? 200 : 201,
+		headers: jsonHeaders
+	});
 }
 
-function checkP0Keywords(content: string): boolean {
-	const config = getConfig();
-	const lowerContent = content.toLowerCase();
-	const matchedKeywords = config.p0Keywords.filter(keyword => 
-		lowerContent.includes(keyword.toLowerCase())
-	);
-	
-	if (matchedKeywords.length > 0) {
-		console.log(`🚨 P0 keywords matched: ${matchedKeywords.join(', ')}`);
-		return true;
+async function handleDeleteRoute(env: Env, corsHeaders: Record<string, string>, ws: Workspace, routeId: string): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const result = await env.DB.prepare('DELETE FROM alert_routes WHERE route_id = ? AND workspace_id = ?').bind(routeId, ws.id).run();
+	if (!result.meta.changes) {
+		return new Response(JSON.stringify({ error: 'route_not_found', message: `No route ${routeId}` }), { status: 404, headers: jsonHeaders });
 	}
-	return false;
+	return new Response(JSON.stringify({ route_id: routeId, message: 'Route deleted' }), { headers: jsonHeaders });
 }
 
-async function classifyFeedback(env: Env, content: string): Promise<ClassificationResult> {
+// examples: reviewed labels (review.ts), shown to the model as few-shot examples
+async function classifyFeedback(env: Env, content: string, examples: LabelExample[] = []): Promise<ClassificationResult> {
 	console.log('🤖 Classifying feedback:', content.substring(0, 100));
 	
 	// Rule-based pre-classification
-	const lowerContent = content.toLowerCase();
-	
-	let quickCategory = 'other';
-	let quickSeverity: 'P0' | 'P1' | 'P2' | 'P3' = 'P2';
-	
-	// Category detection
-	if (lowerContent.includes('crash') || lowerContent.includes('won\'t open') || lowerContent.includes('stuck')) {
-		quickCategory = 'crash';
-		quickSeverity = 'P0';
-	} else if (lowerContent.includes('login') || lowerContent.includes('sign in') || lowerContent.includes('otp')) {
-		quickCategory = 'login';
-		quickSeverity = lowerContent.includes('critical') || lowerContent.includes('urgent') ? 'P0' : 'P1';
-	} else if (lowerContent.includes('payment') || lowerContent.includes('billing') || lowerContent.includes('charged') || lowerContent.includes('subscription')) {
-		quickCategory = 'payment';
-		quickSeverity = 'P1';
-	} else if (lowerContent.includes('slow') || lowerContent.includes('lag') || lowerContent.includes('performance')) {
-		quickCategory = 'performance';
-		quickSeverity = 'P2';
-	} else if (lowerContent.includes('dark mode') || lowerContent.includes('ui') || lowerContent.includes('ux') || lowerContent.includes('navigation')) {
-		quickCategory = 'ui';
-		quickSeverity = 'P3';
-	} else if (lowerContent.includes('feature request') || lowerContent.includes('would love') || lowerContent.includes('add')) {
-		quickCategory = 'feature_request';
-		quickSeverity = 'P3';
-	} else if (lowerContent.includes('error') || lowerContent.includes('bug') || lowerContent.includes('broken')) {
-		quickCategory = 'bug';
-		quickSeverity = 'P2';
-	} else if (lowerContent.includes('rate limit') || lowerContent.includes('429')) {
-		quickCategory = 'performance';
-		quickSeverity = 'P2';
-	} else if (lowerContent.includes('docs') || lowerContent.includes('documentation')) {
-		quickCategory = 'other';
-		quickSeverity = 'P3';
-	}
+	const keyword = keywordClassification(content);
+	const quickCategory = keyword?.category ?? 'other';
+	const quickSeverity = keyword?.severity ?? 'P2';
 	
 	console.log(`🎯 Quick classification: ${quickCategory} / ${quickSeverity}`);
 	
 	// Simplified AI prompt
 	const simplePrompt = `Classify this user feedback into a category and severity.
 
-Feedback: "${content}"
+${formatLabelExamples(examples)}Feedback: "${content}"
 
 Return ONLY this exact JSON format:
 {"category":"${quickCategory}","severity":"${quickSeverity}","confidence":0.8,"one_line_summary":"brief summary"}
 
-Categories: crash, login, payment, performance, ui, feature_request, bug, other
+Categories: ${CLASSIFICATION_CATEGORIES.join(', ')}
 Severities: P0 (critical), P1 (major), P2 (minor), P3 (nice-to-have)`;
 
 	try {
@@ -860,7 +3900,10 @@ Severities: P0 (critical), P1 (major), P2 (minor), P3 (nice-to-have)`;
 				category: parsed.category || quickCategory,
 				confidence: Math.max(0, Math.min(1, parseFloat(parsed.confidence) || 0.8)),
 				one_line_summary: parsed.one_line_summary || content.substring(0, 100),
-				reasoning: `AI: ${parsed.category} / ${parsed.severity}`
+				reasoning: `AI: ${parsed.category} / ${parsed.severity}`,
+				model: config.ai.classificationModel,
+				prompt_version: CLASSIFICATION_PROMPT_VERSION,
+				classified_at: Date.now()
 			};
 		} else {
 			console.error('❌ No JSON found in AI response:', text);
@@ -872,110 +3915,799 @@ Severities: P0 (critical), P1 (major), P2 (minor), P3 (nice-to-have)`;
 		}
 	}
 
-	// Return rule-based classification
-	console.warn('⚠️ Using rule-based classification');
-	return {
-		severity: quickSeverity,
-		category: quickCategory,
-		confidence: 0.7,
-		one_line_summary: content.substring(0, 100),
-		reasoning: `Rule-based: ${quickCategory}`
-	};
+	// Return rule-based classification
+	console.warn('⚠️ Using rule-based classification');
+	return {
+		severity: quickSeverity,
+		category: quickCategory,
+		confidence: 0.7,
+		one_line_summary: content.substring(0, 100),
+		reasoning: `Rule-based: ${quickCategory}`,
+		model: RULE_BASED_MODEL,
+		prompt_version: CLASSIFICATION_PROMPT_VERSION,
+		classified_at: Date.now()
+	};
+}
+
+// Sentiment and urgency for one feedback (sentiment.ts); the lexicon answers when the AI can't
+async function analyzeSentiment(env: Env, content: string): Promise<SentimentAnalysis> {
+	const prompt = `Rate the sentiment and urgency of this user feedback.
+
+Feedback: "${content}"
+
+Return ONLY this exact JSON format:
+{"sentiment":"negative","score":0.2,"urgency":0.5}
+
+score: 0 (very negative) to 1 (very positive)
+urgency: 0 (can wait) to 1 (needs action now)`;
+
+	try {
+		const config = getConfig();
+		const response = await env.AI.run(config.ai.classificationModel as keyof AiModels, {
+			messages: [{ role: 'user', content: prompt }],
+			max_tokens: 60,
+			temperature: 0.1
+		});
+		const text = typeof response === 'string' ? response : String((response as any)?.response ?? '');
+		const analysis = parseSentimentResponse(text, config.ai.classificationModel);
+		if (analysis) {
+			return analysis;
+		}
+		console.error('❌ No sentiment JSON in AI response:', text.substring(0, 200));
+	} catch (error) {
+		console.error('❌ Sentiment analysis error:', error);
+	}
+
+	console.warn('⚠️ Using lexicon sentiment');
+	return lexiconSentiment(content);
+}
+
+// Stored analysis, or analyze and store it now (e.g. backfilled feedback that skipped the pipeline).
+// revenue_risk is the reporting customer's ARR, 0 for unknown users
+async function getFeedbackAnalysis(
+	env: Env,
+	ws: Workspace,
+	feedback: Feedback & { id: string },
+	classification: ClassificationResult
+): Promise<SentimentAnalysis> {
+	const stored = await env.DB.prepare(
+		'SELECT sentiment, sentiment_score, urgency_score, model FROM feedback_analysis WHERE feedback_id = ? AND analyzed_at IS NOT NULL'
+	).bind(feedback.id).first<SentimentAnalysis>();
+	if (stored) {
+		return stored;
+	}
+
+	const analysis = await analyzeSentiment(env, feedback.content);
+	const customer = await findCustomer(env, ws, feedback.user);
+	await env.DB.prepare(
+		`INSERT OR REPLACE INTO feedback_analysis (feedback_id, sentiment, sentiment_score, urgency_score, theme, severity, revenue_risk, model, analyzed_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+	).bind(
+		feedback.id,
+		analysis.sentiment,
+		analysis.sentiment_score,
+		analysis.urgency_score,
+		classification.category,
+		classification.severity,
+		Math.round(customer?.arr ?? 0),
+		analysis.model,
+		Date.now()
+	).run();
+	return analysis;
+}
+
+/**
+ * Send the alert for one feedback to every destination its routes pick (see routing.ts),
+ * subject to each destination's quiet hours and muted categories (policy.ts).
+ * Destinations that already have this report, or are holding it, are skipped, so a retry
+ * after a partial failure only resends the missing ones. Throws a DeliveryError if any destination failed.
+ */
+async function sendInstantAlert(
+	env: Env,
+	ws: Workspace,
+	feedback: Feedback & { id: string; timestamp: number },
+	classification: ClassificationResult,
+	ruleId: string | null,
+	embedding: number[]
+): Promise<void> {
+	const routes = await loadAlertRoutes(env, ws);
+	const { destinations } = routeAlert(routes, {
+		category: classification.category,
+		severity: classification.severity,
+		source: feedback.source,
+		content: feedback.content
+	}, ws.config.notifications.alerts);
+
+	const failures: Delivery[] = [];
+	const seen = new Set<string>();
+	for (const destinationId of destinations) {
+		const destination = await findDestination(env, ws, destinationId);
+		if (!destination) {
+			console.warn(`⚠️ Route points at unknown destination "${destinationId}", using ${DEFAULT_DESTINATION}`);
+		}
+		const target = destination || defaultDestination(ws);
+		if (seen.has(target.destination_id)) continue;
+		seen.add(target.destination_id);
+
+		// Held counts as done: after quiet hours the "while you were away" summary carries it
+		const done = await env.DB.prepare(
+			`SELECT 1 AS done FROM alert_reports WHERE feedback_id = ? AND destination = ?
+			UNION ALL SELECT 1 FROM held_alerts WHERE feedback_id = ? AND destination = ?`
+		).bind(feedback.id, target.destination_id, feedback.id, target.destination_id).first();
+		if (done) continue;
+
+		const decision = decideDelivery(target, classification, new Date(), ws.config.digest.timezone);
+		if (decision === 'mute') {
+			console.log(`🔇 ${classification.category} alerts are muted for ${target.destination_id}`);
+			continue;
+		}
+		if (decision === 'hold') {
+			await holdAlert(env, ws, target, feedback, classification);
+			continue;
+		}
+
+		const sent = await deliverAlert(env, ws, target, feedback, classification, ruleId, embedding);
+		if (sent && !sent.ok) failures.push(sent);
+	}
+
+	if (failures.length > 0) {
+		throw new DeliveryError(
+			`Instant alert delivery failed: ${failures.map(f => f.error).join('; ')}`,
+			Math.max(0, ...failures.map(f => f.retryAfter ?? 0)) || null
+		);
+	}
+}
+
+/**
+ * Deliver the alert to one destination. In order:
+ * - similar to an open alert there in the grouping window (or a snoozed one) → bump that alert's "Reports: N" in place
+ * - the destination already got alerts.maxPerHour alerts this hour → count it in the overflow summary
+ *   (the feedback stays in the morning digest)
+ * - otherwise post a new alert
+ * Returns the Delivery of the new message, or null when the report only updated an earlier one.
+ */
+async function deliverAlert(
+	env: Env,
+	ws: Workspace,
+	destination: AlertDestination,
+	feedback: Feedback & { id: string; timestamp: number },
+	classification: ClassificationResult,
+	ruleId: string | null,
+	embedding: number[]
+): Promise<Delivery | null> {
+	const now = Date.now();
+	const { groupingWindowMinutes, groupingSimilarity, maxPerHour } = ws.config.alerts;
+
+	// Snoozed alerts keep absorbing similar reports until the snooze ends; fixed / won't fix ones never do
+	// Compared on the alert's own copy of its first report's embedding: Vectorize applies writes
+	// asynchronously, so a report seconds behind the alert may not find it in the index yet
+	const open = await env.DB.prepare(
+		`SELECT alert_id, embedding, report_count FROM instant_alerts
+		WHERE workspace_id = ? AND destination = ? AND kind = 'alert' AND embedding IS NOT NULL
+		AND (last_action IS NULL OR last_action NOT IN ('fixed', 'wontfix'))
+		AND (COALESCE(last_report_at, sent_at) > ? OR snoozed_until > ?)`
+	).bind(ws.id, destination.destination_id, now - groupingWindowMinutes * 60000, now).all<Omit<AlertCandidate, 'embedding'> & { embedding: string }>();
+	const group = pickAlertGroup(
+		embedding,
+		(open.results || []).map(row => ({ ...row, embedding: JSON.parse(row.embedding) as number[] })),
+		groupingSimilarity
+	);
+
+	if (group) {
+		const reportCount = group.alert.report_count + 1;
+		await env.DB.batch([
+			env.DB.prepare(
+				'UPDATE instant_alerts SET report_count = ?, last_report_at = ? WHERE alert_id = ?'
+			).bind(reportCount, now, group.alert.alert_id),
+			recordAlertReport(env, group.alert.alert_id, feedback.id, destination, now),
+			env.DB.prepare(
+				'UPDATE feedback SET instant_alert_sent = 1, instant_alert_id = COALESCE(instant_alert_id, ?) WHERE id = ?'
+			).bind(group.alert.alert_id, feedback.id)
+		]);
+		console.log(`🔁 Grouped into alert ${group.alert.alert_id.substring(0, 8)} → ${destination.destination_id} (similarity ${group.similarity.toFixed(3)}, ${reportCount} reports)`);
+		// The report is already counted; a failed edit just leaves the old counter showing
+		await refreshGroupedAlert(env, ws, group.alert.alert_id);
+		return null;
+	}
+
+	const sentThisHour = await env.DB.prepare(
+		"SELECT COUNT(*) AS count FROM instant_alerts WHERE workspace_id = ? AND destination = ? AND kind = 'alert' AND sent_at > ?"
+	).bind(ws.id, destination.destination_id, now - 3600000).first<{ count: number }>();
+	if ((sentThisHour?.count || 0) >= maxPerHour) {
+		return recordOverflow(env, ws, destination, feedback, classification, now);
+	}
+
+	const alertId = crypto.randomUUID();
+	const sent = await trackDelivery(
+		env,
+		ws,
+		destination,
+		'alert',
+		{ refId: alertId, feedbackId: feedback.id },
+		createNotifier(env, ws, destination).sendAlert(buildAlertView(ws, alertId, feedback, classification, 1))
+	);
+	if (!sent.ok) {
+		console.error(`❌ Alert to ${destination.destination_id} (${destination.channel}) failed: ${sent.error}`);
+		return sent;
+	}
+
+	await env.DB.batch([
+		env.DB.prepare(
+			`INSERT INTO instant_alerts (alert_id, workspace_id, feedback_id, rule_id, kind, destination, telegram_message_id, report_count,
+			sent_at, last_report_at, severity, category, message, embedding) VALUES (?, ?, ?, ?, 'alert', ?, ?, 1, ?, ?, ?, ?, ?, ?)`
+		).bind(
+			alertId, ws.id, feedback.id, ruleId, destination.destination_id, sent.messageId, now, now, classification.severity,
+			classification.category, sent.body, embedding.some(val => val !== 0) ? JSON.stringify(embedding) : null
+		),
+		recordAlertReport(env, alertId, feedback.id, destination, now),
+		env.DB.prepare(
+			'UPDATE feedback SET instant_alert_sent = 1, instant_alert_id = COALESCE(instant_alert_id, ?) WHERE id = ?'
+		).bind(alertId, feedback.id)
+	]);
+
+	return sent;
+}
+
+function recordAlertReport(env: Env, alertId: string, feedbackId: string, destination: AlertDestination, now: number): D1PreparedStatement {
+	return env.DB.prepare(
+		'INSERT OR IGNORE INTO alert_reports (alert_id, feedback_id, destination, reported_at) VALUES (?, ?, ?, ?)'
+	).bind(alertId, feedbackId, destination.destination_id, now);
+}
+
+// Re-render an alert from its first report with the current counter and the last button action.
+// Only channels that can edit a sent message (Telegram) show the update.
+async function refreshGroupedAlert(env: Env, ws: Workspace, alertId: string): Promise<void> {
+	const row = await env.DB.prepare(
+		`SELECT f.*, a.telegram_message_id, a.report_count, a.last_report_at, a.last_action, a.action_by, a.action_at, a.destination
+		FROM instant_alerts a JOIN feedback f ON f.id = a.feedback_id WHERE a.alert_id = ?`
+	).bind(alertId).first<Feedback & ClassificationColumns & {
+		id: string;
+		timestamp: number;
+		telegram_message_id: number | null;
+		report_count: number;
+		last_report_at: number;
+		last_action: TelegramAction | null;
+		action_by: string | null;
+		action_at: number | null;
+		destination: string;
+	}>();
+	const classification = row && classificationFromRow(row);
+	if (!row || !classification || row.telegram_message_id === null) return;
+
+	const destination = await findDestination(env, ws, row.destination) || defaultDestination(ws);
+	const notifier = createNotifier(env, ws, destination);
+	if (!notifier.updateAlert) return;
+
+	const action = row.last_action && row.action_at ? { action: row.last_action, by: row.action_by || 'unknown', at: row.action_at } : null;
+	const updated = await trackDelivery(
+		env,
+		ws,
+		destination,
+		'alert_update',
+		{ refId: alertId },
+		notifier.updateAlert(String(row.telegram_message_id), buildAlertView(ws, alertId, row, classification, row.report_count, row.last_report_at, action))
+	);
+	if (updated.ok) {
+		await env.DB.prepare('UPDATE instant_alerts SET message = ? WHERE alert_id = ?').bind(updated.body, alertId).run();
+	}
+}
+
+// Over the hourly limit: count the report in this hour's overflow summary for the destination, posting it on first use.
+// Returns the Delivery of a newly posted summary, null when an existing one was updated.
+async function recordOverflow(
+	env: Env,
+	ws: Workspace,
+	destination: AlertDestination,
+	feedback: Feedback & { id: string },
+	classification: ClassificationResult,
+	now: number
+): Promise<Delivery | null> {
+	const { maxPerHour } = ws.config.alerts;
+	const notifier = createNotifier(env, ws, destination);
+	const overflow = await env.DB.prepare(
+		`SELECT alert_id, telegram_message_id, report_count FROM instant_alerts
+		WHERE workspace_id = ? AND destination = ? AND kind = 'overflow' AND sent_at > ? ORDER BY sent_at DESC LIMIT 1`
+	).bind(ws.id, destination.destination_id, now - 3600000).first<{ alert_id: string; telegram_message_id: number | null; report_count: number }>();
+
+	if (!overflow) {
+		const alertId = crypto.randomUUID();
+		const sent = await trackDelivery(env, ws, destination, 'overflow', { refId: alertId, feedbackId: feedback.id }, notifier.sendOverflow({
+			workspace: ws.name,
+			heldBack: 1,
+			maxPerHour,
+			byCategory: [{ category: classification.category, count: 1 }]
+		}));
+		if (!sent.ok) {
+			console.error(`❌ Overflow summary to ${destination.destination_id} (${destination.channel}) failed: ${sent.error}`);
+			return sent;
+		}
+		await env.DB.batch([
+			env.DB.prepare(
+				`INSERT INTO instant_alerts (alert_id, workspace_id, feedback_id, kind, destination, telegram_message_id, report_count, sent_at,
+				last_report_at, severity, category, message) VALUES (?, ?, ?, 'overflow', ?, ?, 1, ?, ?, ?, ?, ?)`
+			).bind(alertId, ws.id, feedback.id, destination.destination_id, sent.messageId, now, now, classification.severity, classification.category, sent.body),
+			recordAlertReport(env, alertId, feedback.id, destination, now),
+			env.DB.prepare('UPDATE feedback SET instant_alert_id = COALESCE(instant_alert_id, ?) WHERE id = ?').bind(alertId, feedback.id)
+		]);
+		console.warn(`⚠️ Alert limit (${maxPerHour}/hour) reached for ${ws.id} → ${destination.destination_id}; overflow summary posted`);
+		return sent;
+	}
+
+	await env.DB.batch([
+		env.DB.prepare(
+			'UPDATE instant_alerts SET report_count = report_count + 1, last_report_at = ? WHERE alert_id = ?'
+		).bind(now, overflow.alert_id),
+		recordAlertReport(env, overflow.alert_id, feedback.id, destination, now),
+		env.DB.prepare('UPDATE feedback SET instant_alert_id = COALESCE(instant_alert_id, ?) WHERE id = ?').bind(overflow.alert_id, feedback.id)
+	]);
+	if (!notifier.updateOverflow || overflow.telegram_message_id === null) {
+		return null;
+	}
+
+	const categories = await env.DB.prepare(
+		`SELECT f.classification_category AS category, COUNT(*) AS count FROM alert_reports r JOIN feedback f ON f.id = r.feedback_id
+		WHERE r.alert_id = ? GROUP BY f.classification_category ORDER BY count DESC`
+	).bind(overflow.alert_id).all<{ category: string | null; count: number }>();
+	const updated = await trackDelivery(env, ws, destination, 'overflow_update', { refId: overflow.alert_id }, notifier.updateOverflow(
+		String(overflow.telegram_message_id),
+		{
+			workspace: ws.name,
+			heldBack: overflow.report_count + 1,
+			maxPerHour,
+			byCategory: (categories.results || []).map(c => ({ category: c.category || 'other', count: c.count }))
+		}
+	));
+	if (updated.ok) {
+		await env.DB.prepare('UPDATE instant_alerts SET message = ? WHERE alert_id = ?').bind(updated.body, overflow.alert_id).run();
+	}
+	return null;
+}
+
+// The channel-neutral alert every notifier renders
+function buildAlertView(
+	ws: Workspace,
+	alertId: string,
+	feedback: Feedback & { id: string; timestamp: number },
+	classification: ClassificationResult,
+	reportCount: number,
+	lastReportAt: number = feedback.timestamp,
+	action: { action: TelegramAction; by: string; at: number } | null = null
+): AlertView {
+	return {
+		alertId,
+		workspace: ws.name,
+		severity: classification.severity,
+		category: classification.category,
+		summary: classification.one_line_summary,
+		content: feedback.content,
+		reasoning: classification.reasoning,
+		source: feedback.source,
+		user: feedback.user || null,
+		link: feedback.link || null,
+		reportCount,
+		firstReportAt: feedback.timestamp,
+		lastReportAt,
+		// Who pressed Ack / Snooze / Mark fixed / Won't fix, and when
+		status: action ? formatActionStatus(action.action, action.by, action.at, ws.config.digest.timezone) : null,
+		resolved: action !== null && resolvesIssue(action.action)
+	};
+}
+
+// ==================== QUIET HOURS ====================
+
+// The feedback counts as alerted, so like any other alert it stays out of the morning digest
+async function holdAlert(
+	env: Env,
+	ws: Workspace,
+	destination: AlertDestination,
+	feedback: Feedback & { id: string },
+	classification: ClassificationResult
+): Promise<void> {
+	await env.DB.batch([
+		env.DB.prepare(
+			`INSERT OR IGNORE INTO held_alerts (workspace_id, destination, feedback_id, severity, category, summary, held_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?)`
+		).bind(ws.id, destination.destination_id, feedback.id, classification.severity, classification.category, classification.one_line_summary, Date.now()),
+		env.DB.prepare('UPDATE feedback SET instant_alert_sent = 1 WHERE id = ?').bind(feedback.id)
+	]);
+	console.log(`🌙 Quiet hours at ${destination.destination_id}: ${classification.severity} alert for ${feedback.id.substring(0, 8)} held`);
+}
+
+// Held alerts discarded at `discardedAt` never reached anyone: unless the feedback was alerted
+// elsewhere or is still held for another destination, put it back in the morning digest
+function returnDiscardedToDigest(env: Env, ws: Workspace, destinationId: string, discardedAt: number): D1PreparedStatement {
+	return env.DB.prepare(
+		`UPDATE feedback SET instant_alert_sent = 0
+		WHERE id IN (
+			SELECT feedback_id FROM held_alerts
+			WHERE workspace_id = ? AND destination = ? AND status = 'discarded' AND released_at = ?
+		)
+		AND instant_alert_id IS NULL
+		AND NOT EXISTS (SELECT 1 FROM alert_reports r WHERE r.feedback_id = feedback.id)
+		AND NOT EXISTS (SELECT 1 FROM held_alerts h WHERE h.feedback_id = feedback.id AND h.status != 'discarded')`
+	).bind(ws.id, destinationId, discardedAt);
+}
+
+/**
+ * Send a destination's held alerts as one "while you were away" summary and mark them released.
+ * If the destination is gone they are discarded and go to the morning digest instead; if sending
+ * fails they stay held for the next tick.
+ */
+async function releaseHeld(
+	env: Env,
+	ws: Workspace,
+	destinationId: string,
+	destination: AlertDestination | null
+): Promise<{ destination: string; released: number; ok: boolean; error: string | null }> {
+	const rows = await env.DB.prepare(
+		`SELECT h.feedback_id, h.severity, h.category, h.summary, h.held_at, f.source, f.link
+		FROM held_alerts h LEFT JOIN feedback f ON f.id = h.feedback_id
+		WHERE h.workspace_id = ? AND h.destination = ? AND h.status = 'held'
+		ORDER BY h.severity ASC, h.held_at ASC`
+	).bind(ws.id, destinationId).all<{
+		feedback_id: string;
+		severity: HeldAlertView['severity'];
+		category: string;
+		summary: string;
+		held_at: number;
+		source: string | null;
+		link: string | null;
+	}>();
+	const held = rows.results || [];
+	if (held.length === 0) {
+		return { destination: destinationId, released: 0, ok: true, error: null };
+	}
+
+	// Only what was loaded: alerts held while this runs wait for the next summary
+	const now = Date.now();
+	const markHeld = (status: HeldAlertStatus) => env.DB.prepare(
+		"UPDATE held_alerts SET status = ?, released_at = ? WHERE workspace_id = ? AND destination = ? AND status = 'held' AND held_at <= ?"
+	).bind(status, now, ws.id, destinationId, Math.max(...held.map(row => row.held_at)));
+
+	if (!destination) {
+		await env.DB.batch([markHeld('discarded'), returnDiscardedToDigest(env, ws, destinationId, now)]);
+		console.warn(`⚠️ Discarded ${held.length} held alerts for unknown destination "${destinationId}"`);
+		return { destination: destinationId, released: 0, ok: false, error: 'Unknown destination' };
+	}
+
+	const sent = await trackDelivery(env, ws, destination, 'held_summary', {}, createNotifier(env, ws, destination).sendHeldSummary({
+		workspace: ws.name,
+		alerts: held.map(row => ({
+			feedbackId: row.feedback_id,
+			severity: row.severity,
+			category: row.category,
+			summary: row.summary,
+			source: row.source || 'unknown',
+			link: row.link,
+			heldAt: row.held_at
+		}))
+	}));
+	if (!sent.ok) {
+		console.error(`❌ Held alerts summary to ${destinationId} failed: ${sent.error}`);
+		return { destination: destinationId, released: 0, ok: false, error: sent.error };
+	}
+
+	await markHeld('released').run();
+	console.log(`☀️ Released ${held.length} held alerts to ${destinationId}`);
+	return { destination: destinationId, released: held.length, ok: true, error: null };
+}
+
+// Cron: send what each destination held once its quiet hours are over
+async function releaseHeldAlerts(env: Env, now: number): Promise<void> {
+	const pending = await env.DB.prepare(
+		"SELECT DISTINCT workspace_id, destination FROM held_alerts WHERE status = 'held'"
+	).all<{ workspace_id: string; destination: string }>();
+
+	const workspaces = new Map<string, Workspace | null>();
+	for (const row of pending.results || []) {
+		if (!workspaces.has(row.workspace_id)) {
+			workspaces.set(row.workspace_id, await loadWorkspace(env, row.workspace_id));
+		}
+		const ws = workspaces.get(row.workspace_id);
+		if (!ws) continue;
+		try {
+			const destination = await findDestination(env, ws, row.destination);
+			if (destination && isQuietTime(destination.quiet_hours, new Date(now), ws.config.digest.timezone)) continue;
+			await releaseHeld(env, ws, row.destination, destination);
+		} catch (error) {
+			console.error(`Error releasing held alerts for ${row.workspace_id}/${row.destination}:`, error);
+		}
+	}
+}
+
+async function handleListHeldAlerts(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const url = new URL(request.url);
+	const parsed = validate<{ status?: HeldAlertStatus; destination?: string }>(heldAlertQuerySchema, Object.fromEntries(url.searchParams));
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+	const limit = Math.min(500, Math.max(1, Number(url.searchParams.get('limit')) || 50));
+
+	const { where, binds } = deliveryFilters(ws, { status: parsed.value.status || 'held', destination: parsed.value.destination });
+	const rows = await env.DB.prepare(
+		`SELECT * FROM held_alerts WHERE ${where} ORDER BY held_at DESC LIMIT ?`
+	).bind(...binds, limit).all();
+
+	return new Response(JSON.stringify({ held_alerts: rows.results || [] }), {
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+	});
+}
+
+// Release now, quiet hours or not: one destination, or every destination with held alerts
+async function handleReleaseHeldAlerts(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const parsed = await parseJsonBody<{ destination?: string }>(request, heldAlertReleaseSchema, { allowEmpty: true });
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+
+	const destinationIds = parsed.value.destination
+		? [parsed.value.destination]
+		: ((await env.DB.prepare(
+			"SELECT DISTINCT destination FROM held_alerts WHERE workspace_id = ? AND status = 'held'"
+		).bind(ws.id).all<{ destination: string }>()).results || []).map(row => row.destination);
+
+	const results = [];
+	for (const destinationId of destinationIds) {
+		results.push(await releaseHeld(env, ws, destinationId, await findDestination(env, ws, destinationId)));
+	}
+	const released = results.reduce((total, result) => total + result.released, 0);
+
+	return new Response(JSON.stringify({
+		results,
+		message: `Released ${released} held alert${released === 1 ? '' : 's'}`
+	}), { headers: jsonHeaders });
 }
 
-async function sendInstantAlert(env: Env, feedback: Feedback & { id: string; timestamp: number }): Promise<void> {
-	const classification = await env.DB.prepare(
-		'SELECT classification_severity, classification_confidence FROM feedback WHERE id = ?'
-	).bind(feedback.id).first<{ classification_severity: string; classification_confidence: number }>();
+// ==================== DELIVERY OUTBOX ====================
 
-	if (!classification) return;
+interface DeliveryRefs {
+	refId?: string | null;
+	feedbackId?: string | null;
+	outboxId?: string | null;
+	attempt?: number;
+}
 
-	const severity = classification.classification_severity || 'P0';
-	const confidence = classification.classification_confidence || 1.0;
+// A claimed entry isn't picked up again for this long, in case its attempt dies mid-way
+const OUTBOX_LEASE_MS = 10 * 60000;
 
-	// Get category from classification if available
-	const category = await classifyFeedback(env, feedback.content);
+/**
+ * Wait for a send and record it in delivery_log. A failed log write is only logged:
+ * it must not turn a delivered message into a retry.
+ */
+async function trackDelivery(
+	env: Env,
+	ws: Workspace,
+	destination: AlertDestination,
+	kind: DeliveryKind,
+	refs: DeliveryRefs,
+	pending: Promise<Delivery>
+): Promise<Delivery> {
+	const sent = await pending;
+	try {
+		await env.DB.prepare(
+			`INSERT INTO delivery_log (log_id, workspace_id, destination, channel, kind, ref_id, feedback_id, outbox_id, attempt,
+				status, error_code, error, retry_after, message_id, attempted_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+		).bind(
+			crypto.randomUUID(),
+			ws.id,
+			destination.destination_id,
+			destination.channel,
+			kind,
+			refs.refId ?? null,
+			refs.feedbackId ?? null,
+			refs.outboxId ?? null,
+			refs.attempt ?? 1,
+			sent.ok ? 'sent' : 'failed',
+			sent.errorCode,
+			sent.error,
+			sent.retryAfter,
+			sent.messageId,
+			Date.now()
+		).run();
+	} catch (error) {
+		console.error(`Failed to record ${kind} delivery to ${destination.destination_id}:`, error);
+	}
+	return sent;
+}
 
-	const message = formatInstantAlert(feedback, severity, category, confidence);
-	const success = await sendTelegramMessage(env, message);
+// One outbox entry per digest destination, due immediately
+async function enqueueDigest(env: Env, ws: Workspace, view: DigestView, now: number): Promise<OutboxEntry[]> {
+	const payload = JSON.stringify(view);
+	const entries: OutboxEntry[] = [...new Set(ws.config.notifications.digest)].map(destination => ({
+		outbox_id: crypto.randomUUID(),
+		workspace_id: ws.id,
+		destination,
+		kind: 'digest',
+		ref_id: view.digestId,
+		payload,
+		status: 'pending',
+		attempts: 0,
+		next_attempt_at: now,
+		last_error: null,
+		message_id: null,
+		created_at: now,
+		updated_at: now
+	}));
+	if (entries.length === 0) return entries;
+
+	await env.DB.batch(entries.map(entry => env.DB.prepare(
+		`INSERT INTO delivery_outbox (outbox_id, workspace_id, destination, kind, ref_id, payload, status, attempts, next_attempt_at, created_at, updated_at)
+		VALUES (?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?)`
+	).bind(entry.outbox_id, entry.workspace_id, entry.destination, entry.kind, entry.ref_id, entry.payload, now, now, now)));
+	return entries;
+}
 
-	if (success) {
-		const alertId = crypto.randomUUID();
-		await env.DB.prepare(
-			'INSERT INTO instant_alerts (alert_id, feedback_id, sent_at, severity, category, message) VALUES (?, ?, ?, ?, ?, ?)'
-		).bind(alertId, feedback.id, Date.now(), severity, category.category, message).run();
+/**
+ * Try one pending entry and record the outcome: sent, pending with the next attempt time,
+ * or failed once config.delivery.maxAttempts are used up. Returns the entry as it now stands;
+ * an entry another run has already claimed is returned unchanged.
+ */
+async function attemptOutboxEntry(env: Env, ws: Workspace, entry: OutboxEntry, now: number): Promise<OutboxEntry> {
+	const attempt = entry.attempts + 1;
+	const claim = await env.DB.prepare(
+		"UPDATE delivery_outbox SET attempts = ?, next_attempt_at = ?, updated_at = ? WHERE outbox_id = ? AND status = 'pending' AND attempts = ?"
+	).bind(attempt, now + OUTBOX_LEASE_MS, now, entry.outbox_id, entry.attempts).run();
+	if (!claim.meta.changes) {
+		return entry;
+	}
 
-		await env.DB.prepare(
-			'UPDATE feedback SET instant_alert_sent = 1 WHERE id = ?'
-		).bind(feedback.id).run();
+	const destination = await findDestination(env, ws, entry.destination);
+	const sent = destination
+		? await trackDelivery(
+			env,
+			ws,
+			destination,
+			entry.kind,
+			{ refId: entry.ref_id, outboxId: entry.outbox_id, attempt },
+			createNotifier(env, ws, destination).sendDigest(JSON.parse(entry.payload) as DigestView)
+		)
+		: failed('', `Unknown destination "${entry.destination}"`, { errorCode: 'unknown_destination' });
+
+	if (sent.ok) {
+		await env.DB.batch([
+			env.DB.prepare(
+				"UPDATE delivery_outbox SET status = 'sent', next_attempt_at = NULL, last_error = NULL, message_id = ?, updated_at = ? WHERE outbox_id = ?"
+			).bind(sent.messageId, Date.now(), entry.outbox_id),
+			// The first Telegram destination's message ids: the first part, and every part
+			env.DB.prepare(
+				`UPDATE digests SET sent_to_telegram = 1, telegram_message_id = COALESCE(telegram_message_id, ?),
+					telegram_message_ids = COALESCE(telegram_message_ids, ?) WHERE digest_id = ?`
+			).bind(
+				destination?.channel === 'telegram' ? sent.messageId : null,
+				destination?.channel === 'telegram' ? JSON.stringify(sent.messageIds) : null,
+				entry.ref_id
+			)
+		]);
+		console.log(`📬 Digest ${entry.ref_id} sent to ${entry.destination} (attempt ${attempt})`);
+		return { ...entry, status: 'sent', attempts: attempt, next_attempt_at: null, last_error: null, message_id: sent.messageId };
 	}
+
+	// An unknown destination won't start working on its own
+	const next = destination ? nextAttemptAt(attempt, now, sent.retryAfter, ws.config.delivery) : null;
+	const status: OutboxStatus = next === null ? 'failed' : 'pending';
+	await env.DB.prepare(
+		'UPDATE delivery_outbox SET status = ?, next_attempt_at = ?, last_error = ?, updated_at = ? WHERE outbox_id = ?'
+	).bind(status, next, sent.error, Date.now(), entry.outbox_id).run();
+	console.error(`❌ Digest ${entry.ref_id} to ${entry.destination} failed (attempt ${attempt}): ${sent.error}`);
+	return { ...entry, status, attempts: attempt, next_attempt_at: next, last_error: sent.error };
 }
 
-function formatInstantAlert(
-	feedback: Feedback & { id: string; timestamp: number },
-	severity: string,
-	category: ClassificationResult,
-	confidence: number
-): string {
-	const timeAgo = getTimeAgo(feedback.timestamp);
-	
-	// Escape HTML special characters
-	const escapeHtml = (text: string): string => {
-		return text
-			.replace(/&/g, '&amp;')
-			.replace(/</g, '&lt;')
-			.replace(/>/g, '&gt;')
-			.replace(/"/g, '&quot;')
-			.replace(/'/g, '&#39;');
-	};
-	
-	const summary = escapeHtml(category.one_line_summary);
-	const categoryName = escapeHtml(category.category);
-	const content = escapeHtml(feedback.content.substring(0, 200));
-	const reasoning = escapeHtml(category.reasoning);
-	const user = escapeHtml(feedback.user || 'Unknown');
-	const source = escapeHtml(feedback.source);
-	
-	let message = `🚨 <b>INSTANT ALERT - ${severity}</b>
+// Cron: retry the outbox entries whose backoff has run out
+async function processOutbox(env: Env, now: number): Promise<void> {
+	const due = await env.DB.prepare(
+		"SELECT * FROM delivery_outbox WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT 50"
+	).bind(now).all<OutboxEntry>();
+
+	const workspaces = new Map<string, Workspace | null>();
+	for (const entry of due.results || []) {
+		if (!workspaces.has(entry.workspace_id)) {
+			workspaces.set(entry.workspace_id, await loadWorkspace(env, entry.workspace_id));
+		}
+		const ws = workspaces.get(entry.workspace_id);
+		if (!ws) continue;
+		try {
+			await attemptOutboxEntry(env, ws, entry, now);
+		} catch (error) {
+			console.error(`Error retrying outbox entry ${entry.outbox_id}:`, error);
+		}
+	}
+}
 
-💥 ${summary}
-<b>Reports:</b> 1 time ${timeAgo}
-<b>Category:</b> ${categoryName}
+// WHERE clause for the optional equality filters of the delivery listings
+function deliveryFilters(ws: Workspace, filters: Record<string, string | undefined>): { where: string; binds: unknown[] } {
+	const clauses = ['workspace_id = ?'];
+	const binds: unknown[] = [ws.id];
+	for (const [column, value] of Object.entries(filters)) {
+		if (value === undefined) continue;
+		clauses.push(`${column} = ?`);
+		binds.push(value);
+	}
+	return { where: clauses.join(' AND '), binds };
+}
 
-<b>Issue:</b> ${content}${feedback.content.length > 200 ? '...' : ''}
+// Delivery history, newest first: every attempt to reach a destination and how it went
+async function handleListDeliveries(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const url = new URL(request.url);
+	const parsed = validate<{ status?: string; kind?: string; destination?: string; ref_id?: string }>(
+		deliveryLogQuerySchema,
+		Object.fromEntries(url.searchParams)
+	);
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
+	}
+	const limit = Math.min(500, Math.max(1, Number(url.searchParams.get('limit')) || 50));
 
-<b>Reasoning:</b> ${reasoning}
+	const { where, binds } = deliveryFilters(ws, parsed.value);
+	const rows = await env.DB.prepare(
+		`SELECT * FROM delivery_log WHERE ${where} ORDER BY attempted_at DESC LIMIT ?`
+	).bind(...binds, limit).all<DeliveryLogEntry>();
 
-<b>Source:</b> ${source} | <b>User:</b> ${user}`;
+	return new Response(JSON.stringify({ deliveries: rows.results || [] }), {
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+	});
+}
 
-	// Add link if provided
-	if (feedback.link) {
-		const escapedLink = escapeHtml(feedback.link);
-		message += `\n🔗 <a href="${escapedLink}">View feedback</a>`;
+// Outbox entries without their payload, pending ones first by when they're next due
+async function handleListOutbox(request: Request, env: Env, corsHeaders: Record<string, string>, ws: Workspace): Promise<Response> {
+	const url = new URL(request.url);
+	const parsed = validate<{ status?: string; destination?: string; ref_id?: string }>(outboxQuerySchema, Object.fromEntries(url.searchParams));
+	if (!parsed.ok) {
+		return validationErrorResponse(parsed, corsHeaders);
 	}
+	const limit = Math.min(500, Math.max(1, Number(url.searchParams.get('limit')) || 50));
 
-	message += `\n\n<b>Action Needed:</b> Immediate investigation required`;
+	const { where, binds } = deliveryFilters(ws, parsed.value);
+	const rows = await env.DB.prepare(
+		`SELECT outbox_id, workspace_id, destination, kind, ref_id, status, attempts, next_attempt_at, last_error, message_id, created_at, updated_at
+		FROM delivery_outbox WHERE ${where}
+		ORDER BY status = 'pending' DESC, COALESCE(next_attempt_at, updated_at) ASC LIMIT ?`
+	).bind(...binds, limit).all<Omit<OutboxEntry, 'payload'>>();
 
-	return message;
+	return new Response(JSON.stringify({ outbox: rows.results || [] }), {
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+	});
 }
 
-function getTimeAgo(timestamp: number): string {
-	const seconds = Math.floor((Date.now() - timestamp) / 1000);
-	if (seconds < 60) return 'just now';
-	if (seconds < 3600) return `${Math.floor(seconds / 60)} minutes ago`;
-	if (seconds < 86400) return `${Math.floor(seconds / 3600)} hours ago`;
-	return `${Math.floor(seconds / 86400)} days ago`;
+/**
+ * Try a pending or failed entry again right away. A failed entry gets one more attempt;
+ * if that fails too it goes back to failed.
+ */
+async function handleRetryOutbox(env: Env, corsHeaders: Record<string, string>, ws: Workspace, outboxId: string): Promise<Response> {
+	const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' };
+	const entry = await env.DB.prepare(
+		'SELECT * FROM delivery_outbox WHERE outbox_id = ? AND workspace_id = ?'
+	).bind(outboxId, ws.id).first<OutboxEntry>();
+	if (!entry) {
+		return new Response(JSON.stringify({ error: 'outbox_entry_not_found', message: `No outbox entry ${outboxId}` }), { status: 404, headers: jsonHeaders });
+	}
+	if (entry.status === 'sent') {
+		return new Response(JSON.stringify({ error: 'already_sent', message: `Outbox entry ${outboxId} was already delivered` }), { status: 409, headers: jsonHeaders });
+	}
+
+	if (entry.status === 'failed') {
+		await env.DB.prepare(
+			"UPDATE delivery_outbox SET status = 'pending', updated_at = ? WHERE outbox_id = ? AND status = 'failed'"
+		).bind(Date.now(), outboxId).run();
+	}
+	const { payload, ...attempted } = await attemptOutboxEntry(env, ws, { ...entry, status: 'pending' }, Date.now());
+
+	return new Response(JSON.stringify({
+		...attempted,
+		message: attempted.status === 'sent' ? `Delivered to ${attempted.destination}` : `Delivery to ${attempted.destination} failed: ${attempted.last_error}`
+	}), { headers: jsonHeaders });
 }
 
 // ==================== MORNING DIGEST ====================
 
-async function generateMorningDigest(env: Env): Promise<{ success: boolean; message: string; details?: any }> {
-	console.log('Starting morning digest generation...');
+async function generateMorningDigest(env: Env, ws: Workspace): Promise<{ success: boolean; message: string; details?: any }> {
+	console.log(`Starting morning digest generation for workspace ${ws.id}...`);
 
 	// Get unprocessed feedbacks (not sent as instant alerts)
 	const feedbacks = await env.DB.prepare(
-		'SELECT * FROM feedback WHERE processed = 0 AND instant_alert_sent = 0 ORDER BY timestamp DESC'
-	).all<Feedback & { id: string; timestamp: number; processed: number; instant_alert_sent: number }>();
+		'SELECT * FROM feedback WHERE workspace_id = ? AND processed = 0 AND instant_alert_sent = 0 ORDER BY timestamp DESC'
+	).bind(ws.id).all<Feedback & { id: string; timestamp: number; processed: number; instant_alert_sent: number }>();
 
 	if (feedbacks.results.length === 0) {
 		const message = 'No unprocessed feedbacks for digest';
@@ -986,7 +4718,7 @@ async function generateMorningDigest(env: Env): Promise<{ success: boolean; mess
 	console.log(`Processing ${feedbacks.results.length} feedbacks for digest...`);
 
 	// Cluster feedbacks using embeddings
-	const clusters = await clusterFeedbacksWithEmbeddings(env, feedbacks.results);
+	const clusters = await clusterFeedbacksWithEmbeddings(env, ws, feedbacks.results);
 
 	// Evaluate fix status for clusters with deployed fixes
 	for (const cluster of clusters) {
@@ -1024,12 +4756,22 @@ async function generateMorningDigest(env: Env): Promise<{ success: boolean; mess
 		}
 	}
 	
-	// Calculate priority scores for clusters
+	// Calculate priority scores for clusters. Sentiment is the average over members with an
+	// analysis (older members may have none); neutral when none do. Customer accounts are
+	// looked up now, so an import since the last digest counts
 	for (const cluster of clusters) {
-		cluster.priority_score = calculatePriorityScore(cluster);
+		const sentiment = await env.DB.prepare(
+			'SELECT AVG(a.sentiment_score) AS score FROM cluster_members cm JOIN feedback_analysis a ON a.feedback_id = cm.feedback_id WHERE cm.cluster_id = ?'
+		).bind(cluster.cluster_id).first<number | null>('score');
+		const impact = await loadClusterImpact(env, ws, cluster.cluster_id);
+		cluster.sentiment_score = sentiment ?? 0.5;
+		cluster.affected_accounts = impact.accounts;
+		cluster.affected_arr = impact.arr;
+		cluster.top_tier = impact.topTier;
+		cluster.priority_score = calculatePriorityScore(cluster, ws.config);
 		await env.DB.prepare(
-			'UPDATE clusters SET priority_score = ? WHERE cluster_id = ?'
-		).bind(cluster.priority_score, cluster.cluster_id).run();
+			'UPDATE clusters SET priority_score = ?, sentiment_score = ?, affected_accounts = ?, affected_arr = ?, top_tier = ? WHERE cluster_id = ?'
+		).bind(cluster.priority_score, cluster.sentiment_score, impact.accounts, impact.arr, impact.topTier, cluster.cluster_id).run();
 	}
 
 	// Summarize clusters
@@ -1050,31 +4792,22 @@ async function generateMorningDigest(env: Env): Promise<{ success: boolean; mess
 	// Separate clusters by status and type
 	const generalClusters = clusters.filter(c => c.count > 1);
 	
-	// Separate individual support from positive feedback
-	// Positive feedback indicators
-	const isPositiveFeedback = (cluster: Cluster): boolean => {
-		const feedback = cluster.representative_feedback.toLowerCase();
-		return feedback.includes('great') || 
-		       feedback.includes('love') ||
-		       feedback.includes('thanks') ||
-		       feedback.includes('appreciated') ||
-		       feedback.includes('good work') ||
-		       feedback.includes('excellent') ||
-		       feedback.includes('improved significantly');
-	};
-	
+	// Separate individual support from positive feedback by the feedback's sentiment
 	const allSingleItemClusters = clusters.filter(c => c.count === 1);
-	const individualSupportClusters = allSingleItemClusters.filter(c => !isPositiveFeedback(c));
-	const positiveFeedbackClusters = allSingleItemClusters.filter(c => isPositiveFeedback(c));
+	const individualSupportClusters = allSingleItemClusters.filter(c => sentimentLabel(c.sentiment_score) !== 'positive');
+	const positiveFeedbackClusters = allSingleItemClusters.filter(c => sentimentLabel(c.sentiment_score) === 'positive');
 	
 	// Separate by fix status
-	const newIssues = generalClusters.filter(c => !c.fix_status || c.fix_status === 'open');
+	// Snoozed from a Telegram digest button: skipped until the snooze runs out
+	const newIssues = generalClusters.filter(c =>
+		(!c.fix_status || c.fix_status === 'open') && !(c.snoozed_until && c.snoozed_until > Date.now())
+	);
 	const fixDeployed = generalClusters.filter(c => c.fix_status === 'fix_deployed');
 	const fixFailed = generalClusters.filter(c => c.fix_status === 'failed');
 	// Note: fixResolved clusters are not shown in digest (issues are considered closed)
 
 	// Create digest
-	const config = getConfig();
+	const config = ws.config;
 	const digestId = crypto.randomUUID();
 	
 	// Top general issues - prioritize new issues (not fixed)
@@ -1083,7 +4816,7 @@ async function generateMorningDigest(env: Env): Promise<{ success: boolean; mess
 		.slice(0, config.digest.maxIssues)
 		.map(cluster => ({
 			priority_score: cluster.priority_score,
-			priority_level: getPriorityLevel(cluster.priority_score),
+			priority_level: getPriorityLevel(cluster.priority_score, ws.config),
 			cluster
 		}));
 	
@@ -1092,7 +4825,7 @@ async function generateMorningDigest(env: Env): Promise<{ success: boolean; mess
 		.sort((a, b) => b.priority_score - a.priority_score)
 		.map(cluster => ({
 			priority_score: cluster.priority_score,
-			priority_level: getPriorityLevel(cluster.priority_score),
+			priority_level: getPriorityLevel(cluster.priority_score, ws.config),
 			cluster
 		}));
 	
@@ -1101,20 +4834,21 @@ async function generateMorningDigest(env: Env): Promise<{ success: boolean; mess
 		.sort((a, b) => b.priority_score - a.priority_score)
 		.map(cluster => ({
 			priority_score: cluster.priority_score,
-			priority_level: getPriorityLevel(cluster.priority_score),
+			priority_level: getPriorityLevel(cluster.priority_score, ws.config),
 			cluster
 		}));
 	
 	// Use new issues as top issues for digest
 	const topIssues = newTopIssues;
 
-	// Individual support cases (limit to top 10 by priority)
+	// Individual support cases (limit to top 10 by priority), high-value accounts first
+	const highValue = (cluster: Cluster) => isHighValue(clusterImpact(cluster), config.customers) ? 1 : 0;
 	const individualSupport: PriorityIssue[] = individualSupportClusters
-		.sort((a, b) => b.priority_score - a.priority_score)
+		.sort((a, b) => highValue(b) - highValue(a) || b.priority_score - a.priority_score)
 		.slice(0, 10)
 		.map(cluster => ({
 			priority_score: cluster.priority_score,
-			priority_level: getPriorityLevel(cluster.priority_score),
+			priority_level: getPriorityLevel(cluster.priority_score, ws.config),
 			cluster
 		}));
 	
@@ -1123,7 +4857,7 @@ async function generateMorningDigest(env: Env): Promise<{ success: boolean; mess
 		.sort((a, b) => b.priority_score - a.priority_score)
 		.map(cluster => ({
 			priority_score: cluster.priority_score,
-			priority_level: getPriorityLevel(cluster.priority_score),
+			priority_level: getPriorityLevel(cluster.priority_score, ws.config),
 			cluster
 		}));
 
@@ -1132,10 +4866,10 @@ async function generateMorningDigest(env: Env): Promise<{ success: boolean; mess
 	const totalFeedbacksProcessed = feedbacks.results.length;
 	
 	// Count priorities correctly from all clusters, not just topIssues
-	const p0Count = clusters.filter(c => getPriorityLevel(c.priority_score) === 'P0').length;
-	const p1Count = clusters.filter(c => getPriorityLevel(c.priority_score) === 'P1').length;
-	const p2Count = clusters.filter(c => getPriorityLevel(c.priority_score) === 'P2').length;
-	const p3Count = clusters.filter(c => getPriorityLevel(c.priority_score) === 'P3').length;
+	const p0Count = clusters.filter(c => getPriorityLevel(c.priority_score, ws.config) === 'P0').length;
+	const p1Count = clusters.filter(c => getPriorityLevel(c.priority_score, ws.config) === 'P1').length;
+	const p2Count = clusters.filter(c => getPriorityLevel(c.priority_score, ws.config) === 'P2').length;
+	const p3Count = clusters.filter(c => getPriorityLevel(c.priority_score, ws.config) === 'P3').length;
 	
 	const summary = `${generalClusters.length} general issues and ${individualSupportClusters.length} individual support cases from ${totalFeedbacksProcessed} feedback items. ${p0Count} P0, ${p1Count} P1, ${p2Count} P2, ${p3Count} P3 priorities.`;
 
@@ -1156,9 +4890,10 @@ async function generateMorningDigest(env: Env): Promise<{ success: boolean; mess
 	};
 
 	await env.DB.prepare(
-		'INSERT INTO digests (digest_id, generated_at, top_issues, summary) VALUES (?, ?, ?, ?)'
+		'INSERT INTO digests (digest_id, workspace_id, generated_at, top_issues, summary) VALUES (?, ?, ?, ?, ?)'
 	).bind(
 		digestId,
+		ws.id,
 		digest.generated_at,
 		JSON.stringify({ 
 			top_issues: digest.top_issues, 
@@ -1168,51 +4903,37 @@ async function generateMorningDigest(env: Env): Promise<{ success: boolean; mess
 		summary
 	).run();
 
-	// Format and send to Telegram
-	const telegramMessage = await formatMorningDigest(env, digest);
-	console.log('Sending Telegram message...');
-	console.log('Message length:', telegramMessage.length);
-	const telegramSuccess = await sendTelegramMessage(env, telegramMessage);
-
-	if (telegramSuccess) {
-		await env.DB.prepare(
-			'UPDATE digests SET sent_to_telegram = 1 WHERE digest_id = ?'
-		).bind(digestId).run();
-		console.log('Telegram message sent successfully');
-	} else {
-		console.error('Failed to send Telegram message');
-		console.error('Message preview (first 500 chars):', telegramMessage.substring(0, 500));
-		console.error('Message preview (last 500 chars):', telegramMessage.substring(Math.max(0, telegramMessage.length - 500)));
-		// Return error details in response
-		return {
-			success: false,
-			message: 'Digest generated but failed to send to Telegram',
-			details: {
-				feedbacksProcessed: feedbacks.results.length,
-				clustersCreated: clusters.length,
-				topIssues: digest.top_issues.length,
-				digestId,
-				messageLength: telegramMessage.length,
-				telegramError: lastTelegramError || 'Unknown error - check dev server logs'
-			}
-		};
+	// Queue the digest for every digest destination (config.notifications.digest) and try each
+	// once now; whatever fails stays in the outbox and the cron retries it
+	const view = await buildDigestView(env, ws, digest);
+	const entries = await enqueueDigest(env, ws, view, Date.now());
+	const deliveries: Array<{ destination: string; status: OutboxStatus; error: string | null }> = [];
+	for (const entry of entries) {
+		const attempted = await attemptOutboxEntry(env, ws, entry, Date.now());
+		deliveries.push({ destination: attempted.destination, status: attempted.status, error: attempted.last_error });
 	}
+	const sentTo = deliveries.filter(d => d.status === 'sent').map(d => d.destination);
+	const retrying = deliveries.filter(d => d.status === 'pending').map(d => d.destination);
 
-	// Mark feedbacks as processed
+	// Mark feedbacks as processed - the outbox owns delivery from here
 	await env.DB.prepare(
-		'UPDATE feedback SET processed = 1 WHERE processed = 0 AND instant_alert_sent = 0'
-	).run();
+		'UPDATE feedback SET processed = 1 WHERE workspace_id = ? AND processed = 0 AND instant_alert_sent = 0'
+	).bind(ws.id).run();
 
 	console.log('Morning digest generation complete');
-	
+
+	const message = sentTo.length > 0
+		? `Digest generated and sent to ${sentTo.join(', ')}`
+		: 'Digest generated but not delivered yet';
 	return {
-		success: telegramSuccess,
-		message: telegramSuccess ? 'Digest generated and sent to Telegram' : 'Digest generated but failed to send to Telegram',
+		success: sentTo.length > 0,
+		message: retrying.length > 0 ? `${message}; retrying ${retrying.join(', ')}` : message,
 		details: {
 			feedbacksProcessed: feedbacks.results.length,
 			clustersCreated: clusters.length,
 			topIssues: digest.top_issues.length,
-			digestId
+			digestId,
+			deliveries
 		}
 	};
 }
@@ -1277,61 +4998,106 @@ function isUserSpecificFeedback(content: string): boolean {
 	return false;
 }
 
+// clusters row → Cluster, including fix tracking fields
+function clusterFromRow(row: any): Cluster {
+	return {
+		cluster_id: row.cluster_id,
+		category: row.category,
+		severity: row.current_severity || row.severity, // Use current_severity if fix deployed
+		count: row.count,
+		first_seen: row.first_seen,
+		last_seen: row.last_seen,
+		representative_feedback_id: row.representative_feedback_id,
+		representative_feedback: row.representative_feedback,
+		summary: row.summary || '',
+		suggested_action: row.suggested_action || '',
+		user_impact: row.user_impact || '',
+		priority_score: row.priority_score || 0,
+		sentiment_score: row.sentiment_score ?? 0.5,
+		top_sources: JSON.parse(row.top_sources || '[]'),
+		// Fix tracking
+		fix_status: row.fix_status || 'open',
+		fix_deployed_date: row.fix_deployed_date,
+		fix_deployed_version: row.fix_deployed_version,
+		rollout_period_days: row.rollout_period_days || 7,
+		original_severity: row.original_severity || row.severity,
+		current_severity: row.current_severity || row.severity,
+		reports_before_fix: row.reports_before_fix,
+		reports_after_fix: row.reports_after_fix,
+		fix_notes: row.fix_notes,
+		snoozed_until: row.snoozed_until,
+		affected_accounts: row.affected_accounts || 0,
+		affected_arr: row.affected_arr || 0,
+		top_tier: row.top_tier ?? null
+	};
+}
+
+// Without a Vectorize binding (tests, local dev) vectors live in this isolate's memory
+const localVectorIndex = new MemoryVectorIndex();
+
+function vectorIndex(env: Env): VectorIndex {
+	return env.VECTOR_INDEX ? vectorizeIndex(env.VECTOR_INDEX) : localVectorIndex;
+}
+
+// Add a feedback to a cluster with the reasons it was placed there; a feedback already in it keeps its record
+async function saveAssignment(env: Env, clusterId: string, feedbackId: string, assignment: Assignment): Promise<void> {
+	await env.DB.prepare(
+		`INSERT OR IGNORE INTO cluster_members (cluster_id, feedback_id, match_method, similarity, matched_phrases, runner_ups, assigned_at)
+		VALUES (?, ?, ?, ?, ?, ?, ?)`
+	).bind(
+		clusterId,
+		feedbackId,
+		assignment.method,
+		assignment.similarity,
+		JSON.stringify(assignment.matched),
+		JSON.stringify(assignment.runner_ups),
+		Date.now()
+	).run();
+}
+
 async function clusterFeedbacksWithEmbeddings(
 	env: Env,
-	feedbacks: (Feedback & { id: string; timestamp: number })[]
+	ws: Workspace,
+	feedbacks: (Feedback & { id: string; timestamp: number; embedding?: string | null } & Partial<ClassificationColumns>)[]
 ): Promise<Cluster[]> {
-	// Load existing clusters from database
-	const config = getConfig();
+	// Load the workspace's existing clusters from database
+	const config = ws.config;
 	const lookbackMs = config.clustering.clusterLookbackDays * 24 * 3600000;
 	const existingClustersResult = await env.DB.prepare(
-		'SELECT * FROM clusters WHERE last_seen > ? ORDER BY last_seen DESC'
-	).bind(Date.now() - lookbackMs).all<any>();
+		'SELECT * FROM clusters WHERE workspace_id = ? AND last_seen > ? ORDER BY last_seen DESC'
+	).bind(ws.id, Date.now() - lookbackMs).all<any>();
 
 	const clusters: Cluster[] = [];
-	
+	// Centroids written during this run are matched against by the next feedback right away
+	const index = withOwnWrites(vectorIndex(env));
+	const saveCentroid = async (clusterId: string, centroid: number[]) => {
+		await index.upsert([{ id: clusterVectorId(clusterId), values: centroid, namespace: ws.id, metadata: { kind: 'cluster' } }]);
+	};
+	// Embeddings the index doesn't have yet (computed here, or moved from D1), upserted at the end
+	const feedbackVectors: VectorRecord[] = [];
+
 	// Parse existing clusters
+	const legacyCentroids: string[] = [];
 	for (const row of existingClustersResult.results || []) {
 		try {
-			const centroid = JSON.parse(row.centroid || '[]') as number[];
-			// Skip clusters with invalid centroids
-			
-			// Load fix tracking fields
-			const cluster: Cluster = {
-				cluster_id: row.cluster_id,
-				category: row.category,
-				severity: row.current_severity || row.severity, // Use current_severity if fix deployed
-				centroid,
-				count: row.count,
-				first_seen: row.first_seen,
-				last_seen: row.last_seen,
-				representative_feedback_id: row.representative_feedback_id,
-				representative_feedback: row.representative_feedback,
-				summary: row.summary || '',
-				suggested_action: row.suggested_action || '',
-				user_impact: row.user_impact || '',
-				priority_score: row.priority_score || 0,
-				sentiment_score: row.sentiment_score || 0.5,
-				top_sources: JSON.parse(row.top_sources || '[]'),
-				// Fix tracking
-				fix_status: row.fix_status || 'open',
-				fix_deployed_date: row.fix_deployed_date,
-				fix_deployed_version: row.fix_deployed_version,
-				rollout_period_days: row.rollout_period_days || 7,
-				original_severity: row.original_severity || row.severity,
-				current_severity: row.current_severity || row.severity,
-				reports_before_fix: row.reports_before_fix,
-				reports_after_fix: row.reports_after_fix,
-				fix_notes: row.fix_notes
-			};
-			if (!Array.isArray(centroid) || centroid.length === 0) {
-				continue;
+			clusters.push(clusterFromRow(row));
+			// Clusters from before the vector index kept their centroid in D1: move it over once
+			if (row.centroid) {
+				const centroid = JSON.parse(row.centroid) as number[];
+				if (centroid.some(val => val !== 0)) {
+					await saveCentroid(row.cluster_id, centroid);
+				}
+				legacyCentroids.push(row.cluster_id);
 			}
-			clusters.push(cluster);
 		} catch (e) {
 			console.error('Error parsing existing cluster:', e);
 		}
 	}
+	if (legacyCentroids.length > 0) {
+		await env.DB.batch(legacyCentroids.map(id => env.DB.prepare('UPDATE clusters SET centroid = NULL WHERE cluster_id = ?').bind(id)));
+		console.log(`📦 Moved ${legacyCentroids.length} centroids to the vector index`);
+	}
+	const clustersById = new Map(clusters.map(cluster => [cluster.cluster_id, cluster]));
 
 	const processed = new Set<string>();
 	
@@ -1344,6 +5110,23 @@ async function clusterFeedbacksWithEmbeddings(
 		existingMembers.results?.map(m => m.feedback_id) || []
 	);
 
+	// Embeddings the triage pipeline stored
+	const storedVectors = new Map((await index.getByIds(
+		feedbacks.filter(feedback => !alreadyClustered.has(feedback.id)).map(feedback => feedbackVectorId(feedback.id))
+	)).map(record => [record.id, record.values]));
+	// Feedback embedded before the vector index kept its embedding in D1: move it over once
+	const legacyEmbeddings: string[] = [];
+	const feedbackEmbedding = async (feedback: Feedback & { id: string; embedding?: string | null }): Promise<number[]> => {
+		const stored = storedVectors.get(feedbackVectorId(feedback.id));
+		if (stored) return stored;
+		const embedding = await getFeedbackEmbedding(env, feedback);
+		if (embedding.some(val => val !== 0)) {
+			feedbackVectors.push({ id: feedbackVectorId(feedback.id), values: embedding, namespace: ws.id, metadata: { kind: 'feedback' } });
+			if (feedback.embedding) legacyEmbeddings.push(feedback.id);
+		}
+		return embedding;
+	};
+
 	for (const feedback of feedbacks) {
 		if (processed.has(feedback.id)) continue;
 		
@@ -1353,14 +5136,17 @@ async function clusterFeedbacksWithEmbeddings(
 			continue;
 		}
 
+		// Classified once during triage; reused for the cluster's category and severity
+		const classification = await getFeedbackClassification(env, ws, feedback);
+		const analysis = await getFeedbackAnalysis(env, ws, feedback, classification);
+
 		// Check if this is user-specific feedback
 		const isUserSpecific = isUserSpecificFeedback(feedback.content);
 		
 		// If user-specific, create individual cluster (don't try to match with others)
 		if (isUserSpecific) {
 			console.log(`🔍 User-specific feedback detected: ${feedback.content.substring(0, 60)}...`);
-			const classification = await classifyFeedback(env, feedback.content);
-			const embedding = await generateEmbedding(env, feedback.content);
+			const embedding = await feedbackEmbedding(feedback);
 			const clusterId = crypto.randomUUID();
 			const title = `${classification.category} - Individual Support`;
 			
@@ -1368,7 +5154,6 @@ async function clusterFeedbacksWithEmbeddings(
 				cluster_id: clusterId,
 				category: classification.category,
 				severity: classification.severity,
-				centroid: embedding,
 				count: 1, // Always 1 for user-specific
 				first_seen: feedback.timestamp,
 				last_seen: feedback.timestamp,
@@ -1378,176 +5163,82 @@ async function clusterFeedbacksWithEmbeddings(
 				suggested_action: '',
 				user_impact: '',
 				priority_score: 0,
-				sentiment_score: 0.5,
+				sentiment_score: analysis.sentiment_score,
 				top_sources: [feedback.source]
 			};
 			
 			clusters.push(newCluster);
+			clustersById.set(clusterId, newCluster);
 			
 			await env.DB.prepare(
-				'INSERT INTO clusters (cluster_id, title, category, severity, centroid, count, first_seen, last_seen, representative_feedback_id, representative_feedback, top_sources) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+				'INSERT INTO clusters (cluster_id, workspace_id, title, category, severity, count, first_seen, last_seen, representative_feedback_id, representative_feedback, top_sources, sentiment_score) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
 			).bind(
 				clusterId,
+				ws.id,
 				title,
 				classification.category,
 				classification.severity,
-				JSON.stringify(embedding),
 				1,
 				feedback.timestamp,
 				feedback.timestamp,
 				feedback.id,
 				feedback.content,
-				JSON.stringify([feedback.source])
+				JSON.stringify([feedback.source]),
+				analysis.sentiment_score
 			).run();
 			
-			await env.DB.prepare(
-				'INSERT INTO cluster_members (cluster_id, feedback_id) VALUES (?, ?)'
-			).bind(clusterId, feedback.id).run();
+			await saveAssignment(env, clusterId, feedback.id, { method: 'individual', cluster_id: null, similarity: null, matched: [], runner_ups: [] });
+			if (embedding.some(val => val !== 0)) {
+				await saveCentroid(clusterId, embedding);
+			}
 			
 			processed.add(feedback.id);
 			continue; // Skip to next feedback - don't try to cluster user-specific issues
 		}
 
-		// Generate embedding for cumulative bugs
-		const embedding = await generateEmbedding(env, feedback.content);
+		// Embedding for cumulative bugs (usually already computed by the triage pipeline)
+		const embedding = await feedbackEmbedding(feedback);
 		
-		// Find similar cluster - try embedding similarity first, then fallback to text-based
-		let matchedCluster: Cluster | null = null;
-		const config = getConfig();
+		// Every cluster this feedback could join, scored; the best one wins (see chooseAssignment)
+		const candidates: MatchCandidate[] = [];
+		// User-specific clusters only ever hold their own report
+		const joinable = (cluster: Cluster) => !(cluster.count === 1 && isUserSpecificFeedback(cluster.representative_feedback));
 		
 		// Check if embedding is valid (not all zeros)
 		const hasValidEmbedding = embedding.some(val => val !== 0);
 		
 		if (hasValidEmbedding) {
-			// Use embedding-based similarity (only match with non-user-specific clusters)
-			for (const cluster of clusters) {
-				// Skip user-specific clusters (count === 1 with user-specific pattern)
-				if (cluster.count === 1 && isUserSpecificFeedback(cluster.representative_feedback)) {
-					continue;
-				}
-				
-				if (cluster.centroid.some(val => val !== 0)) { // Only compare with valid centroids
-					const similarity = cosineSimilarity(embedding, cluster.centroid);
-					console.log(`Similarity with cluster ${cluster.cluster_id.substring(0, 8)}...: ${similarity.toFixed(3)}`);
-					if (similarity > config.clustering.similarityThreshold) {
-						console.log(`✅ Matched cluster ${cluster.cluster_id.substring(0, 8)}... (similarity: ${similarity.toFixed(3)})`);
-						matchedCluster = cluster;
-						break;
-					}
-				}
+			// Nearest centroids first. Centroids of clusters outside the lookback window (or deleted)
+			// are still in the index and have no cluster here, so ask for more than topK and skip them
+			const topK = config.clustering.topK;
+			const matches = await index.query(embedding, { namespace: ws.id, kind: 'cluster', topK: Math.min(MAX_TOP_K, topK * 5) });
+			for (const match of matches) {
+				if (candidates.length === topK) break;
+				const cluster = clustersById.get(clusterIdFromVector(match.id) || '');
+				if (!cluster || !joinable(cluster)) continue;
+				candidates.push({
+					cluster_id: cluster.cluster_id,
+					method: 'embedding',
+					similarity: match.score,
+					matched: sharedPhrases(feedback.content, cluster.representative_feedback)
+				});
 			}
 		}
 		
-		// Fallback: text-based similarity if embeddings failed or no match found
+		// Fallback: text-based similarity if embeddings failed or no cluster is close enough
 		// Only match cumulative bugs, not user-specific issues
-		if (!matchedCluster) {
-			const classification = await classifyFeedback(env, feedback.content);
-			const feedbackLower = feedback.content.toLowerCase();
-			
-			// Extract key phrases using patterns
-			const extractKeyPhrases = (text: string): Set<string> => {
-				const phrases = new Set<string>();
-				const lower = text.toLowerCase();
-				
-				// Common issue patterns
-				const patterns = [
-					/login\s+\w+/g,
-					/billing\s+\w+/g,
-					/payment\s+\w+/g,
-					/crash\w*/g,
-					/error\s+\d+/g,
-					/\b(can't|cannot|won't)\s+\w+/g,
-					/dark\s+mode/g,
-					/rate\s+limit/g,
-					/\d+\s+error/g,
-					/login\s+crash/g,
-					/login\s+bug/g,
-					/billing\s+page/g,
-					/payment\s+failed/g,
-					// Theme/toggle related
-					/theme\s+\w+/g,
-					/toggle\s+\w+/g,
-					/dark\s+mode\s+\w*/g,
-					// Resume/background crash
-					/resume\s+crash/g,
-					/background\s+\w+/g,
-					/foreground\s+\w+/g,
-					/force\s+close/g,
-					// Double login
-					/double\s+login/g,
-					/login\s+twice/g,
-					/second\s+login/g,
-					/first\s+login/g,
-					/2\s+attempts/g
-				];
-				
-				patterns.forEach(pattern => {
-					const matches = lower.match(pattern);
-					if (matches) matches.forEach(m => phrases.add(m.trim()));
-				});
-				
-				// Add normalized theme-related phrase if any theme keywords present
-				if (lower.includes('theme') || lower.includes('dark mode') || lower.includes('toggle')) {
-					if (lower.includes('broken') || lower.includes('not working') || lower.includes("doesn't") || 
-						lower.includes('fails') || lower.includes('no change')) {
-						phrases.add('theme_bug'); // Normalized key for all theme bugs
-					}
-				}
-				
-				// Add normalized resume crash phrase
-				if ((lower.includes('resume') || lower.includes('background') || lower.includes('foreground') || 
-					 lower.includes('recents')) && lower.includes('crash')) {
-					phrases.add('resume_crash'); // Normalized key for all resume crashes
-				}
-				
-				return phrases;
-			};
-			
-			for (const cluster of clusters) {
-				// Skip user-specific clusters when matching cumulative bugs
-				if (cluster.count === 1 && isUserSpecificFeedback(cluster.representative_feedback)) {
-					continue;
-				}
-				
-				const clusterLower = cluster.representative_feedback.toLowerCase();
-				
-				// First, try phrase matching
-				const feedbackPhrases = extractKeyPhrases(feedbackLower);
-				const clusterPhrases = extractKeyPhrases(clusterLower);
-				const commonPhrases = [...feedbackPhrases].filter(p => clusterPhrases.has(p));
-				
-				if (commonPhrases.length > 0) {
-					console.log(`✅ Text match found: ${commonPhrases.join(', ')}`);
-					matchedCluster = cluster;
-					break;
-				}
-				
-				// Then try category + severity + keyword overlap
-				if (cluster.category === classification.category && 
-					cluster.severity === classification.severity) {
-					
-					// Extract key words (length > 2, not common stop words)
-					const stopWords = new Set(['the', 'this', 'that', 'with', 'from', 'when', 'will', 'need', 'very', 'can', 'cant', 'not', 'and', 'are', 'for', 'has', 'have', 'was', 'were', 'all', 'but', 'get', 'got']);
-					const feedbackWords = new Set(
-						feedbackLower.split(/\W+/).filter(w => w.length > 2 && !stopWords.has(w))
-					);
-					const clusterWords = new Set(
-						clusterLower.split(/\W+/).filter(w => w.length > 2 && !stopWords.has(w))
-					);
-					
-					const commonWords = [...feedbackWords].filter(w => clusterWords.has(w));
-					
-					// If at least 1 common significant word, consider it a match
-					if (commonWords.length >= 1) {
-						console.log(`✅ Keyword match found: ${commonWords.join(', ')}`);
-						matchedCluster = cluster;
-						break;
-					}
-				}
-			}
+		const threshold = config.clustering.similarityThreshold;
+		if (!candidates.some(candidate => candidate.similarity > threshold)) {
+			candidates.push(...textCandidates(
+				{ content: feedback.content, category: classification.category, severity: classification.severity },
+				clusters.filter(joinable)
+			));
 		}
 
+		const assignment = chooseAssignment(candidates, threshold);
+		const matchedCluster = assignment.cluster_id ? clustersById.get(assignment.cluster_id) ?? null : null;
 		if (matchedCluster) {
+			console.log(`✅ ${assignment.method} match: cluster ${matchedCluster.cluster_id.substring(0, 8)}... (similarity: ${assignment.similarity?.toFixed(3)}${assignment.matched.length > 0 ? `, on ${assignment.matched.join(', ')}` : ''})`);
 			// Add to existing cluster
 			matchedCluster.count++;
 			matchedCluster.last_seen = Math.max(matchedCluster.last_seen, feedback.timestamp);
@@ -1556,37 +5247,31 @@ async function clusterFeedbacksWithEmbeddings(
 			}
 			
 			// Update centroid (running average) - ensure same length
-			if (embedding.length === matchedCluster.centroid.length) {
-				matchedCluster.centroid = matchedCluster.centroid.map((val, i) => 
-					(val * (matchedCluster!.count - 1) + embedding[i]) / matchedCluster!.count
-				);
-			} else {
-				console.warn(`Embedding length mismatch for cluster ${matchedCluster.cluster_id}`);
+			if (hasValidEmbedding) {
+				const [stored] = await index.getByIds([clusterVectorId(matchedCluster.cluster_id)]);
+				const count = matchedCluster.count;
+				if (!stored) {
+					// Text-matched cluster with no centroid yet (its reports had no embedding)
+					await saveCentroid(matchedCluster.cluster_id, embedding);
+				} else if (stored.values.length === embedding.length) {
+					await saveCentroid(matchedCluster.cluster_id, stored.values.map((val, i) => (val * (count - 1) + embedding[i]) / count));
+				} else {
+					console.warn(`Embedding length mismatch for cluster ${matchedCluster.cluster_id}`);
+				}
 			}
 
-			// Check if feedback is already in this cluster
-			const existingMember = await env.DB.prepare(
-				'SELECT 1 FROM cluster_members WHERE cluster_id = ? AND feedback_id = ?'
-			).bind(matchedCluster.cluster_id, feedback.id).first();
-			
-			if (!existingMember) {
-				await env.DB.prepare(
-					'INSERT INTO cluster_members (cluster_id, feedback_id) VALUES (?, ?)'
-				).bind(matchedCluster.cluster_id, feedback.id).run();
-			}
+			await saveAssignment(env, matchedCluster.cluster_id, feedback.id, assignment);
 
 			await env.DB.prepare(
-				'UPDATE clusters SET count = ?, last_seen = ?, top_sources = ?, centroid = ? WHERE cluster_id = ?'
+				'UPDATE clusters SET count = ?, last_seen = ?, top_sources = ? WHERE cluster_id = ?'
 			).bind(
 				matchedCluster.count,
 				matchedCluster.last_seen,
 				JSON.stringify(matchedCluster.top_sources),
-				JSON.stringify(matchedCluster.centroid),
 				matchedCluster.cluster_id
 			).run();
 		} else {
 			// Create new cluster
-			const classification = await classifyFeedback(env, feedback.content);
 			const clusterId = crypto.randomUUID();
 			
 			// Generate a title from category or feedback content
@@ -1596,7 +5281,6 @@ async function clusterFeedbacksWithEmbeddings(
 				cluster_id: clusterId,
 				category: classification.category,
 				severity: classification.severity,
-				centroid: embedding,
 				count: 1,
 				first_seen: feedback.timestamp,
 				last_seen: feedback.timestamp,
@@ -1606,43 +5290,46 @@ async function clusterFeedbacksWithEmbeddings(
 				suggested_action: '',
 				user_impact: '',
 				priority_score: 0,
-				sentiment_score: 0.5,
+				sentiment_score: analysis.sentiment_score,
 				top_sources: [feedback.source]
 			};
 
 			clusters.push(newCluster);
+			clustersById.set(clusterId, newCluster);
+			if (hasValidEmbedding) {
+				await saveCentroid(clusterId, embedding);
+			}
 
 			await env.DB.prepare(
-				'INSERT INTO clusters (cluster_id, title, category, severity, centroid, count, first_seen, last_seen, representative_feedback_id, representative_feedback, top_sources) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+				'INSERT INTO clusters (cluster_id, workspace_id, title, category, severity, count, first_seen, last_seen, representative_feedback_id, representative_feedback, top_sources, sentiment_score) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
 			).bind(
 				clusterId,
+				ws.id,
 				title,
 				classification.category,
 				classification.severity,
-				JSON.stringify(embedding),
 				1,
 				feedback.timestamp,
 				feedback.timestamp,
 				feedback.id,
 				feedback.content,
-				JSON.stringify([feedback.source])
+				JSON.stringify([feedback.source]),
+				analysis.sentiment_score
 			).run();
 
-			// Check if feedback is already in this cluster (shouldn't happen for new clusters, but be safe)
-			const existingMember = await env.DB.prepare(
-				'SELECT 1 FROM cluster_members WHERE cluster_id = ? AND feedback_id = ?'
-			).bind(clusterId, feedback.id).first();
-			
-			if (!existingMember) {
-				await env.DB.prepare(
-					'INSERT INTO cluster_members (cluster_id, feedback_id) VALUES (?, ?)'
-				).bind(clusterId, feedback.id).run();
-			}
+			await saveAssignment(env, clusterId, feedback.id, assignment);
 		}
 
 		processed.add(feedback.id);
 	}
 
+	await index.upsert(feedbackVectors);
+	for (let i = 0; i < legacyEmbeddings.length; i += 100) {
+		await env.DB.batch(legacyEmbeddings.slice(i, i + 100).map(id => env.DB.prepare('UPDATE feedback SET embedding = NULL WHERE id = ?').bind(id)));
+	}
+	if (legacyEmbeddings.length > 0) {
+		console.log(`📦 Moved ${legacyEmbeddings.length} feedback embeddings to the vector index`);
+	}
 	return clusters;
 }
 
@@ -1676,28 +5363,18 @@ async function generateEmbedding(env: Env, text: string): Promise<number[]> {
 	return new Array(config.clustering.embeddingDimension).fill(0);
 }
 
-function cosineSimilarity(vecA: number[], vecB: number[]): number {
-	if (!vecA || !vecB || vecA.length === 0 || vecB.length === 0) return 0;
-	if (vecA.length !== vecB.length) return 0;
-	
-	let dotProduct = 0;
-	let normA = 0;
-	let normB = 0;
-
-	for (let i = 0; i < vecA.length; i++) {
-		dotProduct += vecA[i] * vecB[i];
-		normA += vecA[i] * vecA[i];
-		normB += vecB[i] * vecB[i];
+async function getFeedbackEmbedding(env: Env, feedback: Feedback & { embedding?: string | null }): Promise<number[]> {
+	if (feedback.embedding) {
+		try {
+			return JSON.parse(feedback.embedding) as number[];
+		} catch {
+			console.warn('Stored embedding is not valid JSON, regenerating');
+		}
 	}
-
-	if (normA === 0 || normB === 0) return 0;
-	const similarity = dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-	return isNaN(similarity) ? 0 : similarity;
+	return generateEmbedding(env, feedback.content);
 }
 
-function calculatePriorityScore(cluster: Cluster): number {
-	const config = getConfig();
-	
+function calculatePriorityScore(cluster: Cluster, config: AppConfig): number {
 	// Check if fix is deployed - use current_severity (downgraded) instead of original
 	let effectiveSeverity = cluster.severity;
 	if (cluster.fix_status === 'fix_deployed' && cluster.current_severity) {
@@ -1721,17 +5398,20 @@ function calculatePriorityScore(cluster: Cluster): number {
 	// Sentiment score (0-100) - negativity boosts priority
 	const negativityScore = 100 - (cluster.sentiment_score * 100);
 
+	// Revenue score (0-100) - ARR and tier of the customer accounts affected
+	const revenue = revenueScore(clusterImpact(cluster), config.customers);
+
 	// Weighted formula using config
 	return (
 		severityScore * config.priority.severityWeight +
 		frequencyScore * config.priority.frequencyWeight +
 		recencyScore * config.priority.recencyWeight +
-		negativityScore * config.priority.sentimentWeight
+		negativityScore * config.priority.sentimentWeight +
+		revenue * config.priority.revenueWeight
 	);
 }
 
-function getPriorityLevel(score: number): string {
-	const config = getConfig();
+function getPriorityLevel(score: number, config: AppConfig): string {
 	if (score >= config.priorityThresholds.p0) return 'P0';
 	if (score >= config.priorityThresholds.p1) return 'P1';
 	if (score >= config.priorityThresholds.p2) return 'P2';
@@ -1911,9 +5591,28 @@ Return JSON: {"summary":"one sentence","action":"Bug Fix|UX Improvement|New Feat
 	return defaultSummary;
 }
 
-async function formatMorningDigest(env: Env, digest: Digest): Promise<string> {
-	const config = getConfig();
-	// Format date in PT timezone with proper time
+// Open issues in the order the digest numbers them (the digest keyboard relies on the same order)
+function orderDigestIssues(issues: PriorityIssue[]): PriorityIssue[] {
+	return issues
+		.filter(i => !i.cluster.fix_status || i.cluster.fix_status === 'open')
+		.sort((a, b) => {
+			// First sort by priority level (P0 > P1 > P2 > P3)
+			const priorityOrder: Record<string, number> = { P0: 0, P1: 1, P2: 2, P3: 3 };
+			const levelDiff = priorityOrder[a.priority_level] - priorityOrder[b.priority_level];
+			if (levelDiff !== 0) return levelDiff;
+			// Then by priority score (higher first)
+			return b.priority_score - a.priority_score;
+		});
+}
+
+// The digest as Telegram HTML; also what /view and the bot's /digest preview show
+async function formatMorningDigest(env: Env, ws: Workspace, digest: Digest): Promise<string> {
+	return renderTelegramDigest(await buildDigestView(env, ws, digest));
+}
+
+// The channel-neutral digest every notifier renders; looks up the reports behind single-user cases
+async function buildDigestView(env: Env, ws: Workspace, digest: Digest): Promise<DigestView> {
+	const config = ws.config;
 	const date = new Date(digest.generated_at).toLocaleString('en-US', {
 		year: 'numeric',
 		month: 'long',
@@ -1923,178 +5622,201 @@ async function formatMorningDigest(env: Env, digest: Digest): Promise<string> {
 		timeZone: config.digest.timezone,
 		timeZoneName: 'short'
 	});
-
-	// Helper to escape HTML special characters
-	const escapeHtml = (text: string): string => {
-		return text
-			.replace(/&/g, '&amp;')
-			.replace(/</g, '&lt;')
-			.replace(/>/g, '&gt;')
-			.replace(/"/g, '&quot;')
-			.replace(/'/g, '&#39;');
-	};
-	
-	let message = `<b>MORNING DIGEST - ${escapeHtml(date)}</b>\n\n`;
 	// Safely extract feedback count from summary
 	const feedbackCountMatch = digest.summary.match(/(\d+)\s+feedback/);
-	const feedbackCount = feedbackCountMatch ? feedbackCountMatch[1] : 'multiple';
-	
-	const priorityEmojis: Record<string, string> = { P0: '🔴', P1: '🟠', P2: '🟡', P3: '🟢' };
-	
-	// Get all general issues (multi-user clusters) - sorted by priority
-	const generalIssues = digest.top_issues
-		.filter(i => !i.cluster.fix_status || i.cluster.fix_status === 'open')
-		.sort((a, b) => {
-			// First sort by priority level (P0 > P1 > P2 > P3)
-			const priorityOrder: Record<string, number> = { P0: 0, P1: 1, P2: 2, P3: 3 };
-			const levelDiff = priorityOrder[a.priority_level] - priorityOrder[b.priority_level];
-			if (levelDiff !== 0) return levelDiff;
-			// Then by priority score (higher first)
-			return b.priority_score - a.priority_score;
-		});
-	
-	// Display all general issues in priority order (no priority numbers, just priority level)
-	if (generalIssues.length > 0) {
-		message += `<b>📋 Issues</b> (from ${feedbackCount} feedbacks)\n\n`;
-
-		generalIssues.forEach((issue, index) => {
-			const emoji = priorityEmojis[issue.priority_level] || '⚪';
-			const summary = escapeHtml(issue.cluster.summary || issue.cluster.representative_feedback.substring(0, 50));
-			const impact = escapeHtml(issue.cluster.user_impact || 'User experience affected');
-			const action = escapeHtml(issue.cluster.suggested_action);
-			
-			// Show priority level, not priority number
-			message += `${index + 1}. ${emoji} <b>${issue.priority_level}</b> - ${summary} (${issue.cluster.count} reports)\n`;
-			message += `   ${impact}\n`;
-			message += `   → ${action}\n`;
-			
-			// Add source breakdown if available
-			if (issue.cluster.top_sources && issue.cluster.top_sources.length > 0) {
-				const sources = issue.cluster.top_sources.slice(0, 3).join(', ');
-				message += `   Sources: ${sources}${issue.cluster.top_sources.length > 3 ? '...' : ''}\n`;
-			}
-			
-			message += `\n`;
-		});
-	}
-	
-	// Monitoring - Fixes in progress
-	const monitoringIssues = digest.top_issues.filter(i => i.cluster.fix_status === 'fix_deployed');
-	if (monitoringIssues.length > 0) {
-		message += `\n<b>🔧 Monitoring - Fixes in Progress</b>\n\n`;
-		monitoringIssues.forEach(issue => {
-			const daysSinceFix = issue.cluster.fix_deployed_date 
-				? Math.floor((Date.now() - issue.cluster.fix_deployed_date) / 86400000)
-				: 0;
-			const rolloutDays = issue.cluster.rollout_period_days || 7;
-			const summary = escapeHtml(issue.cluster.summary || issue.cluster.representative_feedback.substring(0, 50));
-			const emoji = priorityEmojis[issue.priority_level] || '⚪';
-			
-			// Calculate trend
-			const avgBefore = (issue.cluster.reports_before_fix || issue.cluster.count) / 7;
-			const avgAfter = (issue.cluster.reports_after_fix || 0) / Math.max(1, daysSinceFix);
-			const trend = avgAfter < avgBefore * 0.5 ? '↓' : avgAfter > avgBefore * 1.5 ? '↑' : '→';
-			
-			message += `${emoji} <b>${issue.priority_level}</b> - ${summary} (${issue.cluster.count} reports) 🔧\n`;
-			message += `   Status: Fix Deployed (Day ${daysSinceFix}/${rolloutDays}) - Awaiting rollout\n`;
-			message += `   Reports trending ${trend} ${avgBefore.toFixed(1)}/day → ${avgAfter.toFixed(1)}/day\n`;
-			if (issue.cluster.fix_deployed_version) {
-				message += `   Version: ${escapeHtml(issue.cluster.fix_deployed_version)}\n`;
-			}
-			message += `   → No action needed - monitoring\n\n`;
+	const issueSummary = (issue: PriorityIssue) => issue.cluster.summary || issue.cluster.representative_feedback.substring(0, 50);
+	const daysSinceFix = (issue: PriorityIssue) => issue.cluster.fix_deployed_date
+		? Math.floor((Date.now() - issue.cluster.fix_deployed_date) / 86400000)
+		: 0;
+
+	const firstReport = (clusterId: string) => env.DB.prepare(
+		'SELECT f.content, f.source, f.user, f.link FROM cluster_members cm JOIN feedback f ON cm.feedback_id = f.id WHERE cm.cluster_id = ? LIMIT 1'
+	).bind(clusterId).first<{ content: string; source: string; user: string | null; link: string | null }>();
+	const reportView = async (issue: PriorityIssue): Promise<ReportView> => {
+		const feedback = await firstReport(issue.cluster.cluster_id);
+		return {
+			user: feedback?.user || 'Unknown',
+			source: feedback?.source || 'unknown',
+			content: feedback?.content || issue.cluster.representative_feedback,
+			link: feedback?.link || null
+		};
+	};
+
+	const support: SupportCaseView[] = [];
+	for (const issue of digest.individual_support || []) {
+		support.push({
+			...await reportView(issue),
+			category: issue.cluster.category,
+			priorityLevel: issue.priority_level,
+			account: issue.cluster.affected_accounts && issue.cluster.top_tier
+				? { tier: issue.cluster.top_tier, arr: issue.cluster.affected_arr || 0 }
+				: null
 		});
 	}
-	
-	// Failed Fixes - Need re-investigation
-	const failedFixes = digest.top_issues.filter(i => i.cluster.fix_status === 'failed');
-	if (failedFixes.length > 0) {
-		message += `\n<b>🚨 Failed Fixes - Need Attention</b>\n\n`;
-		failedFixes.forEach(issue => {
-			const daysSinceFix = issue.cluster.fix_deployed_date 
-				? Math.floor((Date.now() - issue.cluster.fix_deployed_date) / 86400000)
-				: 0;
-			const summary = escapeHtml(issue.cluster.summary || issue.cluster.representative_feedback.substring(0, 50));
-			const emoji = priorityEmojis[issue.priority_level] || '⚪';
-			
-			message += `${emoji} <b>${issue.priority_level}</b> - ${summary} (${issue.cluster.count} reports) ⚠️\n`;
-			message += `   Status: FIX FAILED - Still getting high volume\n`;
-			message += `   Original fix: ${daysSinceFix} days ago\n`;
-			message += `   → URGENT: Fix didn't work, needs re-investigation\n\n`;
-		});
+	// Positive feedback is shown without links
+	const positive: ReportView[] = [];
+	for (const issue of digest.positive_feedback || []) {
+		positive.push({ ...await reportView(issue), link: null });
 	}
 
-	// Individual Support Cases - Show ALL cases with full details
-	// Note: Positive feedback is already separated into digest.positive_feedback
-	if (digest.individual_support && digest.individual_support.length > 0) {
-		message += `\n<b>Individual Support Cases</b> (${digest.individual_support.length} cases)\n\n`;
-		message += `<i>Single-user issues requiring individual attention:</i>\n\n`;
-		
-		// Show ALL cases
-		for (const issue of digest.individual_support) {
-			// Get the actual feedback text and link for individual cases
-			const feedbackResult = await env.DB.prepare(
-				'SELECT f.content, f.source, f.user, f.link FROM cluster_members cm JOIN feedback f ON cm.feedback_id = f.id WHERE cm.cluster_id = ? LIMIT 1'
-			).bind(issue.cluster.cluster_id).first<{ content: string; source: string; user: string; link: string }>();
-			
-			const feedbackText = feedbackResult?.content || issue.cluster.representative_feedback;
-			const user = feedbackResult?.user || 'Unknown';
-			const source = feedbackResult?.source || 'unknown';
-			const link = feedbackResult?.link;
-			
-			const escapedCategory = escapeHtml(issue.cluster.category);
-			const escapedUser = escapeHtml(user || 'Unknown');
-			const escapedSource = escapeHtml(source);
-			const escapedFeedback = escapeHtml(feedbackText.substring(0, 120));
-			const escapedLink = link ? escapeHtml(link) : null;
-			
-			message += `• <b>${escapedCategory}</b> (${issue.priority_level}) - User: ${escapedUser} via ${escapedSource}\n`;
-			message += `  "${escapedFeedback}${feedbackText.length > 120 ? '...' : ''}"\n`;
-			if (escapedLink) {
-				message += `  🔗 <a href="${escapedLink}">View feedback</a>\n`;
-			}
-			message += `\n`;
-		}
-	}
-	
-	// Positive feedback from digest.positive_feedback (already separated)
-	const positiveFeedback = digest.positive_feedback || [];
-	
-	// Show positive feedback in separate section - Show ALL cases (NO LINKS)
-	if (positiveFeedback.length > 0) {
-		message += `\n━━━━━━━━━━━━━━━━\n\n`;
-		message += `<b>✅ What's Working Well</b> (${positiveFeedback.length} positive feedbacks)\n\n`;
-		message += `<i>User appreciation and positive feedback:</i>\n\n`;
-		
-		// Show ALL positive feedbacks
-		// Note: Links are NOT shown for positive feedback
-		for (const issue of positiveFeedback) {
-			const feedbackResult = await env.DB.prepare(
-				'SELECT f.content, f.source, f.user FROM cluster_members cm JOIN feedback f ON cm.feedback_id = f.id WHERE cm.cluster_id = ? LIMIT 1'
-			).bind(issue.cluster.cluster_id).first<{ content: string; source: string; user: string }>();
-			
-			const feedbackText = feedbackResult?.content || issue.cluster.representative_feedback;
-			const user = feedbackResult?.user || 'Unknown';
-			const source = feedbackResult?.source || 'unknown';
-			
-			const escapedUser = escapeHtml(user || 'Unknown');
-			const escapedSource = escapeHtml(source);
-			const escapedFeedback = escapeHtml(feedbackText.substring(0, 100));
-			
-			message += `• User: ${escapedUser} via ${escapedSource}\n`;
-			message += `  "${escapedFeedback}${feedbackText.length > 100 ? '...' : ''}"\n\n`;
+	return {
+		digestId: digest.digest_id,
+		workspace: ws.id === DEFAULT_WORKSPACE_ID ? null : ws.name,
+		generatedAt: digest.generated_at,
+		date,
+		feedbackCount: feedbackCountMatch ? feedbackCountMatch[1] : 'multiple',
+		issues: orderDigestIssues(digest.top_issues).map(issue => ({
+			clusterId: issue.cluster.cluster_id,
+			priorityLevel: issue.priority_level,
+			summary: issueSummary(issue),
+			count: issue.cluster.count,
+			impact: issue.cluster.user_impact || 'User experience affected',
+			action: issue.cluster.suggested_action,
+			sources: issue.cluster.top_sources || [],
+			accounts: issue.cluster.affected_accounts || 0,
+			arr: issue.cluster.affected_arr || 0
+		})),
+		monitoring: digest.top_issues.filter(i => i.cluster.fix_status === 'fix_deployed').map(issue => {
+			const days = daysSinceFix(issue);
+			const avgBefore = (issue.cluster.reports_before_fix || issue.cluster.count) / 7;
+			const avgAfter = (issue.cluster.reports_after_fix || 0) / Math.max(1, days);
+			return {
+				clusterId: issue.cluster.cluster_id,
+				priorityLevel: issue.priority_level,
+				summary: issueSummary(issue),
+				count: issue.cluster.count,
+				daysSinceFix: days,
+				rolloutDays: issue.cluster.rollout_period_days || 7,
+				avgBefore,
+				avgAfter,
+				trend: avgAfter < avgBefore * 0.5 ? '↓' : avgAfter > avgBefore * 1.5 ? '↑' : '→',
+				version: issue.cluster.fix_deployed_version || null
+			};
+		}),
+		failedFixes: digest.top_issues.filter(i => i.cluster.fix_status === 'failed').map(issue => ({
+			clusterId: issue.cluster.cluster_id,
+			priorityLevel: issue.priority_level,
+			summary: issueSummary(issue),
+			count: issue.cluster.count,
+			daysSinceFix: daysSinceFix(issue)
+		})),
+		support,
+		positive,
+		summary: digest.summary
+	};
+}
+
+// Telegram delivery to ws.config.telegram.chatId (see destinationWorkspace); alerts and digest issues get action buttons
+function telegramNotifier(env: Env, ws: Workspace): Notifier {
+	return {
+		channel: 'telegram',
+		sendAlert: alert => postTelegramMessage(env, ws, renderTelegramAlert(alert), alertKeyboard(alert.alertId)),
+		sendOverflow: overflow => postTelegramMessage(env, ws, renderTelegramOverflow(overflow)),
+		sendHeldSummary: summary => postTelegramMessage(env, ws, renderTelegramHeldSummary(summary)),
+		// Long digests go out in parts, each with the action buttons for the issues it lists
+		sendDigest: digest => postTelegramParts(env, ws, paginateTelegramDigest(digest)),
+		// editMessageText drops the keyboard unless it is sent again; resolved alerts lose their buttons
+		updateAlert: (messageId, alert) => editTelegramMessage(
+			env,
+			ws,
+			Number(messageId),
+			renderTelegramAlert(alert),
+			alert.resolved ? undefined : alertKeyboard(alert.alertId)
+		),
+		updateOverflow: (messageId, overflow) => editTelegramMessage(env, ws, Number(messageId), renderTelegramOverflow(overflow))
+	};
+}
+
+// Send a message to the workspace chat; the Delivery carries the new message's id so it can be edited later.
+// Messages over Telegram's limit are split between paragraphs, with the buttons on the last part.
+async function postTelegramMessage(
+	env: Env,
+	ws: Workspace,
+	message: string,
+	replyMarkup?: InlineKeyboardMarkup
+): Promise<Delivery> {
+	const texts = splitTelegramMessage(message);
+	return postTelegramParts(env, ws, texts.map((text, i) => ({ text, ...(replyMarkup && i === texts.length - 1 ? { replyMarkup } : {}) })));
+}
+
+/**
+ * Send the parts in order. The first failure stops the rest and fails the delivery, so a retry
+ * starts again from part 1; messageIds lists the parts that did go out.
+ */
+async function postTelegramParts(env: Env, ws: Workspace, parts: TelegramPart[]): Promise<Delivery> {
+	const body = parts.map(part => part.text).join('\n\n');
+	const messageIds: string[] = [];
+	for (const part of parts) {
+		// Parts are already HTML (renderTelegramDigest / renderTelegramAlert) and within the limit
+		console.log('Message length:', part.text.length);
+		const result = await callTelegram(env, ws, 'sendMessage', {
+			text: part.text,
+			parse_mode: 'HTML',  // Use HTML - more reliable than Markdown
+			...(part.replyMarkup ? { reply_markup: part.replyMarkup } : {})
+		});
+		if (!result.ok) {
+			return { ...failed(body, result.error, result), messageIds };
 		}
+		messageIds.push(String(result.result.message_id ?? 0));
 	}
 
-	message += `\n<b>Summary:</b> ${escapeHtml(digest.summary)}`;
+	console.log(`Telegram message sent successfully${parts.length > 1 ? ` in ${parts.length} parts` : ''}`);
+	return delivered(body, messageIds[0] ?? null, messageIds);
+}
+
+// Replace the text of a message sent earlier (alert counters, overflow summaries).
+// Without replyMarkup the message's inline keyboard is removed.
+async function editTelegramMessage(
+	env: Env,
+	ws: Workspace,
+	messageId: number,
+	message: string,
+	replyMarkup?: InlineKeyboardMarkup
+): Promise<Delivery> {
+	// An edit can't add messages: keep what fits, with its tags closed
+	const [text] = splitHtml(message, TELEGRAM_MAX_LENGTH);
+	const result = await callTelegram(env, ws, 'editMessageText', {
+		message_id: messageId,
+		text,
+		parse_mode: 'HTML',
+		...(replyMarkup ? { reply_markup: replyMarkup } : {})
+	}, { ignoreErrors: ['message is not modified'] });
+	return result.ok ? delivered(text, String(messageId)) : failed(text, result.error, result);
+}
+
+// Swap only the buttons of a message (digest rows someone acted on)
+async function editTelegramReplyMarkup(env: Env, ws: Workspace, messageId: number, replyMarkup: InlineKeyboardMarkup): Promise<boolean> {
+	const result = await callTelegram(env, ws, 'editMessageReplyMarkup', {
+		message_id: messageId,
+		reply_markup: replyMarkup
+	}, { ignoreErrors: ['message is not modified'] });
+	return result.ok;
+}
 
-	return message;
+// Stop the button's loading spinner, optionally with a short toast for the user who pressed it
+async function answerCallbackQuery(env: Env, ws: Workspace, queryId: string, text?: string): Promise<void> {
+	await callTelegram(env, ws, 'answerCallbackQuery', {
+		callback_query_id: queryId,
+		...(text ? { text } : {})
+	}, { omitChatId: true });
 }
 
-let lastTelegramError: string | null = null;
+type TelegramResult =
+	| { ok: true; result: { message_id?: number } }
+	| { ok: false; error: string; errorCode: string | null; retryAfter: number | null };
 
-async function sendTelegramMessage(env: Env, message: string): Promise<boolean> {
-	lastTelegramError = null; // Clear previous error
-	const config = getConfig(env);
+/**
+ * POST a Bot API method for the workspace's chat. Failures come back with Telegram's
+ * error_code and, when rate limited (429), the retry_after it asks for.
+ */
+async function callTelegram(
+	env: Env,
+	ws: Workspace,
+	method: string,
+	payload: Record<string, unknown>,
+	options: { ignoreErrors?: string[]; omitChatId?: boolean } = {}
+): Promise<TelegramResult> {
+	const config = ws.config;
 	const botToken = config.telegram.botToken;
 	const chatId = config.telegram.chatId;
 
@@ -2103,87 +5825,53 @@ async function sendTelegramMessage(env: Env, message: string): Promise<boolean>
 		console.error(error);
 		console.error('Bot Token:', botToken ? `${botToken.substring(0, 10)}...` : 'Missing');
 		console.error('Chat ID:', chatId ? chatId : 'Missing');
-		lastTelegramError = error;
-		return false;
+		return { ok: false, error, errorCode: 'not_configured', retryAfter: null };
 	}
 
 	try {
-		// Telegram has a 4096 character limit per message
-		const MAX_MESSAGE_LENGTH = 4096;
-		let messageToSend = message;
-		
-		if (message.length > MAX_MESSAGE_LENGTH) {
-			console.warn(`Message too long (${message.length} chars), truncating to ${MAX_MESSAGE_LENGTH}`);
-			// Truncate more aggressively and add summary at end
-			const truncatePoint = MAX_MESSAGE_LENGTH - 200;
-			messageToSend = message.substring(0, truncatePoint) + '\n\n... (message truncated due to length limit)\n\n' + message.substring(message.lastIndexOf('*Summary:*'));
-		}
-
-		const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
-		
-		// Escape markdown special characters to prevent parsing errors
-		const escapeMarkdown = (text: string): string => {
-			// Escape special markdown characters that aren't part of our intentional formatting
-			// Keep intentional markdown (* for bold, _ for italic) but escape others
-			return text
-				.replace(/\*/g, '\\*')  // Escape asterisks
-				.replace(/_/g, '\\_')   // Escape underscores
-				.replace(/\[/g, '\\[')   // Escape brackets
-				.replace(/\]/g, '\\]')
-				.replace(/\(/g, '\\(')   // Escape parentheses in links
-				.replace(/\)/g, '\\)')
-				.replace(/`/g, '\\`')   // Escape backticks
-				.replace(/#/g, '\\#');  // Escape hashes
-		};
-		
-		// Message is already formatted in HTML (from formatMorningDigest/formatInstantAlert)
-		// Just send it as-is with HTML parse mode
-		const payload = {
-			chat_id: chatId,
-			text: messageToSend,
-			parse_mode: 'HTML'  // Use HTML - more reliable than Markdown
-		};
+		const url = `${config.telegram.apiUrl}/bot${botToken}/${method}`;
+		console.log('Sending to Telegram:', `.../${method}`);
 
-		console.log('Sending to Telegram:', url);
-		console.log('Message length:', messageToSend.length);
-		
 		const response = await fetch(url, {
 			method: 'POST',
 			headers: { 'Content-Type': 'application/json' },
-			body: JSON.stringify(payload)
+			body: JSON.stringify(options.omitChatId ? payload : { chat_id: chatId, ...payload })
 		});
 
-		const result = await response.json() as { ok?: boolean; description?: string; error_code?: number; parameters?: any };
-		
+		const result = await response.json() as {
+			ok?: boolean;
+			result?: { message_id?: number } | true;
+			description?: string;
+			error_code?: number;
+			parameters?: { retry_after?: number; migrate_to_chat_id?: number };
+		};
+
+		if (!result.ok && options.ignoreErrors?.some(ignored => result.description?.includes(ignored))) {
+			return { ok: true, result: {} };
+		}
 		if (!result.ok) {
 			const errorMsg = `Telegram API error: ${result.description || 'Unknown error'} (code: ${result.error_code || 'N/A'})`;
 			console.error('Telegram API error:', JSON.stringify(result, null, 2));
-			console.error('Error code:', result.error_code);
-			console.error('Error description:', result.description);
-			console.error('Error parameters:', result.parameters);
 			
 			// Common issues:
 			if (result.description?.includes('parse')) {
-				console.error('⚠️ Markdown parsing error - check for special characters in message');
+				console.error('⚠️ HTML parsing error - check for special characters in message');
 			}
 			if (result.description?.includes('too long')) {
 				console.error('⚠️ Message too long - needs truncation');
 			}
-			lastTelegramError = errorMsg;
-			return false;
+			return {
+				ok: false,
+				error: errorMsg,
+				errorCode: String(result.error_code ?? response.status),
+				retryAfter: result.parameters?.retry_after ?? null
+			};
 		}
-		
-		console.log('Telegram message sent successfully');
-		return true;
+
+		return { ok: true, result: typeof result.result === 'object' ? result.result : {} };
 	} catch (error) {
 		const errorMsg = error instanceof Error ? error.message : String(error);
 		console.error('Telegram send error:', error);
-		if (error instanceof Error) {
-			console.error('Error message:', error.message);
-			console.error('Error stack:', error.stack);
-		}
-		lastTelegramError = `Network/Request error: ${errorMsg}`;
-		return false;
+		return { ok: false, error: `Network/Request error: ${errorMsg}`, errorCode: 'network', retryAfter: null };
 	}
 }
-
@@ -0,0 +1,256 @@
+/**
+ * Email notifier
+ * Sends alerts and digests through Cloudflare Email Routing's send_email binding as
+ * multipart text + HTML messages. Workers can't open SMTP connections, so recipients
+ * must be verified destination addresses on the sending zone.
+ */
+
+import { EmailMessage } from 'cloudflare:email';
+import { formatReportCount } from './alerts';
+import { delivered, failed, priorityEmoji, truncate } from './notifier';
+import { formatAccount, formatAccountImpact } from './customers';
+import type { AlertView, Delivery, DigestView, HeldSummaryView, Notifier, OverflowView } from './notifier';
+
+export interface EmailContent {
+	subject: string;
+	text: string;
+	html: string;
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+function htmlPage(body: string): string {
+	return `<!DOCTYPE html><html><body style="font-family: -apple-system, 'Segoe UI', sans-serif; line-height: 1.5; max-width: 700px">${body}</body></html>`;
+}
+
+function linkHtml(url: string, label: string): string {
+	return `<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`;
+}
+
+export function renderEmailAlert(alert: AlertView, now: number = Date.now()): EmailContent {
+	const reports = formatReportCount(alert.reportCount, alert.firstReportAt, alert.lastReportAt, now);
+	const user = alert.user || 'Unknown';
+
+	const text = [
+		`INSTANT ALERT - ${alert.severity}`,
+		'',
+		alert.summary,
+		`Reports: ${reports}`,
+		`Category: ${alert.category}`,
+		'',
+		`Issue: ${truncate(alert.content, 1000)}`,
+		'',
+		`Reasoning: ${alert.reasoning}`,
+		'',
+		`Source: ${alert.source} | User: ${user}`,
+		...(alert.link ? [`View feedback: ${alert.link}`] : []),
+		...(alert.status ? ['', alert.status] : []),
+	].join('\n');
+
+	const html = htmlPage(
+		`<h2>🚨 Instant alert - ${alert.severity}</h2>` +
+		`<p><b>${escapeHtml(alert.summary)}</b></p>` +
+		`<p><b>Reports:</b> ${escapeHtml(reports)}<br><b>Category:</b> ${escapeHtml(alert.category)}</p>` +
+		`<blockquote>${escapeHtml(truncate(alert.content, 1000))}</blockquote>` +
+		`<p><b>Reasoning:</b> ${escapeHtml(alert.reasoning)}</p>` +
+		`<p><b>Source:</b> ${escapeHtml(alert.source)} | <b>User:</b> ${escapeHtml(user)}` +
+		`${alert.link ? `<br>${linkHtml(alert.link, 'View feedback')}` : ''}</p>` +
+		`${alert.status ? `<p><i>${escapeHtml(alert.status)}</i></p>` : ''}`
+	);
+
+	return { subject: `[${alert.workspace}] ${alert.severity} alert: ${truncate(alert.summary, 80)}`, text, html };
+}
+
+export function renderEmailOverflow(overflow: OverflowView): EmailContent {
+	const held = `${overflow.heldBack} more urgent report${overflow.heldBack === 1 ? '' : 's'} held back this hour (limit: ${overflow.maxPerHour} alerts/hour).`;
+	const categories = overflow.byCategory.map(c => `${c.category} ${c.count}`).join(', ');
+	const footer = 'They will be included in the morning digest. Check the dashboard if this looks like an outage.';
+
+	return {
+		subject: `[${overflow.workspace}] Alert limit reached`,
+		text: [held, ...(categories ? [`By category: ${categories}`] : []), '', footer].join('\n'),
+		html: htmlPage(
+			`<h2>⚠️ Alert limit reached</h2><p>${escapeHtml(held)}</p>` +
+			`${categories ? `<p><b>By category:</b> ${escapeHtml(categories)}</p>` : ''}<p>${escapeHtml(footer)}</p>`
+		),
+	};
+}
+
+export function renderEmailHeldSummary(summary: HeldSummaryView): EmailContent {
+	const count = summary.alerts.length;
+	const title = `While you were away - ${count} alert${count === 1 ? '' : 's'} held during quiet hours`;
+	const lines = summary.alerts.map(alert => `${alert.severity} · ${alert.category} - ${alert.summary} (${alert.source})`);
+
+	return {
+		subject: `[${summary.workspace}] ${title}`,
+		text: [title, '', ...summary.alerts.map((alert, i) => `- ${lines[i]}${alert.link ? `\n  ${alert.link}` : ''}`)].join('\n'),
+		html: htmlPage(
+			`<h2>🌙 ${escapeHtml(title)}</h2><ul>` +
+			summary.alerts.map((alert, i) => `<li>${priorityEmoji(alert.severity)} ${escapeHtml(lines[i])}` +
+				`${alert.link ? ` ${linkHtml(alert.link, 'View')}` : ''}</li>`).join('') +
+			'</ul>'
+		),
+	};
+}
+
+export function renderEmailDigest(digest: DigestView): EmailContent {
+	const title = `Morning digest${digest.workspace ? ` (${digest.workspace})` : ''} - ${digest.date}`;
+	const text: string[] = [title, ''];
+	let html = `<h2>${escapeHtml(title)}</h2>`;
+
+	if (digest.issues.length > 0) {
+		text.push(`ISSUES (from ${digest.feedbackCount} feedbacks)`, '');
+		html += `<h3>📋 Issues <small>(from ${escapeHtml(digest.feedbackCount)} feedbacks)</small></h3><ol>`;
+		for (const [index, issue] of digest.issues.entries()) {
+			const sources = issue.sources.length > 0 ? `Sources: ${issue.sources.slice(0, 3).join(', ')}` : '';
+			const accounts = formatAccountImpact(issue.accounts, issue.arr);
+			text.push(
+				`${index + 1}. ${issue.priorityLevel} - ${issue.summary} (${issue.count} reports)`,
+				`   ${issue.impact}`,
+				...(accounts ? [`   ${accounts}`] : []),
+				`   → ${issue.action}`,
+				...(sources ? [`   ${sources}`] : []),
+				''
+			);
+			html += `<li>${priorityEmoji(issue.priorityLevel)} <b>${issue.priorityLevel}</b> - ${escapeHtml(issue.summary)} (${issue.count} reports)` +
+				`<br>${escapeHtml(issue.impact)}${accounts ? `<br>💰 ${escapeHtml(accounts)}` : ''}<br>→ ${escapeHtml(issue.action)}${sources ? `<br><small>${escapeHtml(sources)}</small>` : ''}</li>`;
+		}
+		html += '</ol>';
+	}
+
+	if (digest.monitoring.length > 0) {
+		text.push('MONITORING - FIXES IN PROGRESS', '');
+		html += '<h3>🔧 Monitoring - fixes in progress</h3><ul>';
+		for (const issue of digest.monitoring) {
+			const status = `Fix deployed (day ${issue.daysSinceFix}/${issue.rolloutDays})${issue.version ? `, ${issue.version}` : ''}; ` +
+				`reports trending ${issue.trend} ${issue.avgBefore.toFixed(1)}/day → ${issue.avgAfter.toFixed(1)}/day`;
+			text.push(`- ${issue.priorityLevel} - ${issue.summary} (${issue.count} reports)`, `  ${status}`, '');
+			html += `<li><b>${issue.priorityLevel}</b> - ${escapeHtml(issue.summary)} (${issue.count} reports)<br>${escapeHtml(status)}</li>`;
+		}
+		html += '</ul>';
+	}
+
+	if (digest.failedFixes.length > 0) {
+		text.push('FAILED FIXES - NEED ATTENTION', '');
+		html += '<h3>🚨 Failed fixes - need attention</h3><ul>';
+		for (const issue of digest.failedFixes) {
+			const status = `Fixed ${issue.daysSinceFix} days ago and still getting reports; needs re-investigation`;
+			text.push(`- ${issue.priorityLevel} - ${issue.summary} (${issue.count} reports)`, `  ${status}`, '');
+			html += `<li><b>${issue.priorityLevel}</b> - ${escapeHtml(issue.summary)} (${issue.count} reports)<br>${escapeHtml(status)}</li>`;
+		}
+		html += '</ul>';
+	}
+
+	if (digest.support.length > 0) {
+		text.push(`INDIVIDUAL SUPPORT CASES (${digest.support.length})`, '');
+		html += `<h3>Individual support cases (${digest.support.length})</h3><ul>`;
+		for (const report of digest.support) {
+			const who = `${report.category} (${report.priorityLevel}) - ${report.user} via ${report.source}${report.account ? ` (${formatAccount(report.account)})` : ''}`;
+			text.push(`- ${who}`, `  "${truncate(report.content, 300)}"`, ...(report.link ? [`  ${report.link}`] : []), '');
+			html += `<li><b>${escapeHtml(who)}</b><br>"${escapeHtml(truncate(report.content, 300))}"` +
+				`${report.link ? `<br>${linkHtml(report.link, 'View feedback')}` : ''}</li>`;
+		}
+		html += '</ul>';
+	}
+
+	if (digest.positive.length > 0) {
+		text.push(`WHAT'S WORKING WELL (${digest.positive.length})`, '');
+		html += `<h3>✅ What's working well (${digest.positive.length})</h3><ul>`;
+		for (const report of digest.positive) {
+			text.push(`- ${report.user} via ${report.source}: "${truncate(report.content, 200)}"`);
+			html += `<li>${escapeHtml(report.user)} via ${escapeHtml(report.source)}: "${escapeHtml(truncate(report.content, 200))}"</li>`;
+		}
+		text.push('');
+		html += '</ul>';
+	}
+
+	text.push(`Summary: ${digest.summary}`);
+	html += `<p><b>Summary:</b> ${escapeHtml(digest.summary)}</p>`;
+
+	return { subject: title, text: text.join('\n'), html: htmlPage(html) };
+}
+
+// Base64 in 76-character lines, as MIME requires
+function base64Lines(text: string): string {
+	const bytes = new TextEncoder().encode(text);
+	let binary = '';
+	for (const byte of bytes) binary += String.fromCharCode(byte);
+	return (btoa(binary).match(/.{1,76}/g) || []).join('\r\n');
+}
+
+// RFC 2047 encoded-word for non-ASCII subjects
+function encodeHeader(value: string): string {
+	const clean = value.replace(/[\r\n]+/g, ' ');
+	return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${base64Lines(clean).replace(/\r\n/g, '')}?=`;
+}
+
+/**
+ * A multipart/alternative message (text first, HTML preferred by clients that can show it)
+ */
+export function buildMimeMessage(from: string, to: string, content: EmailContent, date: Date = new Date()): string {
+	const boundary = `----=_Part_${crypto.randomUUID().replace(/-/g, '')}`;
+	const domain = from.split('@')[1] || 'localhost';
+	return [
+		`From: ${from}`,
+		`To: ${to}`,
+		`Subject: ${encodeHeader(content.subject)}`,
+		`Date: ${date.toUTCString()}`,
+		`Message-ID: <${crypto.randomUUID()}@${domain}>`,
+		'MIME-Version: 1.0',
+		'Auto-Submitted: auto-generated',
+		`Content-Type: multipart/alternative; boundary="${boundary}"`,
+		'',
+		`--${boundary}`,
+		'Content-Type: text/plain; charset=UTF-8',
+		'Content-Transfer-Encoding: base64',
+		'',
+		base64Lines(content.text),
+		`--${boundary}`,
+		'Content-Type: text/html; charset=UTF-8',
+		'Content-Transfer-Encoding: base64',
+		'',
+		base64Lines(content.html),
+		`--${boundary}--`,
+		''
+	].join('\r\n');
+}
+
+// One message per recipient: send_email delivers to a single address
+async function sendEmail(sender: SendEmail | undefined, from: string, recipients: string[], content: EmailContent): Promise<Delivery> {
+	if (!sender || !from) {
+		const error = 'Email not configured (needs the SEND_EMAIL binding and email.fromAddress)';
+		console.error(error);
+		return failed(content.text, error);
+	}
+	const errors: string[] = [];
+	for (const to of recipients) {
+		try {
+			await sender.send(new EmailMessage(from, to, buildMimeMessage(from, to, content)));
+		} catch (error) {
+			errors.push(`${to}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+	if (errors.length > 0) {
+		const error = `Email delivery failed for ${errors.join('; ')}`;
+		console.error(error);
+		return failed(content.text, error);
+	}
+	return delivered(content.text);
+}
+
+export function emailNotifier(sender: SendEmail | undefined, from: string, recipients: string[]): Notifier {
+	return {
+		channel: 'email',
+		sendAlert: alert => sendEmail(sender, from, recipients, renderEmailAlert(alert)),
+		sendOverflow: overflow => sendEmail(sender, from, recipients, renderEmailOverflow(overflow)),
+		sendHeldSummary: summary => sendEmail(sender, from, recipients, renderEmailHeldSummary(summary)),
+		sendDigest: digest => sendEmail(sender, from, recipients, renderEmailDigest(digest)),
+	};
+}
@@ -0,0 +1,115 @@
+/**
+ * Generic webhook mapping adapter
+ * Config declares how fields of an arbitrary JSON webhook (Intercom, Zendesk, Typeform...)
+ * map onto feedback, so new tools can be plugged in without code changes
+ */
+
+import { validate, feedbackSchema } from './validation';
+import type { FeedbackInput, FieldError } from './validation';
+import { parseTimestamp } from './batch';
+import { htmlToText } from './email';
+import type { FeedbackSource } from './types';
+
+/**
+ * A field spec is one of:
+ * - a dot path into the payload: "data.item.user.email" (array indexes allowed: "answers.0.text")
+ * - a list of dot paths: the first non-empty value wins
+ * - a template: "{{ticket.subject}}\n\n{{ticket.description}}"
+ */
+export type FieldSpec = string | string[];
+
+export interface WebhookMapping {
+	source: FeedbackSource;
+	// Shared secret expected in the X-Webhook-Secret header (empty = no check)
+	secret?: string;
+	// Optional path to an array of records when one delivery carries several items
+	items?: string;
+	// Convert HTML content (e.g. Intercom conversation parts) to plain text
+	html?: boolean;
+	fields: {
+		content: FieldSpec;
+		user?: FieldSpec;
+		link?: FieldSpec;
+		external_id?: FieldSpec;
+		timestamp?: FieldSpec;
+	};
+}
+
+export interface MappedRecord extends FeedbackInput {
+	external_id?: string;
+	timestamp?: number;
+}
+
+export type MappedRow = { ok: true; record: MappedRecord } | { ok: false; errors: FieldError[] };
+
+export function getPath(payload: unknown, path: string): unknown {
+	let current: unknown = payload;
+	for (const key of path.split('.')) {
+		if (current === null || current === undefined) return undefined;
+		if (Array.isArray(current) && /^\d+$/.test(key)) {
+			current = current[Number(key)];
+		} else if (typeof current === 'object') {
+			current = (current as Record<string, unknown>)[key];
+		} else {
+			return undefined;
+		}
+	}
+	return current;
+}
+
+function stringify(value: unknown): string | undefined {
+	if (value === null || value === undefined) return undefined;
+	if (typeof value === 'string') return value;
+	if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+	return undefined;
+}
+
+export function resolveField(payload: unknown, spec: FieldSpec | undefined): string | undefined {
+	if (spec === undefined) return undefined;
+	if (Array.isArray(spec)) {
+		for (const path of spec) {
+			const value = resolveField(payload, path);
+			if (value !== undefined && value.trim() !== '') return value;
+		}
+		return undefined;
+	}
+	if (spec.includes('{{')) {
+		const rendered = spec.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => stringify(getPath(payload, path)) || '');
+		return rendered.trim() || undefined;
+	}
+	return stringify(getPath(payload, spec));
+}
+
+/**
+ * Apply a mapping to one webhook delivery. Returns one row per item.
+ */
+export function applyMapping(mapping: WebhookMapping, payload: unknown): MappedRow[] {
+	const items = mapping.items ? getPath(payload, mapping.items) : [payload];
+	if (!Array.isArray(items)) {
+		return [{ ok: false, errors: [{ field: mapping.items || '$', code: 'invalid_type', message: 'Expected an array of items' }] }];
+	}
+
+	return items.map((item): MappedRow => {
+		const rawContent = resolveField(item, mapping.fields.content);
+		const content = rawContent && mapping.html ? htmlToText(rawContent) : rawContent;
+		const result = validate<FeedbackInput>(feedbackSchema, {
+			content,
+			source: mapping.source,
+			user: resolveField(item, mapping.fields.user),
+			link: resolveField(item, mapping.fields.link)
+		});
+		if (!result.ok) {
+			return { ok: false, errors: result.errors };
+		}
+
+		const rawTimestamp = resolveField(item, mapping.fields.timestamp);
+		return {
+			ok: true,
+			record: {
+				...result.value,
+				external_id: resolveField(item, mapping.fields.external_id),
+				timestamp: rawTimestamp ? parseTimestamp(rawTimestamp) ?? undefined : undefined
+			}
+		};
+	});
+}
@@ -0,0 +1,197 @@
+/**
+ * Cluster assignment
+ * A feedback joins its most similar cluster, not the first one that clears the bar, and the
+ * decision is kept on cluster_members: how it matched, how closely, on which phrases, and the
+ * clusters that came next. GET /feedback/:id/assignment reads it back.
+ */
+
+// manual: placed by a merge, split or move (curation.ts)
+export const MATCH_METHODS = ['embedding', 'phrase', 'keyword', 'new_cluster', 'individual', 'manual'] as const;
+export type MatchMethod = typeof MATCH_METHODS[number];
+
+// Ways a feedback can match an existing cluster, strongest evidence first
+export type CandidateMethod = Extract<MatchMethod, 'embedding' | 'phrase' | 'keyword'>;
+const METHOD_ORDER: CandidateMethod[] = ['embedding', 'phrase', 'keyword'];
+
+export interface MatchCandidate {
+	cluster_id: string;
+	method: CandidateMethod;
+	// Cosine similarity for embeddings; share of phrases/keywords in common (Jaccard) for text
+	similarity: number;
+	// Key phrases (or keywords) the feedback shares with the cluster's representative feedback
+	matched: string[];
+}
+
+export interface Assignment {
+	method: MatchMethod;
+	// Existing cluster joined; null when the feedback starts a cluster
+	cluster_id: string | null;
+	similarity: number | null;
+	matched: string[];
+	runner_ups: MatchCandidate[];
+}
+
+// What text matching needs to know about a cluster
+export interface ClusterText {
+	cluster_id: string;
+	representative_feedback: string;
+	category: string;
+	severity: string;
+}
+
+const RUNNER_UPS = 3;
+
+const PHRASE_PATTERNS = [
+	/login\s+\w+/g,
+	/billing\s+\w+/g,
+	/payment\s+\w+/g,
+	/crash\w*/g,
+	/error\s+\d+/g,
+	/\b(can't|cannot|won't)\s+\w+/g,
+	/dark\s+mode/g,
+	/rate\s+limit/g,
+	/\d+\s+error/g,
+	/login\s+crash/g,
+	/login\s+bug/g,
+	/billing\s+page/g,
+	/payment\s+failed/g,
+	// Theme/toggle related
+	/theme\s+\w+/g,
+	/toggle\s+\w+/g,
+	/dark\s+mode\s+\w*/g,
+	// Resume/background crash
+	/resume\s+crash/g,
+	/background\s+\w+/g,
+	/foreground\s+\w+/g,
+	/force\s+close/g,
+	// Double login
+	/double\s+login/g,
+	/login\s+twice/g,
+	/second\s+login/g,
+	/first\s+login/g,
+	/2\s+attempts/g
+];
+
+const STOP_WORDS = new Set(['the', 'this', 'that', 'with', 'from', 'when', 'will', 'need', 'very', 'can', 'cant', 'not', 'and', 'are', 'for', 'has', 'have', 'was', 'were', 'all', 'but', 'get', 'got']);
+
+// Common issue phrases ("login crash", "error 500"), plus normalized keys for issues reported in many wordings
+export function extractKeyPhrases(text: string): Set<string> {
+	const phrases = new Set<string>();
+	const lower = text.toLowerCase();
+
+	PHRASE_PATTERNS.forEach(pattern => {
+		const matches = lower.match(pattern);
+		if (matches) matches.forEach(m => phrases.add(m.trim()));
+	});
+
+	if (lower.includes('theme') || lower.includes('dark mode') || lower.includes('toggle')) {
+		if (lower.includes('broken') || lower.includes('not working') || lower.includes("doesn't") ||
+			lower.includes('fails') || lower.includes('no change')) {
+			phrases.add('theme_bug'); // Normalized key for all theme bugs
+		}
+	}
+
+	if ((lower.includes('resume') || lower.includes('background') || lower.includes('foreground') ||
+		 lower.includes('recents')) && lower.includes('crash')) {
+		phrases.add('resume_crash'); // Normalized key for all resume crashes
+	}
+
+	return phrases;
+}
+
+// Significant words: longer than 2 characters, not stop words
+export function extractKeywords(text: string): Set<string> {
+	return new Set(text.toLowerCase().split(/\W+/).filter(w => w.length > 2 && !STOP_WORDS.has(w)));
+}
+
+function overlap(a: Set<string>, b: Set<string>): { common: string[]; similarity: number } {
+	const common = [...a].filter(item => b.has(item));
+	const union = new Set([...a, ...b]).size;
+	return { common, similarity: union === 0 ? 0 : common.length / union };
+}
+
+// Key phrases two texts have in common, to explain an embedding match
+export function sharedPhrases(a: string, b: string): string[] {
+	return overlap(extractKeyPhrases(a), extractKeyPhrases(b)).common;
+}
+
+/**
+ * Text fallback, for feedback without an embedding or with no cluster close enough: a cluster
+ * sharing a key phrase is a phrase candidate; otherwise one with the same category and severity
+ * sharing a keyword is a keyword candidate.
+ */
+export function textCandidates(
+	feedback: { content: string; category: string; severity: string },
+	clusters: ClusterText[]
+): MatchCandidate[] {
+	const feedbackPhrases = extractKeyPhrases(feedback.content);
+	const feedbackWords = extractKeywords(feedback.content);
+	const candidates: MatchCandidate[] = [];
+
+	for (const cluster of clusters) {
+		const phrases = overlap(feedbackPhrases, extractKeyPhrases(cluster.representative_feedback));
+		if (phrases.common.length > 0) {
+			candidates.push({ cluster_id: cluster.cluster_id, method: 'phrase', similarity: phrases.similarity, matched: phrases.common });
+			continue;
+		}
+		if (cluster.category !== feedback.category || cluster.severity !== feedback.severity) continue;
+		const words = overlap(feedbackWords, extractKeywords(cluster.representative_feedback));
+		if (words.common.length > 0) {
+			candidates.push({ cluster_id: cluster.cluster_id, method: 'keyword', similarity: words.similarity, matched: words.common });
+		}
+	}
+	return candidates;
+}
+
+function eligible(candidate: MatchCandidate, threshold: number): boolean {
+	return candidate.method !== 'embedding' || candidate.similarity > threshold;
+}
+
+/**
+ * Pick the cluster to join: the most similar embedding match above the threshold, else the
+ * closest phrase match, else the closest keyword match. The next best clusters (one entry per
+ * cluster, near misses included) are kept as runner-ups.
+ */
+export function chooseAssignment(candidates: MatchCandidate[], threshold: number): Assignment {
+	const ranked = [...candidates].sort((a, b) =>
+		Number(eligible(b, threshold)) - Number(eligible(a, threshold)) ||
+		METHOD_ORDER.indexOf(a.method) - METHOD_ORDER.indexOf(b.method) ||
+		b.similarity - a.similarity
+	);
+	const winner = ranked[0] && eligible(ranked[0], threshold) ? ranked[0] : null;
+
+	const seen = new Set(winner ? [winner.cluster_id] : []);
+	const runnerUps: MatchCandidate[] = [];
+	for (const candidate of ranked) {
+		if (runnerUps.length === RUNNER_UPS) break;
+		if (seen.has(candidate.cluster_id)) continue;
+		seen.add(candidate.cluster_id);
+		runnerUps.push(candidate);
+	}
+
+	return winner
+		? { method: winner.method, cluster_id: winner.cluster_id, similarity: winner.similarity, matched: winner.matched, runner_ups: runnerUps }
+		: { method: 'new_cluster', cluster_id: null, similarity: null, matched: [], runner_ups: runnerUps };
+}
+
+// One-line reason for GET /feedback/:id/assignment
+export function explainAssignment(assignment: Pick<Assignment, 'method' | 'similarity' | 'matched' | 'runner_ups'>, threshold: number): string {
+	const score = assignment.similarity?.toFixed(3);
+	const on = assignment.matched.length > 0 ? ` on "${assignment.matched.join('", "')}"` : '';
+	switch (assignment.method) {
+		case 'embedding':
+			return `Closest cluster by embedding: similarity ${score}, above the ${threshold} threshold`;
+		case 'phrase':
+			return `No cluster above the ${threshold} embedding threshold; closest by shared key phrases (overlap ${score})${on}`;
+		case 'keyword':
+			return `No embedding or key phrase match; closest cluster with the same category and severity by shared keywords (overlap ${score})${on}`;
+		case 'manual':
+			return 'Placed by hand (merge, split or move); pinned, so relabeling and later digests leave it here';
+		case 'individual':
+			return 'User-specific feedback (account, order or login details) gets a cluster of its own';
+		case 'new_cluster':
+			return assignment.runner_ups.length > 0
+				? `No cluster close enough (best embedding similarity must exceed ${threshold}, or share a key phrase or keyword); started a new cluster`
+				: 'No existing cluster to compare with; started a new cluster';
+	}
+}
@@ -0,0 +1,237 @@
+/**
+ * Notifiers
+ * Alerts, overflow summaries, held-alert summaries and digests are built once as channel-neutral views, then each
+ * channel renders and delivers them its own way: Telegram HTML (telegram.ts), Slack Block Kit
+ * (slack.ts), email (mailer.ts) or a signed JSON webhook (outbound.ts).
+ * Routes pick alert destinations; config.notifications picks the digest's and the fallback for
+ * alerts no route claims.
+ */
+
+import type { Severity } from './rules';
+import type { AccountTier } from './types';
+
+export const NOTIFIER_CHANNELS = ['telegram', 'slack', 'email', 'webhook'] as const;
+
+export type NotifierChannel = (typeof NOTIFIER_CHANNELS)[number];
+
+export interface AlertView {
+	alertId: string;
+	workspace: string;
+	severity: Severity;
+	category: string;
+	summary: string;
+	content: string;
+	reasoning: string;
+	source: string;
+	user: string | null;
+	link: string | null;
+	reportCount: number;
+	firstReportAt: number;
+	lastReportAt: number;
+	// Who acted on the alert and when, e.g. "🛠 Marked fixed by @alice · Mar 2, 10:32 AM PST"
+	status: string | null;
+	// Fixed / won't fix: nothing left to act on
+	resolved: boolean;
+}
+
+export interface OverflowView {
+	workspace: string;
+	heldBack: number;
+	maxPerHour: number;
+	byCategory: Array<{ category: string; count: number }>;
+}
+
+export interface HeldAlertView {
+	feedbackId: string;
+	severity: Severity;
+	category: string;
+	summary: string;
+	source: string;
+	link: string | null;
+	heldAt: number;
+}
+
+// "While you were away": alerts held during a destination's quiet hours (policy.ts)
+export interface HeldSummaryView {
+	workspace: string;
+	alerts: HeldAlertView[];
+}
+
+export interface DigestIssueView {
+	clusterId: string;
+	priorityLevel: string;
+	summary: string;
+	count: number;
+	impact: string;
+	action: string;
+	sources: string[];
+	// Known customer accounts behind the reports and their combined ARR (0 when none)
+	accounts: number;
+	arr: number;
+}
+
+export interface MonitoringView {
+	clusterId: string;
+	priorityLevel: string;
+	summary: string;
+	count: number;
+	daysSinceFix: number;
+	rolloutDays: number;
+	// Reports per day before the fix vs since
+	avgBefore: number;
+	avgAfter: number;
+	trend: '↓' | '↑' | '→';
+	version: string | null;
+}
+
+export interface FailedFixView {
+	clusterId: string;
+	priorityLevel: string;
+	summary: string;
+	count: number;
+	daysSinceFix: number;
+}
+
+export interface ReportView {
+	user: string;
+	source: string;
+	content: string;
+	link: string | null;
+}
+
+export interface SupportCaseView extends ReportView {
+	category: string;
+	priorityLevel: string;
+	// The reporting customer's account, when the user is a known customer
+	account: { tier: AccountTier; arr: number } | null;
+}
+
+export interface DigestView {
+	digestId: string;
+	// null for the default workspace, whose digests carry no label
+	workspace: string | null;
+	generatedAt: number;
+	// generatedAt in the workspace timezone, e.g. "March 2, 2026 at 9:00 AM PST"
+	date: string;
+	feedbackCount: string;
+	// Open issues, in the order the digest numbers them
+	issues: DigestIssueView[];
+	monitoring: MonitoringView[];
+	failedFixes: FailedFixView[];
+	support: SupportCaseView[];
+	positive: ReportView[];
+	summary: string;
+}
+
+export interface Delivery {
+	ok: boolean;
+	// Channel message id, for channels that can edit a message later
+	messageId: string | null;
+	// Every message sent, when a long message went out in several parts; messageId is the first
+	messageIds: string[];
+	// What was sent: message text, or the JSON body for webhooks
+	body: string;
+	error: string | null;
+	// Telegram error_code, HTTP status or Slack error string
+	errorCode: string | null;
+	// Seconds the channel asked us to wait before trying again (Telegram retry_after, Retry-After)
+	retryAfter: number | null;
+}
+
+// What a delivery_log row records an attempt of
+export const DELIVERY_KINDS = ['alert', 'alert_update', 'overflow', 'overflow_update', 'held_summary', 'digest', 'test'] as const;
+
+export type DeliveryKind = (typeof DELIVERY_KINDS)[number];
+
+/**
+ * A failed delivery that the caller retries later; retryAfter carries the channel's
+ * requested wait so the retry doesn't come sooner
+ */
+export class DeliveryError extends Error {
+	constructor(message: string, readonly retryAfter: number | null = null) {
+		super(message);
+		this.name = 'DeliveryError';
+	}
+}
+
+export interface Notifier {
+	channel: NotifierChannel;
+	sendAlert(alert: AlertView): Promise<Delivery>;
+	sendOverflow(overflow: OverflowView): Promise<Delivery>;
+	sendHeldSummary(summary: HeldSummaryView): Promise<Delivery>;
+	sendDigest(digest: DigestView): Promise<Delivery>;
+	// Only channels that can edit a sent message keep "Reports: N" and the overflow count current
+	updateAlert?(messageId: string, alert: AlertView): Promise<Delivery>;
+	updateOverflow?(messageId: string, overflow: OverflowView): Promise<Delivery>;
+}
+
+export const PRIORITY_EMOJIS: Record<string, string> = { P0: '🔴', P1: '🟠', P2: '🟡', P3: '🟢' };
+
+export function priorityEmoji(level: string): string {
+	return PRIORITY_EMOJIS[level] || '⚪';
+}
+
+// First `max` characters, with "..." when something was cut
+export function truncate(text: string, max: number): string {
+	return text.length > max ? `${text.substring(0, max)}...` : text;
+}
+
+export function delivered(body: string, messageId: string | null = null, messageIds: string[] = messageId ? [messageId] : []): Delivery {
+	return { ok: true, messageId, messageIds, body, error: null, errorCode: null, retryAfter: null };
+}
+
+export function failed(
+	body: string,
+	error: string,
+	details: { errorCode?: string | null; retryAfter?: number | null } = {}
+): Delivery {
+	return { ok: false, messageId: null, messageIds: [], body, error, errorCode: details.errorCode ?? null, retryAfter: details.retryAfter ?? null };
+}
+
+// Retry-After is either seconds or an HTTP date
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+	if (!header) return null;
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+	const at = Date.parse(header);
+	return Number.isNaN(at) ? null : Math.max(0, Math.ceil((at - now) / 1000));
+}
+
+const EMAIL_PATTERN = /^[^\s@,;<>]+@[^\s@,;<>]+\.[^\s@,;<>]+$/;
+
+// Email destinations take a comma-separated list of addresses
+export function parseEmailRecipients(target: string): string[] {
+	return target.split(',').map(address => address.trim()).filter(Boolean);
+}
+
+/**
+ * Check a destination target for its channel; returns the problem, or null when it's usable
+ */
+export function validateTarget(channel: NotifierChannel, target: string): string | null {
+	switch (channel) {
+		case 'telegram':
+			return /^(-?\d+|@\w{5,})$/.test(target) ? null : 'target must be a Telegram chat id (e.g. -1001234567890) or @channelname';
+		case 'slack':
+			return target.startsWith('https://hooks.slack.com/') ? null : 'target must be a Slack incoming webhook URL (https://hooks.slack.com/...)';
+		case 'email': {
+			const recipients = parseEmailRecipients(target);
+			return recipients.length > 0 && recipients.every(address => EMAIL_PATTERN.test(address))
+				? null
+				: 'target must be one or more comma-separated email addresses';
+		}
+		case 'webhook':
+			return /^https:\/\/[^\s/]+/.test(target) ? null : 'target must be an https:// URL';
+	}
+}
+
+/**
+ * Slack and webhook URLs carry their credentials in the path, so listings only show the host
+ */
+export function maskTarget(channel: NotifierChannel, target: string): string {
+	if (channel !== 'slack' && channel !== 'webhook') return target;
+	try {
+		return `${new URL(target).origin}/…`;
+	} catch {
+		return '…';
+	}
+}
@@ -0,0 +1,81 @@
+/**
+ * Outbound webhook notifier
+ * POSTs alerts and digests as JSON to any URL. With a secret set, each request carries
+ * X-Feedback-Timestamp and X-Feedback-Signature ("sha256=<hex hmac of `${timestamp}.${body}`>"),
+ * so receivers can verify the sender and reject replays.
+ */
+
+import { hmacSha256Hex, timingSafeEqual } from './crypto';
+import { delivered, failed, parseRetryAfter } from './notifier';
+import type { AlertView, Delivery, DigestView, HeldSummaryView, Notifier, OverflowView } from './notifier';
+
+export const WEBHOOK_EVENTS = ['alert', 'alert.overflow', 'alert.held_summary', 'digest'] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const SIGNATURE_HEADER = 'X-Feedback-Signature';
+export const TIMESTAMP_HEADER = 'X-Feedback-Timestamp';
+
+export interface WebhookPayload {
+	event: WebhookEvent;
+	sent_at: number;
+	data: AlertView | OverflowView | HeldSummaryView | DigestView;
+}
+
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+	return `sha256=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+}
+
+/**
+ * Receiver-side check, also used by the tests. Rejects timestamps more than
+ * toleranceSeconds away from now.
+ */
+export async function verifyWebhookSignature(
+	secret: string,
+	body: string,
+	timestampHeader: string | null,
+	signatureHeader: string | null,
+	toleranceSeconds: number = 300,
+	now: number = Date.now()
+): Promise<boolean> {
+	const timestamp = Number(timestampHeader);
+	if (!secret || !signatureHeader || !Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+		return false;
+	}
+	return timingSafeEqual(await signWebhookPayload(secret, timestamp, body), signatureHeader.toLowerCase());
+}
+
+async function postWebhook(url: string, secret: string | null, event: WebhookEvent, data: WebhookPayload['data']): Promise<Delivery> {
+	const now = Date.now();
+	const body = JSON.stringify({ event, sent_at: now, data } satisfies WebhookPayload);
+	const headers: Record<string, string> = { 'Content-Type': 'application/json', 'User-Agent': 'pm-digest-agent' };
+	if (secret) {
+		const timestamp = Math.floor(now / 1000);
+		headers[TIMESTAMP_HEADER] = String(timestamp);
+		headers[SIGNATURE_HEADER] = await signWebhookPayload(secret, timestamp, body);
+	}
+
+	try {
+		const response = await fetch(url, { method: 'POST', headers, body });
+		if (response.ok) {
+			return delivered(body);
+		}
+		const error = `Webhook error: ${response.status} ${response.statusText}`.trim();
+		console.error(`${error} from ${new URL(url).host}`);
+		return failed(body, error, { errorCode: String(response.status), retryAfter: parseRetryAfter(response.headers.get('Retry-After')) });
+	} catch (error) {
+		const errorMsg = `Webhook request error: ${error instanceof Error ? error.message : String(error)}`;
+		console.error(errorMsg);
+		return failed(body, errorMsg);
+	}
+}
+
+export function webhookNotifier(url: string, secret: string | null): Notifier {
+	return {
+		channel: 'webhook',
+		sendAlert: alert => postWebhook(url, secret, 'alert', alert),
+		sendOverflow: overflow => postWebhook(url, secret, 'alert.overflow', overflow),
+		sendHeldSummary: summary => postWebhook(url, secret, 'alert.held_summary', summary),
+		sendDigest: digest => postWebhook(url, secret, 'digest', digest),
+	};
+}
@@ -0,0 +1,63 @@
+/**
+ * Delivery outbox
+ * A digest is queued once per destination before it is sent; entries that fail stay pending and
+ * the cron retries them with exponential backoff, never sooner than the channel's retry_after.
+ * Every attempt, outbox or not, is recorded in delivery_log.
+ */
+
+import { retryDelaySeconds } from './queue';
+import type { DeliveryKind, NotifierChannel } from './notifier';
+
+export const OUTBOX_STATUSES = ['pending', 'sent', 'failed'] as const;
+
+export type OutboxStatus = (typeof OUTBOX_STATUSES)[number];
+
+export interface OutboxEntry {
+	outbox_id: string;
+	workspace_id: string;
+	destination: string;
+	kind: 'digest';
+	ref_id: string;
+	payload: string;
+	status: OutboxStatus;
+	attempts: number;
+	next_attempt_at: number | null;
+	last_error: string | null;
+	message_id: string | null;
+	created_at: number;
+	updated_at: number;
+}
+
+export interface DeliveryLogEntry {
+	log_id: string;
+	workspace_id: string;
+	destination: string;
+	channel: NotifierChannel;
+	kind: DeliveryKind;
+	ref_id: string | null;
+	feedback_id: string | null;
+	outbox_id: string | null;
+	attempt: number;
+	status: 'sent' | 'failed';
+	error_code: string | null;
+	error: string | null;
+	retry_after: number | null;
+	message_id: string | null;
+	attempted_at: number;
+}
+
+export interface RetryPolicy {
+	maxAttempts: number;
+	retryBaseSeconds: number;
+	retryMaxSeconds: number;
+}
+
+/**
+ * When to try a failed entry again after `attempts` attempts, or null once they're used up.
+ * The channel's retryAfter wins over the backoff when it asks for a longer wait.
+ */
+export function nextAttemptAt(attempts: number, now: number, retryAfter: number | null, policy: RetryPolicy): number | null {
+	if (attempts >= policy.maxAttempts) return null;
+	const backoff = retryDelaySeconds(attempts, policy.retryBaseSeconds, policy.retryMaxSeconds);
+	return now + Math.max(backoff, retryAfter ?? 0) * 1000;
+}
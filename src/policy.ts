@@ -0,0 +1,64 @@
+/**
+ * Delivery policies
+ * A destination can set quiet hours ("22:00-07:00", in the workspace's digest.timezone) and mute
+ * categories. During quiet hours P0 alerts still page; anything else is held and goes out as one
+ * "while you were away" summary when quiet hours end. A muted category never alerts that
+ * destination - those reports stay in the morning digest.
+ */
+
+import type { Severity } from './rules';
+
+export type PolicyDecision = 'send' | 'hold' | 'mute';
+
+export const HELD_ALERT_STATUSES = ['held', 'released', 'discarded'] as const;
+
+export type HeldAlertStatus = (typeof HELD_ALERT_STATUSES)[number];
+
+export interface DeliveryPolicy {
+	quiet_hours?: string | null;
+	muted_categories?: string[];
+}
+
+const QUIET_HOURS_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)-([01]\d|2[0-3]):([0-5]\d)$/;
+
+// "22:00-07:00" as minutes after midnight; null when unset or malformed
+export function parseQuietHours(value: string | null | undefined): { start: number; end: number } | null {
+	const match = (value || '').match(QUIET_HOURS_PATTERN);
+	if (!match) return null;
+	return { start: Number(match[1]) * 60 + Number(match[2]), end: Number(match[3]) * 60 + Number(match[4]) };
+}
+
+export function quietHoursError(value: string): string | null {
+	const range = parseQuietHours(value);
+	if (!range) return 'quiet_hours must look like "22:00-07:00" (24-hour clock), or "off"';
+	return range.start === range.end ? 'quiet_hours must start and end at different times' : null;
+}
+
+/**
+ * Whether now falls inside the quiet hours, read in timezone. Ranges past midnight
+ * ("22:00-07:00") wrap; the end minute itself is no longer quiet.
+ */
+export function isQuietTime(quietHours: string | null | undefined, now: Date, timezone: string): boolean {
+	const range = parseQuietHours(quietHours);
+	if (!range || range.start === range.end) return false;
+	const [hour, minute] = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' })
+		.formatToParts(now)
+		.filter(part => part.type === 'hour' || part.type === 'minute')
+		.map(part => Number(part.value));
+	const minutes = hour * 60 + minute;
+	return range.start < range.end
+		? minutes >= range.start && minutes < range.end
+		: minutes >= range.start || minutes < range.end;
+}
+
+export function decideDelivery(
+	policy: DeliveryPolicy,
+	alert: { severity: Severity; category: string },
+	now: Date,
+	timezone: string
+): PolicyDecision {
+	if ((policy.muted_categories || []).some(category => category.toLowerCase() === alert.category.toLowerCase())) {
+		return 'mute';
+	}
+	return alert.severity !== 'P0' && isQuietTime(policy.quiet_hours, now, timezone) ? 'hold' : 'send';
+}
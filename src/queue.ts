@@ -0,0 +1,119 @@
+/**
+ * Triage pipeline queue
+ * Ingestion stores feedback and enqueues its id; the consumer classifies, alerts and embeds it.
+ * LocalQueue is an in-memory stand-in for the Queue binding (tests, or a deploy without Queues).
+ */
+
+export interface TriageMessage {
+	feedback_id: string;
+	enqueued_at: number;
+}
+
+// Lifecycle of a feedback row in the pipeline (feedback.pipeline_status)
+export type PipelineStatus = 'queued' | 'processing' | 'retrying' | 'done' | 'dead_letter';
+
+/**
+ * Exponential backoff for message.retry(): base, 2×base, 4×base... capped
+ */
+export function retryDelaySeconds(attempts: number, baseSeconds: number, maxSeconds: number): number {
+	const exponent = Math.max(0, attempts - 1);
+	return Math.min(maxSeconds, baseSeconds * 2 ** exponent);
+}
+
+class LocalMessage<Body> implements Message<Body> {
+	readonly timestamp = new Date();
+	outcome: 'pending' | 'ack' | 'retry' = 'pending';
+
+	constructor(readonly id: string, readonly body: Body, readonly attempts: number) {}
+
+	retry(): void {
+		this.outcome = 'retry';
+	}
+
+	ack(): void {
+		this.outcome = 'ack';
+	}
+}
+
+export interface LocalQueueOptions {
+	name?: string;
+	maxBatchSize?: number;
+	// Deliveries after the first before a message is given up on (Queues' max_retries)
+	maxRetries?: number;
+}
+
+/**
+ * Same delivery semantics as Cloudflare Queues, minus the delays:
+ * - a message is delivered again when the consumer calls retry() on it, or throws without acking it
+ * - attempts counts deliveries, starting at 1
+ * - messages that exhaust maxRetries end up in `dropped`
+ * Nothing is delivered until drain() is called.
+ */
+export class LocalQueue<Body = unknown> implements Queue<Body> {
+	readonly dropped: Body[] = [];
+	private pending: Array<{ id: string; body: Body; attempts: number }> = [];
+	private readonly name: string;
+	private readonly maxBatchSize: number;
+	private readonly maxRetries: number;
+
+	constructor(
+		private readonly consumer: (batch: MessageBatch<Body>) => Promise<void>,
+		options: LocalQueueOptions = {}
+	) {
+		this.name = options.name || 'local';
+		this.maxBatchSize = options.maxBatchSize || 10;
+		this.maxRetries = options.maxRetries ?? 3;
+	}
+
+	get size(): number {
+		return this.pending.length;
+	}
+
+	async send(body: Body): Promise<void> {
+		this.pending.push({ id: crypto.randomUUID(), body, attempts: 0 });
+	}
+
+	async sendBatch(messages: Iterable<MessageSendRequest<Body>>): Promise<void> {
+		for (const message of messages) {
+			await this.send(message.body);
+		}
+	}
+
+	/**
+	 * Deliver batches until the queue is empty. Returns the number of deliveries made.
+	 */
+	async drain(): Promise<number> {
+		let deliveries = 0;
+
+		while (this.pending.length > 0) {
+			const entries = this.pending.splice(0, this.maxBatchSize);
+			const messages = entries.map(entry => new LocalMessage(entry.id, entry.body, entry.attempts + 1));
+			deliveries += messages.length;
+
+			let failed = false;
+			try {
+				await this.consumer({
+					queue: this.name,
+					messages,
+					retryAll: () => messages.forEach(m => m.retry()),
+					ackAll: () => messages.forEach(m => m.ack())
+				});
+			} catch (error) {
+				console.error(`Local queue "${this.name}" consumer threw:`, error);
+				failed = true;
+			}
+
+			for (const message of messages) {
+				const redeliver = message.outcome === 'retry' || (failed && message.outcome === 'pending');
+				if (!redeliver) continue;
+				if (message.attempts > this.maxRetries) {
+					this.dropped.push(message.body);
+				} else {
+					this.pending.push({ id: message.id, body: message.body, attempts: message.attempts });
+				}
+			}
+		}
+
+		return deliveries;
+	}
+}
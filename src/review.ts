@@ -0,0 +1,82 @@
+/**
+ * Review queue
+ * Classifications triage isn't sure about wait for a human: the AI's confidence is below
+ * review.confidenceThreshold, or the rules (a triage rule, else the keyword classification)
+ * disagree with the AI. They still reach the digest meanwhile. A reviewer's label replaces the
+ * stored classification, and recent labels are shown to the classifier as few-shot examples.
+ */
+
+import { RULE_BASED_MODEL } from './classification';
+import type { Severity } from './rules';
+import type { ClassificationResult } from './types';
+
+export const REVIEW_REASONS = ['low_confidence', 'rule_disagreement'] as const;
+
+export type ReviewReason = (typeof REVIEW_REASONS)[number];
+
+export const REVIEW_STATUSES = ['pending', 'reviewed'] as const;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export interface FeedbackLabel {
+	label_id: string;
+	workspace_id: string;
+	feedback_id: string;
+	severity: Severity;
+	category: string;
+	// Stored classification the label replaced
+	previous_severity: string | null;
+	previous_category: string | null;
+	reviewer: string;
+	labeled_at: number;
+}
+
+// What the rules said; a triage rule only decides severity
+export interface RuleOpinion {
+	severity: Severity;
+	category?: string;
+}
+
+export interface LabelExample {
+	content: string;
+	severity: Severity;
+	category: string;
+}
+
+// Feedback longer than this is cut in the prompt's examples
+const EXAMPLE_MAX_LENGTH = 200;
+
+/**
+ * Why a classification needs a human, or null. ai is the AI's own answer, before a triage
+ * rule overrides its severity.
+ */
+export function reviewReason(
+	ai: ClassificationResult,
+	rules: RuleOpinion | null,
+	confidenceThreshold: number
+): { reason: ReviewReason; detail: string } | null {
+	// The keyword fallback answered for the AI, so there is no second opinion to compare
+	if (rules && ai.model !== RULE_BASED_MODEL) {
+		const severityDiffers = rules.severity !== ai.severity;
+		const categoryDiffers = rules.category !== undefined && rules.category !== ai.category;
+		if (severityDiffers || categoryDiffers) {
+			const said = (opinion: RuleOpinion) => opinion.category ? `${opinion.category} / ${opinion.severity}` : opinion.severity;
+			return { reason: 'rule_disagreement', detail: `Rules: ${said(rules)}, AI: ${ai.category} / ${ai.severity}` };
+		}
+	}
+	if (ai.confidence < confidenceThreshold) {
+		return { reason: 'low_confidence', detail: `Confidence ${ai.confidence.toFixed(2)} < ${confidenceThreshold}` };
+	}
+	return null;
+}
+
+// Prompt lines for the classifier; empty when there are no labels yet
+export function formatLabelExamples(examples: LabelExample[]): string {
+	if (examples.length === 0) return '';
+	const lines = examples.map(example => {
+		const content = example.content.replace(/\s+/g, ' ').trim();
+		const shown = content.length > EXAMPLE_MAX_LENGTH ? `${content.substring(0, EXAMPLE_MAX_LENGTH - 3)}...` : content;
+		return `Feedback: "${shown}" → {"category":"${example.category}","severity":"${example.severity}"}`;
+	});
+	return `Examples labeled by the team:\n${lines.join('\n')}\n\n`;
+}
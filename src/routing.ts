@@ -0,0 +1,91 @@
+/**
+ * Alert routing
+ * Routes in D1 (alert_routes) send an instant alert to one or more named destinations
+ * (alert_destinations) by category, severity, source or keyword. An alert no route
+ * claims goes to config.notifications.alerts, by default the workspace's own chat
+ * (the "default" destination).
+ */
+
+import { compilePattern } from './rules';
+import type { Severity } from './rules';
+import type { NotifierChannel } from './notifier';
+
+export const DEFAULT_DESTINATION = 'default';
+
+export interface AlertDestination {
+	destination_id: string;
+	name: string;
+	channel: NotifierChannel;
+	// Telegram chat id, Slack incoming webhook URL, comma-separated email addresses or webhook URL
+	target: string;
+	// Webhook signing secret
+	secret?: string | null;
+	// Delivery policy (policy.ts): "22:00-07:00" in the workspace's digest.timezone, and categories never alerted here
+	quiet_hours?: string | null;
+	muted_categories?: string[];
+}
+
+export interface AlertRoute {
+	route_id: string;
+	workspace_id: string;
+	name: string;
+	// Each list narrows the route; an empty list matches anything
+	categories: string[];
+	severities: Severity[];
+	sources: string[];
+	// Whole-word phrases, any one of which must appear in the feedback
+	keywords: string[];
+	destinations: string[];
+	enabled: boolean;
+}
+
+export interface RoutableAlert {
+	category: string;
+	severity: Severity;
+	source: string;
+	content: string;
+}
+
+const DESTINATION_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+export function isValidDestinationId(id: string): boolean {
+	return DESTINATION_ID_PATTERN.test(id);
+}
+
+/**
+ * The keyword that matched ('' for a route without keywords), or null when the route doesn't apply
+ */
+export function matchRoute(route: AlertRoute, alert: RoutableAlert): string | null {
+	if (!route.enabled) return null;
+	if (route.categories.length > 0 && !route.categories.some(c => c.toLowerCase() === alert.category.toLowerCase())) return null;
+	if (route.severities.length > 0 && !route.severities.includes(alert.severity)) return null;
+	if (route.sources.length > 0 && !route.sources.includes(alert.source)) return null;
+	if (route.keywords.length === 0) return '';
+
+	for (const keyword of route.keywords) {
+		const match = alert.content.match(compilePattern('phrase', keyword));
+		if (match) return match[0];
+	}
+	return null;
+}
+
+/**
+ * Destinations for an alert: every matching route's destinations, in route order without
+ * repeats, or the fallback destinations when nothing matches
+ */
+export function routeAlert(
+	routes: readonly AlertRoute[],
+	alert: RoutableAlert,
+	fallback: readonly string[] = [DEFAULT_DESTINATION]
+): { destinations: string[]; routeIds: string[] } {
+	const destinations: string[] = [];
+	const routeIds: string[] = [];
+	for (const route of routes) {
+		if (matchRoute(route, alert) === null) continue;
+		routeIds.push(route.route_id);
+		for (const destination of route.destinations) {
+			if (!destinations.includes(destination)) destinations.push(destination);
+		}
+	}
+	return { destinations: destinations.length > 0 ? destinations : [...fallback], routeIds };
+}
@@ -0,0 +1,108 @@
+/**
+ * Triage rules
+ * Hard-rule layer that runs before AI classification. Rules live in D1 (triage_rules) so they
+ * can be tuned without a redeploy; the first matching rule sets the feedback's severity.
+ */
+
+import type { FeedbackSource, ClassificationResult } from './types';
+
+export const RULE_MATCH_TYPES = ['phrase', 'substring', 'regex'] as const;
+
+// phrase: whole words/phrases, case-insensitive ("deleted" doesn't match "undeleted")
+// substring: anywhere in the text; regex: JavaScript regular expression, case-insensitive
+export type RuleMatchType = (typeof RULE_MATCH_TYPES)[number];
+
+export type Severity = ClassificationResult['severity'];
+
+export const SEVERITIES: readonly Severity[] = ['P0', 'P1', 'P2', 'P3'];
+
+export interface TriageRule {
+	rule_id: string;
+	// null = applies to every workspace
+	workspace_id: string | null;
+	name: string;
+	match_type: RuleMatchType;
+	pattern: string;
+	// Phrases that cancel a match they contain, e.g. "not a crash" for a "crash" rule
+	negations: string[];
+	// Empty = every source
+	sources: FeedbackSource[];
+	severity: Severity;
+	enabled: boolean;
+}
+
+export interface RuleHit {
+	rule: TriageRule;
+	// Text that triggered the rule
+	matched: string;
+}
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Word boundaries that also work next to apostrophes and non-ASCII letters ("won't", "café")
+function phraseRegex(phrase: string): RegExp {
+	return new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegex(phrase.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}_])`, 'giu');
+}
+
+export function compilePattern(matchType: RuleMatchType, pattern: string): RegExp {
+	if (matchType === 'regex') return new RegExp(pattern, 'gi');
+	if (matchType === 'substring') return new RegExp(escapeRegex(pattern), 'gi');
+	return phraseRegex(pattern);
+}
+
+/**
+ * Why a pattern can't be used, or null if it's fine
+ */
+export function patternError(matchType: RuleMatchType, pattern: string): string | null {
+	if (pattern.trim() === '') return 'pattern must not be empty';
+	try {
+		const regex = compilePattern(matchType, pattern);
+		// A pattern that matches the empty string would fire on every feedback
+		if (new RegExp(regex.source, regex.flags.replace('g', '')).test('')) {
+			return 'pattern must not match empty text';
+		}
+	} catch (error) {
+		return `pattern is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+	}
+	return null;
+}
+
+function spans(regex: RegExp, content: string): Array<[number, number]> {
+	return Array.from(content.matchAll(regex), m => [m.index!, m.index! + m[0].length] as [number, number])
+		.filter(([start, end]) => end > start);
+}
+
+/**
+ * The text a rule matches in this feedback, or null.
+ * A match inside one of the rule's negation phrases doesn't count, so "not a crash"
+ * suppresses "crash" there while "not a crash... then it crashed" still fires.
+ */
+export function matchRule(rule: TriageRule, content: string, source: FeedbackSource): string | null {
+	if (!rule.enabled) return null;
+	if (rule.sources.length > 0 && !rule.sources.includes(source)) return null;
+
+	const negated = rule.negations.flatMap(negation => spans(phraseRegex(negation), content));
+	for (const [start, end] of spans(compilePattern(rule.match_type, rule.pattern), content)) {
+		const insideNegation = negated.some(([nStart, nEnd]) => nStart <= start && end <= nEnd);
+		if (!insideNegation) {
+			return content.substring(start, end);
+		}
+	}
+	return null;
+}
+
+/**
+ * First matching rule, most severe first; ties keep the given order
+ */
+export function evaluateRules(rules: readonly TriageRule[], content: string, source: FeedbackSource): RuleHit | null {
+	const ordered = [...rules].sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+	for (const rule of ordered) {
+		const matched = matchRule(rule, content, source);
+		if (matched !== null) {
+			return { rule, matched };
+		}
+	}
+	return null;
+}
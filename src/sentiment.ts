@@ -0,0 +1,118 @@
+/**
+ * Sentiment and urgency
+ * Each feedback gets a sentiment score (0 = very negative, 1 = very positive) and an urgency
+ * score (0 = can wait, 1 = needs action now), stored in feedback_analysis. Workers AI scores
+ * them; when it fails, a small lexicon does. A cluster's sentiment is the average of its members.
+ */
+
+export const SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+
+export type Sentiment = (typeof SENTIMENTS)[number];
+
+// Model name recorded when the lexicon answered instead of the AI
+export const LEXICON_MODEL = 'lexicon';
+
+// Scores at or past these thresholds are positive / negative; in between is neutral
+const POSITIVE_THRESHOLD = 0.6;
+const NEGATIVE_THRESHOLD = 0.4;
+
+export interface SentimentAnalysis {
+	sentiment: Sentiment;
+	sentiment_score: number;
+	urgency_score: number;
+	// Workers AI model that answered, or 'lexicon'
+	model: string;
+}
+
+const POSITIVE_WORDS = new Set([
+	'great', 'love', 'loving', 'loved', 'thanks', 'thank', 'appreciate', 'appreciated', 'excellent', 'awesome',
+	'amazing', 'perfect', 'fantastic', 'nice', 'helpful', 'smooth', 'improved', 'works', 'good', 'happy',
+	'glad', 'wonderful', 'impressed', 'best', 'fixed', 'easy', 'intuitive', 'beautiful', 'fast'
+]);
+
+const NEGATIVE_WORDS = new Set([
+	'crash', 'crashes', 'crashed', 'crashing', 'broken', 'bug', 'buggy', 'error', 'errors', 'fail', 'failed',
+	'fails', 'failing', 'slow', 'stuck', 'frustrated', 'frustrating', 'annoying', 'terrible', 'awful',
+	'horrible', 'worst', 'hate', 'unusable', 'useless', 'wrong', 'lost', "can't", 'cannot', "won't",
+	'unable', 'disappointed', 'angry', 'refund', 'problem', 'issue', 'freezes', 'laggy', 'missing'
+]);
+
+// A negation up to two words before a sentiment word flips it ("not great", "never crashes")
+const NEGATIONS = new Set(['not', 'no', 'never', "don't", "doesn't", "isn't", "wasn't", "didn't", 'hardly']);
+
+const URGENT_WORDS = new Set([
+	'urgent', 'urgently', 'asap', 'immediately', 'emergency', 'critical', 'blocked', 'blocking', 'outage',
+	'down', 'production', 'losing', 'deadline', "can't", 'cannot', 'unable', 'charged', 'refund', 'security'
+]);
+
+export function sentimentLabel(score: number): Sentiment {
+	if (score >= POSITIVE_THRESHOLD) return 'positive';
+	if (score <= NEGATIVE_THRESHOLD) return 'negative';
+	return 'neutral';
+}
+
+/**
+ * Fallback when the AI is unavailable: counts positive and negative words (with simple
+ * negation) and urgent words. Crude, but enough to tell praise from complaints.
+ */
+export function lexiconSentiment(content: string): SentimentAnalysis {
+	const words = content.toLowerCase().replace(/[’]/g, "'").match(/[a-z']+/g) || [];
+	let positive = 0;
+	let negative = 0;
+	let urgent = 0;
+
+	words.forEach((word, i) => {
+		const negated = words.slice(Math.max(0, i - 2), i).some(previous => NEGATIONS.has(previous));
+		if (POSITIVE_WORDS.has(word)) {
+			if (negated) negative++; else positive++;
+		} else if (NEGATIVE_WORDS.has(word)) {
+			if (negated) positive++; else negative++;
+		}
+		if (URGENT_WORDS.has(word)) urgent++;
+	});
+
+	const score = 0.5 + 0.5 * (positive - negative) / (positive + negative + 1);
+	const shouting = /!{2,}/.test(content) || /\b[A-Z]{4,}\b/.test(content) ? 0.1 : 0;
+	return {
+		sentiment: sentimentLabel(score),
+		sentiment_score: round(score),
+		urgency_score: round(Math.min(1, urgent * 0.25 + shouting)),
+		model: LEXICON_MODEL
+	};
+}
+
+/**
+ * Read the AI's {"sentiment", "score", "urgency"} answer; null when there is no usable JSON.
+ * The label is derived from the score so the two never disagree.
+ */
+export function parseSentimentResponse(text: string, model: string): SentimentAnalysis | null {
+	const match = text.match(/\{[\s\S]*?\}/);
+	if (!match) return null;
+	let parsed: { sentiment?: unknown; score?: unknown; urgency?: unknown };
+	try {
+		parsed = JSON.parse(match[0]);
+	} catch {
+		return null;
+	}
+
+	const labelScore: Record<string, number> = { positive: 0.85, neutral: 0.5, negative: 0.15 };
+	const score = typeof parsed.score === 'number' ? parsed.score : labelScore[String(parsed.sentiment).toLowerCase()];
+	const urgency = Number(parsed.urgency);
+	if (score === undefined || Number.isNaN(score) || Number.isNaN(urgency)) return null;
+
+	const sentimentScore = clamp(score);
+	return {
+		sentiment: sentimentLabel(sentimentScore),
+		sentiment_score: round(sentimentScore),
+		urgency_score: round(clamp(urgency)),
+		model
+	};
+}
+
+function clamp(value: number): number {
+	return Math.max(0, Math.min(1, value));
+}
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
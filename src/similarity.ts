@@ -0,0 +1,22 @@
+/**
+ * Vector similarity for embeddings (clustering, alert grouping)
+ */
+
+export function cosineSimilarity(vecA: number[], vecB: number[]): number {
+	if (!vecA || !vecB || vecA.length === 0 || vecB.length === 0) return 0;
+	if (vecA.length !== vecB.length) return 0;
+	
+	let dotProduct = 0;
+	let normA = 0;
+	let normB = 0;
+
+	for (let i = 0; i < vecA.length; i++) {
+		dotProduct += vecA[i] * vecB[i];
+		normA += vecA[i] * vecA[i];
+		normB += vecB[i] * vecB[i];
+	}
+
+	if (normA === 0 || normB === 0) return 0;
+	const similarity = dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+	return isNaN(similarity) ? 0 : similarity;
+}
@@ -0,0 +1,206 @@
+/**
+ * Slack notifier
+ * Posts Block Kit messages to an incoming webhook. Incoming webhooks can't edit what they
+ * posted, so grouped reports and later overflow counts only show up in the digest.
+ */
+
+import { formatReportCount } from './alerts';
+import { delivered, failed, parseRetryAfter, priorityEmoji, truncate } from './notifier';
+import { formatAccount, formatAccountImpact } from './customers';
+import type { AlertView, Delivery, DigestView, HeldSummaryView, Notifier, OverflowView } from './notifier';
+
+export interface SlackMessage {
+	// Notification / fallback text
+	text: string;
+	blocks: SlackBlock[];
+}
+
+export type SlackBlock =
+	| { type: 'header'; text: { type: 'plain_text'; text: string; emoji: true } }
+	| { type: 'section'; text: { type: 'mrkdwn'; text: string }; fields?: Array<{ type: 'mrkdwn'; text: string }> }
+	| { type: 'context'; elements: Array<{ type: 'mrkdwn'; text: string }> }
+	| { type: 'divider' };
+
+// Block Kit limits
+const MAX_BLOCKS = 50;
+const MAX_SECTION_TEXT = 3000;
+const MAX_HEADER_TEXT = 150;
+
+// mrkdwn only needs &, < and > escaped
+function escapeMrkdwn(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function header(text: string): SlackBlock {
+	return { type: 'header', text: { type: 'plain_text', text: truncate(text, MAX_HEADER_TEXT - 3), emoji: true } };
+}
+
+function section(text: string): SlackBlock {
+	return { type: 'section', text: { type: 'mrkdwn', text: truncate(text, MAX_SECTION_TEXT - 3) } };
+}
+
+function context(text: string): SlackBlock {
+	return { type: 'context', elements: [{ type: 'mrkdwn', text: truncate(text, MAX_SECTION_TEXT - 3) }] };
+}
+
+function link(url: string, label: string): string {
+	return `<${url.replace(/[<>|]/g, encodeURIComponent)}|${label}>`;
+}
+
+export function renderSlackAlert(alert: AlertView, now: number = Date.now()): SlackMessage {
+	const blocks: SlackBlock[] = [
+		header(`🚨 Instant alert - ${alert.severity}`),
+		{
+			type: 'section',
+			text: { type: 'mrkdwn', text: `💥 *${escapeMrkdwn(alert.summary)}*` },
+			fields: [
+				{ type: 'mrkdwn', text: `*Reports:*\n${formatReportCount(alert.reportCount, alert.firstReportAt, alert.lastReportAt, now)}` },
+				{ type: 'mrkdwn', text: `*Category:*\n${escapeMrkdwn(alert.category)}` },
+				{ type: 'mrkdwn', text: `*Source:*\n${escapeMrkdwn(alert.source)}` },
+				{ type: 'mrkdwn', text: `*User:*\n${escapeMrkdwn(alert.user || 'Unknown')}` },
+			],
+		},
+		section(`>${escapeMrkdwn(truncate(alert.content, 500)).replace(/\n/g, '\n>')}`),
+		context(`*Reasoning:* ${escapeMrkdwn(alert.reasoning)}${alert.link ? ` · ${link(alert.link, 'View feedback')}` : ''}`),
+	];
+	if (alert.status) {
+		blocks.push(context(`_${escapeMrkdwn(alert.status)}_`));
+	}
+	return { text: `🚨 ${alert.severity} alert: ${alert.summary}`, blocks };
+}
+
+export function renderSlackOverflow(overflow: OverflowView): SlackMessage {
+	const categories = overflow.byCategory.map(c => `${escapeMrkdwn(c.category)} ${c.count}`).join(', ');
+	const held = `*${overflow.heldBack}* more urgent report${overflow.heldBack === 1 ? '' : 's'} held back this hour (limit: ${overflow.maxPerHour} alerts/hour)`;
+	return {
+		text: `⚠️ Alert limit reached: ${overflow.heldBack} more held back`,
+		blocks: [
+			header('⚠️ Alert limit reached'),
+			section(`${held}${categories ? `\n*By category:* ${categories}` : ''}`),
+			context('They will be included in the morning digest. Check the dashboard if this looks like an outage.'),
+		],
+	};
+}
+
+export function renderSlackHeldSummary(summary: HeldSummaryView): SlackMessage {
+	const count = summary.alerts.length;
+	const title = `🌙 While you were away - ${count} alert${count === 1 ? '' : 's'} held during quiet hours`;
+	const lines = summary.alerts.map(alert =>
+		`${priorityEmoji(alert.severity)} *${alert.severity}* · ${escapeMrkdwn(alert.category)} - ${escapeMrkdwn(alert.summary)} (${escapeMrkdwn(alert.source)})` +
+		`${alert.link ? ` ${link(alert.link, 'View')}` : ''}`
+	);
+
+	// As many lines per section as fit; sections past the block limit are counted instead
+	const blocks: SlackBlock[] = [header(title)];
+	let text = '';
+	let shown = 0;
+	for (const [index, line] of lines.entries()) {
+		if (text && text.length + line.length + 1 > MAX_SECTION_TEXT) {
+			if (blocks.length === MAX_BLOCKS - 2) break;
+			blocks.push(section(text));
+			text = '';
+		}
+		text += `${text ? '\n' : ''}${line}`;
+		shown = index + 1;
+	}
+	if (text) blocks.push(section(text));
+	if (shown < lines.length) {
+		blocks.push(context(`…and ${lines.length - shown} more`));
+	}
+	return { text: title, blocks };
+}
+
+/**
+ * One section per open issue; support cases and positive feedback are one section each.
+ * Issues that don't fit in Slack's 50 blocks are counted in a closing note.
+ */
+export function renderSlackDigest(digest: DigestView): SlackMessage {
+	const title = `Morning digest${digest.workspace ? ` (${digest.workspace})` : ''} - ${digest.date}`;
+	const tail: SlackBlock[] = [];
+
+	if (digest.monitoring.length > 0) {
+		tail.push(section(`*🔧 Monitoring - fixes in progress*\n${digest.monitoring.map(issue =>
+			`${priorityEmoji(issue.priorityLevel)} *${issue.priorityLevel}* - ${escapeMrkdwn(issue.summary)} (${issue.count} reports) · ` +
+			`day ${issue.daysSinceFix}/${issue.rolloutDays}${issue.version ? ` · ${escapeMrkdwn(issue.version)}` : ''} · ` +
+			`${issue.trend} ${issue.avgBefore.toFixed(1)}/day → ${issue.avgAfter.toFixed(1)}/day`
+		).join('\n')}`));
+	}
+	if (digest.failedFixes.length > 0) {
+		tail.push(section(`*🚨 Failed fixes - need attention*\n${digest.failedFixes.map(issue =>
+			`${priorityEmoji(issue.priorityLevel)} *${issue.priorityLevel}* - ${escapeMrkdwn(issue.summary)} (${issue.count} reports) · fixed ${issue.daysSinceFix} days ago, still getting reports`
+		).join('\n')}`));
+	}
+	if (digest.support.length > 0) {
+		tail.push(section(`*Individual support cases* (${digest.support.length})\n${digest.support.map(report =>
+			`• *${escapeMrkdwn(report.category)}* (${report.priorityLevel}) - ${escapeMrkdwn(report.user)} via ${escapeMrkdwn(report.source)}` +
+			`${report.account ? ` (${formatAccount(report.account)})` : ''}: ` +
+			`"${escapeMrkdwn(truncate(report.content, 120))}"${report.link ? ` ${link(report.link, 'View')}` : ''}`
+		).join('\n')}`));
+	}
+	if (digest.positive.length > 0) {
+		tail.push(section(`*✅ What's working well* (${digest.positive.length})\n${digest.positive.map(report =>
+			`• ${escapeMrkdwn(report.user)} via ${escapeMrkdwn(report.source)}: "${escapeMrkdwn(truncate(report.content, 100))}"`
+		).join('\n')}`));
+	}
+	tail.push({ type: 'divider' }, context(`*Summary:* ${escapeMrkdwn(digest.summary)}`));
+
+	const blocks: SlackBlock[] = [header(title)];
+	if (digest.issues.length > 0) {
+		blocks.push(context(`📋 Issues from ${digest.feedbackCount} feedbacks`));
+	}
+	// Leave room for the tail and a "more issues" note
+	const room = MAX_BLOCKS - blocks.length - tail.length - 1;
+	const shown = digest.issues.slice(0, room);
+	shown.forEach((issue, index) => {
+		const sources = issue.sources.length > 0 ? `\nSources: ${issue.sources.slice(0, 3).map(escapeMrkdwn).join(', ')}` : '';
+		const accounts = issue.accounts > 0 ? `\n💰 ${formatAccountImpact(issue.accounts, issue.arr)}` : '';
+		blocks.push(section(
+			`${index + 1}. ${priorityEmoji(issue.priorityLevel)} *${issue.priorityLevel}* - ${escapeMrkdwn(issue.summary)} (${issue.count} reports)\n` +
+			`${escapeMrkdwn(issue.impact)}${accounts}\n→ ${escapeMrkdwn(issue.action)}${sources}`
+		));
+	});
+	if (shown.length < digest.issues.length) {
+		blocks.push(context(`…and ${digest.issues.length - shown.length} more issues in the full digest`));
+	}
+
+	return { text: `${title}: ${digest.summary}`, blocks: [...blocks, ...tail] };
+}
+
+/**
+ * Slack answers "ok" on success and a plain-text error code (invalid_payload, channel_not_found...) otherwise
+ */
+async function postToSlack(webhookUrl: string, message: SlackMessage): Promise<Delivery> {
+	const body = JSON.stringify(message);
+	try {
+		const response = await fetch(webhookUrl, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json' },
+			body
+		});
+		if (response.ok) {
+			return delivered(body);
+		}
+		// Slack puts its error code (invalid_payload, channel_is_archived...) in the body
+		const code = (await response.text()).trim().substring(0, 200);
+		const error = `Slack webhook error: ${code || response.statusText} (status: ${response.status})`;
+		console.error(error);
+		return failed(body, error, {
+			errorCode: /^[a-z_]+$/.test(code) ? code : String(response.status),
+			retryAfter: parseRetryAfter(response.headers.get('Retry-After'))
+		});
+	} catch (error) {
+		const errorMsg = `Slack request error: ${error instanceof Error ? error.message : String(error)}`;
+		console.error(errorMsg);
+		return failed(body, errorMsg);
+	}
+}
+
+export function slackNotifier(webhookUrl: string): Notifier {
+	return {
+		channel: 'slack',
+		sendAlert: alert => postToSlack(webhookUrl, renderSlackAlert(alert)),
+		sendOverflow: overflow => postToSlack(webhookUrl, renderSlackOverflow(overflow)),
+		sendHeldSummary: summary => postToSlack(webhookUrl, renderSlackHeldSummary(summary)),
+		sendDigest: digest => postToSlack(webhookUrl, renderSlackDigest(digest)),
+	};
+}
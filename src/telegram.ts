@@ -0,0 +1,388 @@
+/**
+ * Telegram rendering, inline keyboards and callback handling
+ * Alerts and digest issues carry Acknowledge / Snooze 24h / Mark fixed / Won't fix buttons;
+ * presses arrive at /telegram/webhook as callback_query updates (bot commands as message updates)
+ */
+
+import { formatOverflowSummary, formatReportCount } from './alerts';
+import { priorityEmoji, truncate } from './notifier';
+import { formatAccount, formatAccountImpact } from './customers';
+import type { AlertView, DigestView, HeldSummaryView, OverflowView } from './notifier';
+
+export const TELEGRAM_ACTIONS = ['ack', 'snooze', 'fixed', 'wontfix'] as const;
+
+export type TelegramAction = (typeof TELEGRAM_ACTIONS)[number];
+
+// What a button acts on: an instant alert or a digest cluster
+export type ActionTarget = 'alert' | 'cluster';
+
+export const SNOOZE_MS = 24 * 3600000;
+
+export interface InlineKeyboardButton {
+	text: string;
+	callback_data: string;
+}
+
+export interface InlineKeyboardMarkup {
+	inline_keyboard: InlineKeyboardButton[][];
+}
+
+export interface TelegramUser {
+	id: number;
+	username?: string;
+	first_name?: string;
+	last_name?: string;
+}
+
+export interface TelegramCallbackQuery {
+	id: string;
+	from: TelegramUser;
+	data?: string;
+	message?: {
+		message_id: number;
+		chat: { id: number };
+		reply_markup?: InlineKeyboardMarkup;
+	};
+}
+
+export interface TelegramMessage {
+	message_id: number;
+	chat: { id: number };
+	from?: TelegramUser;
+	text?: string;
+}
+
+export interface TelegramUpdate {
+	update_id: number;
+	message?: TelegramMessage;
+	callback_query?: TelegramCallbackQuery;
+}
+
+const ACTION_LABELS: Record<TelegramAction, { button: string; done: string }> = {
+	ack: { button: '👀 Ack', done: '👀 Acknowledged' },
+	snooze: { button: '💤 Snooze 24h', done: '💤 Snoozed 24h' },
+	fixed: { button: '🛠 Mark fixed', done: '🛠 Marked fixed' },
+	wontfix: { button: '🚫 Won\'t fix', done: '🚫 Won\'t fix' },
+};
+
+// Callback data is limited to 64 bytes: "<action>:<a|c>:<uuid>" stays well under it
+export function buildCallbackData(action: TelegramAction, target: ActionTarget, id: string): string {
+	return `${action}:${target === 'alert' ? 'a' : 'c'}:${id}`;
+}
+
+export function parseCallbackData(data: string | undefined): { action: TelegramAction; target: ActionTarget; id: string } | null {
+	const match = (data || '').match(/^(\w+):([ac]):([\w-]{1,56})$/);
+	if (!match || !(TELEGRAM_ACTIONS as readonly string[]).includes(match[1])) return null;
+	return { action: match[1] as TelegramAction, target: match[2] === 'a' ? 'alert' : 'cluster', id: match[3] };
+}
+
+function actionRow(target: ActionTarget, id: string, prefix: string = ''): InlineKeyboardButton[] {
+	return TELEGRAM_ACTIONS.map(action => ({
+		text: `${prefix}${ACTION_LABELS[action].button}`,
+		callback_data: buildCallbackData(action, target, id),
+	}));
+}
+
+export function alertKeyboard(alertId: string): InlineKeyboardMarkup {
+	const [ack, snooze, fixed, wontfix] = actionRow('alert', alertId);
+	return { inline_keyboard: [[ack, snooze], [fixed, wontfix]] };
+}
+
+/**
+ * One row per numbered digest issue: "#1 👀", "#1 💤"... Rows for issues someone has
+ * already acted on are replaced by a status row (see markKeyboardRow). A digest sent in
+ * several parts numbers each part's rows from its first issue.
+ */
+export function digestKeyboard(clusterIds: readonly string[], firstNumber: number = 1): InlineKeyboardMarkup {
+	return {
+		inline_keyboard: clusterIds.map((id, i) =>
+			actionRow('cluster', id).map(button => ({ ...button, text: `#${firstNumber + i} ${button.text.split(' ')[0]}` }))
+		),
+	};
+}
+
+// Fixed and won't fix close the issue: its buttons are removed and new reports start a fresh alert
+export function resolvesIssue(action: TelegramAction): boolean {
+	return action === 'fixed' || action === 'wontfix';
+}
+
+// Short confirmation shown to whoever pressed the button
+export function actionToast(action: TelegramAction): string {
+	return ACTION_LABELS[action].done;
+}
+
+export function actorName(user: TelegramUser): string {
+	if (user.username) return `@${user.username}`;
+	return [user.first_name, user.last_name].filter(Boolean).join(' ') || `user ${user.id}`;
+}
+
+/**
+ * "🛠 Marked fixed by @alice · Mar 2, 10:32 AM PST"
+ */
+export function formatActionStatus(action: TelegramAction, actor: string, at: number, timezone: string): string {
+	const when = new Date(at).toLocaleString('en-US', {
+		month: 'short',
+		day: 'numeric',
+		hour: 'numeric',
+		minute: '2-digit',
+		timeZone: timezone,
+		timeZoneName: 'short',
+	});
+	return `${ACTION_LABELS[action].done} by ${actor} · ${when}`;
+}
+
+/**
+ * Replace the buttons for one cluster in a digest keyboard with a single status button.
+ * The status button carries no action, so pressing it again does nothing.
+ */
+export function markKeyboardRow(keyboard: InlineKeyboardMarkup, clusterId: string, status: string): InlineKeyboardMarkup {
+	return {
+		inline_keyboard: keyboard.inline_keyboard.map(row => {
+			const parsed = parseCallbackData(row[0]?.callback_data);
+			if (!parsed || parsed.target !== 'cluster' || parsed.id !== clusterId) return row;
+			const number = row[0].text.split(' ')[0];
+			return [{ text: `${number} ${status}`, callback_data: 'noop' }];
+		}),
+	};
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+export function renderTelegramAlert(alert: AlertView, now: number = Date.now()): string {
+	let message = `🚨 <b>INSTANT ALERT - ${alert.severity}</b>
+
+💥 ${escapeHtml(alert.summary)}
+<b>Reports:</b> ${formatReportCount(alert.reportCount, alert.firstReportAt, alert.lastReportAt, now)}
+<b>Category:</b> ${escapeHtml(alert.category)}
+
+<b>Issue:</b> ${escapeHtml(truncate(alert.content, 200))}
+
+<b>Reasoning:</b> ${escapeHtml(alert.reasoning)}
+
+<b>Source:</b> ${escapeHtml(alert.source)} | <b>User:</b> ${escapeHtml(alert.user || 'Unknown')}`;
+
+	if (alert.link) {
+		message += `\n🔗 <a href="${escapeHtml(alert.link)}">View feedback</a>`;
+	}
+
+	message += `\n\n<b>Action Needed:</b> Immediate investigation required`;
+
+	// Who pressed Ack / Snooze / Mark fixed / Won't fix, and when
+	if (alert.status) {
+		message += `\n\n<i>${escapeHtml(alert.status)}</i>`;
+	}
+
+	return message;
+}
+
+export function renderTelegramOverflow(overflow: OverflowView): string {
+	return formatOverflowSummary(overflow.heldBack, overflow.maxPerHour, overflow.byCategory);
+}
+
+export function renderTelegramHeldSummary(summary: HeldSummaryView): string {
+	const count = summary.alerts.length;
+	let message = `🌙 <b>While you were away</b> - ${count} alert${count === 1 ? '' : 's'} held during quiet hours\n\n`;
+	for (const alert of summary.alerts) {
+		message += `${priorityEmoji(alert.severity)} <b>${alert.severity}</b> · ${escapeHtml(alert.category)} - ${escapeHtml(alert.summary)} (${escapeHtml(alert.source)})`;
+		message += alert.link ? ` <a href="${escapeHtml(alert.link)}">View</a>\n` : '\n';
+	}
+	return message.trimEnd();
+}
+
+// Telegram's limit for one message
+export const TELEGRAM_MAX_LENGTH = 4096;
+
+// Room kept in every part for the "Part 2/3" line
+const PART_HEADER_ROOM = 32;
+
+// One message of a long text, with the buttons that belong to what it shows
+export interface TelegramPart {
+	text: string;
+	replyMarkup?: InlineKeyboardMarkup;
+}
+
+// A piece of the digest that is never split across messages unless it's too long on its own
+interface DigestBlock {
+	html: string;
+	issue?: { clusterId: string; number: number };
+}
+
+function digestBlocks(digest: DigestView): DigestBlock[] {
+	const workspaceLabel = digest.workspace ? ` (${escapeHtml(digest.workspace)})` : '';
+	const blocks: DigestBlock[] = [{ html: `<b>MORNING DIGEST${workspaceLabel} - ${escapeHtml(digest.date)}</b>\n\n` }];
+	// A section heading travels with its first item, so no message ends on a bare heading
+	const section = (heading: string, items: DigestBlock[]) => {
+		if (items.length === 0) return;
+		blocks.push({ ...items[0], html: heading + items[0].html }, ...items.slice(1));
+	};
+
+	section(`<b>📋 Issues</b> (from ${digest.feedbackCount} feedbacks)\n\n`, digest.issues.map((issue, index) => {
+		let html = `${index + 1}. ${priorityEmoji(issue.priorityLevel)} <b>${issue.priorityLevel}</b> - ${escapeHtml(issue.summary)} (${issue.count} reports)\n`;
+		html += `   ${escapeHtml(issue.impact)}\n`;
+		if (issue.accounts > 0) {
+			html += `   💰 ${formatAccountImpact(issue.accounts, issue.arr)}\n`;
+		}
+		html += `   → ${escapeHtml(issue.action)}\n`;
+		if (issue.sources.length > 0) {
+			html += `   Sources: ${issue.sources.slice(0, 3).join(', ')}${issue.sources.length > 3 ? '...' : ''}\n`;
+		}
+		return { html: `${html}\n`, issue: { clusterId: issue.clusterId, number: index + 1 } };
+	}));
+
+	section(`\n<b>🔧 Monitoring - Fixes in Progress</b>\n\n`, digest.monitoring.map(issue => {
+		let html = `${priorityEmoji(issue.priorityLevel)} <b>${issue.priorityLevel}</b> - ${escapeHtml(issue.summary)} (${issue.count} reports) 🔧\n`;
+		html += `   Status: Fix Deployed (Day ${issue.daysSinceFix}/${issue.rolloutDays}) - Awaiting rollout\n`;
+		html += `   Reports trending ${issue.trend} ${issue.avgBefore.toFixed(1)}/day → ${issue.avgAfter.toFixed(1)}/day\n`;
+		if (issue.version) {
+			html += `   Version: ${escapeHtml(issue.version)}\n`;
+		}
+		return { html: `${html}   → No action needed - monitoring\n\n` };
+	}));
+
+	section(`\n<b>🚨 Failed Fixes - Need Attention</b>\n\n`, digest.failedFixes.map(issue => ({
+		html: `${priorityEmoji(issue.priorityLevel)} <b>${issue.priorityLevel}</b> - ${escapeHtml(issue.summary)} (${issue.count} reports) ⚠️\n` +
+			`   Status: FIX FAILED - Still getting high volume\n` +
+			`   Original fix: ${issue.daysSinceFix} days ago\n` +
+			`   → URGENT: Fix didn't work, needs re-investigation\n\n`
+	})));
+
+	section(
+		`\n<b>Individual Support Cases</b> (${digest.support.length} cases)\n\n<i>Single-user issues requiring individual attention:</i>\n\n`,
+		digest.support.map(report => {
+			const account = report.account ? ` 💰 ${escapeHtml(formatAccount(report.account))}` : '';
+			let html = `• <b>${escapeHtml(report.category)}</b> (${report.priorityLevel}) - User: ${escapeHtml(report.user)} via ${escapeHtml(report.source)}${account}\n`;
+			html += `  "${escapeHtml(truncate(report.content, 120))}"\n`;
+			if (report.link) {
+				html += `  🔗 <a href="${escapeHtml(report.link)}">View feedback</a>\n`;
+			}
+			return { html: `${html}\n` };
+		})
+	);
+
+	// Positive feedback is shown without links
+	section(
+		`\n━━━━━━━━━━━━━━━━\n\n<b>✅ What's Working Well</b> (${digest.positive.length} positive feedbacks)\n\n<i>User appreciation and positive feedback:</i>\n\n`,
+		digest.positive.map(report => ({
+			html: `• User: ${escapeHtml(report.user)} via ${escapeHtml(report.source)}\n  "${escapeHtml(truncate(report.content, 100))}"\n\n`
+		}))
+	);
+
+	blocks.push({ html: `\n<b>Summary:</b> ${escapeHtml(digest.summary)}` });
+	return blocks;
+}
+
+// The whole digest as one HTML text (GET /view, the /digest bot command)
+export function renderTelegramDigest(digest: DigestView): string {
+	return digestBlocks(digest).map(block => block.html).join('');
+}
+
+/**
+ * The digest as one or more messages, split between issues and sections. Each part carries
+ * the buttons for the issues it lists, numbered as in the digest.
+ */
+export function paginateTelegramDigest(digest: DigestView, max: number = TELEGRAM_MAX_LENGTH): TelegramPart[] {
+	const room = max - PART_HEADER_ROOM;
+	const blocks = digestBlocks(digest).flatMap(block => block.html.length <= room
+		? [block]
+		: splitHtml(block.html, room).map((html, i) => (i === 0 ? { ...block, html } : { html })));
+	const groups = packBlocks(blocks, room);
+	const texts = numberParts(groups.map(group => group.map(block => block.html).join('')));
+
+	return groups.map((group, i) => {
+		const issues = group.flatMap(block => (block.issue ? [block.issue] : []));
+		return {
+			text: texts[i],
+			...(issues.length > 0 ? { replyMarkup: digestKeyboard(issues.map(issue => issue.clusterId), issues[0].number) } : {})
+		};
+	});
+}
+
+/**
+ * Any other message that may be too long (bot replies): split between paragraphs
+ */
+export function splitTelegramMessage(text: string, max: number = TELEGRAM_MAX_LENGTH): string[] {
+	if (text.length <= max) return [text];
+	const room = max - PART_HEADER_ROOM;
+	const blocks = text.split(/(?<=\n\n)/).flatMap(html => (html.length <= room ? [html] : splitHtml(html, room))).map(html => ({ html }));
+	return numberParts(packBlocks(blocks, room).map(group => group.map(block => block.html).join('')));
+}
+
+// Fill each message with as many whole blocks as fit; blocks are at most max long
+function packBlocks<T extends { html: string }>(blocks: T[], max: number): T[][] {
+	const groups: T[][] = [];
+	let length = 0;
+	for (const block of blocks) {
+		const last = groups.at(-1);
+		if (last && length + block.html.length <= max) {
+			last.push(block);
+			length += block.html.length;
+		} else {
+			groups.push([block]);
+			length = block.html.length;
+		}
+	}
+	return groups;
+}
+
+// "Part 1/3" above each message once there is more than one
+function numberParts(texts: string[]): string[] {
+	if (texts.length <= 1) return texts;
+	return texts.map((text, i) => `<i>Part ${i + 1}/${texts.length}</i>\n\n${text.replace(/^\n+/, '').trimEnd()}`);
+}
+
+interface OpenTag {
+	name: string;
+	tag: string;
+}
+
+// The tags still open after token, if it is an opening or closing tag
+function applyTag(open: OpenTag[], token: string): OpenTag[] {
+	const match = token.match(/^<(\/?)([a-z][\w-]*)[^>]*>$/i);
+	if (!match) return open;
+	const name = match[2].toLowerCase();
+	if (!match[1]) return [...open, { name, tag: token }];
+	const index = open.map(tag => tag.name).lastIndexOf(name);
+	return index === -1 ? open : open.slice(0, index);
+}
+
+function closingTags(open: OpenTag[]): string {
+	return open.map(tag => `</${tag.name}>`).reverse().join('');
+}
+
+/**
+ * Cut HTML into pieces of at most max characters, at a line break if there is one, else a space.
+ * Cuts never land inside a tag or an entity; tags open at a cut are closed at the end of the piece
+ * and opened again at the start of the next, so every piece parses on its own.
+ */
+export function splitHtml(html: string, max: number): string[] {
+	const tokens = html.match(/<[^>]*>|&#?\w+;|[^]/g) || [];
+	const pieces: string[] = [];
+	let open: OpenTag[] = [];
+	let current = '';
+	let lineBreak: { at: number; open: OpenTag[] } | null = null;
+	let space: { at: number; open: OpenTag[] } | null = null;
+
+	for (const token of tokens) {
+		const next = applyTag(open, token);
+		while (current.length + token.length + closingTags(next).length > max && current.length > open.map(tag => tag.tag).join('').length) {
+			const cut = lineBreak ?? space ?? { at: current.length, open };
+			pieces.push(current.slice(0, cut.at) + closingTags(cut.open));
+			current = cut.open.map(tag => tag.tag).join('') + current.slice(cut.at);
+			lineBreak = null;
+			space = null;
+		}
+		current += token;
+		open = next;
+		if (token === '\n') lineBreak = { at: current.length, open };
+		else if (token === ' ') space = { at: current.length, open };
+	}
+	if (current) pieces.push(current);
+	return pieces;
+}
@@ -0,0 +1,86 @@
+/**
+ * Shared types for the feedback agent
+ */
+
+export const FEEDBACK_SOURCES = ['support', 'discord', 'github', 'email', 'twitter'] as const;
+
+export type FeedbackSource = (typeof FEEDBACK_SOURCES)[number];
+
+// ingest: submit feedback / webhooks, read: digests and status, admin: everything
+export const API_SCOPES = ['ingest', 'read', 'admin'] as const;
+
+export type ApiScope = (typeof API_SCOPES)[number];
+
+// Customer account tiers (customers.ts), lowest first
+export const ACCOUNT_TIERS = ['free', 'starter', 'pro', 'enterprise'] as const;
+
+export type AccountTier = (typeof ACCOUNT_TIERS)[number];
+
+export interface Feedback {
+	id: string;
+	content: string;
+	source: FeedbackSource;
+	timestamp: number;
+	user?: string;
+	link?: string;
+}
+
+export interface ClassificationResult {
+	severity: 'P0' | 'P1' | 'P2' | 'P3';
+	category: string;
+	confidence: number;
+	one_line_summary: string;
+	reasoning: string;
+	// Workers AI model that answered, or 'rule-based' when the keyword fallback did
+	model: string;
+	prompt_version: string;
+	classified_at: number;
+}
+
+export interface Cluster {
+	cluster_id: string;
+	category: string;
+	severity: string;
+	count: number;
+	first_seen: number;
+	last_seen: number;
+	representative_feedback_id: string;
+	representative_feedback: string;
+	summary: string;
+	suggested_action: string;
+	user_impact: string;
+	priority_score: number;
+	sentiment_score: number;
+	top_sources: string[];
+	// Fix tracking fields
+	fix_status?: 'open' | 'fix_deployed' | 'resolved' | 'failed' | 'wont_fix';
+	fix_deployed_date?: number;
+	fix_deployed_version?: string;
+	rollout_period_days?: number;
+	original_severity?: string;
+	current_severity?: string;
+	reports_before_fix?: number;
+	reports_after_fix?: number;
+	fix_notes?: string;
+	// Snoozed from a Telegram digest button
+	snoozed_until?: number | null;
+	// Known customer accounts behind the reports (customers.ts)
+	affected_accounts?: number;
+	affected_arr?: number;
+	top_tier?: AccountTier | null;
+}
+
+export interface PriorityIssue {
+	priority_score: number;
+	priority_level: string;
+	cluster: Cluster;
+}
+
+export interface Digest {
+	digest_id: string;
+	generated_at: number;
+	top_issues: PriorityIssue[];
+	individual_support?: PriorityIssue[]; // Single-user issues
+	positive_feedback?: PriorityIssue[]; // Positive feedback
+	summary: string;
+}
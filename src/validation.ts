@@ -0,0 +1,488 @@
+/**
+ * Request validation for JSON endpoints
+ * Small schema checker that reports every field error at once (not just the first one)
+ */
+
+import { FEEDBACK_SOURCES, API_SCOPES, ACCOUNT_TIERS } from './types';
+import type { FeedbackSource, ApiScope, AccountTier } from './types';
+import { RULE_MATCH_TYPES, SEVERITIES } from './rules';
+import type { RuleMatchType, Severity } from './rules';
+import { DELIVERY_KINDS, NOTIFIER_CHANNELS } from './notifier';
+import type { NotifierChannel } from './notifier';
+import { OUTBOX_STATUSES } from './outbox';
+import { HELD_ALERT_STATUSES } from './policy';
+import { REVIEW_REASONS, REVIEW_STATUSES } from './review';
+import { CLASSIFICATION_CATEGORIES } from './classification';
+
+// Length limits shared by every endpoint that accepts feedback
+export const LIMITS = {
+	maxBodyBytes: 100_000,
+	contentMaxLength: 10_000,
+	userMaxLength: 200,
+	linkMaxLength: 2048,
+	externalIdMaxLength: 200,
+	versionMaxLength: 64,
+	notesMaxLength: 2000,
+	nameMaxLength: 100,
+	patternMaxLength: 500,
+};
+
+export type FieldErrorCode =
+	| 'required'
+	| 'invalid_type'
+	| 'too_short'
+	| 'too_long'
+	| 'invalid_enum'
+	| 'invalid_format'
+	| 'out_of_range';
+
+export interface FieldError {
+	field: string;
+	code: FieldErrorCode;
+	message: string;
+}
+
+interface StringRule {
+	type: 'string';
+	required?: boolean;
+	minLength?: number;
+	maxLength?: number;
+	enum?: readonly string[];
+	format?: 'url';
+}
+
+interface NumberRule {
+	type: 'number';
+	required?: boolean;
+	min?: number;
+	max?: number;
+	integer?: boolean;
+}
+
+interface BooleanRule {
+	type: 'boolean';
+	required?: boolean;
+}
+
+interface ArrayRule {
+	type: 'array';
+	required?: boolean;
+	minItems?: number;
+	maxItems?: number;
+	items: StringRule;
+}
+
+export type FieldRule = StringRule | NumberRule | BooleanRule | ArrayRule;
+export type Schema = Record<string, FieldRule>;
+
+export type ValidationResult<T> =
+	| { ok: true; value: T }
+	| { ok: false; status: 400 | 413; error: 'invalid_json' | 'validation_failed' | 'payload_too_large'; message: string; errors: FieldError[] };
+
+// ==================== SCHEMAS ====================
+
+export interface FeedbackInput {
+	content: string;
+	source: FeedbackSource;
+	user?: string;
+	link?: string;
+	// Caller's own id for the item, unique per source - re-sending it returns the original feedback
+	external_id?: string;
+}
+
+export const feedbackSchema: Schema = {
+	content: { type: 'string', required: true, minLength: 1, maxLength: LIMITS.contentMaxLength },
+	source: { type: 'string', required: true, enum: FEEDBACK_SOURCES },
+	user: { type: 'string', maxLength: LIMITS.userMaxLength },
+	link: { type: 'string', maxLength: LIMITS.linkMaxLength, format: 'url' },
+	external_id: { type: 'string', maxLength: LIMITS.externalIdMaxLength },
+};
+
+export interface MarkFixedInput {
+	deployed_version?: string;
+	rollout_days?: number;
+	notes?: string;
+}
+
+export const markFixedSchema: Schema = {
+	deployed_version: { type: 'string', maxLength: LIMITS.versionMaxLength },
+	rollout_days: { type: 'number', integer: true, min: 1, max: 90 },
+	notes: { type: 'string', maxLength: LIMITS.notesMaxLength },
+};
+
+export interface ApiKeyInput {
+	name: string;
+	scopes: ApiScope[];
+	// Omit for a key that works in every workspace
+	workspace_id?: string;
+}
+
+export const apiKeySchema: Schema = {
+	name: { type: 'string', required: true, minLength: 1, maxLength: LIMITS.nameMaxLength },
+	scopes: { type: 'array', required: true, minItems: 1, maxItems: API_SCOPES.length, items: { type: 'string', enum: API_SCOPES } },
+	workspace_id: { type: 'string', maxLength: 63 },
+};
+
+export interface WorkspaceInput {
+	workspace_id?: string;
+	name?: string;
+}
+
+export const workspaceSchema: Schema = {
+	workspace_id: { type: 'string', minLength: 1, maxLength: 63 },
+	name: { type: 'string', minLength: 1, maxLength: LIMITS.nameMaxLength },
+};
+
+export interface TriageRuleInput {
+	name: string;
+	match_type?: RuleMatchType;
+	pattern: string;
+	negations?: string[];
+	sources?: FeedbackSource[];
+	severity?: Severity;
+	enabled?: boolean;
+}
+
+export const triageRuleSchema: Schema = {
+	name: { type: 'string', required: true, minLength: 1, maxLength: LIMITS.nameMaxLength },
+	match_type: { type: 'string', enum: RULE_MATCH_TYPES },
+	pattern: { type: 'string', required: true, minLength: 1, maxLength: LIMITS.patternMaxLength },
+	negations: { type: 'array', maxItems: 50, items: { type: 'string', minLength: 1, maxLength: LIMITS.patternMaxLength } },
+	sources: { type: 'array', maxItems: FEEDBACK_SOURCES.length, items: { type: 'string', enum: FEEDBACK_SOURCES } },
+	severity: { type: 'string', enum: SEVERITIES },
+	enabled: { type: 'boolean' },
+};
+
+// Updates may send any subset of the fields
+export const triageRuleUpdateSchema: Schema = Object.fromEntries(
+	Object.entries(triageRuleSchema).map(([field, rule]) => [field, { ...rule, required: false }])
+);
+
+export interface DestinationInput {
+	destination_id: string;
+	name: string;
+	channel?: NotifierChannel;
+	target: string;
+	secret?: string;
+	quiet_hours?: string;
+	muted_categories?: string[];
+}
+
+export const destinationSchema: Schema = {
+	destination_id: { type: 'string', required: true, minLength: 1, maxLength: 63 },
+	name: { type: 'string', required: true, minLength: 1, maxLength: LIMITS.nameMaxLength },
+	channel: { type: 'string', enum: NOTIFIER_CHANNELS },
+	// Checked per channel by validateTarget (notifier.ts)
+	target: { type: 'string', required: true, minLength: 1, maxLength: 1000 },
+	// Webhook destinations only: HMAC key for X-Feedback-Signature
+	secret: { type: 'string', minLength: 16, maxLength: 200 },
+	// "22:00-07:00" or "off", checked by quietHoursError (policy.ts)
+	quiet_hours: { type: 'string', maxLength: 11 },
+	muted_categories: { type: 'array', maxItems: 20, items: { type: 'string', minLength: 1, maxLength: 50 } },
+};
+
+// destination_id is the key in the URL, so updates can't change it
+export const destinationUpdateSchema: Schema = {
+	name: { ...destinationSchema.name, required: false },
+	target: { ...destinationSchema.target, required: false },
+	secret: destinationSchema.secret,
+	quiet_hours: destinationSchema.quiet_hours,
+	muted_categories: destinationSchema.muted_categories,
+};
+
+export interface AlertRouteInput {
+	name: string;
+	categories?: string[];
+	severities?: Severity[];
+	sources?: FeedbackSource[];
+	keywords?: string[];
+	destinations: string[];
+	enabled?: boolean;
+}
+
+export const alertRouteSchema: Schema = {
+	name: { type: 'string', required: true, minLength: 1, maxLength: LIMITS.nameMaxLength },
+	categories: { type: 'array', maxItems: 50, items: { type: 'string', minLength: 1, maxLength: 50 } },
+	severities: { type: 'array', maxItems: SEVERITIES.length, items: { type: 'string', enum: SEVERITIES } },
+	sources: { type: 'array', maxItems: FEEDBACK_SOURCES.length, items: { type: 'string', enum: FEEDBACK_SOURCES } },
+	keywords: { type: 'array', maxItems: 50, items: { type: 'string', minLength: 1, maxLength: LIMITS.patternMaxLength } },
+	destinations: { type: 'array', required: true, minItems: 1, maxItems: 10, items: { type: 'string', minLength: 1, maxLength: 63 } },
+	enabled: { type: 'boolean' },
+};
+
+export const alertRouteUpdateSchema: Schema = Object.fromEntries(
+	Object.entries(alertRouteSchema).map(([field, rule]) => [field, { ...rule, required: false }])
+);
+
+// Query filters for GET /deliveries, GET /deliveries/outbox and GET /held-alerts
+export const deliveryLogQuerySchema: Schema = {
+	status: { type: 'string', enum: ['sent', 'failed'] },
+	kind: { type: 'string', enum: DELIVERY_KINDS },
+	destination: { type: 'string', maxLength: 63 },
+	ref_id: { type: 'string', maxLength: 100 },
+};
+
+export const outboxQuerySchema: Schema = {
+	status: { type: 'string', enum: OUTBOX_STATUSES },
+	destination: { type: 'string', maxLength: 63 },
+	ref_id: { type: 'string', maxLength: 100 },
+};
+
+export const heldAlertQuerySchema: Schema = {
+	status: { type: 'string', enum: HELD_ALERT_STATUSES },
+	destination: { type: 'string', maxLength: 63 },
+};
+
+// POST /held-alerts/release: one destination, or every destination with held alerts
+export const heldAlertReleaseSchema: Schema = {
+	destination: { type: 'string', minLength: 1, maxLength: 63 },
+};
+
+export const reviewQueueQuerySchema: Schema = {
+	status: { type: 'string', enum: REVIEW_STATUSES },
+	reason: { type: 'string', enum: REVIEW_REASONS },
+};
+
+// Omitted fields keep the stored classification, so {} confirms it as correct
+export interface FeedbackLabelInput {
+	severity?: Severity;
+	category?: string;
+	// Defaults to the API key's name
+	reviewer?: string;
+}
+
+export const feedbackLabelSchema: Schema = {
+	severity: { type: 'string', enum: SEVERITIES },
+	category: { type: 'string', enum: CLASSIFICATION_CATEGORIES },
+	reviewer: { type: 'string', minLength: 1, maxLength: LIMITS.nameMaxLength },
+};
+
+// Manual cluster edits; placed_by defaults to the API key's name
+export interface MergeClustersInput {
+	// Clusters folded into the one in the path
+	cluster_ids: string[];
+	placed_by?: string;
+}
+
+export const mergeClustersSchema: Schema = {
+	cluster_ids: { type: 'array', required: true, minItems: 1, maxItems: 50, items: { type: 'string', minLength: 1, maxLength: 64 } },
+	placed_by: { type: 'string', minLength: 1, maxLength: LIMITS.nameMaxLength },
+};
+
+export interface SplitClusterInput {
+	// Members moved out into the new cluster
+	feedback_ids: string[];
+	title?: string;
+	placed_by?: string;
+}
+
+export const splitClusterSchema: Schema = {
+	feedback_ids: { type: 'array', required: true, minItems: 1, maxItems: 500, items: { type: 'string', minLength: 1, maxLength: 64 } },
+	title: { type: 'string', minLength: 1, maxLength: 200 },
+	placed_by: { type: 'string', minLength: 1, maxLength: LIMITS.nameMaxLength },
+};
+
+export interface MoveFeedbackInput {
+	cluster_id: string;
+	placed_by?: string;
+}
+
+export const moveFeedbackSchema: Schema = {
+	cluster_id: { type: 'string', required: true, minLength: 1, maxLength: 64 },
+	placed_by: { type: 'string', minLength: 1, maxLength: LIMITS.nameMaxLength },
+};
+
+// One account in POST /customers; give mrr or arr and the other is derived
+export interface CustomerInput {
+	user: string;
+	name?: string;
+	plan?: string;
+	tier?: AccountTier;
+	mrr?: number;
+	arr?: number;
+	// ISO 8601 date or epoch ms/seconds, checked by parseCustomers (customers.ts)
+	renewal_date?: string;
+}
+
+export const customerSchema: Schema = {
+	user: { type: 'string', required: true, minLength: 1, maxLength: LIMITS.userMaxLength },
+	name: { type: 'string', maxLength: LIMITS.nameMaxLength },
+	plan: { type: 'string', maxLength: 50 },
+	tier: { type: 'string', enum: ACCOUNT_TIERS },
+	mrr: { type: 'number', min: 0, max: 1e9 },
+	arr: { type: 'number', min: 0, max: 1e10 },
+	renewal_date: { type: 'string', maxLength: 40 },
+};
+
+export const customerQuerySchema: Schema = {
+	tier: { type: 'string', enum: ACCOUNT_TIERS },
+};
+
+// ==================== VALIDATION ====================
+
+function checkField(field: string, rule: FieldRule, raw: unknown, errors: FieldError[]): unknown {
+	// Treat null and blank strings as "not provided" so optional fields can be cleared
+	const value = typeof raw === 'string' ? raw.trim() : raw;
+	if (value === undefined || value === null || value === '') {
+		if (rule.required) {
+			errors.push({ field, code: 'required', message: `${field} is required` });
+		}
+		return undefined;
+	}
+
+	if (rule.type === 'string') {
+		if (typeof value !== 'string') {
+			errors.push({ field, code: 'invalid_type', message: `${field} must be a string` });
+			return undefined;
+		}
+		if (rule.minLength !== undefined && value.length < rule.minLength) {
+			errors.push({ field, code: 'too_short', message: `${field} must be at least ${rule.minLength} characters` });
+		}
+		if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+			errors.push({ field, code: 'too_long', message: `${field} must be at most ${rule.maxLength} characters (got ${value.length})` });
+		}
+		if (rule.enum && !rule.enum.includes(value)) {
+			errors.push({ field, code: 'invalid_enum', message: `${field} must be one of: ${rule.enum.join(', ')}` });
+		}
+		if (rule.format === 'url' && !isHttpUrl(value)) {
+			errors.push({ field, code: 'invalid_format', message: `${field} must be an http(s) URL` });
+		}
+		return value;
+	}
+
+	if (rule.type === 'array') {
+		if (!Array.isArray(value)) {
+			errors.push({ field, code: 'invalid_type', message: `${field} must be an array` });
+			return undefined;
+		}
+		if (rule.minItems !== undefined && value.length < rule.minItems) {
+			errors.push({ field, code: 'too_short', message: `${field} must have at least ${rule.minItems} item${rule.minItems === 1 ? '' : 's'}` });
+		}
+		if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+			errors.push({ field, code: 'too_long', message: `${field} must have at most ${rule.maxItems} items (got ${value.length})` });
+		}
+		const items = value.map((item, i) => checkField(`${field}[${i}]`, { ...rule.items, required: true }, item, errors));
+		// Duplicates carry no meaning in a list of options
+		return items.filter((item, i) => items.indexOf(item) === i);
+	}
+
+	if (rule.type === 'boolean') {
+		if (typeof value !== 'boolean') {
+			errors.push({ field, code: 'invalid_type', message: `${field} must be true or false` });
+			return undefined;
+		}
+		return value;
+	}
+
+	if (typeof value !== 'number' || !Number.isFinite(value)) {
+		errors.push({ field, code: 'invalid_type', message: `${field} must be a number` });
+		return undefined;
+	}
+	if (rule.integer && !Number.isInteger(value)) {
+		errors.push({ field, code: 'invalid_type', message: `${field} must be an integer` });
+	}
+	if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+		errors.push({ field, code: 'out_of_range', message: `${field} must be between ${rule.min ?? '-∞'} and ${rule.max ?? '∞'}` });
+	}
+	return value;
+}
+
+function isHttpUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === 'http:' || url.protocol === 'https:';
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Validate a parsed JSON value against a schema.
+ * Unknown fields are dropped; the returned value only contains schema fields.
+ */
+export function validate<T>(schema: Schema, input: unknown): ValidationResult<T> {
+	if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+		return {
+			ok: false,
+			status: 400,
+			error: 'validation_failed',
+			message: 'Request body must be a JSON object',
+			errors: [{ field: '$', code: 'invalid_type', message: 'Expected a JSON object' }],
+		};
+	}
+
+	const errors: FieldError[] = [];
+	const value: Record<string, unknown> = {};
+	for (const [field, rule] of Object.entries(schema)) {
+		const checked = checkField(field, rule, (input as Record<string, unknown>)[field], errors);
+		if (checked !== undefined) {
+			value[field] = checked;
+		}
+	}
+
+	if (errors.length > 0) {
+		return {
+			ok: false,
+			status: 400,
+			error: 'validation_failed',
+			message: `${errors.length} field error${errors.length === 1 ? '' : 's'}`,
+			errors,
+		};
+	}
+	return { ok: true, value: value as T };
+}
+
+/**
+ * Read and validate a JSON request body.
+ * Never throws - malformed JSON and oversized bodies come back as a failed result.
+ */
+export async function parseJsonBody<T>(
+	request: Request,
+	schema: Schema,
+	options: { allowEmpty?: boolean } = {}
+): Promise<ValidationResult<T>> {
+	const text = await request.text();
+
+	if (new TextEncoder().encode(text).length > LIMITS.maxBodyBytes) {
+		return {
+			ok: false,
+			status: 413,
+			error: 'payload_too_large',
+			message: `Request body must be at most ${LIMITS.maxBodyBytes} bytes`,
+			errors: [],
+		};
+	}
+
+	if (text.trim() === '' && options.allowEmpty) {
+		return validate<T>(schema, {});
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch (error) {
+		return {
+			ok: false,
+			status: 400,
+			error: 'invalid_json',
+			message: `Malformed JSON: ${error instanceof Error ? error.message : String(error)}`,
+			errors: [],
+		};
+	}
+
+	return validate<T>(schema, parsed);
+}
+
+export function validationErrorResponse(
+	result: Extract<ValidationResult<unknown>, { ok: false }>,
+	corsHeaders: Record<string, string>
+): Response {
+	return new Response(JSON.stringify({
+		error: result.error,
+		message: result.message,
+		errors: result.errors
+	}), {
+		status: result.status,
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+	});
+}
@@ -0,0 +1,181 @@
+/**
+ * Vector index
+ * Cluster centroids and feedback embeddings live in a vector index instead of D1, so matching
+ * a feedback to a cluster is a top-k query rather than a scan over every centroid. Vectorize in
+ * production; MemoryVectorIndex stands in without the binding (tests, local dev). Each workspace
+ * is its own namespace.
+ */
+
+import { cosineSimilarity } from './similarity';
+
+export type VectorKind = 'cluster' | 'feedback';
+
+export interface VectorRecord {
+	// "cluster:<cluster_id>" or "feedback:<feedback_id>"
+	id: string;
+	values: number[];
+	// Workspace id
+	namespace: string;
+	metadata: { kind: VectorKind };
+}
+
+export interface VectorMatch {
+	id: string;
+	// Cosine similarity
+	score: number;
+}
+
+export interface VectorQuery {
+	namespace: string;
+	topK: number;
+	kind?: VectorKind;
+}
+
+export interface VectorIndex {
+	// Nearest vectors first
+	query(vector: number[], options: VectorQuery): Promise<VectorMatch[]>;
+	upsert(records: VectorRecord[]): Promise<void>;
+	getByIds(ids: string[]): Promise<VectorRecord[]>;
+	deleteByIds(ids: string[]): Promise<void>;
+}
+
+// Vectorize caps ids per getByIds call, and a mutation's payload size
+const GET_BATCH = 20;
+const MUTATION_BATCH = 100;
+// Largest topK Vectorize answers without values or metadata
+export const MAX_TOP_K = 100;
+
+export function clusterVectorId(clusterId: string): string {
+	return `cluster:${clusterId}`;
+}
+
+export function feedbackVectorId(feedbackId: string): string {
+	return `feedback:${feedbackId}`;
+}
+
+// Cluster id behind a match, or null for other kinds of vector
+export function clusterIdFromVector(id: string): string | null {
+	return id.startsWith('cluster:') ? id.slice('cluster:'.length) : null;
+}
+
+/**
+ * Vectorize binding behind the VectorIndex interface. The index must use the cosine metric and
+ * have a metadata index on "kind". Mutations are applied asynchronously: a query right after an
+ * upsert may not see it yet.
+ */
+export function vectorizeIndex(binding: Vectorize): VectorIndex {
+	return {
+		async query(vector, options) {
+			const result = await binding.query(vector, {
+				topK: options.topK,
+				namespace: options.namespace,
+				...(options.kind ? { filter: { kind: options.kind } } : {})
+			});
+			return result.matches.map(match => ({ id: match.id, score: match.score }));
+		},
+
+		async upsert(records) {
+			for (let i = 0; i < records.length; i += MUTATION_BATCH) {
+				await binding.upsert(records.slice(i, i + MUTATION_BATCH));
+			}
+		},
+
+		async getByIds(ids) {
+			const records: VectorRecord[] = [];
+			for (let i = 0; i < ids.length; i += GET_BATCH) {
+				const vectors = await binding.getByIds(ids.slice(i, i + GET_BATCH));
+				records.push(...vectors.map(vector => ({
+					id: vector.id,
+					values: Array.from(vector.values),
+					namespace: vector.namespace || '',
+					metadata: { kind: (vector.metadata as { kind?: VectorKind } | undefined)?.kind || 'feedback' }
+				})));
+			}
+			return records;
+		},
+
+		async deleteByIds(ids) {
+			for (let i = 0; i < ids.length; i += MUTATION_BATCH) {
+				await binding.deleteByIds(ids.slice(i, i + MUTATION_BATCH));
+			}
+		}
+	};
+}
+
+/**
+ * Exact search over an in-memory map, with the same interface and scores as Vectorize.
+ * Contents last as long as the isolate.
+ */
+export class MemoryVectorIndex implements VectorIndex {
+	private readonly records = new Map<string, VectorRecord>();
+
+	get size(): number {
+		return this.records.size;
+	}
+
+	async query(vector: number[], options: VectorQuery): Promise<VectorMatch[]> {
+		const matches: VectorMatch[] = [];
+		for (const record of this.records.values()) {
+			if (record.namespace !== options.namespace) continue;
+			if (options.kind && record.metadata.kind !== options.kind) continue;
+			matches.push({ id: record.id, score: cosineSimilarity(vector, record.values) });
+		}
+		return matches.sort((a, b) => b.score - a.score).slice(0, options.topK);
+	}
+
+	async upsert(records: VectorRecord[]): Promise<void> {
+		for (const record of records) {
+			this.records.set(record.id, { ...record, values: [...record.values] });
+		}
+	}
+
+	async getByIds(ids: string[]): Promise<VectorRecord[]> {
+		return ids.flatMap(id => {
+			const record = this.records.get(id);
+			return record ? [record] : [];
+		});
+	}
+
+	async deleteByIds(ids: string[]): Promise<void> {
+		ids.forEach(id => this.records.delete(id));
+	}
+}
+
+/**
+ * The index, with whatever was upserted through the wrapper readable at once. Vectorize applies
+ * mutations asynchronously, so a vector written a moment ago can be missing from the next query
+ * or getByIds; a clustering run wraps the index to see its own writes.
+ */
+export function withOwnWrites(index: VectorIndex): VectorIndex {
+	const written = new MemoryVectorIndex();
+	return {
+		async query(vector, options) {
+			// Own writes override what the index returned for them
+			const scores = new Map<string, number>();
+			for (const match of [...await index.query(vector, options), ...await written.query(vector, options)]) {
+				scores.set(match.id, match.score);
+			}
+			return [...scores]
+				.map(([id, score]) => ({ id, score }))
+				.sort((a, b) => b.score - a.score)
+				.slice(0, options.topK);
+		},
+
+		async upsert(records) {
+			await index.upsert(records);
+			await written.upsert(records);
+		},
+
+		async getByIds(ids) {
+			const own = await written.getByIds(ids);
+			const found = new Set(own.map(record => record.id));
+			const rest = ids.filter(id => !found.has(id));
+			return rest.length > 0 ? [...own, ...await index.getByIds(rest)] : own;
+		},
+
+		async deleteByIds(ids) {
+			await index.deleteByIds(ids);
+			await written.deleteByIds(ids);
+		}
+	};
+}
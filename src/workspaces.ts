@@ -0,0 +1,203 @@
+/**
+ * Workspaces
+ * One deployment serves several products. Each workspace has its own feedback stream,
+ * clusters and digests, and can override parts of the global config.
+ */
+
+import type { getConfig } from './config';
+import type { FieldError } from './validation';
+import { isValidDestinationId } from './routing';
+
+export type AppConfig = ReturnType<typeof getConfig>;
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export interface Workspace {
+	id: string;
+	name: string;
+	// Global config with this workspace's settings applied
+	config: AppConfig;
+}
+
+// Everything a workspace may override; anything left out falls back to src/config.ts
+export interface WorkspaceSettings {
+	telegram?: { chatId?: string };
+	clustering?: { similarityThreshold?: number; clusterLookbackDays?: number };
+	priority?: { severityWeight?: number; frequencyWeight?: number; recencyWeight?: number; sentimentWeight?: number; revenueWeight?: number };
+	priorityThresholds?: { p0?: number; p1?: number; p2?: number };
+	digest?: { maxIssues?: number; timezone?: string; hour?: number };
+	alerts?: { groupingWindowMinutes?: number; groupingSimilarity?: number; maxPerHour?: number };
+	notifications?: { digest?: string[]; alerts?: string[] };
+	review?: { confidenceThreshold?: number; fewShotExamples?: number };
+	customers?: { fullScoreArr?: number; highValueArr?: number };
+}
+
+type SettingRule =
+	| { type: 'string'; maxLength: number }
+	| { type: 'number'; min: number; max: number; integer?: boolean }
+	| { type: 'timezone' }
+	| { type: 'destinations'; maxItems: number };
+
+const SETTINGS_RULES: Record<string, Record<string, SettingRule>> = {
+	telegram: { chatId: { type: 'string', maxLength: 64 } },
+	clustering: {
+		similarityThreshold: { type: 'number', min: 0, max: 1 },
+		clusterLookbackDays: { type: 'number', min: 1, max: 90, integer: true },
+	},
+	priority: {
+		severityWeight: { type: 'number', min: 0, max: 1 },
+		frequencyWeight: { type: 'number', min: 0, max: 1 },
+		recencyWeight: { type: 'number', min: 0, max: 1 },
+		sentimentWeight: { type: 'number', min: 0, max: 1 },
+		revenueWeight: { type: 'number', min: 0, max: 1 },
+	},
+	priorityThresholds: {
+		p0: { type: 'number', min: 0, max: 100 },
+		p1: { type: 'number', min: 0, max: 100 },
+		p2: { type: 'number', min: 0, max: 100 },
+	},
+	digest: {
+		maxIssues: { type: 'number', min: 1, max: 50, integer: true },
+		timezone: { type: 'timezone' },
+		hour: { type: 'number', min: 0, max: 23, integer: true },
+	},
+	alerts: {
+		groupingWindowMinutes: { type: 'number', min: 0, max: 1440, integer: true },
+		groupingSimilarity: { type: 'number', min: 0, max: 1 },
+		maxPerHour: { type: 'number', min: 1, max: 1000, integer: true },
+	},
+	notifications: {
+		digest: { type: 'destinations', maxItems: 10 },
+		alerts: { type: 'destinations', maxItems: 10 },
+	},
+	review: {
+		confidenceThreshold: { type: 'number', min: 0, max: 1 },
+		fewShotExamples: { type: 'number', min: 0, max: 20, integer: true },
+	},
+	customers: {
+		fullScoreArr: { type: 'number', min: 1, max: 1e10 },
+		highValueArr: { type: 'number', min: 0, max: 1e10 },
+	},
+};
+
+const WORKSPACE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+export function isValidWorkspaceId(id: string): boolean {
+	return WORKSPACE_ID_PATTERN.test(id);
+}
+
+/**
+ * Split a "/w/<workspace>/..." prefix off a request path
+ */
+export function parseWorkspacePath(pathname: string): { workspaceId: string | null; path: string } {
+	const match = pathname.match(/^\/w\/([^/]+)(\/.*)?$/);
+	if (!match) {
+		return { workspaceId: null, path: pathname };
+	}
+	return { workspaceId: decodeURIComponent(match[1]).toLowerCase(), path: match[2] || '/' };
+}
+
+export function applyWorkspaceSettings(base: AppConfig, settings: WorkspaceSettings | null | undefined): AppConfig {
+	if (!settings) return base;
+	return {
+		...base,
+		telegram: { ...base.telegram, ...dropUndefined(settings.telegram) },
+		clustering: { ...base.clustering, ...dropUndefined(settings.clustering) },
+		priority: { ...base.priority, ...dropUndefined(settings.priority) },
+		priorityThresholds: { ...base.priorityThresholds, ...dropUndefined(settings.priorityThresholds) },
+		digest: { ...base.digest, ...dropUndefined(settings.digest) },
+		alerts: { ...base.alerts, ...dropUndefined(settings.alerts) },
+		notifications: { ...base.notifications, ...dropUndefined(settings.notifications) },
+		review: { ...base.review, ...dropUndefined(settings.review) },
+		customers: { ...base.customers, ...dropUndefined(settings.customers) },
+	};
+}
+
+function dropUndefined<T extends object>(value: T | undefined): Partial<T> {
+	if (!value) return {};
+	return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Check a settings object from the API. Unknown sections and keys are errors rather than
+ * silently ignored, so a typo doesn't leave a workspace on the global default.
+ */
+export function validateWorkspaceSettings(raw: unknown): { ok: true; settings: WorkspaceSettings } | { ok: false; errors: FieldError[] } {
+	if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+		return { ok: false, errors: [{ field: 'settings', code: 'invalid_type', message: 'settings must be an object' }] };
+	}
+
+	const errors: FieldError[] = [];
+	const settings: Record<string, unknown> = {};
+
+	for (const [section, value] of Object.entries(raw as Record<string, unknown>)) {
+		const field = `settings.${section}`;
+
+		const rules = SETTINGS_RULES[section];
+		if (!rules) {
+			errors.push({ field, code: 'invalid_enum', message: `Unknown settings section "${section}"` });
+			continue;
+		}
+		if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+			errors.push({ field, code: 'invalid_type', message: `${field} must be an object` });
+			continue;
+		}
+
+		const checked: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+			const rule = rules[key];
+			const keyField = `${field}.${key}`;
+			if (!rule) {
+				errors.push({ field: keyField, code: 'invalid_enum', message: `Unknown setting "${key}"` });
+			} else if (rule.type === 'number') {
+				if (typeof item !== 'number' || !Number.isFinite(item) || (rule.integer && !Number.isInteger(item))) {
+					errors.push({ field: keyField, code: 'invalid_type', message: `${keyField} must be ${rule.integer ? 'an integer' : 'a number'}` });
+				} else if (item < rule.min || item > rule.max) {
+					errors.push({ field: keyField, code: 'out_of_range', message: `${keyField} must be between ${rule.min} and ${rule.max}` });
+				} else {
+					checked[key] = item;
+				}
+			} else if (rule.type === 'destinations') {
+				// Ids are checked against alert_destinations when something is sent, like route destinations
+				if (!Array.isArray(item) || item.length === 0 || !item.every(id => typeof id === 'string' && isValidDestinationId(id))) {
+					errors.push({ field: keyField, code: 'invalid_type', message: `${keyField} must be a non-empty list of destination ids` });
+				} else if (item.length > rule.maxItems) {
+					errors.push({ field: keyField, code: 'too_long', message: `${keyField} must have at most ${rule.maxItems} destinations` });
+				} else {
+					checked[key] = [...new Set(item)];
+				}
+			} else if (typeof item !== 'string' || item.trim() === '') {
+				errors.push({ field: keyField, code: 'invalid_type', message: `${keyField} must be a non-empty string` });
+			} else if (rule.type === 'string' && item.length > rule.maxLength) {
+				errors.push({ field: keyField, code: 'too_long', message: `${keyField} must be at most ${rule.maxLength} characters` });
+			} else if (rule.type === 'timezone' && !isValidTimezone(item)) {
+				errors.push({ field: keyField, code: 'invalid_format', message: `${keyField} must be an IANA timezone such as Europe/Berlin` });
+			} else {
+				checked[key] = item.trim();
+			}
+		}
+		settings[section] = checked;
+	}
+
+	return errors.length > 0 ? { ok: false, errors } : { ok: true, settings: settings as WorkspaceSettings };
+}
+
+/**
+ * The cron fires every few minutes; a workspace's digest is due in the hour matching its digest.hour
+ * in its own timezone, at most once per day
+ */
+export function isDigestDue(now: Date, timezone: string, hour: number, lastDigestAt: number | null): boolean {
+	const localHour = Number(new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' }).format(now));
+	if (localHour !== hour) return false;
+	// Only the first tick of that hour sends it; also guards against retried or duplicate invocations
+	return lastDigestAt === null || now.getTime() - lastDigestAt > 20 * 3600000;
+}
@@ -0,0 +1,120 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import worker from '../src/index';
+import { pickAlertGroup, formatReportCount, formatOverflowSummary } from '../src/alerts';
+import type { TriageMessage } from '../src/queue';
+
+describe('alert grouping', () => {
+	const candidates = [
+		{ alert_id: 'login', embedding: [0, 1, 0], report_count: 2 },
+		{ alert_id: 'crash', embedding: [1, 0.1, 0], report_count: 1 },
+		{ alert_id: 'export', embedding: [0.5, 0.5, 0.7], report_count: 1 }
+	];
+
+	it('joins the most similar open alert above the threshold', () => {
+		const group = pickAlertGroup([1, 0, 0], candidates, 0.9);
+		expect(group?.alert.alert_id).toBe('crash');
+		expect(group!.similarity).toBeGreaterThan(0.99);
+	});
+
+	it('starts a new alert when nothing is similar enough or the embedding failed', () => {
+		expect(pickAlertGroup([0, 0, 1], candidates, 0.9)).toBeNull();
+		expect(pickAlertGroup([0, 0, 0], candidates, 0)).toBeNull();
+	});
+});
+
+describe('alert grouping on a webhook destination', () => {
+	// Every report is a P0 with the same embedding. The Vectorize stand-in never shows what was
+	// written, like an index that has not applied the upserts yet
+	const laggingIndex = {
+		async query() { return { count: 0, matches: [] }; },
+		async upsert() {},
+		async getByIds() { return []; },
+		async deleteByIds() {}
+	};
+	const aiEnv = {
+		...env,
+		VECTOR_INDEX: laggingIndex,
+		AI: {
+			async run(_model: string, input: { text?: string }) {
+				return input.text
+					? { data: [[0.6, 0.8, 0]] }
+					: { response: '{"category":"bug","severity":"P0","confidence":0.95,"one_line_summary":"Checkout fails"}' };
+			}
+		}
+	} as unknown as Env;
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	async function triage(ids: string[]) {
+		const now = Date.now();
+		await env.DB.batch(ids.map(id => env.DB.prepare(
+			`INSERT INTO feedback (id, workspace_id, content, source, timestamp, processed, instant_alert_sent, pipeline_status)
+			VALUES (?, 'default', 'Checkout fails with error 500', 'support', ?, 0, 0, 'queued')`
+		).bind(id, now)));
+		const messages = ids.map(id => ({
+			id,
+			timestamp: new Date(now),
+			body: { feedback_id: id, enqueued_at: now },
+			attempts: 1,
+			ack() {},
+			retry() {}
+		}));
+		await worker.queue!({ queue: 'triage', messages, ackAll() {}, retryAll() {} } as unknown as MessageBatch<TriageMessage>, aiEnv, {} as ExecutionContext);
+	}
+
+	it('counts similar reports toward the open alert instead of posting again, before the index has them', async () => {
+		const now = Date.now();
+		await env.DB.batch([
+			env.DB.prepare(
+				`INSERT INTO alert_destinations (workspace_id, destination_id, name, channel, target, created_at, updated_at)
+				VALUES ('default', 'hook', 'Hook', 'webhook', 'https://hooks.example.com/alerts', ?, ?)`
+			).bind(now, now),
+			env.DB.prepare(
+				`INSERT INTO alert_routes (route_id, workspace_id, name, destinations, created_at, updated_at)
+				VALUES ('all-hook', 'default', 'Everything', '["hook"]', ?, ?)`
+			).bind(now, now)
+		]);
+		// A second POST would fail: no more interceptors and no network
+		let posts = 0;
+		fetchMock
+			.get('https://hooks.example.com')
+			.intercept({ method: 'POST', path: '/alerts' })
+			.reply(200, () => { posts++; return 'ok'; });
+
+		// Separate queue batches
+		await triage(['fb-hook-1']);
+		await triage(['fb-hook-2']);
+
+		expect(posts).toBe(1);
+		const alerts = await env.DB.prepare(
+			"SELECT alert_id, feedback_id, telegram_message_id, report_count FROM instant_alerts WHERE destination = 'hook'"
+		).all<{ alert_id: string; feedback_id: string; telegram_message_id: string | null; report_count: number }>();
+		expect(alerts.results).toEqual([expect.objectContaining({ feedback_id: 'fb-hook-1', telegram_message_id: null, report_count: 2 })]);
+		const alerted = await env.DB.prepare(
+			"SELECT id, instant_alert_sent, instant_alert_id FROM feedback WHERE id LIKE 'fb-hook-%' ORDER BY id"
+		).all();
+		expect(alerted.results).toEqual([
+			{ id: 'fb-hook-1', instant_alert_sent: 1, instant_alert_id: alerts.results[0].alert_id },
+			{ id: 'fb-hook-2', instant_alert_sent: 1, instant_alert_id: alerts.results[0].alert_id }
+		]);
+	});
+});
+
+describe('alert text', () => {
+	const now = Date.parse('2026-03-02T10:30:00Z');
+
+	it('shows the report counter', () => {
+		expect(formatReportCount(1, now - 5 * 60000, now - 5 * 60000, now)).toBe('1 time 5 minutes ago');
+		expect(formatReportCount(4, now - 25 * 60000, now - 10000, now)).toBe('4 (first 25 minutes ago, latest just now)');
+	});
+
+	it('summarises held-back reports by category', () => {
+		const summary = formatOverflowSummary(7, 10, [{ category: 'crash', count: 5 }, { category: 'login', count: 2 }]);
+		expect(summary).toContain('<b>7</b> more urgent reports held back this hour (limit: 10 alerts/hour)');
+		expect(summary).toContain('<b>By category:</b> crash 5, login 2');
+	});
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { generateApiKey, hashApiKey, extractApiKey, hasScope, routeScope, resolveCorsOrigin } from '../src/auth';
+
+describe('API keys', () => {
+	it('generates prefixed, unique, url-safe keys', () => {
+		const a = generateApiKey();
+		const b = generateApiKey();
+		expect(a).toMatch(/^fbk_[A-Za-z0-9_-]{32}$/);
+		expect(a).not.toBe(b);
+	});
+
+	it('hashes keys deterministically with SHA-256', async () => {
+		const hash = await hashApiKey('fbk_test');
+		expect(hash).toMatch(/^[0-9a-f]{64}$/);
+		expect(await hashApiKey('fbk_test')).toBe(hash);
+		expect(await hashApiKey('fbk_other')).not.toBe(hash);
+	});
+
+	it('reads the key from Authorization, X-API-Key, or ?api_key= on GET only', () => {
+		expect(extractApiKey(new Request('https://x/digest', { headers: { Authorization: 'Bearer fbk_a' } }))).toBe('fbk_a');
+		expect(extractApiKey(new Request('https://x/digest', { headers: { 'X-API-Key': 'fbk_b' } }))).toBe('fbk_b');
+		expect(extractApiKey(new Request('https://x/view?api_key=fbk_c'))).toBe('fbk_c');
+		expect(extractApiKey(new Request('https://x/reset?api_key=fbk_c', { method: 'POST' }))).toBeNull();
+		expect(extractApiKey(new Request('https://x/digest', { headers: { Authorization: 'Basic abc' } }))).toBeNull();
+	});
+});
+
+describe('scopes', () => {
+	it('lets admin keys do everything and keeps ingest and read separate', () => {
+		expect(hasScope(['admin'], 'ingest')).toBe(true);
+		expect(hasScope(['admin'], 'read')).toBe(true);
+		expect(hasScope(['ingest'], 'read')).toBe(false);
+		expect(hasScope(['read'], 'admin')).toBe(false);
+		expect(hasScope(['ingest', 'read'], 'read')).toBe(true);
+	});
+
+	it('maps routes to the scope they need', () => {
+		expect(routeScope('/feedback', 'POST')).toBe('ingest');
+		expect(routeScope('/feedback/batch', 'POST')).toBe('ingest');
+		expect(routeScope('/digest', 'GET')).toBe('read');
+		expect(routeScope('/feedback/abc/status', 'GET')).toBe('read');
+		expect(routeScope('/reset', 'POST')).toBe('admin');
+		expect(routeScope('/seed', 'POST')).toBe('admin');
+		expect(routeScope('/clusters/abc/mark-fixed', 'POST')).toBe('admin');
+		expect(routeScope('/admin/keys', 'GET')).toBe('admin');
+		expect(routeScope('/integrations/github/webhook', 'POST')).toBeNull();
+		expect(routeScope('/telegram/webhook', 'POST')).toBeNull();
+		expect(routeScope('/', 'GET')).toBeNull();
+	});
+});
+
+describe('CORS allowlist', () => {
+	it('echoes allowlisted origins only', () => {
+		const allowlist = ['https://dashboard.example.com/'];
+		expect(resolveCorsOrigin('https://dashboard.example.com', allowlist)).toBe('https://dashboard.example.com');
+		expect(resolveCorsOrigin('https://evil.example.com', allowlist)).toBeNull();
+		expect(resolveCorsOrigin(null, allowlist)).toBeNull();
+		expect(resolveCorsOrigin('https://anything.dev', ['*'])).toBe('*');
+	});
+});
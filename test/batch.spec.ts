@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { parseBatch, parseCsv, parseTimestamp, detectBatchFormat } from '../src/batch';
+
+const NOW = Date.UTC(2026, 5, 1);
+
+describe('batch ingestion parsing', () => {
+	it('parses quoted CSV fields with commas, quotes and newlines', () => {
+		const rows = parseCsv('content,user\r\n"Crash, again","said ""hi"""\n"multi\nline",bob\n');
+		expect(rows).toEqual([
+			['content', 'user'],
+			['Crash, again', 'said "hi"'],
+			['multi\nline', 'bob']
+		]);
+	});
+
+	it('accepts epoch seconds, epoch ms and ISO dates', () => {
+		expect(parseTimestamp(1700000000)).toBe(1700000000000);
+		expect(parseTimestamp('1700000000000')).toBe(1700000000000);
+		expect(parseTimestamp('2024-01-15T10:00:00Z')).toBe(Date.UTC(2024, 0, 15, 10));
+		expect(parseTimestamp('last tuesday')).toBeNull();
+	});
+
+	it('sniffs the format when no content type is given', () => {
+		expect(detectBatchFormat(null, '  [{"content":"x"}]')).toBe('json');
+		expect(detectBatchFormat(null, '{"content":"x"}\n{"content":"y"}')).toBe('ndjson');
+		expect(detectBatchFormat('text/csv; charset=utf-8', '[')).toBe('csv');
+	});
+
+	it('keeps original timestamps and reports rejected rows', () => {
+		const rows = parseBatch(
+			JSON.stringify([
+				{ content: 'Old ticket', source: 'support', user: 'u1', link: 'https://support.example.com/t/1', timestamp: '2026-02-01T00:00:00Z' },
+				{ content: '', source: 'support' },
+				{ content: 'From the future', source: 'email', timestamp: NOW + 86400000 }
+			]),
+			'json',
+			{},
+			NOW
+		);
+		expect(rows[0]).toEqual({
+			row: 1,
+			ok: true,
+			record: { content: 'Old ticket', source: 'support', user: 'u1', link: 'https://support.example.com/t/1', timestamp: Date.UTC(2026, 1, 1) }
+		});
+		expect(rows[1]).toMatchObject({ row: 2, ok: false, errors: [{ field: 'content', code: 'required' }] });
+		expect(rows[2]).toMatchObject({ row: 3, ok: false, errors: [{ field: 'timestamp', code: 'out_of_range' }] });
+	});
+
+	it('rejects bad NDJSON lines individually', () => {
+		const rows = parseBatch('{"content":"a","source":"discord"}\nnot json\n', 'ndjson', {}, NOW);
+		expect(rows.map(r => r.ok)).toEqual([true, false]);
+		expect(rows[1].row).toBe(2);
+	});
+
+	it('numbers rows by their place in the file, blank lines and quoted newlines included', () => {
+		const csv = 'content,source\n\n"two\nlines",discord\n\n,support\n';
+		expect(parseBatch(csv, 'csv', {}, NOW).map(r => [r.row, r.ok])).toEqual([[2, true], [5, false]]);
+		expect(parseBatch('\n{"content":"a","source":"discord"}\n\nnot json\n', 'ndjson', {}, NOW).map(r => r.row)).toEqual([2, 4]);
+	});
+
+	it('applies the default source to CSV exports without a source column', () => {
+		const rows = parseBatch('content,timestamp\nRefund never arrived,1767225600\n', 'csv', { source: 'support' }, NOW);
+		expect(rows).toEqual([{ row: 1, ok: true, record: { content: 'Refund never arrived', source: 'support', timestamp: 1767225600000 } }]);
+	});
+
+	it('throws when the CSV has no content column', () => {
+		expect(() => parseBatch('text,user\nhello,bob\n', 'csv', {}, NOW)).toThrow(/content/);
+	});
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { classificationFromRow, CLASSIFICATION_PROMPT_VERSION } from '../src/classification';
+
+describe('stored classifications', () => {
+	it('rebuilds the full result from a feedback row', () => {
+		expect(classificationFromRow({
+			classification_severity: 'P1',
+			classification_confidence: 0.85,
+			classification_category: 'payment',
+			classification_summary: 'Card charged twice on renewal',
+			classification_reasoning: 'AI: payment / P1',
+			classification_model: '@cf/meta/llama-3.1-8b-instruct',
+			classification_prompt_version: CLASSIFICATION_PROMPT_VERSION,
+			classified_at: 1767225600000
+		})).toEqual({
+			severity: 'P1',
+			confidence: 0.85,
+			category: 'payment',
+			one_line_summary: 'Card charged twice on renewal',
+			reasoning: 'AI: payment / P1',
+			model: '@cf/meta/llama-3.1-8b-instruct',
+			prompt_version: CLASSIFICATION_PROMPT_VERSION,
+			classified_at: 1767225600000
+		});
+	});
+
+	it('treats rows with only severity and confidence as unclassified', () => {
+		expect(classificationFromRow({ classification_severity: 'P0', classification_confidence: 1 })).toBeNull();
+		expect(classificationFromRow({})).toBeNull();
+	});
+});
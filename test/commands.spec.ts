@@ -0,0 +1,115 @@
+import { env, fetchMock, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+import { parseBotCommand, formatTopClusters } from '../src/commands';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+const CHAT_ID = -100555;
+const CLUSTER_ID = '3f2b9c1e-8d4a-4f6b-9e2c-7a1d5b8c0f3e';
+const botEnv = { ...env, TELEGRAM_BOT_TOKEN: '123:test-token', TELEGRAM_WEBHOOK_SECRET: 'test-secret' };
+
+describe('bot command parsing', () => {
+	it('splits the command from its arguments and drops the bot mention', () => {
+		expect(parseBotCommand('/fix@FeedbackBot 3f2b9c1e v3.2.2')).toEqual({ command: 'fix', name: 'fix', args: '3f2b9c1e v3.2.2' });
+		expect(parseBotCommand('/start')?.command).toBe('help');
+		expect(parseBotCommand('/deploy now')).toEqual({ command: null, name: 'deploy', args: 'now' });
+		expect(parseBotCommand('is the app down?')).toBeNull();
+	});
+
+	it('escapes cluster summaries in replies', () => {
+		const reply = formatTopClusters([
+			{ cluster_id: CLUSTER_ID, priority_level: 'P0', summary: 'Export <csv> fails', count: 4, fix_status: 'open' }
+		]);
+		expect(reply).toContain('Export &lt;csv&gt; fails');
+		expect(reply).toContain('<code>3f2b9c1e</code>');
+	});
+});
+
+describe('bot commands over the webhook', () => {
+	// Fake Telegram Bot API: every sendMessage is recorded instead of leaving the test
+	let sent: Array<{ chat_id: string; text: string }> = [];
+
+	beforeAll(async () => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+
+		const now = Date.now();
+		await env.DB.batch([
+			env.DB.prepare('INSERT INTO workspaces (workspace_id, name, settings, created_at) VALUES (?, ?, ?, ?)')
+				.bind('mobile', 'Mobile', JSON.stringify({ telegram: { chatId: String(CHAT_ID) } }), now),
+			env.DB.prepare(
+				`INSERT INTO clusters (cluster_id, workspace_id, title, representative_feedback, summary, count, category, severity,
+				priority_score, fix_status, first_seen, last_seen) VALUES (?, 'mobile', ?, ?, ?, 6, 'bug', 'P0', 82, 'open', ?, ?)`
+			).bind(CLUSTER_ID, 'Export fails', 'CSV export fails', 'CSV export fails on large projects', now - 3600000, now)
+		]);
+	});
+
+	afterEach(() => {
+		sent = [];
+	});
+
+	function interceptSendMessage() {
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: '/bot123:test-token/sendMessage' })
+			.reply(200, ({ body }) => {
+				sent.push(JSON.parse(String(body)));
+				return { ok: true, result: { message_id: sent.length } };
+			});
+	}
+
+	async function sendUpdate(text: string, chatId: number = CHAT_ID, secret: string = 'test-secret'): Promise<Response> {
+		const request = new IncomingRequest('https://example.com/w/mobile/telegram/webhook', {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/json', 'X-Telegram-Bot-Api-Secret-Token': secret },
+			body: JSON.stringify({
+				update_id: 1,
+				message: { message_id: 10, chat: { id: chatId }, from: { id: 7, username: 'alice' }, text }
+			})
+		});
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(request, botEnv, ctx);
+		await waitOnExecutionContext(ctx);
+		return response;
+	}
+
+	it('answers /top in the workspace chat', async () => {
+		interceptSendMessage();
+		const response = await sendUpdate('/top');
+
+		expect(await response.json()).toEqual({ result: 'replied', command: 'top' });
+		expect(sent).toHaveLength(1);
+		expect(sent[0].chat_id).toBe(String(CHAT_ID));
+		expect(sent[0].text).toContain('CSV export fails on large projects');
+		expect(sent[0].text).toContain('<code>3f2b9c1e</code>');
+	});
+
+	it('marks an issue fixed with /fix like the mark-fixed endpoint', async () => {
+		interceptSendMessage();
+		await sendUpdate('/fix 3f2b9c1e v3.2.2');
+
+		const cluster = await env.DB.prepare(
+			'SELECT fix_status, fix_deployed_version, current_severity, fix_notes FROM clusters WHERE cluster_id = ?'
+		).bind(CLUSTER_ID).first();
+		expect(cluster).toEqual({
+			fix_status: 'fix_deployed',
+			fix_deployed_version: 'v3.2.2',
+			current_severity: 'P2',
+			fix_notes: 'Marked fixed from Telegram by @alice'
+		});
+		expect(sent[0].text).toContain('Priority downgraded from P0 to P2');
+	});
+
+	it('ignores commands from chats no workspace sends to', async () => {
+		const response = await sendUpdate('/top', -100999);
+
+		expect(await response.json()).toEqual({ result: 'ignored', reason: 'chat not authorized' });
+		expect(sent).toHaveLength(0);
+	});
+
+	it('rejects updates without the webhook secret', async () => {
+		const response = await sendUpdate('/top', CHAT_ID, 'wrong');
+		expect(response.status).toBe(401);
+	});
+});
@@ -0,0 +1,168 @@
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { memberStats, mostSevere } from '../src/curation';
+
+describe('member stats', () => {
+	const member = (feedback_id: string, source: string, timestamp: number, embedding: number[] | null = null) =>
+		({ feedback_id, content: `report ${feedback_id}`, source, timestamp, embedding });
+
+	it('derives counts, sources, centroid and fix report counts from the members', () => {
+		const stats = memberStats(
+			[member('b', 'discord', 300, [0, 2]), member('a', 'support', 100, [2, 0]), member('c', 'discord', 500, [0, 0]), member('d', 'github', 700, [1, 1, 1])],
+			{ representativeId: 'gone', fixDeployedDate: 400 }
+		);
+		expect(stats).toEqual({
+			count: 4,
+			first_seen: 100,
+			last_seen: 700,
+			top_sources: ['discord', 'support', 'github'],
+			representative_feedback_id: 'a',
+			representative_feedback: 'report a',
+			centroid: [1, 1],
+			reports_before_fix: 2,
+			reports_after_fix: 2
+		});
+	});
+
+	it('keeps a representative still in the cluster, and has nothing for an empty one', () => {
+		expect(memberStats([member('a', 'support', 100), member('b', 'support', 200)], { representativeId: 'b', fixDeployedDate: null }))
+			.toMatchObject({ representative_feedback_id: 'b', centroid: null, reports_before_fix: null, reports_after_fix: null });
+		expect(memberStats([], { representativeId: null, fixDeployedDate: null })).toBeNull();
+		expect(mostSevere(['P2', 'P0', 'P3'])).toBe('P0');
+	});
+});
+
+describe('cluster edits API', () => {
+	// No Vectorize binding: centroids go to the worker's in-memory index
+	const localEnv = { ...env, ADMIN_API_KEY: 'admin-test-key', VECTOR_INDEX: undefined } as unknown as Env;
+	const hour = 3600000;
+	const now = Date.now();
+
+	async function seed() {
+		const feedback = (id: string, source: string, at: number) => env.DB.prepare(
+			`INSERT INTO feedback (id, workspace_id, content, source, timestamp, processed, instant_alert_sent, embedding, classification_severity, classification_category)
+			VALUES (?, 'default', ?, ?, ?, 1, 0, '[1,0]', 'P1', 'bug')`
+		).bind(id, `Login fails (${id})`, source, at);
+		const cluster = (id: string, severity: string, count: number, fixDate: number | null) => env.DB.prepare(
+			`INSERT INTO clusters (cluster_id, workspace_id, title, category, severity, count, first_seen, last_seen, representative_feedback_id,
+			representative_feedback, top_sources, fix_status, fix_deployed_date, reports_before_fix, reports_after_fix)
+			VALUES (?, 'default', ?, 'bug', ?, ?, ?, ?, NULL, 'Login fails', '["support"]', ?, ?, 0, 0)`
+		).bind(id, `Cluster ${id}`, severity, count, now, now, fixDate ? 'fix_deployed' : 'open', fixDate);
+		const member = (clusterId: string, feedbackId: string) =>
+			env.DB.prepare("INSERT INTO cluster_members (cluster_id, feedback_id, match_method) VALUES (?, ?, 'keyword')").bind(clusterId, feedbackId);
+
+		await env.DB.batch([
+			feedback('f1', 'support', now - 5 * hour),
+			feedback('f2', 'discord', now - 3 * hour),
+			feedback('f3', 'discord', now - hour),
+			feedback('f4', 'github', now - 2 * hour),
+			cluster('login', 'P2', 2, now - 4 * hour),
+			cluster('login-2', 'P0', 1, null),
+			cluster('misc', 'P2', 1, null),
+			member('login', 'f1'),
+			member('login', 'f2'),
+			member('login-2', 'f3'),
+			member('misc', 'f4')
+		]);
+	}
+
+	function call(path: string, body: unknown) {
+		return worker.fetch(
+			new Request(`https://example.com${path}`, {
+				method: 'POST',
+				headers: { Authorization: 'Bearer admin-test-key' },
+				body: JSON.stringify(body)
+			}),
+			localEnv,
+			createExecutionContext()
+		);
+	}
+
+	function clusterRow(clusterId: string) {
+		return env.DB.prepare(
+			'SELECT count, severity, first_seen, last_seen, top_sources, reports_before_fix, reports_after_fix FROM clusters WHERE cluster_id = ?'
+		).bind(clusterId).first();
+	}
+
+	it('merges clusters and recomputes the survivor', async () => {
+		await seed();
+		const response = await call('/clusters/login/merge', { cluster_ids: ['login-2', 'misc'], placed_by: 'ana' });
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ merged: ['login-2', 'misc'], moved: 2, cluster: { cluster_id: 'login', count: 4 } });
+
+		expect(await clusterRow('login')).toEqual({
+			count: 4,
+			severity: 'P0',
+			first_seen: now - 5 * hour,
+			last_seen: now - hour,
+			top_sources: '["discord","support","github"]',
+			reports_before_fix: 1,
+			reports_after_fix: 3
+		});
+		expect(await clusterRow('login-2')).toBeNull();
+		expect(await env.DB.prepare("SELECT pinned, placed_by, match_method FROM cluster_members WHERE feedback_id = 'f3'").first())
+			.toEqual({ pinned: 1, placed_by: 'ana', match_method: 'manual' });
+
+		expect((await call('/clusters/login/merge', { cluster_ids: ['login'] })).status).toBe(400);
+		expect(await (await call('/clusters/login/merge', { cluster_ids: ['nope'] })).json()).toMatchObject({ error: 'cluster_not_found', cluster_ids: ['nope'] });
+	});
+
+	it('splits members out into a new cluster', async () => {
+		await seed();
+		const response = await call('/clusters/login/split', { feedback_ids: ['f2'], title: 'Login on Discord' });
+		expect(response.status).toBe(201);
+		const result = await response.json() as { cluster: { cluster_id: string }; source: unknown };
+		expect(result).toMatchObject({
+			cluster: { title: 'Login on Discord', severity: 'P1', count: 1, top_sources: ['discord'], fix_status: 'open' },
+			source: { cluster_id: 'login', count: 1, reports_before_fix: 1, reports_after_fix: 0 }
+		});
+
+		expect(await (await call('/clusters/login/split', { feedback_ids: ['f3'] })).json()).toMatchObject({ error: 'not_a_member', feedback_ids: ['f3'] });
+		expect(await (await call('/clusters/login/split', { feedback_ids: ['f1'] })).json()).toMatchObject({ error: 'invalid_split' });
+	});
+
+	it('counts a report listed twice once when splitting', async () => {
+		await seed();
+		// Every member, one of them twice: nothing would be left behind
+		expect(await (await call('/clusters/login/split', { feedback_ids: ['f1', 'f2', 'f2'] })).json()).toMatchObject({ error: 'invalid_split' });
+		expect(await clusterRow('login')).toMatchObject({ count: 2 });
+
+		const response = await call('/clusters/login/split', { feedback_ids: ['f2', 'f2'] });
+		expect(response.status).toBe(201);
+		expect(await response.json()).toMatchObject({ cluster: { count: 1 }, source: { cluster_id: 'login', count: 1 } });
+	});
+
+	it('recomputes the cluster a relabeled feedback leaves', async () => {
+		await seed();
+		const label = await call('/feedback/f1/label', { category: 'performance', severity: 'P2' });
+		expect(await label.json()).toMatchObject({ changed: true, message: expect.stringContaining('clustered again') });
+
+		expect(await clusterRow('login')).toMatchObject({ count: 1, first_seen: now - 3 * hour, top_sources: '["discord"]', reports_before_fix: 0, reports_after_fix: 1 });
+		expect(await env.DB.prepare("SELECT representative_feedback_id FROM clusters WHERE cluster_id = 'login'").first('representative_feedback_id')).toBe('f2');
+		expect(await env.DB.prepare("SELECT processed FROM feedback WHERE id = 'f1'").first('processed')).toBe(0);
+
+		// Its only member relabeled, the cluster goes
+		await call('/feedback/f4/label', { category: 'performance', severity: 'P2' });
+		expect(await clusterRow('misc')).toBeNull();
+	});
+
+	it('moves one feedback, deletes the emptied cluster, and keeps it there when relabeled', async () => {
+		await seed();
+		const response = await call('/feedback/f4/move', { cluster_id: 'login' });
+		expect(await response.json()).toMatchObject({ cluster: { count: 3 }, from: { cluster_id: 'misc', deleted: true } });
+		expect(await clusterRow('misc')).toBeNull();
+
+		const label = await call('/feedback/f4/label', { category: 'performance', severity: 'P2' });
+		expect(await label.json()).toMatchObject({ changed: true, message: expect.stringContaining('stays in the cluster') });
+		expect(await env.DB.prepare("SELECT cluster_id FROM cluster_members WHERE feedback_id = 'f4'").first('cluster_id')).toBe('login');
+		expect(await env.DB.prepare("SELECT processed FROM feedback WHERE id = 'f4'").first('processed')).toBe(1);
+
+		const assignment = await worker.fetch(
+			new Request('https://example.com/feedback/f4/assignment', { headers: { Authorization: 'Bearer admin-test-key' } }),
+			localEnv,
+			createExecutionContext()
+		);
+		expect(await assignment.json()).toMatchObject({ method: 'manual', pinned: true, placed_by: 'ADMIN_API_KEY' });
+	});
+});
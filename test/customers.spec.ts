@@ -0,0 +1,96 @@
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import worker from '../src/index';
+import { customerImpact, formatAccountImpact, formatArr, isHighValue, parseCustomers, revenueScore } from '../src/customers';
+
+const revenue = {
+	fullScoreArr: 1_000_000,
+	tierScores: { free: 0, starter: 20, pro: 50, enterprise: 100 },
+	highValueArr: 50_000
+};
+
+describe('customer imports', () => {
+	it('reads CSV exports with money formatting and derives ARR from MRR', () => {
+		const rows = parseCustomers(
+			'User,Name,Tier,MRR,ARR,Renewal_Date\n' +
+			'Ana@Example.com,Acme,Enterprise,"$10,000",,2026-12-01\n' +
+			'bo@example.com,,,,"1200",\n' +
+			'cy@example.com,Cy,gold,100,,\n',
+			'csv'
+		);
+		expect(rows[0]).toEqual({
+			row: 1,
+			ok: true,
+			customer: { user: 'Ana@Example.com', name: 'Acme', plan: null, tier: 'enterprise', mrr: 10000, arr: 120000, renewal_date: Date.parse('2026-12-01') }
+		});
+		expect(rows[1]).toMatchObject({ ok: true, customer: { tier: 'free', mrr: 100, arr: 1200 } });
+		expect(rows[2]).toMatchObject({ ok: false, errors: [{ field: 'tier' }] });
+		expect(parseCustomers('user,tier\n\nana,pro\n', 'csv')).toMatchObject([{ row: 2, ok: true }]);
+	});
+
+	it('takes one JSON account or an array, and needs a user', () => {
+		expect(parseCustomers('{"user":"ana","arr":5000}', 'json')).toMatchObject([{ ok: true, customer: { mrr: 416.67 } }]);
+		expect(parseCustomers('[{"plan":"Pro"}]', 'json')).toMatchObject([{ ok: false, errors: [{ field: 'user' }] }]);
+		expect(() => parseCustomers('name,arr\nAcme,10', 'csv')).toThrow('"user" column');
+	});
+});
+
+describe('revenue impact', () => {
+	it('scores ARR on a curve with the best tier as a floor', () => {
+		const none = customerImpact([]);
+		expect(revenueScore(none, revenue)).toBe(0);
+		expect(isHighValue(none, revenue)).toBe(false);
+
+		const impact = customerImpact([{ tier: 'starter', arr: 40_000 }, { tier: 'pro', arr: 210_000 }]);
+		expect(impact).toEqual({ accounts: 2, arr: 250_000, topTier: 'pro' });
+		expect(revenueScore(impact, revenue)).toBe(50);
+		expect(isHighValue(impact, revenue)).toBe(true);
+		expect(revenueScore(customerImpact([{ tier: 'free', arr: 4_000_000 }]), revenue)).toBe(100);
+		expect(isHighValue(customerImpact([{ tier: 'enterprise', arr: 0 }]), revenue)).toBe(true);
+	});
+
+	it('formats the digest line', () => {
+		expect([950, 12_000, 12_500, 250_000, 1_200_000].map(formatArr)).toEqual(['$950', '$12k', '$12.5k', '$250k', '$1.2M']);
+		expect(formatAccountImpact(3, 120_000)).toBe('affects 3 accounts, $120k ARR');
+		expect(formatAccountImpact(1, 900)).toBe('affects 1 account, $900 ARR');
+		expect(formatAccountImpact(0, 0)).toBe('');
+	});
+});
+
+describe('customers API', () => {
+	const authEnv = { ...env, ADMIN_API_KEY: 'admin-test-key' };
+
+	beforeAll(async () => {
+		await env.DB.batch([
+			env.DB.prepare(
+				`INSERT INTO feedback (id, workspace_id, content, source, timestamp, user, processed, instant_alert_sent)
+				VALUES ('fb-ana', 'default', 'Export is broken', 'support', ?, ' ANA@example.com', 0, 0)`
+			).bind(Date.now()),
+			env.DB.prepare("INSERT INTO feedback_analysis (feedback_id, sentiment, analyzed_at) VALUES ('fb-ana', 'negative', ?)").bind(Date.now())
+		]);
+	});
+
+	function call(path: string, init: RequestInit = {}) {
+		return worker.fetch(
+			new Request(`https://example.com${path}`, { ...init, headers: { Authorization: 'Bearer admin-test-key', ...init.headers } }),
+			authEnv,
+			createExecutionContext()
+		);
+	}
+
+	it('upserts accounts by user and keeps revenue_risk in step', async () => {
+		const csv = 'user,tier,arr\nana@example.com,pro,60000\nbo@example.com,starter,nope\n';
+		const response = await call('/customers', { method: 'POST', headers: { 'Content-Type': 'text/csv' }, body: csv });
+		expect(await response.json()).toMatchObject({ format: 'csv', imported: 1, rejected: 1, rows: [{ status: 'imported' }, { status: 'rejected' }] });
+		expect(await env.DB.prepare("SELECT revenue_risk FROM feedback_analysis WHERE feedback_id = 'fb-ana'").first('revenue_risk')).toBe(60000);
+
+		// Same account, different case: updated in place
+		await call('/customers', { method: 'POST', body: JSON.stringify([{ user: 'Ana@Example.com', tier: 'enterprise', mrr: 10000 }]) });
+		const list = await (await call('/customers')).json() as { customers: Array<{ user: string; tier: string; arr: number }> };
+		expect(list.customers).toEqual([expect.objectContaining({ user: 'Ana@Example.com', tier: 'enterprise', arr: 120000 })]);
+
+		expect((await call('/customers/ana%40example.com/delete', { method: 'POST' })).status).toBe(200);
+		expect(await env.DB.prepare("SELECT revenue_risk FROM feedback_analysis WHERE feedback_id = 'fb-ana'").first('revenue_risk')).toBe(0);
+		expect((await call('/customers/ana%40example.com/delete', { method: 'POST' })).status).toBe(404);
+	});
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeForDedupe, isNearDuplicate } from '../src/dedupe';
+
+describe('cross-post detection', () => {
+	it('normalizes case, punctuation, URLs and whitespace', () => {
+		expect(normalizeForDedupe('App CRASHES on resume!!  See https://imgur.com/x.png')).toBe('app crashes on resume see');
+	});
+
+	it('treats the same report posted to two channels as a duplicate', () => {
+		expect(isNearDuplicate(
+			'The app crashes every time I return from the background on v3.2.1',
+			'the app crashes every time I return from the background on v3.2.1 :('
+		)).toBe(true);
+	});
+
+	it('tolerates a small edit but not a different report', () => {
+		const original = 'Login requires two attempts: first login flashes the dashboard then returns to the login screen with no error';
+		expect(isNearDuplicate(original, original + ' again')).toBe(true);
+		expect(isNearDuplicate(original, 'Dark mode toggle does nothing on the settings screen')).toBe(false);
+	});
+
+	it('never matches empty content', () => {
+		expect(isNearDuplicate('!!!', '???')).toBe(false);
+		expect(isNearDuplicate('', 'hello')).toBe(false);
+	});
+});
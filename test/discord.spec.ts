@@ -0,0 +1,93 @@
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { mapDiscordPayload, cleanDiscordContent } from '../src/discord';
+import type { DiscordMessage } from '../src/discord';
+import type { TriageMessage } from '../src/queue';
+
+const message: DiscordMessage = {
+	id: '1200000000000000002',
+	channel_id: '1100000000000000001',
+	guild_id: '1000000000000000000',
+	type: 0,
+	content: 'Hey <@!42> the <#77> app crashes on resume <:sadpanda:555> since <t:1767225600:R> ||v3.2.1||',
+	author: { id: '9', username: 'mobile_tester' },
+	timestamp: '2026-03-02T12:00:00.000Z',
+	mentions: [{ id: '42', username: 'support_bot_user', global_name: 'Support' }],
+	channel_names: { '77': 'android' }
+};
+
+describe('Discord adapter', () => {
+	it('cleans mentions, emoji, timestamps and spoilers', () => {
+		expect(cleanDiscordContent(message)).toBe('Hey @Support the #android app crashes on resume :sadpanda: since 2026-01-01T00:00:00.000Z v3.2.1');
+	});
+
+	it('maps a message to feedback with a jump link', () => {
+		const action = mapDiscordPayload(message);
+		expect(action).toMatchObject({
+			kind: 'create',
+			record: {
+				external_id: 'message:1200000000000000002',
+				user: 'mobile_tester',
+				link: 'https://discord.com/channels/1000000000000000000/1100000000000000001/1200000000000000002',
+				timestamp: Date.parse('2026-03-02T12:00:00.000Z'),
+				parent_external_ids: ['message:1100000000000000001']
+			}
+		});
+	});
+
+	it('unwraps gateway dispatches and treats MESSAGE_UPDATE as an update', () => {
+		expect(mapDiscordPayload({ t: 'MESSAGE_UPDATE', d: message }).kind).toBe('update');
+		expect(mapDiscordPayload({ t: 'GUILD_CREATE', d: message }).kind).toBe('ignore');
+	});
+
+	it('prefixes thread names and links replies to the referenced message', () => {
+		const action = mapDiscordPayload({
+			...message,
+			type: 19,
+			content: 'same here',
+			thread: { id: '1100000000000000001', name: 'Resume crash' },
+			message_reference: { message_id: '1150000000000000000' }
+		});
+		expect(action).toMatchObject({
+			record: {
+				content: '[Thread: Resume crash] same here',
+				parent_external_ids: ['message:1150000000000000000', 'message:1100000000000000001']
+			}
+		});
+	});
+
+	it('ignores bots and system messages', () => {
+		expect(mapDiscordPayload({ ...message, author: { ...message.author, bot: true } }).kind).toBe('ignore');
+		expect(mapDiscordPayload({ ...message, type: 7 }).kind).toBe('ignore');
+	});
+});
+
+describe('Discord webhook', () => {
+	it('stores replies with the conversation without triaging them', async () => {
+		const enqueued: string[] = [];
+		const webhookEnv = {
+			...env,
+			DISCORD_WEBHOOK_SECRET: 'discord-secret',
+			TRIAGE_QUEUE: { async sendBatch(messages: Array<{ body: TriageMessage }>) { enqueued.push(...messages.map(m => m.body.feedback_id)); } }
+		} as unknown as Env;
+		const post = async (payload: DiscordMessage) => (await worker.fetch(
+			new Request('https://example.com/integrations/discord/webhook', {
+				method: 'POST',
+				headers: { 'X-Webhook-Secret': 'discord-secret' },
+				body: JSON.stringify(payload)
+			}),
+			webhookEnv,
+			createExecutionContext()
+		)).json() as Promise<{ result: string; id: string; status: string }>;
+
+		const original = await post(message);
+		const reply = await post({ ...message, id: '1200000000000000003', content: 'same here', message_reference: { message_id: message.id } });
+
+		expect(original).toMatchObject({ result: 'created', status: 'queued' });
+		expect(reply).toMatchObject({ result: 'created', status: 'not_queued' });
+		expect(enqueued).toEqual([original.id]);
+		expect(await env.DB.prepare('SELECT parent_id, processed, pipeline_status FROM feedback WHERE id = ?').bind(reply.id).first())
+			.toEqual({ parent_id: original.id, processed: 1, pipeline_status: null });
+	});
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { parseInboundEmail, stripQuotedReply, stripSignature, htmlToText } from '../src/email';
+
+const plainEmail = [
+	'From: Jane Doe <Jane.Doe@Example.com>',
+	'To: support@company.com',
+	'Subject: App crashes when I export a report',
+	'Message-ID: <abc123@mail.example.com>',
+	'Date: Mon, 02 Mar 2026 10:15:00 +0000',
+	'Content-Type: text/plain; charset=utf-8',
+	'',
+	'Hi team,',
+	'',
+	'Every time I export the monthly report the app force closes.',
+	'',
+	'Thanks,',
+	'Jane Doe',
+	'Acme Inc',
+	''
+].join('\r\n');
+
+const htmlReply = [
+	'From: jane.doe@example.com',
+	'To: support@company.com',
+	'Subject: Re: App crashes when I export a report',
+	'Message-ID: <def456@mail.example.com>',
+	'In-Reply-To: <support-reply-1@company.com>',
+	'References: <abc123@mail.example.com> <support-reply-1@company.com>',
+	'MIME-Version: 1.0',
+	'Content-Type: multipart/alternative; boundary="b1"',
+	'',
+	'--b1',
+	'Content-Type: text/html; charset=utf-8',
+	'',
+	'<div>Still happening on v3.2.2 &amp; it lost my draft.</div><div class="gmail_quote">On Mon, Support wrote:<blockquote>Can you try again?</blockquote></div>',
+	'--b1--',
+	''
+].join('\r\n');
+
+describe('inbound email parsing', () => {
+	it('extracts sender, Message-ID and cleaned body', async () => {
+		const email = await parseInboundEmail(plainEmail);
+		expect(email.from).toBe('jane.doe@example.com');
+		expect(email.fromName).toBe('Jane Doe');
+		expect(email.messageId).toBe('abc123@mail.example.com');
+		expect(email.threadIds).toEqual([]);
+		expect(email.content).toBe('App crashes when I export a report\n\nHi team,\n\nEvery time I export the monthly report the app force closes.');
+		expect(email.autoGenerated).toBe(false);
+	});
+
+	it('falls back to the HTML part and keeps thread references nearest first', async () => {
+		const email = await parseInboundEmail(htmlReply);
+		expect(email.subject).toBe('App crashes when I export a report');
+		expect(email.threadIds).toEqual(['support-reply-1@company.com', 'abc123@mail.example.com']);
+		expect(email.content).toBe('App crashes when I export a report\n\nStill happening on v3.2.2 & it lost my draft.');
+	});
+
+	it('flags auto-replies', async () => {
+		const email = await parseInboundEmail(plainEmail.replace('Subject:', 'Auto-Submitted: auto-replied\r\nSubject:'));
+		expect(email.autoGenerated).toBe(true);
+	});
+});
+
+describe('reply and signature stripping', () => {
+	it('cuts at Gmail and Outlook quote headers', () => {
+		expect(stripQuotedReply('New info here\n\nOn Tue, 3 Mar 2026 at 09:00, Support <help@company.com>\nwrote:\n> old')).toBe('New info here\n');
+		expect(stripQuotedReply('Fixed now\nFrom: Support\nSent: Tuesday\nOld text')).toBe('Fixed now');
+		expect(stripQuotedReply('Yes\n> quoted line')).toBe('Yes');
+	});
+
+	it('removes standard and mobile signatures but keeps normal sentences', () => {
+		expect(stripSignature('Broken again\n-- \nJane\nCEO')).toBe('Broken again');
+		expect(stripSignature('Broken again\n\nSent from my iPhone')).toBe('Broken again\n');
+		expect(stripSignature('Thanks for the quick fix!')).toBe('Thanks for the quick fix!');
+	});
+
+	it('converts HTML to text without quoted blocks', () => {
+		expect(htmlToText('<p>Line one</p><p>Line&nbsp;two<br>three</p><blockquote>old</blockquote>')).toBe('Line one\nLine two\nthree\n');
+	});
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { verifyGithubSignature, mapGithubEvent } from '../src/github';
+import issuesOpened from './fixtures/github/issues-opened.json';
+import issuesLabeled from './fixtures/github/issues-labeled.json';
+import issuesClosed from './fixtures/github/issues-closed.json';
+import issueCommentCreated from './fixtures/github/issue-comment-created.json';
+import pullRequestComment from './fixtures/github/pull-request-comment.json';
+
+async function sign(secret: string, body: string): Promise<string> {
+	const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+	return 'sha256=' + [...new Uint8Array(mac)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+describe('GitHub webhook signature', () => {
+	const body = JSON.stringify(issuesOpened);
+
+	it('accepts a correctly signed body', async () => {
+		expect(await verifyGithubSignature('s3cret', body, await sign('s3cret', body))).toBe(true);
+	});
+
+	it('rejects a wrong secret, a tampered body and a missing header', async () => {
+		const signature = await sign('s3cret', body);
+		expect(await verifyGithubSignature('other', body, signature)).toBe(false);
+		expect(await verifyGithubSignature('s3cret', body + ' ', signature)).toBe(false);
+		expect(await verifyGithubSignature('s3cret', body, null)).toBe(false);
+	});
+});
+
+describe('GitHub event mapping', () => {
+	it('maps an opened issue to new feedback keyed on the issue id', () => {
+		const action = mapGithubEvent('issues', issuesOpened);
+		expect(action).toEqual({
+			kind: 'create',
+			record: {
+				external_id: 'issue:1347',
+				content: 'Crash when returning from background\n\nRepro: open app → switch to Chrome → return via Recents → app closes. v3.2.1, Android 14.',
+				user: 'mobile_dev',
+				link: 'https://github.com/company/app/issues/42',
+				timestamp: Date.parse('2026-03-02T09:15:00Z'),
+				metadata: { repo: 'company/app', number: 42, state: 'open', labels: [], event: 'issues.opened' }
+			}
+		});
+	});
+
+	it('maps label and close events onto the same external id', () => {
+		const labeled = mapGithubEvent('issues', issuesLabeled);
+		const closed = mapGithubEvent('issues', issuesClosed);
+		expect(labeled).toMatchObject({ kind: 'create', record: { external_id: 'issue:1347', metadata: { labels: ['bug', 'android'] } } });
+		expect(closed).toMatchObject({ kind: 'update', record: { external_id: 'issue:1347', metadata: { state: 'closed' } } });
+	});
+
+	it('maps comments to their own row linked to the issue', () => {
+		const action = mapGithubEvent('issue_comment', issueCommentCreated);
+		expect(action).toMatchObject({
+			kind: 'create',
+			record: {
+				external_id: 'comment:99001',
+				user: 'pixel_user',
+				link: 'https://github.com/company/app/issues/42',
+				metadata: { comment_url: 'https://github.com/company/app/issues/42#issuecomment-99001' }
+			}
+		});
+	});
+
+	it('ignores pull request comments and other events', () => {
+		expect(mapGithubEvent('issue_comment', pullRequestComment).kind).toBe('ignore');
+		expect(mapGithubEvent('push', {}).kind).toBe('ignore');
+	});
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { applyMapping, resolveField } from '../src/mapping';
+import type { WebhookMapping } from '../src/mapping';
+
+describe('generic webhook mapping', () => {
+	const payload = {
+		ticket: {
+			id: 8812,
+			subject: 'Charged twice',
+			description: 'My card was charged twice for the March invoice.',
+			url: 'https://acme.zendesk.com/agent/tickets/8812',
+			requester: { email: 'finance@customer.com' },
+			created_at: '2026-03-01T08:00:00Z'
+		},
+		answers: [{ text: 'first' }, { text: 'second' }]
+	};
+
+	it('resolves dot paths, array indexes, fallbacks and templates', () => {
+		expect(resolveField(payload, 'ticket.requester.email')).toBe('finance@customer.com');
+		expect(resolveField(payload, 'answers.1.text')).toBe('second');
+		expect(resolveField(payload, ['ticket.missing', 'ticket.subject'])).toBe('Charged twice');
+		expect(resolveField(payload, '{{ticket.subject}} (#{{ticket.id}})')).toBe('Charged twice (#8812)');
+	});
+
+	it('maps a delivery onto validated feedback', () => {
+		const mapping: WebhookMapping = {
+			source: 'support',
+			fields: {
+				content: '{{ticket.subject}}\n\n{{ticket.description}}',
+				user: 'ticket.requester.email',
+				link: 'ticket.url',
+				external_id: 'ticket.id',
+				timestamp: 'ticket.created_at'
+			}
+		};
+		expect(applyMapping(mapping, payload)).toEqual([{
+			ok: true,
+			record: {
+				content: 'Charged twice\n\nMy card was charged twice for the March invoice.',
+				source: 'support',
+				user: 'finance@customer.com',
+				link: 'https://acme.zendesk.com/agent/tickets/8812',
+				external_id: '8812',
+				timestamp: Date.parse('2026-03-01T08:00:00Z')
+			}
+		}]);
+	});
+
+	it('converts HTML bodies and splits item arrays', () => {
+		const mapping: WebhookMapping = { source: 'support', items: 'items', html: true, fields: { content: 'body' } };
+		const rows = applyMapping(mapping, { items: [{ body: '<p>Export is <b>broken</b></p>' }, { body: '' }] });
+		expect(rows[0]).toEqual({ ok: true, record: { content: 'Export is broken', source: 'support' } });
+		expect(rows[1]).toMatchObject({ ok: false, errors: [{ field: 'content', code: 'required' }] });
+	});
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { chooseAssignment, explainAssignment, extractKeyPhrases, textCandidates } from '../src/matching';
+
+describe('cluster assignment', () => {
+	it('joins the most similar cluster, not the first one over the threshold', () => {
+		const assignment = chooseAssignment([
+			{ cluster_id: 'a', method: 'embedding', similarity: 0.88, matched: [] },
+			{ cluster_id: 'b', method: 'embedding', similarity: 0.95, matched: ['login crash'] },
+			{ cluster_id: 'c', method: 'embedding', similarity: 0.5, matched: [] }
+		], 0.86);
+		expect(assignment).toMatchObject({ method: 'embedding', cluster_id: 'b', similarity: 0.95, matched: ['login crash'] });
+		expect(assignment.runner_ups.map(candidate => candidate.cluster_id)).toEqual(['a', 'c']);
+	});
+
+	it('prefers phrase over keyword matches and keeps embedding near misses as runner-ups', () => {
+		const assignment = chooseAssignment([
+			{ cluster_id: 'a', method: 'embedding', similarity: 0.8, matched: [] },
+			{ cluster_id: 'b', method: 'keyword', similarity: 0.9, matched: ['export'] },
+			{ cluster_id: 'c', method: 'phrase', similarity: 0.2, matched: ['dark mode'] },
+			{ cluster_id: 'd', method: 'phrase', similarity: 0.4, matched: ['dark mode', 'theme_bug'] }
+		], 0.86);
+		expect(assignment).toMatchObject({ method: 'phrase', cluster_id: 'd' });
+		expect(assignment.runner_ups.map(candidate => candidate.cluster_id)).toEqual(['c', 'b', 'a']);
+	});
+
+	it('starts a new cluster when nothing is close enough', () => {
+		const assignment = chooseAssignment([{ cluster_id: 'a', method: 'embedding', similarity: 0.7, matched: [] }], 0.86);
+		expect(assignment).toEqual({
+			method: 'new_cluster',
+			cluster_id: null,
+			similarity: null,
+			matched: [],
+			runner_ups: [{ cluster_id: 'a', method: 'embedding', similarity: 0.7, matched: [] }]
+		});
+		expect(explainAssignment(assignment, 0.86)).toContain('started a new cluster');
+	});
+});
+
+describe('text candidates', () => {
+	const clusters = [
+		{ cluster_id: 'theme', representative_feedback: 'Dark mode toggle is broken', category: 'bug', severity: 'P2' },
+		{ cluster_id: 'export', representative_feedback: 'CSV export fails for large reports', category: 'bug', severity: 'P2' },
+		{ cluster_id: 'export-p1', representative_feedback: 'CSV export times out', category: 'bug', severity: 'P1' }
+	];
+
+	it('scores shared phrases, then keywords within the same category and severity', () => {
+		expect(extractKeyPhrases('Dark mode not working after update')).toEqual(new Set(['dark mode', 'dark mode not', 'theme_bug']));
+
+		const candidates = textCandidates({ content: 'Dark mode not working; CSV export broken', category: 'bug', severity: 'P2' }, clusters);
+		expect(candidates).toEqual([
+			{ cluster_id: 'theme', method: 'phrase', similarity: 0.4, matched: ['dark mode', 'theme_bug'] },
+			{ cluster_id: 'export', method: 'keyword', similarity: expect.closeTo(0.22, 2), matched: ['csv', 'export'] }
+		]);
+		expect(explainAssignment(chooseAssignment(candidates, 0.86), 0.86)).toContain('"dark mode", "theme_bug"');
+	});
+});
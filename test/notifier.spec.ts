@@ -0,0 +1,163 @@
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { validateTarget, maskTarget } from '../src/notifier';
+import type { AlertView, DigestView } from '../src/notifier';
+import { renderTelegramAlert, renderTelegramDigest } from '../src/telegram';
+import { renderSlackAlert, renderSlackDigest } from '../src/slack';
+import { buildMimeMessage, renderEmailDigest } from '../src/mailer';
+import { webhookNotifier, verifyWebhookSignature, SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../src/outbound';
+
+const NOW = Date.parse('2026-03-02T17:00:00Z');
+
+const alert: AlertView = {
+	alertId: '3f2b9c1e-8d4a-4f6b-9e2c-7a1d5b8c0f3e',
+	workspace: 'Mobile',
+	severity: 'P0',
+	category: 'payment',
+	summary: 'Charged twice for <Pro> plan',
+	content: 'I was charged twice & support hasn\'t answered',
+	reasoning: 'Duplicate charge',
+	source: 'email',
+	user: 'dana@example.com',
+	link: 'https://support.example.com/t/1',
+	reportCount: 1,
+	firstReportAt: NOW - 120000,
+	lastReportAt: NOW - 120000,
+	status: null,
+	resolved: false
+};
+
+function digest(issueCount: number): DigestView {
+	return {
+		digestId: 'd1',
+		workspace: 'Mobile',
+		generatedAt: NOW,
+		date: 'March 2, 2026 at 9:00 AM PST',
+		feedbackCount: '42',
+		issues: Array.from({ length: issueCount }, (_, i) => ({
+			clusterId: `cluster-${i}`,
+			priorityLevel: i === 0 ? 'P0' : 'P2',
+			summary: `Issue ${i + 1} <export>`,
+			count: 5,
+			impact: 'Users can\'t export',
+			action: 'Check the CSV worker',
+			sources: ['email', 'discord'],
+			accounts: i === 0 ? 2 : 0,
+			arr: i === 0 ? 150000 : 0
+		})),
+		monitoring: [],
+		failedFixes: [],
+		support: [{ category: 'account', priorityLevel: 'P3', user: 'sam', source: 'email', content: 'Please delete my account', link: null, account: { tier: 'enterprise', arr: 120000 } }],
+		positive: [],
+		summary: '1 general issues and 1 individual support cases from 42 feedback items.'
+	};
+}
+
+describe('telegram rendering', () => {
+	it('escapes alert text and keeps the report line', () => {
+		const message = renderTelegramAlert(alert, NOW);
+		expect(message).toContain('💥 Charged twice for &lt;Pro&gt; plan');
+		expect(message).toContain('<b>Reports:</b> 1 time 2 minutes ago');
+		expect(message).toContain('<a href="https://support.example.com/t/1">View feedback</a>');
+	});
+
+	it('numbers digest issues and ends with the summary', () => {
+		const message = renderTelegramDigest(digest(2));
+		expect(message).toContain('<b>MORNING DIGEST (Mobile) - March 2, 2026 at 9:00 AM PST</b>');
+		expect(message).toContain('2. 🟡 <b>P2</b> - Issue 2 &lt;export&gt; (5 reports)');
+		expect(message).toContain('   💰 affects 2 accounts, $150k ARR\n');
+		expect(message).toContain('User: sam via email 💰 enterprise, $120k ARR');
+		expect(message.endsWith('<b>Summary:</b> 1 general issues and 1 individual support cases from 42 feedback items.')).toBe(true);
+	});
+});
+
+describe('slack rendering', () => {
+	it('renders alerts as Block Kit with mrkdwn escaped', () => {
+		const message = renderSlackAlert(alert, NOW);
+		expect(message.text).toBe('🚨 P0 alert: Charged twice for <Pro> plan');
+		expect(message.blocks[0]).toEqual({ type: 'header', text: { type: 'plain_text', text: '🚨 Instant alert - P0', emoji: true } });
+		expect(JSON.stringify(message.blocks)).toContain('Charged twice for &lt;Pro&gt; plan');
+		expect(JSON.stringify(message.blocks)).toContain('<https://support.example.com/t/1|View feedback>');
+	});
+
+	it('stays within 50 blocks and counts the issues left out', () => {
+		const message = renderSlackDigest(digest(60));
+		expect(message.blocks.length).toBeLessThanOrEqual(50);
+		expect(JSON.stringify(message.blocks)).toMatch(/…and \d+ more issues in the full digest/);
+		expect(message.blocks.at(-1)).toMatchObject({ type: 'context' });
+	});
+});
+
+describe('email rendering', () => {
+	it('builds a multipart message with a UTF-8 subject', () => {
+		const content = renderEmailDigest(digest(1));
+		const raw = buildMimeMessage('digest@example.com', 'pm@example.com', { ...content, subject: 'Digest – Mobile' });
+
+		expect(raw).toContain('Subject: =?UTF-8?B?');
+		expect(raw).toMatch(/Content-Type: multipart\/alternative; boundary="([^"]+)"/);
+		const textPart = raw.split('\r\n\r\n')[2].split('\r\n--')[0];
+		const text = new TextDecoder().decode(Uint8Array.from(atob(textPart.replace(/\r\n/g, '')), c => c.charCodeAt(0)));
+		expect(text).toContain('1. P0 - Issue 1 <export> (5 reports)');
+		expect(text).toContain('Please delete my account');
+		expect(text).toContain('   affects 2 accounts, $150k ARR');
+	});
+});
+
+describe('signed webhooks', () => {
+	let received: { body: string; headers: Record<string, string> } | null = null;
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		received = null;
+	});
+
+	it('signs the timestamp and body so receivers can verify them', async () => {
+		fetchMock
+			.get('https://hooks.example.com')
+			.intercept({ method: 'POST', path: '/pm' })
+			.reply(200, ({ body, headers }) => {
+				received = { body: String(body), headers: headers as Record<string, string> };
+				return 'ok';
+			});
+
+		const sent = await webhookNotifier('https://hooks.example.com/pm', 'a-long-shared-secret').sendAlert(alert);
+		expect(sent.ok).toBe(true);
+		expect(received).not.toBeNull();
+		if (!received) return;
+
+		const { body, headers } = received;
+		expect(JSON.parse(body)).toMatchObject({ event: 'alert', data: { alertId: alert.alertId, severity: 'P0' } });
+		const timestamp = headers[TIMESTAMP_HEADER.toLowerCase()];
+		const signature = headers[SIGNATURE_HEADER.toLowerCase()];
+		expect(await verifyWebhookSignature('a-long-shared-secret', body, timestamp, signature)).toBe(true);
+		expect(await verifyWebhookSignature('a-long-shared-secret', body.replace('P0', 'P1'), timestamp, signature)).toBe(false);
+		expect(await verifyWebhookSignature('a-long-shared-secret', body, String(Number(timestamp) - 3600), signature)).toBe(false);
+	});
+
+	it('reports a non-2xx answer as a failed delivery', async () => {
+		fetchMock.get('https://hooks.example.com').intercept({ method: 'POST', path: '/pm' }).reply(500, 'boom');
+		const sent = await webhookNotifier('https://hooks.example.com/pm', null).sendAlert(alert);
+		expect(sent.ok).toBe(false);
+		expect(sent.error).toContain('500');
+	});
+});
+
+describe('destination targets', () => {
+	it('checks the target format for each channel', () => {
+		expect(validateTarget('telegram', '-1001234567890')).toBeNull();
+		expect(validateTarget('slack', 'https://hooks.slack.com/services/T0/B0/xyz')).toBeNull();
+		expect(validateTarget('slack', 'https://example.com/hook')).not.toBeNull();
+		expect(validateTarget('email', 'pm@example.com, lead@example.com')).toBeNull();
+		expect(validateTarget('email', 'pm@example.com; lead')).not.toBeNull();
+		expect(validateTarget('webhook', 'http://example.com/hook')).not.toBeNull();
+	});
+
+	it('hides the credential part of webhook URLs', () => {
+		expect(maskTarget('slack', 'https://hooks.slack.com/services/T0/B0/xyz')).toBe('https://hooks.slack.com/…');
+		expect(maskTarget('email', 'pm@example.com')).toBe('pm@example.com');
+	});
+});
@@ -0,0 +1,115 @@
+import { env, fetchMock, createExecutionContext, createScheduledController, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import worker from '../src/index';
+import { nextAttemptAt } from '../src/outbox';
+import type { DigestView } from '../src/notifier';
+
+const POLICY = { maxAttempts: 3, retryBaseSeconds: 300, retryMaxSeconds: 3600 };
+
+describe('outbox backoff', () => {
+	const now = Date.parse('2026-03-02T17:00:00Z');
+
+	it('doubles the wait after each attempt, up to the cap', () => {
+		expect(nextAttemptAt(1, now, null, POLICY)).toBe(now + 300000);
+		expect(nextAttemptAt(2, now, null, POLICY)).toBe(now + 600000);
+		expect(nextAttemptAt(2, now, null, { ...POLICY, retryMaxSeconds: 400 })).toBe(now + 400000);
+	});
+
+	it('waits at least as long as the channel asked, and gives up after maxAttempts', () => {
+		expect(nextAttemptAt(1, now, 900, POLICY)).toBe(now + 900000);
+		expect(nextAttemptAt(1, now, 10, POLICY)).toBe(now + 300000);
+		expect(nextAttemptAt(3, now, null, POLICY)).toBeNull();
+	});
+});
+
+describe('digest retries from the cron', () => {
+	const CHAT_ID = '-100777';
+	const DIGEST_ID = 'digest-retry-1';
+	const OUTBOX_ID = 'outbox-retry-1';
+	// 17:00 UTC is 9am in Los Angeles; 13:00 keeps the scheduled digest itself out of the way
+	const TICK = Date.parse('2026-03-02T13:00:00Z');
+	const botEnv = { ...env, TELEGRAM_BOT_TOKEN: '123:test-token' };
+
+	const view: DigestView = {
+		digestId: DIGEST_ID,
+		workspace: 'Ops',
+		generatedAt: TICK - 3600000,
+		date: 'March 2, 2026 at 4:00 AM PST',
+		feedbackCount: '3',
+		issues: [],
+		monitoring: [],
+		failedFixes: [],
+		support: [],
+		positive: [],
+		summary: '0 general issues and 0 individual support cases from 3 feedback items.'
+	};
+
+	beforeAll(async () => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+
+		await env.DB.batch([
+			env.DB.prepare('INSERT INTO workspaces (workspace_id, name, settings, created_at) VALUES (?, ?, ?, ?)')
+				.bind('ops', 'Ops', JSON.stringify({ telegram: { chatId: CHAT_ID } }), TICK),
+			env.DB.prepare('INSERT INTO digests (digest_id, workspace_id, generated_at, top_issues, summary) VALUES (?, ?, ?, ?, ?)')
+				.bind(DIGEST_ID, 'ops', view.generatedAt, '{}', view.summary),
+			env.DB.prepare(
+				`INSERT INTO delivery_outbox (outbox_id, workspace_id, destination, kind, ref_id, payload, status, attempts, next_attempt_at, created_at, updated_at)
+				VALUES (?, 'ops', 'default', 'digest', ?, ?, 'pending', 0, ?, ?, ?)`
+			).bind(OUTBOX_ID, DIGEST_ID, JSON.stringify(view), TICK - 60000, TICK - 60000, TICK - 60000)
+		]);
+	});
+
+	async function runCron(at: number) {
+		const ctx = createExecutionContext();
+		await worker.scheduled!(createScheduledController({ scheduledTime: at, cron: '*/5 * * * *' }), botEnv, ctx);
+		await waitOnExecutionContext(ctx);
+	}
+
+	function loadEntry() {
+		return env.DB.prepare('SELECT status, attempts, next_attempt_at, last_error, message_id FROM delivery_outbox WHERE outbox_id = ?')
+			.bind(OUTBOX_ID).first<{ status: string; attempts: number; next_attempt_at: number | null; last_error: string | null; message_id: string | null }>();
+	}
+
+	// Storage is reset between tests, so the whole retry runs in one
+	it('waits out Telegram\'s retry_after, then delivers on a later tick', async () => {
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: '/bot123:test-token/sendMessage' })
+			.reply(429, { ok: false, error_code: 429, description: 'Too Many Requests: retry after 1200', parameters: { retry_after: 1200 } });
+
+		await runCron(TICK);
+
+		const entry = await loadEntry();
+		expect(entry).toMatchObject({ status: 'pending', attempts: 1, next_attempt_at: TICK + 1200000 });
+		expect(entry!.last_error).toContain('Too Many Requests');
+
+		// Not due yet: nothing is sent
+		await runCron(TICK + 300000);
+		expect((await loadEntry())!.attempts).toBe(1);
+
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: '/bot123:test-token/sendMessage' })
+			.reply(200, { ok: true, result: { message_id: 42 } });
+
+		await runCron(TICK + 1200000);
+
+		expect(await loadEntry()).toMatchObject({ status: 'sent', attempts: 2, next_attempt_at: null, last_error: null, message_id: '42' });
+		const digest = await env.DB.prepare('SELECT sent_to_telegram, telegram_message_id FROM digests WHERE digest_id = ?')
+			.bind(DIGEST_ID).first();
+		expect(digest).toEqual({ sent_to_telegram: 1, telegram_message_id: '42' });
+
+		const response = await worker.fetch(
+			new Request(`https://example.com/w/ops/deliveries?ref_id=${DIGEST_ID}`, { headers: { Authorization: 'Bearer admin-test-key' } }),
+			{ ...botEnv, ADMIN_API_KEY: 'admin-test-key' },
+			createExecutionContext()
+		);
+		expect(response.status).toBe(200);
+		const body = await response.json() as { deliveries: Array<{ status: string; attempt: number; error_code: string | null; retry_after: number | null }> };
+		expect(body.deliveries.map(d => [d.status, d.attempt, d.error_code, d.retry_after])).toEqual([
+			['sent', 2, null, null],
+			['failed', 1, '429', 1200]
+		]);
+	});
+});
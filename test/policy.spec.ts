@@ -0,0 +1,187 @@
+import { env, fetchMock, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import worker from '../src/index';
+import { decideDelivery, isQuietTime, quietHoursError } from '../src/policy';
+import type { TriageMessage } from '../src/queue';
+
+const TIMEZONE = 'America/Los_Angeles';
+// 3:30am and 2:00pm in Los Angeles
+const NIGHT = new Date('2026-03-02T11:30:00Z');
+const AFTERNOON = new Date('2026-03-02T22:00:00Z');
+
+describe('quiet hours', () => {
+	it('reads the range in the workspace timezone and wraps past midnight', () => {
+		expect(isQuietTime('22:00-07:00', NIGHT, TIMEZONE)).toBe(true);
+		expect(isQuietTime('22:00-07:00', AFTERNOON, TIMEZONE)).toBe(false);
+		expect(isQuietTime('13:00-15:00', AFTERNOON, TIMEZONE)).toBe(true);
+		expect(isQuietTime('03:00-03:30', NIGHT, TIMEZONE)).toBe(false);
+		expect(isQuietTime(null, NIGHT, TIMEZONE)).toBe(false);
+	});
+
+	it('rejects malformed and empty ranges', () => {
+		expect(quietHoursError('22:00-07:00')).toBeNull();
+		expect(quietHoursError('10pm-7am')).not.toBeNull();
+		expect(quietHoursError('24:00-07:00')).not.toBeNull();
+		expect(quietHoursError('07:00-07:00')).not.toBeNull();
+	});
+
+	it('still pages P0, holds the rest and drops muted categories', () => {
+		const policy = { quiet_hours: '22:00-07:00', muted_categories: ['Billing'] };
+		expect(decideDelivery(policy, { severity: 'P0', category: 'outage' }, NIGHT, TIMEZONE)).toBe('send');
+		expect(decideDelivery(policy, { severity: 'P1', category: 'outage' }, NIGHT, TIMEZONE)).toBe('hold');
+		expect(decideDelivery(policy, { severity: 'P1', category: 'outage' }, AFTERNOON, TIMEZONE)).toBe('send');
+		expect(decideDelivery(policy, { severity: 'P0', category: 'billing' }, AFTERNOON, TIMEZONE)).toBe('mute');
+	});
+});
+
+describe('held alerts API', () => {
+	const authEnv = { ...env, TELEGRAM_BOT_TOKEN: '123:test-token', ADMIN_API_KEY: 'admin-test-key' };
+
+	beforeAll(async () => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+
+		const now = Date.now();
+		await env.DB.batch([
+			env.DB.prepare(
+				`INSERT INTO alert_destinations (workspace_id, destination_id, name, channel, target, quiet_hours, created_at, updated_at)
+				VALUES ('default', 'oncall', 'On-call', 'telegram', '-100888', '22:00-07:00', ?, ?)`
+			).bind(now, now),
+			...['f-1', 'f-2'].map((id, i) => env.DB.prepare(
+				`INSERT INTO held_alerts (workspace_id, destination, feedback_id, severity, category, summary, held_at)
+				VALUES ('default', 'oncall', ?, 'P1', 'login', ?, ?)`
+			).bind(id, `Login loop ${i + 1} <mobile>`, now - 60000 * (i + 1)))
+		]);
+	});
+
+	function call(path: string, init: RequestInit = {}) {
+		return worker.fetch(
+			new Request(`https://example.com${path}`, { ...init, headers: { Authorization: 'Bearer admin-test-key', ...init.headers } }),
+			authEnv,
+			createExecutionContext()
+		);
+	}
+
+	it('lists held alerts and sends them as one summary on release', async () => {
+		const listed = await (await call('/held-alerts?destination=oncall')).json() as { held_alerts: Array<{ feedback_id: string }> };
+		expect(listed.held_alerts.map(alert => alert.feedback_id).sort()).toEqual(['f-1', 'f-2']);
+
+		let text = '';
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: '/bot123:test-token/sendMessage' })
+			.reply(200, ({ body }) => {
+				text = JSON.parse(String(body)).text;
+				return { ok: true, result: { message_id: 7 } };
+			});
+
+		const response = await call('/held-alerts/release', { method: 'POST', body: JSON.stringify({ destination: 'oncall' }) });
+		expect(await response.json()).toMatchObject({ results: [{ destination: 'oncall', released: 2, ok: true }] });
+		expect(text).toContain('<b>While you were away</b> - 2 alerts held during quiet hours');
+		expect(text).toContain('Login loop 1 &lt;mobile&gt;');
+
+		const remaining = await (await call('/held-alerts')).json() as { held_alerts: unknown[] };
+		expect(remaining.held_alerts).toEqual([]);
+	});
+
+	it('puts discarded alerts back in the morning digest unless they went out elsewhere', async () => {
+		const now = Date.now();
+		const feedback = (id: string) => env.DB.prepare(
+			`INSERT INTO feedback (id, workspace_id, content, source, timestamp, processed, instant_alert_sent)
+			VALUES (?, 'default', 'Login loop', 'support', ?, 0, 1)`
+		).bind(id, now);
+		const held = (destination: string, id: string) => env.DB.prepare(
+			`INSERT INTO held_alerts (workspace_id, destination, feedback_id, severity, category, summary, held_at)
+			VALUES ('default', ?, ?, 'P1', 'login', 'Login loop', ?)`
+		).bind(destination, id, now - 60000);
+		await env.DB.batch([
+			feedback('f-3'),
+			feedback('f-4'),
+			feedback('f-5'),
+			held('oncall', 'f-3'),
+			held('oncall', 'f-4'),
+			held('gone', 'f-5'),
+			env.DB.prepare(
+				"INSERT INTO alert_reports (alert_id, feedback_id, destination, reported_at) VALUES ('a-1', 'f-4', 'default', ?)"
+			).bind(now)
+		]);
+
+		expect((await call('/destinations/oncall/delete', { method: 'POST' })).status).toBe(200);
+		const release = await call('/held-alerts/release', { method: 'POST', body: JSON.stringify({ destination: 'gone' }) });
+		expect(await release.json()).toMatchObject({ results: [{ destination: 'gone', released: 0, ok: false, error: 'Unknown destination' }] });
+
+		const rows = await env.DB.prepare(
+			"SELECT id, instant_alert_sent FROM feedback WHERE id IN ('f-3', 'f-4', 'f-5') ORDER BY id"
+		).all();
+		expect(rows.results).toEqual([
+			{ id: 'f-3', instant_alert_sent: 0 },
+			{ id: 'f-4', instant_alert_sent: 1 },
+			{ id: 'f-5', instant_alert_sent: 0 }
+		]);
+		expect(await env.DB.prepare("SELECT COUNT(*) AS count FROM held_alerts WHERE status = 'held'").first('count')).toBe(0);
+	});
+});
+
+describe('held alerts on retry', () => {
+	// Every report is a P1 the classifier is sure of: it alerts, and quiet hours hold it
+	const aiEnv = {
+		...env,
+		VECTOR_INDEX: undefined,
+		AI: {
+			async run(_model: string, input: { text?: string }) {
+				return input.text
+					? { data: [[0.6, 0.8, 0]] }
+					: { response: '{"category":"bug","severity":"P1","confidence":0.95,"one_line_summary":"Checkout fails"}' };
+			}
+		}
+	} as unknown as Env;
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	async function triage(id: string, attempts: number) {
+		const now = Date.now();
+		const message = { id, timestamp: new Date(now), body: { feedback_id: id, enqueued_at: now }, attempts, ack() {}, retry() {} };
+		await worker.queue!({ queue: 'triage', messages: [message], ackAll() {}, retryAll() {} } as unknown as MessageBatch<TriageMessage>, aiEnv, {} as ExecutionContext);
+	}
+
+	it('does not send a held alert again when a retry runs after quiet hours', async () => {
+		const now = Date.now();
+		const destination = (id: string, quietHours: string | null) => env.DB.prepare(
+			`INSERT INTO alert_destinations (workspace_id, destination_id, name, channel, target, quiet_hours, created_at, updated_at)
+			VALUES ('default', ?, ?, 'webhook', ?, ?, ?, ?)`
+		).bind(id, id, `https://${id}.example.com/alerts`, quietHours, now, now);
+		await env.DB.batch([
+			destination('oncall', null),
+			// Quiet all day but the last minute
+			destination('night', '00:00-23:59'),
+			env.DB.prepare(
+				`INSERT INTO alert_routes (route_id, workspace_id, name, destinations, created_at, updated_at)
+				VALUES ('both', 'default', 'Both', '["oncall","night"]', ?, ?)`
+			).bind(now, now),
+			env.DB.prepare(
+				`INSERT INTO feedback (id, workspace_id, content, source, timestamp, processed, instant_alert_sent, pipeline_status)
+				VALUES ('fb-retry', 'default', 'Checkout fails with error 500', 'support', ?, 0, 0, 'queued')`
+			).bind(now)
+		]);
+
+		// oncall fails, night holds it
+		fetchMock.get('https://oncall.example.com').intercept({ method: 'POST', path: '/alerts' }).reply(500, 'down');
+		await triage('fb-retry', 1);
+		expect(await env.DB.prepare("SELECT pipeline_status FROM feedback WHERE id = 'fb-retry'").first('pipeline_status')).toBe('retrying');
+		expect(await env.DB.prepare("SELECT destination FROM held_alerts WHERE feedback_id = 'fb-retry'").first('destination')).toBe('night');
+
+		// Quiet hours are over by the retry; night has no interceptor, so a send there would fail it
+		await env.DB.prepare("UPDATE alert_destinations SET quiet_hours = NULL WHERE destination_id = 'night'").run();
+		let posts = 0;
+		fetchMock.get('https://oncall.example.com').intercept({ method: 'POST', path: '/alerts' }).reply(200, () => { posts++; return 'ok'; });
+		await triage('fb-retry', 2);
+
+		expect(posts).toBe(1);
+		expect(await env.DB.prepare("SELECT pipeline_status FROM feedback WHERE id = 'fb-retry'").first('pipeline_status')).toBe('done');
+		const sent = await env.DB.prepare("SELECT destination FROM alert_reports WHERE feedback_id = 'fb-retry'").all();
+		expect(sent.results).toEqual([{ destination: 'oncall' }]);
+	});
+});
@@ -0,0 +1,124 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { LocalQueue, retryDelaySeconds } from '../src/queue';
+import type { TriageMessage } from '../src/queue';
+
+describe('LocalQueue', () => {
+	it('delivers messages in batches and counts attempts from 1', async () => {
+		const seen: Array<{ body: number; attempts: number; size: number }> = [];
+		const queue = new LocalQueue<number>(async batch => {
+			for (const message of batch.messages) {
+				seen.push({ body: message.body, attempts: message.attempts, size: batch.messages.length });
+				message.ack();
+			}
+		}, { maxBatchSize: 2 });
+
+		await queue.sendBatch([{ body: 1 }, { body: 2 }, { body: 3 }]);
+		expect(queue.size).toBe(3);
+		expect(await queue.drain()).toBe(3);
+
+		expect(seen.map(s => s.body)).toEqual([1, 2, 3]);
+		expect(seen.map(s => s.size)).toEqual([2, 2, 1]);
+		expect(seen.every(s => s.attempts === 1)).toBe(true);
+		expect(queue.size).toBe(0);
+	});
+
+	it('redelivers retried messages until they succeed', async () => {
+		const attempts: number[] = [];
+		const queue = new LocalQueue<string>(async batch => {
+			for (const message of batch.messages) {
+				attempts.push(message.attempts);
+				if (message.attempts < 3) message.retry();
+				else message.ack();
+			}
+		});
+
+		await queue.send('flaky');
+		await queue.drain();
+
+		expect(attempts).toEqual([1, 2, 3]);
+		expect(queue.dropped).toEqual([]);
+	});
+
+	it('retries unacked messages when the consumer throws, but keeps acked ones done', async () => {
+		const deliveries: string[] = [];
+		let thrown = false;
+		const queue = new LocalQueue<string>(async batch => {
+			for (const message of batch.messages) {
+				deliveries.push(message.body);
+				if (message.body === 'ok') message.ack();
+			}
+			if (!thrown) {
+				thrown = true;
+				throw new Error('consumer crashed');
+			}
+		});
+
+		await queue.sendBatch([{ body: 'ok' }, { body: 'unacked' }]);
+		await queue.drain();
+
+		expect(deliveries).toEqual(['ok', 'unacked', 'unacked']);
+	});
+
+	it('drops messages that exhaust maxRetries', async () => {
+		let deliveries = 0;
+		const queue = new LocalQueue<string>(async batch => {
+			deliveries += batch.messages.length;
+			batch.retryAll();
+		}, { maxRetries: 2 });
+
+		await queue.send('poison');
+		await queue.drain();
+
+		// First delivery + 2 retries
+		expect(deliveries).toBe(3);
+		expect(queue.dropped).toEqual(['poison']);
+	});
+});
+
+describe('retryDelaySeconds', () => {
+	it('backs off exponentially and caps the delay', () => {
+		expect([1, 2, 3, 4].map(n => retryDelaySeconds(n, 10, 60))).toEqual([10, 20, 40, 60]);
+		expect(retryDelaySeconds(20, 10, 300)).toBe(300);
+	});
+});
+
+describe('stalled feedback', () => {
+	it('re-enqueues rows stuck in any pipeline state once, then leaves them for an hour', async () => {
+		const stale = Date.now() - 2 * 3600000;
+		const row = (id: string, status: string, updatedAt: number) => env.DB.prepare(
+			`INSERT INTO feedback (id, workspace_id, content, source, timestamp, processed, instant_alert_sent, pipeline_status, pipeline_updated_at)
+			VALUES (?, 'default', 'Export is broken', 'support', ?, 0, 0, ?, ?)`
+		).bind(id, stale, status, updatedAt);
+		await env.DB.batch([
+			row('fb-queued', 'queued', stale),
+			row('fb-processing', 'processing', stale),
+			row('fb-retrying', 'retrying', stale),
+			row('fb-recent', 'processing', Date.now()),
+			row('fb-done', 'done', stale)
+		]);
+
+		const sent: string[] = [];
+		const queueEnv = {
+			...env,
+			TRIAGE_QUEUE: { async sendBatch(messages: Array<{ body: TriageMessage }>) { sent.push(...messages.map(m => m.body.feedback_id)); } }
+		} as unknown as Env;
+		// 03:00 UTC: no workspace's digest is due
+		const runCron = async () => {
+			const ctx = createExecutionContext();
+			worker.scheduled!({ scheduledTime: Date.UTC(2026, 0, 1, 3), cron: '*/5 * * * *', noRetry() {} }, queueEnv, ctx);
+			await waitOnExecutionContext(ctx);
+		};
+
+		await runCron();
+		expect(sent.sort()).toEqual(['fb-processing', 'fb-queued', 'fb-retrying']);
+		const claimed = await env.DB.prepare("SELECT pipeline_status, pipeline_updated_at FROM feedback WHERE id = 'fb-processing'")
+			.first<{ pipeline_status: string; pipeline_updated_at: number }>();
+		expect(claimed?.pipeline_status).toBe('queued');
+		expect(claimed!.pipeline_updated_at).toBeGreaterThan(stale);
+
+		await runCron();
+		expect(sent).toHaveLength(3);
+	});
+});
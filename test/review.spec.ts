@@ -0,0 +1,103 @@
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import worker from '../src/index';
+import { formatLabelExamples, reviewReason } from '../src/review';
+import { keywordClassification, RULE_BASED_MODEL } from '../src/classification';
+import type { ClassificationResult } from '../src/types';
+
+const ai: ClassificationResult = {
+	severity: 'P2',
+	category: 'bug',
+	confidence: 0.8,
+	one_line_summary: 'Export button broken',
+	reasoning: 'AI: bug / P2',
+	model: '@cf/meta/llama-3.1-8b-instruct',
+	prompt_version: 'v2',
+	classified_at: 1767225600000
+};
+
+describe('review reasons', () => {
+	it('queues low confidence and rule/AI disagreements', () => {
+		expect(reviewReason(ai, { category: 'bug', severity: 'P2' }, 0.6)).toBeNull();
+		expect(reviewReason({ ...ai, confidence: 0.4 }, null, 0.6)).toEqual({ reason: 'low_confidence', detail: 'Confidence 0.40 < 0.6' });
+		expect(reviewReason(ai, { category: 'payment', severity: 'P1' }, 0.6)).toEqual({
+			reason: 'rule_disagreement',
+			detail: 'Rules: payment / P1, AI: bug / P2'
+		});
+		// A triage rule only decides severity
+		expect(reviewReason(ai, { severity: 'P0' }, 0.6)?.detail).toBe('Rules: P0, AI: bug / P2');
+	});
+
+	it('has nothing to compare when the keyword fallback answered', () => {
+		expect(reviewReason({ ...ai, model: RULE_BASED_MODEL, confidence: 0.7 }, keywordClassification('the app crashes'), 0.6)).toBeNull();
+	});
+
+	it('formats labels as prompt examples', () => {
+		expect(formatLabelExamples([])).toBe('');
+		expect(formatLabelExamples([{ content: 'Charged\ntwice', severity: 'P1', category: 'payment' }])).toBe(
+			'Examples labeled by the team:\nFeedback: "Charged twice" → {"category":"payment","severity":"P1"}\n\n'
+		);
+	});
+});
+
+describe('relabeling', () => {
+	// No Vectorize binding: the cluster it leaves is recomputed against the worker's in-memory index
+	const authEnv = { ...env, ADMIN_API_KEY: 'admin-test-key', VECTOR_INDEX: undefined } as unknown as Env;
+	const now = Date.now();
+
+	beforeAll(async () => {
+		await env.DB.batch([
+			env.DB.prepare(
+				`INSERT INTO feedback (id, workspace_id, content, source, timestamp, processed, instant_alert_sent, classification_severity,
+				classification_confidence, classification_category, classification_summary, classification_model, classification_prompt_version,
+				classified_at, review_status, review_reason, review_detail)
+				VALUES ('fb-review', 'default', 'Invoice total is wrong after upgrade', 'support', ?, 1, 0, 'P3', 0.4, 'ui', 'Wrong invoice total',
+				'@cf/meta/llama-3.1-8b-instruct', 'v2', ?, 'pending', 'low_confidence', 'Confidence 0.40 < 0.6')`
+			).bind(now, now),
+			env.DB.prepare(
+				`INSERT INTO clusters (cluster_id, workspace_id, title, category, severity, centroid, count, first_seen, last_seen,
+				representative_feedback_id, representative_feedback, top_sources) VALUES ('cl-ui', 'default', 'ui', 'ui', 'P3', '[]', 2, ?, ?, 'fb-review', 'x', '[]')`
+			).bind(now, now),
+			env.DB.prepare("INSERT INTO cluster_members (cluster_id, feedback_id) VALUES ('cl-ui', 'fb-review')")
+		]);
+	});
+
+	function call(path: string, init: RequestInit = {}) {
+		return worker.fetch(
+			new Request(`https://example.com${path}`, { ...init, headers: { Authorization: 'Bearer admin-test-key', ...init.headers } }),
+			authEnv,
+			createExecutionContext()
+		);
+	}
+
+	it('stores the label and sends the feedback back into clustering', async () => {
+		const queue = await (await call('/review')).json() as { queue: Array<{ feedback_id: string; review_reason: string }> };
+		expect(queue.queue).toMatchObject([{ feedback_id: 'fb-review', review_reason: 'low_confidence' }]);
+
+		const response = await call('/feedback/fb-review/label', { method: 'POST', body: JSON.stringify({ severity: 'P1', category: 'payment', reviewer: 'sam' }) });
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({
+			changed: true,
+			label: { severity: 'P1', category: 'payment', previous_severity: 'P3', previous_category: 'ui', reviewer: 'sam' }
+		});
+
+		const row = await env.DB.prepare(
+			'SELECT classification_severity, classification_category, review_status, processed FROM feedback WHERE id = ?'
+		).bind('fb-review').first();
+		expect(row).toEqual({ classification_severity: 'P1', classification_category: 'payment', review_status: 'reviewed', processed: 0 });
+		// It was the cluster's only member
+		expect(await env.DB.prepare("SELECT count FROM clusters WHERE cluster_id = 'cl-ui'").first('count')).toBeNull();
+		expect(await env.DB.prepare("SELECT COUNT(*) AS n FROM cluster_members WHERE feedback_id = 'fb-review'").first('n')).toBe(0);
+
+		const reviewed = await (await call('/review?status=reviewed')).json() as { queue: Array<{ label: { reviewer: string } | null }> };
+		expect(reviewed.queue[0].label).toMatchObject({ reviewer: 'sam' });
+
+		// The label is the answer now; reclassifying would overwrite it
+		expect((await call('/feedback/fb-review/reclassify', { method: 'POST' })).status).toBe(409);
+	});
+
+	it('rejects categories the classifier doesn\'t know', async () => {
+		const response = await call('/feedback/fb-review/label', { method: 'POST', body: JSON.stringify({ category: 'billing' }) });
+		expect(response.status).toBe(400);
+	});
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { matchRoute, routeAlert, isValidDestinationId } from '../src/routing';
+import type { AlertRoute, RoutableAlert } from '../src/routing';
+
+function route(overrides: Partial<AlertRoute>): AlertRoute {
+	return {
+		route_id: overrides.name || 'route',
+		workspace_id: 'default',
+		name: 'route',
+		categories: [],
+		severities: [],
+		sources: [],
+		keywords: [],
+		destinations: ['default'],
+		enabled: true,
+		...overrides
+	};
+}
+
+const paymentP0: RoutableAlert = { category: 'payment', severity: 'P0', source: 'email', content: 'I was charged twice for my plan' };
+
+describe('alert routing', () => {
+	it('needs every non-empty criterion to match', () => {
+		expect(matchRoute(route({ categories: ['Payment'], severities: ['P0'] }), paymentP0)).toBe('');
+		expect(matchRoute(route({ categories: ['payment'], sources: ['discord'] }), paymentP0)).toBeNull();
+		expect(matchRoute(route({ keywords: ['charged twice'] }), paymentP0)).toBe('charged twice');
+		expect(matchRoute(route({ keywords: ['charge'] }), paymentP0)).toBeNull();
+		expect(matchRoute(route({ enabled: false }), paymentP0)).toBeNull();
+	});
+
+	it('sends to every matching route\'s destinations once', () => {
+		const routes = [
+			route({ name: 'billing', categories: ['payment'], destinations: ['billing-oncall'] }),
+			route({ name: 'p0', severities: ['P0'], destinations: ['billing-oncall', 'leads'] }),
+			route({ name: 'crashes', categories: ['crash'], destinations: ['mobile'] })
+		];
+		expect(routeAlert(routes, paymentP0)).toEqual({ destinations: ['billing-oncall', 'leads'], routeIds: ['billing', 'p0'] });
+	});
+
+	it('falls back to the default destination', () => {
+		const routes = [route({ categories: ['crash'], destinations: ['mobile'] })];
+		expect(routeAlert(routes, paymentP0)).toEqual({ destinations: ['default'], routeIds: [] });
+	});
+
+	it('accepts slug destination ids only', () => {
+		expect(isValidDestinationId('billing-oncall')).toBe(true);
+		expect(isValidDestinationId('Billing On-call')).toBe(false);
+	});
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { matchRule, evaluateRules, patternError } from '../src/rules';
+import type { TriageRule } from '../src/rules';
+
+function rule(overrides: Partial<TriageRule>): TriageRule {
+	return {
+		rule_id: overrides.name || 'rule',
+		workspace_id: null,
+		name: 'rule',
+		match_type: 'phrase',
+		pattern: '',
+		negations: [],
+		sources: [],
+		severity: 'P0',
+		enabled: true,
+		...overrides
+	};
+}
+
+describe('triage rule matching', () => {
+	it('matches phrases on word boundaries only', () => {
+		const deleted = rule({ pattern: 'deleted' });
+		expect(matchRule(deleted, 'All my projects were Deleted overnight', 'support')).toBe('Deleted');
+		expect(matchRule(deleted, 'Undeleted items show up twice', 'support')).toBeNull();
+		expect(matchRule(rule({ pattern: "won't open" }), "App won't open since the update", 'support')).toBe("won't open");
+	});
+
+	it('ignores matches inside a negation phrase', () => {
+		const crash = rule({ match_type: 'regex', pattern: '\\bcrash(es|ed)?\\b', negations: ['not a crash'] });
+		expect(matchRule(crash, 'This is not a crash, just a slow screen', 'support')).toBeNull();
+		expect(matchRule(crash, 'Not a crash at first, but now it crashes on export', 'support')).toBe('crashes');
+	});
+
+	it('respects source filters and the enabled flag', () => {
+		const refund = rule({ pattern: 'refund', sources: ['email'] });
+		expect(matchRule(refund, 'I want a refund', 'twitter')).toBeNull();
+		expect(matchRule(refund, 'I want a refund', 'email')).toBe('refund');
+		expect(matchRule({ ...refund, enabled: false }, 'I want a refund', 'email')).toBeNull();
+	});
+
+	it('picks the most severe matching rule', () => {
+		const rules = [
+			rule({ name: 'refund', pattern: 'refund', severity: 'P1' }),
+			rule({ name: 'charged twice', pattern: 'charged twice', severity: 'P0' })
+		];
+		const hit = evaluateRules(rules, 'I was charged twice, please refund', 'support');
+		expect(hit?.rule.name).toBe('charged twice');
+		expect(evaluateRules(rules, 'Love the new dashboard', 'support')).toBeNull();
+	});
+
+	it('rejects invalid and match-everything patterns', () => {
+		expect(patternError('regex', '(unclosed')).toMatch(/not a valid regular expression/);
+		expect(patternError('regex', 'a*')).toMatch(/empty text/);
+		expect(patternError('phrase', '(literal parens)')).toBeNull();
+	});
+});
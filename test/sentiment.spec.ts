@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { lexiconSentiment, parseSentimentResponse, sentimentLabel, LEXICON_MODEL } from '../src/sentiment';
+
+describe('lexicon sentiment', () => {
+	it('tells praise from complaints', () => {
+		expect(lexiconSentiment('Love the new dark mode, thanks team!')).toMatchObject({ sentiment: 'positive', model: LEXICON_MODEL });
+		expect(lexiconSentiment('App crashes on launch and the export is broken')).toMatchObject({ sentiment: 'negative' });
+		expect(lexiconSentiment('Where do I change my email address?')).toMatchObject({ sentiment: 'neutral', sentiment_score: 0.5 });
+	});
+
+	it('flips words after a negation', () => {
+		expect(lexiconSentiment('The new sync is not great').sentiment).toBe('negative');
+		expect(lexiconSentiment('Since the update it never crashes').sentiment).toBe('positive');
+	});
+
+	it('scores urgency from urgent words and shouting', () => {
+		expect(lexiconSentiment('Nice update').urgency_score).toBe(0);
+		expect(lexiconSentiment('URGENT: checkout is down in production, we are losing orders!!').urgency_score).toBe(1);
+	});
+});
+
+describe('AI sentiment responses', () => {
+	const model = '@cf/meta/llama-3.1-8b-instruct';
+
+	it('derives the label from the score and clamps both scores', () => {
+		expect(parseSentimentResponse('Sure: {"sentiment":"negative","score":0.7,"urgency":1.4}', model)).toEqual({
+			sentiment: 'positive',
+			sentiment_score: 0.7,
+			urgency_score: 1,
+			model
+		});
+	});
+
+	it('falls back to the label without a score, and rejects unusable answers', () => {
+		expect(parseSentimentResponse('{"sentiment":"Negative","urgency":0.2}', model)).toMatchObject({ sentiment: 'negative', sentiment_score: 0.15 });
+		expect(parseSentimentResponse('{"sentiment":"meh","urgency":0.2}', model)).toBeNull();
+		expect(parseSentimentResponse('{"score":0.5}', model)).toBeNull();
+		expect(parseSentimentResponse('no idea', model)).toBeNull();
+	});
+
+	it('labels scores with a neutral band in the middle', () => {
+		expect([0.2, 0.4, 0.5, 0.6, 0.9].map(sentimentLabel)).toEqual(['negative', 'negative', 'neutral', 'positive', 'positive']);
+	});
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+	buildCallbackData,
+	parseCallbackData,
+	alertKeyboard,
+	digestKeyboard,
+	markKeyboardRow,
+	actorName,
+	formatActionStatus,
+	paginateTelegramDigest,
+	renderTelegramDigest,
+	splitHtml,
+	TELEGRAM_MAX_LENGTH
+} from '../src/telegram';
+import type { DigestView } from '../src/notifier';
+
+const CLUSTER_A = '3f2b9c1e-8d4a-4f6b-9e2c-7a1d5b8c0f3e';
+const CLUSTER_B = 'a0c4e6f8-1b3d-4a5c-8e7f-9d2b4c6e8a0f';
+
+describe('telegram callback data', () => {
+	it('round-trips and stays under the 64 byte limit', () => {
+		const data = buildCallbackData('wontfix', 'cluster', CLUSTER_A);
+		expect(new TextEncoder().encode(data).length).toBeLessThanOrEqual(64);
+		expect(parseCallbackData(data)).toEqual({ action: 'wontfix', target: 'cluster', id: CLUSTER_A });
+		expect(parseCallbackData(buildCallbackData('ack', 'alert', CLUSTER_B))?.target).toBe('alert');
+	});
+
+	it('rejects unknown actions and status buttons', () => {
+		expect(parseCallbackData('delete:a:abc')).toBeNull();
+		expect(parseCallbackData('noop')).toBeNull();
+		expect(parseCallbackData(undefined)).toBeNull();
+	});
+});
+
+describe('telegram keyboards', () => {
+	it('gives alerts all four actions', () => {
+		const actions = alertKeyboard(CLUSTER_A).inline_keyboard.flat().map(b => parseCallbackData(b.callback_data)?.action);
+		expect(actions).toEqual(['ack', 'snooze', 'fixed', 'wontfix']);
+	});
+
+	it('numbers digest rows and replaces only the row acted on', () => {
+		const keyboard = digestKeyboard([CLUSTER_A, CLUSTER_B]);
+		expect(keyboard.inline_keyboard[1][0].text).toBe('#2 👀');
+
+		const marked = markKeyboardRow(keyboard, CLUSTER_B, '🚫 Won\'t fix by @alice');
+		expect(marked.inline_keyboard[0]).toEqual(keyboard.inline_keyboard[0]);
+		expect(marked.inline_keyboard[1]).toEqual([{ text: '#2 🚫 Won\'t fix by @alice', callback_data: 'noop' }]);
+	});
+});
+
+describe('telegram action status', () => {
+	it('names the user who pressed the button', () => {
+		expect(actorName({ id: 1, username: 'alice', first_name: 'Alice' })).toBe('@alice');
+		expect(actorName({ id: 2, first_name: 'Bob', last_name: 'Smith' })).toBe('Bob Smith');
+		expect(actorName({ id: 3 })).toBe('user 3');
+	});
+
+	it('shows when the action happened in the workspace timezone', () => {
+		const at = Date.parse('2026-03-02T18:32:00Z');
+		expect(formatActionStatus('fixed', '@alice', at, 'America/Los_Angeles')).toBe('🛠 Marked fixed by @alice · Mar 2, 10:32 AM PST');
+	});
+});
+
+describe('long digests', () => {
+	// A busy day: 15 issues and 120 support cases is several times Telegram's limit
+	const digest: DigestView = {
+		digestId: 'd1',
+		workspace: 'Mobile',
+		generatedAt: 0,
+		date: 'March 2, 2026 at 9:00 AM PST',
+		feedbackCount: '400',
+		issues: Array.from({ length: 15 }, (_, i) => ({
+			clusterId: `cluster-${i + 1}`,
+			priorityLevel: 'P1',
+			summary: `Issue ${i + 1} with <b>markup</b> & more`,
+			count: 10,
+			impact: 'Users can\'t export their reports to CSV '.repeat(4),
+			action: 'Check the export worker logs',
+			sources: ['email'],
+			accounts: 0,
+			arr: 0
+		})),
+		monitoring: [],
+		failedFixes: [],
+		support: Array.from({ length: 120 }, (_, i) => ({
+			category: 'account',
+			priorityLevel: 'P3',
+			user: `user${i + 1}@example.com`,
+			source: 'email',
+			content: `Support case ${i + 1}: please reset my password`,
+			link: `https://support.example.com/t/${i + 1}`,
+			account: null
+		})),
+		positive: [],
+		summary: '15 general issues and 120 individual support cases from 400 feedback items.'
+	};
+
+	it('splits into numbered parts that each fit and keep their tags balanced', () => {
+		const parts = paginateTelegramDigest(digest);
+		expect(parts.length).toBeGreaterThan(2);
+
+		parts.forEach((part, i) => {
+			expect(part.text.length).toBeLessThanOrEqual(TELEGRAM_MAX_LENGTH);
+			expect(part.text.startsWith(`<i>Part ${i + 1}/${parts.length}</i>\n\n`)).toBe(true);
+			for (const tag of ['b', 'i', 'a']) {
+				const opened = part.text.match(new RegExp(`<${tag}[ >]`, 'g'))?.length ?? 0;
+				expect(part.text.match(new RegExp(`</${tag}>`, 'g'))?.length ?? 0).toBe(opened);
+			}
+		});
+
+		const all = parts.map(part => part.text).join('\n');
+		for (let i = 1; i <= 120; i++) {
+			expect(all).toContain(`Support case ${i}: please reset my password`);
+		}
+		expect(parts.at(-1)!.text.endsWith(`<b>Summary:</b> ${digest.summary}`)).toBe(true);
+	});
+
+	it('gives each part the buttons for its own issues, numbered as in the digest', () => {
+		const parts = paginateTelegramDigest(digest, 1500);
+		const rows = parts.flatMap(part => part.replyMarkup?.inline_keyboard ?? []);
+		expect(rows.map(row => row[0].text.split(' ')[0])).toEqual(Array.from({ length: 15 }, (_, i) => `#${i + 1}`));
+
+		const withButtons = parts.filter(part => part.replyMarkup);
+		expect(withButtons.length).toBeGreaterThan(1);
+		const second = withButtons[1].replyMarkup!.inline_keyboard[0][0].text.split(' ')[0];
+		expect(withButtons[1].text).toContain(`${second.slice(1)}. 🟠 <b>P1</b>`);
+	});
+
+	it('sends a digest that fits as a single unnumbered message', () => {
+		const small = { ...digest, issues: digest.issues.slice(0, 2), support: digest.support.slice(0, 2) };
+		const parts = paginateTelegramDigest(small);
+		expect(parts).toHaveLength(1);
+		expect(parts[0].text).toBe(renderTelegramDigest(small));
+	});
+
+	it('closes and reopens tags when a single block has to be cut', () => {
+		const pieces = splitHtml(`<b>${'word '.repeat(30)}</b> <a href="https://x.example">link &amp; more</a>`, 60);
+		expect(pieces.length).toBeGreaterThan(1);
+		for (const piece of pieces) {
+			expect(piece.length).toBeLessThanOrEqual(60);
+			expect(piece.match(/<b>/g)?.length ?? 0).toBe(piece.match(/<\/b>/g)?.length ?? 0);
+			expect(piece).not.toMatch(/&(?!amp;)|<[^>]*$/);
+		}
+		expect(pieces.join('').replace(/<\/?b>/g, '')).toBe(`${'word '.repeat(30)} <a href="https://x.example">link &amp; more</a>`);
+	});
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { validate, parseJsonBody, feedbackSchema, markFixedSchema, apiKeySchema, LIMITS } from '../src/validation';
+
+describe('request validation', () => {
+	it('accepts a valid feedback payload and drops unknown fields', () => {
+		const result = validate(feedbackSchema, {
+			content: '  App crashes on login  ',
+			source: 'support',
+			user: 'user123',
+			extra: 'ignored'
+		});
+		expect(result).toEqual({ ok: true, value: { content: 'App crashes on login', source: 'support', user: 'user123' } });
+	});
+
+	it('reports every field error at once', () => {
+		const result = validate(feedbackSchema, {
+			source: 'slack',
+			user: 42,
+			link: 'javascript:alert(1)'
+		});
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.status).toBe(400);
+		expect(result.errors.map(e => [e.field, e.code])).toEqual([
+			['content', 'required'],
+			['source', 'invalid_enum'],
+			['user', 'invalid_type'],
+			['link', 'invalid_format']
+		]);
+	});
+
+	it('enforces length limits', () => {
+		const result = validate(feedbackSchema, { content: 'x'.repeat(LIMITS.contentMaxLength + 1), source: 'email' });
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.errors).toEqual([expect.objectContaining({ field: 'content', code: 'too_long' })]);
+	});
+
+	it('rejects non-object bodies', () => {
+		const result = validate(feedbackSchema, [{ content: 'hi', source: 'email' }]);
+		expect(result.ok).toBe(false);
+	});
+
+	it('validates numeric ranges for mark-fixed', () => {
+		const result = validate(markFixedSchema, { rollout_days: 0.5 });
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.errors.map(e => e.code)).toEqual(['invalid_type', 'out_of_range']);
+	});
+
+	it('checks every item of an array field', () => {
+		const result = validate(apiKeySchema, { name: 'zendesk', scopes: ['ingest', 'write'] });
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.errors).toEqual([expect.objectContaining({ field: 'scopes[1]', code: 'invalid_enum' })]);
+
+		expect(validate(apiKeySchema, { name: 'dash', scopes: ['read', 'read'] })).toEqual({ ok: true, value: { name: 'dash', scopes: ['read'] } });
+		expect(validate(apiKeySchema, { name: 'dash', scopes: [] }).ok).toBe(false);
+	});
+
+	it('returns invalid_json for malformed bodies', async () => {
+		const request = new Request('https://example.com/feedback', { method: 'POST', body: '{"content": ' });
+		const result = await parseJsonBody(request, feedbackSchema);
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.error).toBe('invalid_json');
+		expect(result.status).toBe(400);
+	});
+
+	it('allows an empty body when requested', async () => {
+		const request = new Request('https://example.com/clusters/abc/mark-fixed', { method: 'POST', body: '' });
+		const result = await parseJsonBody(request, markFixedSchema, { allowEmpty: true });
+		expect(result).toEqual({ ok: true, value: {} });
+	});
+});
@@ -0,0 +1,229 @@
+import { env, fetchMock, createExecutionContext } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import worker from '../src/index';
+import { MemoryVectorIndex, vectorizeIndex, withOwnWrites, clusterVectorId, clusterIdFromVector, feedbackVectorId } from '../src/vectors';
+import type { VectorIndex, VectorRecord } from '../src/vectors';
+import type { TriageMessage } from '../src/queue';
+
+// Vectorize binding over an in-memory index the test can look into
+function memoryBinding(index: MemoryVectorIndex): Vectorize {
+	return {
+		async query(vector: number[], options: { topK: number; namespace: string; filter?: { kind: 'cluster' | 'feedback' } }) {
+			const matches = await index.query(vector, { namespace: options.namespace, topK: options.topK, kind: options.filter?.kind });
+			return { count: matches.length, matches };
+		},
+		async upsert(records: VectorRecord[]) {
+			await index.upsert(records);
+		},
+		async getByIds(ids: string[]) {
+			return index.getByIds(ids);
+		},
+		async deleteByIds(ids: string[]) {
+			await index.deleteByIds(ids);
+		}
+	} as unknown as Vectorize;
+}
+
+describe('memory vector index', () => {
+	it('returns the top k of a namespace and kind, nearest first', async () => {
+		const index = new MemoryVectorIndex();
+		await index.upsert([
+			{ id: clusterVectorId('a'), values: [1, 0], namespace: 'mobile', metadata: { kind: 'cluster' } },
+			{ id: clusterVectorId('b'), values: [1, 1], namespace: 'mobile', metadata: { kind: 'cluster' } },
+			{ id: clusterVectorId('c'), values: [0, 1], namespace: 'mobile', metadata: { kind: 'cluster' } },
+			{ id: clusterVectorId('d'), values: [1, 0], namespace: 'web', metadata: { kind: 'cluster' } },
+			{ id: 'feedback:f1', values: [1, 0], namespace: 'mobile', metadata: { kind: 'feedback' } }
+		]);
+
+		const matches = await index.query([1, 0.1], { namespace: 'mobile', kind: 'cluster', topK: 2 });
+		expect(matches.map(match => clusterIdFromVector(match.id))).toEqual(['a', 'b']);
+		expect(matches[0].score).toBeCloseTo(0.995, 3);
+		expect(clusterIdFromVector('feedback:f1')).toBeNull();
+	});
+
+	it('replaces on upsert and forgets deleted ids', async () => {
+		const index = new MemoryVectorIndex();
+		await index.upsert([{ id: 'cluster:a', values: [1, 0], namespace: 'default', metadata: { kind: 'cluster' } }]);
+		await index.upsert([{ id: 'cluster:a', values: [0, 1], namespace: 'default', metadata: { kind: 'cluster' } }]);
+		expect((await index.getByIds(['cluster:a', 'cluster:missing']))[0].values).toEqual([0, 1]);
+
+		await index.deleteByIds(['cluster:a']);
+		expect(index.size).toBe(0);
+	});
+
+	it('reads back its own writes before the index applies them', async () => {
+		// An index that has not applied anything yet
+		const lagging: VectorIndex = { async query() { return []; }, async upsert() {}, async getByIds() { return []; }, async deleteByIds() {} };
+		const index = withOwnWrites(lagging);
+		await index.upsert([{ id: 'cluster:a', values: [1, 0], namespace: 'default', metadata: { kind: 'cluster' } }]);
+
+		expect(await index.query([1, 0], { namespace: 'default', kind: 'cluster', topK: 5 })).toEqual([{ id: 'cluster:a', score: 1 }]);
+		expect((await index.getByIds(['cluster:a', 'cluster:b'])).map(record => record.id)).toEqual(['cluster:a']);
+	});
+});
+
+describe('vectorize adapter', () => {
+	it('filters by kind in the workspace namespace and fetches ids in small batches', async () => {
+		const calls: unknown[][] = [];
+		const binding = {
+			async query(...args: unknown[]) {
+				calls.push(['query', ...args]);
+				return { count: 1, matches: [{ id: 'cluster:a', score: 0.9 }] };
+			},
+			async getByIds(ids: string[]) {
+				calls.push(['getByIds', ids.length]);
+				return ids.map(id => ({ id, values: new Float32Array([0.5, 0.5]), namespace: 'mobile', metadata: { kind: 'cluster' } }));
+			}
+		} as unknown as Vectorize;
+		const index = vectorizeIndex(binding);
+
+		expect(await index.query([1, 0], { namespace: 'mobile', kind: 'cluster', topK: 5 })).toEqual([{ id: 'cluster:a', score: 0.9 }]);
+		const records = await index.getByIds(Array.from({ length: 25 }, (_, i) => `cluster:${i}`));
+		expect(records[0]).toEqual({ id: 'cluster:0', values: [0.5, 0.5], namespace: 'mobile', metadata: { kind: 'cluster' } });
+		expect(calls).toEqual([
+			['query', [1, 0], { topK: 5, namespace: 'mobile', filter: { kind: 'cluster' } }],
+			['getByIds', 20],
+			['getByIds', 5]
+		]);
+	});
+});
+
+describe('clustering against the index', () => {
+	const vectors = new MemoryVectorIndex();
+	const localEnv = { ...env, ADMIN_API_KEY: 'admin-test-key', VECTOR_INDEX: memoryBinding(vectors) } as unknown as Env;
+	const now = Date.now();
+	const day = 24 * 3600000;
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	// As the triage pipeline leaves it: the embedding in the index, or in D1 for feedback from before the index
+	async function insertFeedback(id: string, content: string, embedding: number[], category: string, stored: 'index' | 'd1' = 'index') {
+		await env.DB.prepare(
+			`INSERT INTO feedback (id, workspace_id, content, source, timestamp, processed, instant_alert_sent, embedding,
+			classification_severity, classification_category, classification_confidence, classification_summary, classification_model,
+			classification_prompt_version, classified_at)
+			VALUES (?, 'default', ?, 'support', ?, 0, 0, ?, 'P2', ?, 0.9, ?, '@cf/meta/llama-3.1-8b-instruct', 'v2', ?)`
+		).bind(id, content, now, stored === 'd1' ? JSON.stringify(embedding) : null, category, content, now).run();
+		if (stored === 'index') {
+			await vectors.upsert([{ id: feedbackVectorId(id), values: embedding, namespace: 'default', metadata: { kind: 'feedback' } }]);
+		}
+	}
+
+	async function runDigest() {
+		const response = await worker.fetch(
+			new Request('https://example.com/run', { method: 'POST', headers: { Authorization: 'Bearer admin-test-key' } }),
+			localEnv,
+			createExecutionContext()
+		);
+		expect(response.status).toBe(200);
+	}
+
+	async function clusterOf(feedbackId: string) {
+		return env.DB.prepare(
+			'SELECT c.cluster_id, c.count, c.centroid FROM cluster_members cm JOIN clusters c ON c.cluster_id = cm.cluster_id WHERE cm.feedback_id = ?'
+		).bind(feedbackId).first<{ cluster_id: string; count: number; centroid: string | null }>();
+	}
+
+	// Storage is reset between tests, so both digests run in one
+	it('joins the nearest centroid across runs and moves D1 centroids and embeddings into the index', async () => {
+		await env.DB.prepare(
+			`INSERT INTO clusters (cluster_id, workspace_id, title, category, severity, centroid, count, first_seen, last_seen,
+			representative_feedback_id, representative_feedback, top_sources) VALUES ('cl-legacy', 'default', 'Sync', 'performance', 'P2', '[0,0,1]', 3, ?, ?, NULL, 'Sync is slow', '["support"]')`
+		).bind(now - 3600000, now - 3600000).run();
+		await insertFeedback('fb-export-1', 'CSV export button does nothing', [1, 0, 0], 'bug');
+		await insertFeedback('fb-export-2', 'Export to CSV silently fails', [0.99, 0.05, 0], 'bug');
+		await insertFeedback('fb-dark', 'Please add a dark theme', [0, 1, 0], 'feature_request');
+		await insertFeedback('fb-sync', 'Syncing takes minutes', [0, 0.02, 1], 'performance', 'd1');
+		await runDigest();
+
+		const exported = await clusterOf('fb-export-1');
+		expect(await clusterOf('fb-export-2')).toEqual(exported);
+		expect(exported).toMatchObject({ count: 2, centroid: null });
+		expect((await clusterOf('fb-dark'))?.cluster_id).not.toBe(exported?.cluster_id);
+		expect(await clusterOf('fb-sync')).toEqual({ cluster_id: 'cl-legacy', count: 4, centroid: null });
+		expect((await vectors.getByIds([feedbackVectorId('fb-sync')]))[0]?.values).toEqual([0, 0.02, 1]);
+		expect(await env.DB.prepare("SELECT embedding FROM feedback WHERE id = 'fb-sync'").first('embedding')).toBeNull();
+
+		// The next digest finds the centroid in the index, not in D1
+		await insertFeedback('fb-export-3', 'Exporting a report gives an empty file', [0.97, 0.1, 0.02], 'bug');
+		await runDigest();
+		expect(await clusterOf('fb-export-3')).toMatchObject({ cluster_id: exported?.cluster_id, count: 3 });
+
+		const assignment = await worker.fetch(
+			new Request('https://example.com/feedback/fb-export-3/assignment', { headers: { Authorization: 'Bearer admin-test-key' } }),
+			localEnv,
+			createExecutionContext()
+		);
+		expect(await assignment.json()).toMatchObject({
+			assigned: true,
+			cluster: { cluster_id: exported?.cluster_id, count: 3 },
+			method: 'embedding',
+			similarity: expect.closeTo(0.995, 2),
+			threshold: 0.86,
+			runner_ups: [{ method: 'embedding', title: 'Feature_request Issue' }, { cluster_id: 'cl-legacy', method: 'embedding', title: 'Sync' }]
+		});
+		expect(await env.DB.prepare("SELECT match_method FROM cluster_members WHERE feedback_id = 'fb-dark'").first('match_method')).toBe('new_cluster');
+	});
+
+	it('looks past the centroids of clusters outside the lookback window', async () => {
+		// More stale centroids than clustering.topK (10), all nearer than the live cluster's
+		await vectors.upsert(Array.from({ length: 12 }, (_, i) => (
+			{ id: clusterVectorId(`cl-stale-${i}`), values: [1, 0, 0], namespace: 'default', metadata: { kind: 'cluster' as const } }
+		)));
+		await vectors.upsert([{ id: clusterVectorId('cl-live'), values: [0.9, 0.1, 0], namespace: 'default', metadata: { kind: 'cluster' } }]);
+		await env.DB.batch([
+			...Array.from({ length: 12 }, (_, i) => env.DB.prepare(
+				`INSERT INTO clusters (cluster_id, workspace_id, title, category, severity, count, first_seen, last_seen, representative_feedback, top_sources)
+				VALUES (?, 'default', 'Old export bug', 'bug', 'P2', 1, ?, ?, 'Export broke', '["support"]')`
+			).bind(`cl-stale-${i}`, now - 30 * day, now - 30 * day)),
+			env.DB.prepare(
+				`INSERT INTO clusters (cluster_id, workspace_id, title, category, severity, count, first_seen, last_seen, representative_feedback, top_sources)
+				VALUES ('cl-live', 'default', 'Downloads', 'bug', 'P2', 1, ?, ?, 'Spreadsheet download is stuck', '["support"]')`
+			).bind(now - day, now - day)
+		]);
+		await insertFeedback('fb-export-4', 'CSV export hangs', [1, 0, 0], 'bug');
+		await runDigest();
+
+		expect(await clusterOf('fb-export-4')).toMatchObject({ cluster_id: 'cl-live', count: 2 });
+		expect(await env.DB.prepare("SELECT match_method FROM cluster_members WHERE feedback_id = 'fb-export-4'").first('match_method')).toBe('embedding');
+	});
+});
+
+describe('triage embeddings', () => {
+	it('stores the embedding in the index, not in D1', async () => {
+		const vectors = new MemoryVectorIndex();
+		const queueEnv = {
+			...env,
+			ADMIN_API_KEY: 'admin-test-key',
+			VECTOR_INDEX: memoryBinding(vectors),
+			AI: {
+				async run(_model: string, input: { text?: string }) {
+					return input.text
+						? { data: [[0.6, 0.8, 0]] }
+						: { response: '{"category":"feature_request","severity":"P3","confidence":0.9,"one_line_summary":"Wants a dark theme"}' };
+				}
+			}
+		} as unknown as Env;
+		const now = Date.now();
+		await env.DB.prepare(
+			`INSERT INTO feedback (id, workspace_id, content, source, timestamp, processed, instant_alert_sent, pipeline_status)
+			VALUES ('fb-theme', 'default', 'Please add a dark theme', 'support', ?, 0, 0, 'queued')`
+		).bind(now).run();
+		const message = { id: 'm-1', timestamp: new Date(now), body: { feedback_id: 'fb-theme', enqueued_at: now }, attempts: 1, ack() {}, retry() {} };
+		await worker.queue!({ queue: 'triage', messages: [message], ackAll() {}, retryAll() {} } as unknown as MessageBatch<TriageMessage>, queueEnv, {} as ExecutionContext);
+
+		expect((await vectors.getByIds([feedbackVectorId('fb-theme')]))[0]).toMatchObject({ values: [0.6, 0.8, 0], namespace: 'default', metadata: { kind: 'feedback' } });
+		expect(await env.DB.prepare("SELECT embedding, pipeline_status FROM feedback WHERE id = 'fb-theme'").first())
+			.toEqual({ embedding: null, pipeline_status: 'done' });
+
+		const status = await worker.fetch(
+			new Request('https://example.com/feedback/fb-theme/status', { headers: { Authorization: 'Bearer admin-test-key' } }),
+			queueEnv,
+			createExecutionContext()
+		);
+		expect(await status.json()).toMatchObject({ steps: { classified: true, embedded: true } });
+	});
+});
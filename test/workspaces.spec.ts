@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { parseWorkspacePath, applyWorkspaceSettings, validateWorkspaceSettings, isDigestDue } from '../src/workspaces';
+import { workspaceFromAddress } from '../src/email';
+import { getConfig } from '../src/config';
+
+describe('workspace paths', () => {
+	it('splits the /w/<id> prefix off the route', () => {
+		expect(parseWorkspacePath('/w/Mobile/feedback')).toEqual({ workspaceId: 'mobile', path: '/feedback' });
+		expect(parseWorkspacePath('/w/web')).toEqual({ workspaceId: 'web', path: '/' });
+		expect(parseWorkspacePath('/feedback')).toEqual({ workspaceId: null, path: '/feedback' });
+	});
+
+	it('picks the workspace from a plus-addressed support inbox', () => {
+		expect(workspaceFromAddress('support+Mobile@company.com')).toBe('mobile');
+		expect(workspaceFromAddress('support@company.com')).toBeNull();
+	});
+});
+
+describe('workspace settings', () => {
+	it('overrides only the keys a workspace sets', () => {
+		const base = getConfig();
+		const config = applyWorkspaceSettings(base, {
+			telegram: { chatId: '-100123' },
+			digest: { hour: 7 },
+			priorityThresholds: { p0: 80 }
+		});
+
+		expect(config.telegram.chatId).toBe('-100123');
+		expect(config.telegram.botToken).toBe(base.telegram.botToken);
+		expect(config.digest.hour).toBe(7);
+		expect(config.digest.timezone).toBe(base.digest.timezone);
+		expect(config.priorityThresholds).toEqual({ ...base.priorityThresholds, p0: 80 });
+		expect(config.clustering).toEqual(base.clustering);
+	});
+
+	it('rejects unknown keys, bad ranges and bad timezones', () => {
+		const result = validateWorkspaceSettings({
+			digest: { hour: 24, timezone: 'Mars/Olympus' },
+			clustering: { similarity: 0.8 },
+			colors: {}
+		});
+
+		expect(result.ok).toBe(false);
+		if (result.ok) return;
+		expect(result.errors.map(e => `${e.field}:${e.code}`).sort()).toEqual([
+			'settings.clustering.similarity:invalid_enum',
+			'settings.colors:invalid_enum',
+			'settings.digest.hour:out_of_range',
+			'settings.digest.timezone:invalid_format'
+		]);
+	});
+
+	it('takes notification destinations as a list of ids', () => {
+		const valid = validateWorkspaceSettings({ notifications: { digest: ['default', 'pm-slack', 'pm-slack'] } });
+		expect(valid).toEqual({ ok: true, settings: { notifications: { digest: ['default', 'pm-slack'] } } });
+
+		const invalid = validateWorkspaceSettings({ notifications: { alerts: 'pm-slack' } });
+		expect(invalid.ok).toBe(false);
+	});
+});
+
+describe('scheduled digests', () => {
+	// 16:30 UTC = 09:30 in Los Angeles (PDT), 18:30 in Berlin (CEST)
+	const now = new Date('2026-06-01T16:30:00Z');
+
+	it('is due in the workspace\'s local digest hour', () => {
+		expect(isDigestDue(now, 'America/Los_Angeles', 9, null)).toBe(true);
+		expect(isDigestDue(now, 'Europe/Berlin', 9, null)).toBe(false);
+	});
+
+	it('runs at most once a day', () => {
+		expect(isDigestDue(now, 'America/Los_Angeles', 9, now.getTime() - 30 * 60000)).toBe(false);
+		expect(isDigestDue(now, 'America/Los_Angeles', 9, now.getTime() - 24 * 3600000)).toBe(true);
+	});
+});
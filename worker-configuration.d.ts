@@ -8,8 +8,16 @@ declare namespace Cloudflare {
 	interface Env {
 		DB: D1Database;
 		AI: Ai;
+		TRIAGE_QUEUE: Queue;
+		SEND_EMAIL: SendEmail;
 		TELEGRAM_BOT_TOKEN: string;
 		TELEGRAM_CHAT_ID: string;
+		TELEGRAM_WEBHOOK_SECRET: string;
+		TELEGRAM_API_URL: string;
+		GITHUB_WEBHOOK_SECRET: string;
+		DISCORD_WEBHOOK_SECRET: string;
+		ADMIN_API_KEY: string;
+		VECTOR_INDEX: Vectorize;
 	}
 }
 interface Env extends Cloudflare.Env {}